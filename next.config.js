@@ -1,3 +1,17 @@
+// public/sw.js is generated by next-pwa on every production build; never edit
+// it by hand. Extra worker code lives in the public/sw-*.js files it imports.
+const withPWA = require('@ducanh2912/next-pwa').default({
+  dest: 'public',
+  // src/lib/service-worker.ts registers the worker and prompts for updates
+  register: false,
+  disable: process.env.NODE_ENV === 'development',
+  workboxOptions: {
+    // A new version waits until the user accepts the update (sw-update.js)
+    skipWaiting: false,
+    importScripts: ['/sw-outbox.js', '/sw-reminders.js', '/sw-update.js', '/sw-share-target.js'],
+  },
+})
+
 /** @type {import('next').NextConfig} */
 const nextConfig = {
   output: 'export',
@@ -9,9 +23,13 @@ const nextConfig = {
   },
   assetPrefix: undefined,
   basePath: '',
+  // Build version shown in the release notes after an update
+  env: {
+    NEXT_PUBLIC_APP_VERSION: require('./package.json').version,
+  },
   experimental: {
     missingSuspenseWithCSRBailout: false,
   }
 }
 
-module.exports = nextConfig
\ No newline at end of file
+module.exports = withPWA(nextConfig)
\ No newline at end of file
@@ -0,0 +1,89 @@
+// public/sw-outbox.js
+//
+// Imported by sw.js. Replays sync uploads the app queued while offline
+// (src/lib/sync/outbox.ts) when Background Sync reports the connection is
+// back, even if the app is closed. Bodies are already encrypted and are sent
+// as-is; the next sync in the app merges anything that conflicted.
+
+const OUTBOX_DB_NAME = 'herflowstate-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'requests';
+const OUTBOX_SYNC_TAG = 'herflow-outbox';
+const OUTBOX_UPDATED_MESSAGE = 'outbox-updated';
+
+const openOutbox = () =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      store.createIndex('profileId', 'profileId', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const runOutboxTransaction = (db, mode, action) =>
+  new Promise((resolve, reject) => {
+    const tx = db.transaction(OUTBOX_STORE, mode);
+    const result = action(tx.objectStore(OUTBOX_STORE));
+    tx.oncomplete = () => resolve(result && 'result' in result ? result.result : undefined);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+const notifyClients = async () => {
+  const clients = await self.clients.matchAll({ includeUncontrolled: true });
+  clients.forEach((client) => client.postMessage({ type: OUTBOX_UPDATED_MESSAGE }));
+};
+
+/**
+ * Send every pending upload once. Rejects when the network is still down,
+ * so the browser schedules another attempt.
+ */
+const replayOutbox = async () => {
+  const db = await openOutbox();
+  let offline = false;
+
+  try {
+    const entries = await runOutboxTransaction(db, 'readonly', (store) => store.getAll());
+    const pending = entries.filter((entry) => entry.state === 'pending');
+
+    for (const entry of pending) {
+      let response;
+      try {
+        response = await fetch(entry.url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: entry.body,
+        });
+      } catch (err) {
+        offline = true;
+        break;
+      }
+
+      const body = await response.json().catch(() => null);
+      if (response.ok && body && body.accepted && body.accepted.length > 0) {
+        await runOutboxTransaction(db, 'readwrite', (store) => store.delete(entry.id));
+        continue;
+      }
+
+      const lastError = response.ok
+        ? 'Changed on another device; open the app to merge it'
+        : (body && body.error) || `Sync server responded with ${response.status}`;
+      await runOutboxTransaction(db, 'readwrite', (store) =>
+        store.put({ ...entry, state: 'failed', attempts: entry.attempts + 1, lastError })
+      );
+    }
+  } finally {
+    db.close();
+    await notifyClients();
+  }
+
+  if (offline) throw new Error('Sync server is still unreachable');
+};
+
+self.addEventListener('sync', (event) => {
+  if (event.tag === OUTBOX_SYNC_TAG) {
+    event.waitUntil(replayOutbox());
+  }
+});
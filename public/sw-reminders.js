@@ -0,0 +1,29 @@
+// public/sw-reminders.js
+//
+// Imported by sw.js. Opens the check-in page when a reminder notification
+// (src/lib/reminders.ts) or its "Log check-in" action is clicked, reusing an
+// open window of the app when there is one.
+
+const REMINDER_TAG_PREFIX = 'herflow-reminder';
+const ENTRY_PAGE_PATH = '/goal-tracker/entry/';
+
+const openReminderLink = async (url) => {
+  const target = new URL(url, self.location.origin).href;
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  const client = clients.find((candidate) => new URL(candidate.url).origin === self.location.origin);
+
+  if (client) {
+    const navigated = 'navigate' in client ? await client.navigate(target).catch(() => null) : null;
+    return (navigated || client).focus();
+  }
+  return self.clients.openWindow(target);
+};
+
+self.addEventListener('notificationclick', (event) => {
+  const notification = event.notification;
+  if (!notification.tag || notification.tag.indexOf(REMINDER_TAG_PREFIX) !== 0) return;
+
+  notification.close();
+  const url = (notification.data && notification.data.url) || ENTRY_PAGE_PATH;
+  event.waitUntil(openReminderLink(url));
+});
@@ -0,0 +1,50 @@
+// public/sw-share-target.js
+//
+// Imported by sw.js. The app is a static export, so nothing on the server
+// can receive the POST a Web Share Target sends. The worker answers it
+// instead: it keeps the shared file in a cache and redirects to the share
+// page (src/app/goal-tracker/share), which previews and imports it.
+
+const SHARE_TARGET_PATH = '/goal-tracker/share/';
+const SHARED_FILES_CACHE = 'herflow-shared-files';
+const SHARED_FILE_URL = '/goal-tracker/share/shared-file';
+
+const storeSharedFile = async (request) => {
+  try {
+    const formData = await request.formData();
+    const file = formData.get('file');
+    const text = formData.get('text');
+
+    let body = null;
+    let name = '';
+    if (file && typeof file !== 'string') {
+      body = file;
+      name = file.name;
+    } else if (typeof text === 'string' && text.trim()) {
+      // Some apps share a file's contents as text rather than as a file
+      body = text;
+      name = text.trim().charAt(0) === '{' ? 'shared.json' : 'shared.csv';
+    }
+
+    const cache = await caches.open(SHARED_FILES_CACHE);
+    if (!body) {
+      await cache.delete(SHARED_FILE_URL);
+      return Response.redirect(`${SHARE_TARGET_PATH}?shared=empty`, 303);
+    }
+    await cache.put(
+      SHARED_FILE_URL,
+      new Response(body, { headers: { 'X-File-Name': encodeURIComponent(name) } })
+    );
+    return Response.redirect(`${SHARE_TARGET_PATH}?shared=1`, 303);
+  } catch (err) {
+    return Response.redirect(`${SHARE_TARGET_PATH}?shared=error`, 303);
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  if (event.request.method !== 'POST') return;
+  const url = new URL(event.request.url);
+  if (url.origin === self.location.origin && url.pathname === SHARE_TARGET_PATH) {
+    event.respondWith(storeSharedFile(event.request));
+  }
+});
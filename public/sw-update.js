@@ -0,0 +1,11 @@
+// public/sw-update.js
+//
+// Imported by sw.js. A new version installs alongside the running one and
+// waits; the app posts SKIP_WAITING when the user accepts the update
+// (src/lib/service-worker.ts), then reloads once this worker takes control.
+
+self.addEventListener('message', (event) => {
+  if (event.data && event.data.type === 'SKIP_WAITING') {
+    self.skipWaiting();
+  }
+});
@@ -0,0 +1,163 @@
+#!/usr/bin/env node
+// server/sync-server.js
+//
+// Reference sync server for HerFlowState: a small stand-in for a hosted
+// backend, so several devices (or browser profiles) can sync on one machine.
+// It stores record payloads as-is and never merges them; clients merge field
+// by field and push again when a push is rejected as a conflict. Payloads are
+// end-to-end encrypted and keys are opaque ids, so all the server can see is
+// how many records a space has and when they changed.
+//
+//   npm run sync-server                         # in memory, port 8787
+//   npm run sync-server -- --port 9000 --data ./sync-data.json
+//
+// GET  /v1/spaces/:space/changes?since=<seq>   -> { changes, cursor, hasMore }
+// POST /v1/spaces/:space/changes               <- { deviceId, changes: [{ key, baseSeq, payload }] }
+//                                              -> { accepted: [{ key, seq }], conflicts: [key] }
+
+const http = require('http');
+const fs = require('fs');
+
+const PAGE_SIZE = 500;
+const MAX_BODY_BYTES = 5 * 1024 * 1024;
+const SPACE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+const ROUTE_PATTERN = /^\/v1\/spaces\/([^/]+)\/changes$/;
+
+const readOption = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? process.argv[index + 1] : fallback;
+};
+
+const port = Number(readOption('port', process.env.SYNC_PORT || 8787));
+const dataFile = readOption('data', process.env.SYNC_DATA_FILE || '');
+
+// spaceId -> { seq, records: { key -> { seq, payload, deviceId, receivedAt } } }
+let spaces = {};
+if (dataFile && fs.existsSync(dataFile)) {
+  spaces = JSON.parse(fs.readFileSync(dataFile, 'utf8'));
+  console.log(`Loaded ${Object.keys(spaces).length} space(s) from ${dataFile}`);
+}
+
+let saveTimer = null;
+const scheduleSave = () => {
+  if (!dataFile || saveTimer) return;
+  saveTimer = setTimeout(() => {
+    saveTimer = null;
+    fs.writeFileSync(dataFile, JSON.stringify(spaces));
+  }, 500);
+};
+
+const getSpace = (spaceId) => {
+  if (!spaces[spaceId]) spaces[spaceId] = { seq: 0, records: {} };
+  return spaces[spaceId];
+};
+
+const send = (res, status, body) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type',
+  });
+  res.end(body === undefined ? '' : JSON.stringify(body));
+};
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    let size = 0;
+    const chunks = [];
+    req.on('data', (chunk) => {
+      size += chunk.length;
+      if (size > MAX_BODY_BYTES) {
+        reject(new Error('Request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    req.on('error', reject);
+  });
+
+const pull = (space, since) => {
+  const changes = Object.keys(space.records)
+    .map((key) => ({ key, seq: space.records[key].seq, payload: space.records[key].payload }))
+    .filter((change) => change.seq > since)
+    .sort((a, b) => a.seq - b.seq);
+
+  const page = changes.slice(0, PAGE_SIZE);
+  const hasMore = changes.length > PAGE_SIZE;
+  return { changes: page, cursor: hasMore ? page[page.length - 1].seq : Math.max(since, space.seq), hasMore };
+};
+
+const push = (space, deviceId, changes) => {
+  const accepted = [];
+  const conflicts = [];
+
+  changes.forEach((change) => {
+    const current = space.records[change.key];
+    if ((current ? current.seq : 0) !== change.baseSeq) {
+      conflicts.push(change.key);
+      return;
+    }
+    space.seq += 1;
+    space.records[change.key] = {
+      seq: space.seq,
+      payload: change.payload,
+      deviceId,
+      receivedAt: new Date().toISOString(),
+    };
+    accepted.push({ key: change.key, seq: space.seq });
+  });
+
+  if (accepted.length > 0) scheduleSave();
+  return { accepted, conflicts };
+};
+
+const isValidChange = (change) =>
+  change &&
+  typeof change.key === 'string' &&
+  change.key.length > 0 &&
+  Number.isInteger(change.baseSeq) &&
+  change.baseSeq >= 0 &&
+  change.payload !== undefined;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, 'http://localhost');
+
+  if (req.method === 'OPTIONS') return send(res, 204);
+  if (url.pathname === '/health') return send(res, 200, { ok: true });
+
+  const match = ROUTE_PATTERN.exec(url.pathname);
+  if (!match) return send(res, 404, { error: 'Not found' });
+
+  const spaceId = decodeURIComponent(match[1]);
+  if (!SPACE_ID_PATTERN.test(spaceId)) return send(res, 400, { error: 'Invalid space id' });
+  const space = getSpace(spaceId);
+
+  try {
+    if (req.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      if (!Number.isInteger(since) || since < 0) return send(res, 400, { error: 'Invalid cursor' });
+      return send(res, 200, pull(space, since));
+    }
+
+    if (req.method === 'POST') {
+      const body = JSON.parse(await readBody(req));
+      if (!Array.isArray(body.changes) || !body.changes.every(isValidChange)) {
+        return send(res, 400, { error: 'Invalid changes' });
+      }
+      const result = push(space, String(body.deviceId || 'unknown'), body.changes);
+      console.log(`${spaceId}: ${result.accepted.length} accepted, ${result.conflicts.length} conflicts`);
+      return send(res, 200, result);
+    }
+
+    return send(res, 405, { error: 'Method not allowed' });
+  } catch (err) {
+    return send(res, 400, { error: err.message || 'Bad request' });
+  }
+});
+
+server.listen(port, () => {
+  console.log(`HerFlowState sync server listening on http://localhost:${port}${dataFile ? ` (saving to ${dataFile})` : ''}`);
+});
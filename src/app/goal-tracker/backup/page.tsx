@@ -0,0 +1,374 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  ArrowLeft, Download, Upload, ShieldCheck, AlertCircle, CheckCircle, Eye, RefreshCw, GitMerge, Lock
+} from 'lucide-react';
+import Link from 'next/link';
+import {
+  BackupBundle, BackupStoreName, BackupValidationIssue, RestoreReport, RestoreStrategy
+} from '@/types/backup';
+import {
+  BACKUP_STORES,
+  BackupValidationError,
+  createBackup,
+  decryptBackup,
+  encryptBackup,
+  getBackupFileName,
+  isEncryptedBackup,
+  parseBackup,
+  restoreBackup,
+  serializeBackup
+} from '@/lib/backup';
+import { DecryptionError } from '@/lib/crypto';
+
+// Backups leave the device, so their passphrase gets a higher floor than the app passcode
+const MIN_BACKUP_PASSPHRASE_LENGTH = 8;
+
+const STORE_LABELS: Record<BackupStoreName, string> = {
+  moodEntries: 'Mood entries',
+  goals: 'Goals',
+  goalProgress: 'Goal progress',
+  settings: 'Settings',
+  operations: 'Change history',
+};
+
+const BackupRestorePage: React.FC = () => {
+  const [bundle, setBundle] = useState<BackupBundle | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [issues, setIssues] = useState<BackupValidationIssue[]>([]);
+  const [preview, setPreview] = useState<RestoreReport | null>(null);
+  const [result, setResult] = useState<RestoreReport | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [encryptExport, setEncryptExport] = useState(false);
+  const [exportPassphrase, setExportPassphrase] = useState('');
+  const [encryptedFile, setEncryptedFile] = useState<string | null>(null);
+  const [restorePassphrase, setRestorePassphrase] = useState('');
+
+  const handleExport = async () => {
+    setIsWorking(true);
+    try {
+      const backup = await createBackup();
+      const json = serializeBackup(backup);
+      const content = encryptExport ? await encryptBackup(json, exportPassphrase) : json;
+      const blob = new Blob([content], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = getBackupFileName(backup, encryptExport);
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error creating backup:', err);
+      setError('Failed to create backup. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const loadBackup = async (json: string) => {
+    setIsWorking(true);
+
+    try {
+      const parsed = await parseBackup(json);
+      setBundle(parsed);
+      // Always show a dry run before anything is written
+      setPreview(await restoreBackup(parsed, 'dry-run'));
+    } catch (err) {
+      if (err instanceof BackupValidationError) {
+        setIssues(err.issues);
+      } else {
+        console.error('Error reading backup:', err);
+        setError('Failed to read backup file.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleFileSelected = async (file: File) => {
+    setFileName(file.name);
+    setBundle(null);
+    setIssues([]);
+    setPreview(null);
+    setResult(null);
+    setError(null);
+    setEncryptedFile(null);
+    setRestorePassphrase('');
+
+    const text = await file.text();
+    if (isEncryptedBackup(text)) {
+      setEncryptedFile(text);
+      return;
+    }
+    await loadBackup(text);
+  };
+
+  const handleDecrypt = async () => {
+    if (!encryptedFile) return;
+    setError(null);
+    setIsWorking(true);
+
+    try {
+      const json = await decryptBackup(encryptedFile, restorePassphrase);
+      setEncryptedFile(null);
+      await loadBackup(json);
+    } catch (err) {
+      if (err instanceof DecryptionError) {
+        setError('That passphrase does not open this backup.');
+      } else if (err instanceof BackupValidationError) {
+        setIssues(err.issues);
+      } else {
+        console.error('Error decrypting backup:', err);
+        setError('Failed to read backup file.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRestore = async (strategy: RestoreStrategy) => {
+    if (!bundle) return;
+    if (strategy === 'replace' && !window.confirm('Replace all of your current data with this backup? This cannot be undone.')) {
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      setResult(await restoreBackup(bundle, strategy));
+      setPreview(null);
+    } catch (err) {
+      console.error('Error restoring backup:', err);
+      setError('Failed to restore backup. Your data was not changed.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderChanges = (report: RestoreReport) => {
+    const strategies = (['merge', 'replace'] as RestoreStrategy[]).filter(strategy => report.changes[strategy]);
+
+    return (
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-500 border-b border-gray-200">
+            <th className="py-2 font-medium">Store</th>
+            {strategies.map(strategy => (
+              <th key={strategy} className="py-2 font-medium capitalize">{strategy}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {BACKUP_STORES.map(store => (
+            <tr key={store} className="border-b border-gray-100">
+              <td className="py-2 text-gray-700">{STORE_LABELS[store]}</td>
+              {strategies.map(strategy => {
+                const summary = report.changes[strategy]![store];
+                return (
+                  <td key={strategy} className="py-2 text-gray-600">
+                    <span className="text-green-700">+{summary.added}</span>
+                    {' · '}
+                    <span className="text-blue-700">~{summary.updated}</span>
+                    {' · '}
+                    <span className="text-red-700">−{summary.removed}</span>
+                    <span className="text-gray-400"> ({summary.unchanged} same)</span>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-4xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Backup &amp; Restore</h1>
+            <p className="text-gray-600 mt-2">Mood entries, goals, progress, settings and history in one file</p>
+          </div>
+
+          <Link
+            href="/goal-tracker/security"
+            className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+            title="Passcode & encryption"
+          >
+            <ShieldCheck className="w-6 h-6" />
+          </Link>
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {/* Export */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <div className="flex items-center justify-between">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">Create a backup</h2>
+              <p className="text-sm text-gray-600">Includes a manifest with record counts and checksums for every store.</p>
+            </div>
+            <button
+              onClick={handleExport}
+              disabled={isWorking || (encryptExport && exportPassphrase.length < MIN_BACKUP_PASSPHRASE_LENGTH)}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              Download Backup
+            </button>
+          </div>
+
+          <div className="mt-4 flex flex-wrap items-center gap-3">
+            <label className="flex items-center space-x-2 text-sm text-gray-700">
+              <input type="checkbox" checked={encryptExport} onChange={(e) => setEncryptExport(e.target.checked)} />
+              <Lock className="w-4 h-4" />
+              <span>Encrypt with a passphrase</span>
+            </label>
+            {encryptExport && (
+              <input
+                type="password"
+                value={exportPassphrase}
+                onChange={(e) => setExportPassphrase(e.target.value)}
+                placeholder={`Backup passphrase (${MIN_BACKUP_PASSPHRASE_LENGTH}+ characters)`}
+                autoComplete="new-password"
+                className="flex-1 min-w-[16rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+            )}
+          </div>
+          {encryptExport && (
+            <p className="text-xs text-gray-500 mt-2">
+              Without this passphrase the backup cannot be restored — it is not stored anywhere.
+            </p>
+          )}
+        </div>
+
+        {/* Restore */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Restore from a backup</h2>
+            <p className="text-sm text-gray-600">
+              The file is validated and previewed first; nothing changes until you choose merge or replace.
+            </p>
+          </div>
+
+          <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 transition-colors">
+            <Upload className="w-5 h-5 text-gray-500 mr-2" />
+            <span className="text-gray-700">{fileName || 'Choose a backup file (.json)'}</span>
+            <input
+              type="file"
+              accept="application/json,.json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileSelected(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {encryptedFile && (
+            <div className="flex flex-wrap items-center gap-3">
+              <Lock className="w-4 h-4 text-indigo-600" />
+              <span className="text-sm text-gray-700">This backup is encrypted.</span>
+              <input
+                type="password"
+                value={restorePassphrase}
+                onChange={(e) => setRestorePassphrase(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleDecrypt()}
+                placeholder="Backup passphrase"
+                autoComplete="off"
+                className="flex-1 min-w-[12rem] px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <button
+                onClick={handleDecrypt}
+                disabled={isWorking || restorePassphrase === ''}
+                className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                Unlock backup
+              </button>
+            </div>
+          )}
+
+          {issues.length > 0 && (
+            <div className="p-4 bg-red-50 border border-red-200 rounded-lg">
+              <div className="flex items-center space-x-2 mb-2">
+                <AlertCircle className="w-5 h-5 text-red-600" />
+                <span className="font-medium text-red-800">
+                  This backup was rejected ({issues.length} problem{issues.length === 1 ? '' : 's'})
+                </span>
+              </div>
+              <ul className="space-y-1 text-sm text-red-800 max-h-64 overflow-y-auto">
+                {issues.map((issue, index) => (
+                  <li key={index}>
+                    <code className="bg-red-100 px-1 rounded">{issue.path || '(file)'}</code> {issue.message}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {bundle && preview && (
+            <div className="space-y-4">
+              <div className="flex items-center space-x-2 text-sm text-gray-700">
+                <Eye className="w-4 h-4 text-indigo-600" />
+                <span>
+                  Dry run of a backup from {new Date(bundle.manifest.createdAt).toLocaleString()} (format v{bundle.manifest.formatVersion})
+                </span>
+              </div>
+              {renderChanges(preview)}
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => handleRestore('merge')}
+                  disabled={isWorking}
+                  className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  <GitMerge className="w-4 h-4 mr-2" />
+                  Merge into my data
+                </button>
+                <button
+                  onClick={() => handleRestore('replace')}
+                  disabled={isWorking}
+                  className="flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  Replace my data
+                </button>
+              </div>
+            </div>
+          )}
+
+          {result && (
+            <div className="p-4 bg-green-50 border border-green-200 rounded-lg space-y-3">
+              <div className="flex items-center space-x-2">
+                <CheckCircle className="w-5 h-5 text-green-600" />
+                <span className="text-green-800 capitalize">{result.mode} complete</span>
+              </div>
+              {renderChanges(result)}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BackupRestorePage;
@@ -0,0 +1,118 @@
+'use client';
+
+import React from 'react';
+import { MoodCsvField, CsvImportOptions, CsvDateFormat, RatedField, RatingScale, UnknownFactorPolicy } from '@/types/mood-import';
+import { CSV_DATE_FORMATS, MOOD_CSV_FIELDS, RATED_FIELDS, REQUIRED_CSV_FIELDS } from '@/lib/mood-csv';
+
+interface CsvColumnMapperProps {
+  headers: string[];
+  sampleRow: string[];
+  options: CsvImportOptions;
+  onChange: (options: CsvImportOptions) => void;
+}
+
+// schemaVersion is always set by the importer, so it isn't offered for mapping
+const MAPPABLE_FIELDS = MOOD_CSV_FIELDS.filter(field => field !== 'schemaVersion');
+
+const FIELD_LABELS: Partial<Record<MoodCsvField, string>> = {
+  id: 'Entry ID',
+  updatedAt: 'Last edited',
+  exercise: 'Exercise (minutes)',
+  sleep: 'Sleep (hours)',
+  hydration: 'Hydration (glasses)',
+  unrecordedMetrics: 'Unrecorded metrics',
+};
+
+const getFieldLabel = (field: MoodCsvField) =>
+  FIELD_LABELS[field] || field.charAt(0).toUpperCase() + field.slice(1);
+
+const CsvColumnMapper: React.FC<CsvColumnMapperProps> = ({ headers, sampleRow, options, onChange }) => {
+  const setColumn = (field: MoodCsvField, value: string) => {
+    const mapping = { ...options.mapping };
+    if (value === '') {
+      delete mapping[field];
+    } else {
+      mapping[field] = Number(value);
+    }
+    onChange({ ...options, mapping });
+  };
+
+  const setScale = (field: RatedField, scale: RatingScale) =>
+    onChange({ ...options, scales: { ...options.scales, [field]: scale } });
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        {MAPPABLE_FIELDS.map(field => {
+          const column = options.mapping[field];
+          const isRequired = REQUIRED_CSV_FIELDS.indexOf(field) >= 0;
+          const isRated = (RATED_FIELDS as string[]).indexOf(field) >= 0;
+
+          return (
+            <div key={field} className="flex items-center space-x-3">
+              <label className="w-40 text-sm font-medium text-gray-700">
+                {getFieldLabel(field)}
+                {isRequired && <span className="text-red-500 ml-1">*</span>}
+              </label>
+              <select
+                value={column === undefined ? '' : String(column)}
+                onChange={(e) => setColumn(field, e.target.value)}
+                className={`flex-1 px-2 py-1 border rounded-lg text-sm focus:ring-2 focus:ring-indigo-500 focus:border-transparent ${
+                  isRequired && column === undefined ? 'border-red-300' : 'border-gray-300'
+                }`}
+              >
+                <option value="">— not mapped —</option>
+                {headers.map((header, index) => (
+                  <option key={index} value={index}>
+                    {header || `Column ${index + 1}`}{sampleRow[index] ? ` (e.g. ${sampleRow[index].slice(0, 20)})` : ''}
+                  </option>
+                ))}
+              </select>
+              {isRated && column !== undefined && (
+                <select
+                  value={options.scales[field as RatedField]}
+                  onChange={(e) => setScale(field as RatedField, Number(e.target.value) as RatingScale)}
+                  className="px-2 py-1 border border-gray-300 rounded-lg text-sm"
+                  aria-label={`${getFieldLabel(field)} scale`}
+                >
+                  <option value={10}>1–10</option>
+                  <option value={5}>1–5</option>
+                </select>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Date format</label>
+          <select
+            value={options.dateFormat}
+            onChange={(e) => onChange({ ...options, dateFormat: e.target.value as CsvDateFormat })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            {CSV_DATE_FORMATS.map(format => (
+              <option key={format} value={format}>{format}</option>
+            ))}
+          </select>
+        </div>
+
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Unrecognised factors</label>
+          <select
+            value={options.unknownFactors}
+            onChange={(e) => onChange({ ...options, unknownFactors: e.target.value as UnknownFactorPolicy })}
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+          >
+            <option value="keep">Keep them as custom factors</option>
+            <option value="drop">Drop them</option>
+            <option value="reject">Reject rows that use them</option>
+          </select>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CsvColumnMapper;
@@ -0,0 +1,142 @@
+'use client';
+
+import React, { useMemo } from 'react';
+import { ThumbsUp, ThumbsDown, Tag } from 'lucide-react';
+import {
+  DEFAULT_ANALYTICS_CONFIG,
+  FactorImpact,
+  FactorMetricImpact,
+  MoodEntry,
+  MoodFactorOption
+} from '@/types/mood-tracker';
+import { MoodAnalytics } from '@/lib/mood-analytics';
+
+interface FactorImpactViewProps {
+  entries: MoodEntry[];
+}
+
+const CATEGORY_LABELS: Record<MoodFactorOption['category'], string> = {
+  physical: 'Physical',
+  emotional: 'Emotional',
+  social: 'Social',
+  environmental: 'Environmental',
+  lifestyle: 'Lifestyle',
+};
+
+const CATEGORY_ORDER: MoodFactorOption['category'][] = ['physical', 'emotional', 'social', 'environmental', 'lifestyle'];
+
+const METRIC_LABELS: Record<FactorMetricImpact['metric'], string> = {
+  mood: 'Mood',
+  energy: 'Energy',
+  stress: 'Stress',
+};
+
+const describeImpact = (impact: FactorMetricImpact): string =>
+  `${METRIC_LABELS[impact.metric]} ${impact.withMean.toFixed(1)} vs ${impact.withoutMean.toFixed(1)} · ` +
+  `d ${impact.cohensD.toFixed(2)} (${impact.cohensDInterval[0].toFixed(2)} to ${impact.cohensDInterval[1].toFixed(2)})`;
+
+/**
+ * Factors whose days differ significantly from the rest, split into what
+ * helps and what hurts and grouped by factor category
+ */
+const FactorImpactView: React.FC<FactorImpactViewProps> = ({ entries }) => {
+  const impacts = useMemo(() => new MoodAnalytics(entries).analyzeFactorImpacts(), [entries]);
+
+  if (impacts.length === 0) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Tag className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+        <p>
+          Add factors to your check-ins to see what helps and what hurts. Each factor needs at
+          least {DEFAULT_ANALYTICS_CONFIG.minFactorDays} days with it and {DEFAULT_ANALYTICS_CONFIG.minFactorDays} without.
+        </p>
+      </div>
+    );
+  }
+
+  const renderFactor = (impact: FactorImpact) => (
+    <li key={impact.factor} className="bg-white rounded-lg p-3 border border-gray-100">
+      <div className="flex justify-between text-sm">
+        <span className="font-medium text-gray-900">{impact.label}</span>
+        <span className="text-gray-500">{impact.daysWith} days</span>
+      </div>
+      <ul className="mt-1 space-y-0.5">
+        {impact.metrics.map(metric => (
+          <li key={metric.metric} className={`text-xs ${metric.isSignificant ? 'text-gray-700' : 'text-gray-400'}`}>
+            {describeImpact(metric)}
+          </li>
+        ))}
+      </ul>
+    </li>
+  );
+
+  const renderColumn = (effect: 'helps' | 'hurts') => {
+    // Strongest first: highest score for what helps, lowest for what hurts
+    const ranked = impacts
+      .filter(impact => impact.effect === effect)
+      .sort((a, b) => (effect === 'helps' ? b.score - a.score : a.score - b.score));
+    const isHelps = effect === 'helps';
+
+    return (
+      <div className={`p-4 rounded-xl border ${isHelps ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'}`}>
+        <div className="flex items-center space-x-2 mb-4">
+          {isHelps ? <ThumbsUp className="w-5 h-5 text-green-600" /> : <ThumbsDown className="w-5 h-5 text-red-600" />}
+          <h3 className={`font-semibold ${isHelps ? 'text-green-800' : 'text-red-800'}`}>
+            {isHelps ? 'What helps' : 'What hurts'}
+          </h3>
+        </div>
+
+        {ranked.length === 0 ? (
+          <p className="text-sm text-gray-500">Nothing clear yet.</p>
+        ) : (
+          <div className="space-y-4">
+            {CATEGORY_ORDER
+              .filter(category => ranked.some(impact => impact.category === category))
+              .map(category => (
+                <div key={category}>
+                  <h4 className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">
+                    {CATEGORY_LABELS[category]}
+                  </h4>
+                  <ul className="space-y-2">
+                    {ranked
+                      .filter(impact => impact.category === category)
+                      .map(impact => renderFactor(impact))}
+                  </ul>
+                </div>
+              ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const mixed = impacts.filter(impact => impact.effect === 'mixed');
+  const unclear = impacts.filter(impact => impact.effect === 'unclear');
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        {renderColumn('helps')}
+        {renderColumn('hurts')}
+      </div>
+
+      {mixed.length > 0 && (
+        <div>
+          <h4 className="font-medium text-gray-700 mb-2">Mixed effects</h4>
+          <ul className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            {mixed.map(impact => renderFactor(impact))}
+          </ul>
+        </div>
+      )}
+
+      <p className="text-xs text-gray-500">
+        Days with each factor are compared with days without it (Welch&apos;s t-test, or Mann–Whitney U when
+        either group is small), corrected for the number of comparisons. d is Cohen&apos;s effect size with a 95%
+        bootstrap interval; greyed lines are not significant.
+        {unclear.length > 0 && ` No clear effect yet: ${unclear.map(impact => impact.label).join(', ')}.`}
+      </p>
+    </div>
+  );
+};
+
+export default FactorImpactView;
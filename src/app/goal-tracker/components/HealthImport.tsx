@@ -0,0 +1,212 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { HeartPulse, Moon, Dumbbell, Upload } from 'lucide-react';
+import { MoodEntry } from '@/types/mood-tracker';
+import { HealthConflictPolicy, HealthField, HealthParseResult, HealthUpdateProposal } from '@/types/health-import';
+import { detectHealthSource, parseAppleHealthExport, parseGoogleFitExport, planHealthUpdates } from '@/lib/health-import';
+
+interface HealthImportProps {
+  entries: MoodEntry[];
+  onApply: (proposals: HealthUpdateProposal[]) => Promise<number>;
+}
+
+// How many proposed changes the table lists before summarising the rest
+const PREVIEW_ROWS = 10;
+
+const SOURCE_NAMES = {
+  'apple-health': 'Apple Health',
+  'google-fit': 'Google Fit',
+};
+
+const POLICY_LABELS: Record<HealthConflictPolicy, string> = {
+  keep: 'Keep values I entered (only fill blanks)',
+  overwrite: 'Overwrite with imported values',
+  average: 'Average mine with imported values',
+};
+
+const HealthImport: React.FC<HealthImportProps> = ({ entries, onApply }) => {
+  const [result, setResult] = useState<HealthParseResult | null>(null);
+  const [policy, setPolicy] = useState<HealthConflictPolicy>('keep');
+  const [fields, setFields] = useState<HealthField[]>(['sleep', 'exercise']);
+  const [message, setMessage] = useState<string | null>(null);
+  const [reading, setReading] = useState(false);
+
+  const plan = useMemo(
+    () => (result ? planHealthUpdates(entries, result.days, policy, fields) : null),
+    [entries, result, policy, fields]
+  );
+
+  const handleFiles = async (files: File[]) => {
+    setMessage(null);
+    setResult(null);
+    setReading(true);
+
+    try {
+      const texts = await Promise.all(files.map(file => file.text()));
+      const sources = files.map((file, index) => detectHealthSource(file.name, texts[index]));
+      const appleIndex = sources.indexOf('apple-health');
+
+      if (appleIndex >= 0) {
+        setResult(parseAppleHealthExport(texts[appleIndex]));
+      } else if (sources.indexOf('google-fit') >= 0) {
+        setResult(parseGoogleFitExport(texts.filter((_, index) => sources[index] === 'google-fit')));
+      } else {
+        setMessage('Choose the export.xml from an Apple Health export, or JSON files from the Fit folder of a Google Takeout');
+      }
+    } catch (error) {
+      console.error('Error reading health export:', error);
+      setMessage('Could not read the selected files');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const toggleField = (field: HealthField) =>
+    setFields(prev => (prev.indexOf(field) >= 0 ? prev.filter(f => f !== field) : [...prev, field]));
+
+  const handleApply = async () => {
+    if (!plan) return;
+    const updated = await onApply(plan.proposals);
+    setMessage(`Updated sleep and exercise on ${updated} entr${updated === 1 ? 'y' : 'ies'}`);
+    setResult(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center space-x-2">
+        <HeartPulse className="w-5 h-5 text-indigo-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Sleep &amp; exercise from health apps</h2>
+      </div>
+      <p className="text-sm text-gray-600">
+        Reads Apple Health&apos;s export.xml or the JSON files in a Google Takeout Fit folder. Sleep counts toward the
+        morning you woke up; workouts toward the day they started. Files never leave this device.
+      </p>
+
+      <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 transition-colors">
+        <Upload className="w-5 h-5 text-gray-500 mr-2" />
+        <span className="text-gray-700">{reading ? 'Reading…' : 'Choose export.xml or Fit .json files'}</span>
+        <input
+          type="file"
+          multiple
+          accept=".xml,text/xml,.json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const files = Array.from(e.target.files || []);
+            if (files.length > 0) handleFiles(files);
+            e.target.value = '';
+          }}
+        />
+      </label>
+
+      {message && <p className="text-sm text-gray-700">{message}</p>}
+
+      {result && plan && (
+        <div className="space-y-4">
+          <p className="text-sm text-gray-700">
+            {SOURCE_NAMES[result.source]}: {result.days.length} days with data
+            ({result.sleepRecords} sleep records, {result.workoutRecords} workouts)
+            {result.days.length > 0 && ` from ${result.days[0].date} to ${result.days[result.days.length - 1].date}`}.
+          </p>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">When an entry already has a value</label>
+              <select
+                value={policy}
+                onChange={(e) => setPolicy(e.target.value as HealthConflictPolicy)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {(Object.keys(POLICY_LABELS) as HealthConflictPolicy[]).map(key => (
+                  <option key={key} value={key}>{POLICY_LABELS[key]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <span className="block text-sm font-medium text-gray-700 mb-2">Fields</span>
+              <div className="flex space-x-4">
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={fields.indexOf('sleep') >= 0} onChange={() => toggleField('sleep')} />
+                  <Moon className="w-4 h-4" />
+                  <span>Sleep</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700">
+                  <input type="checkbox" checked={fields.indexOf('exercise') >= 0} onChange={() => toggleField('exercise')} />
+                  <Dumbbell className="w-4 h-4" />
+                  <span>Exercise</span>
+                </label>
+              </div>
+            </div>
+          </div>
+
+          {plan.proposals.length > 0 ? (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b border-gray-200">
+                    {['Date', 'Sleep (h)', 'Exercise (min)'].map(label => (
+                      <th key={label} className="py-2 pr-4 font-medium">{label}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {plan.proposals.slice(0, PREVIEW_ROWS).map(proposal => (
+                    <tr key={proposal.after.id} className="border-b border-gray-100 text-gray-700">
+                      <td className="py-2 pr-4">{proposal.after.date}</td>
+                      {(['sleep', 'exercise'] as HealthField[]).map(field => {
+                        const change = proposal.changes.find(c => c.field === field);
+                        return (
+                          <td key={field} className="py-2 pr-4">
+                            {change ? (
+                              <span>
+                                {change.current} → <span className="font-medium text-indigo-700">{change.next}</span>
+                                {change.next !== change.imported && (
+                                  <span className="text-gray-400"> (imported {change.imported})</span>
+                                )}
+                              </span>
+                            ) : (
+                              <span className="text-gray-400">{proposal.after[field]}</span>
+                            )}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {plan.proposals.length > PREVIEW_ROWS && (
+                <p className="text-xs text-gray-500 mt-2">…and {plan.proposals.length - PREVIEW_ROWS} more</p>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-gray-600">No entries would change with these settings.</p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            {plan.unchanged} entr{plan.unchanged === 1 ? 'y stays' : 'ies stay'} as they are
+            {plan.withoutEntry.length > 0 &&
+              `; ${plan.withoutEntry.length} day${plan.withoutEntry.length === 1 ? ' has' : 's have'} health data but no mood entry and ${plan.withoutEntry.length === 1 ? 'is' : 'are'} skipped`}.
+          </p>
+
+          <div className="flex space-x-3">
+            <button
+              onClick={handleApply}
+              disabled={plan.proposals.length === 0}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              Update {plan.proposals.length} entr{plan.proposals.length === 1 ? 'y' : 'ies'}
+            </button>
+            <button
+              onClick={() => setResult(null)}
+              className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default HealthImport;
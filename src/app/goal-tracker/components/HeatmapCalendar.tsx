@@ -1,23 +1,9 @@
 'use client';
 
-import React, { useState } from 'react';
-
-interface MoodEntry {
-  id: string;
-  timestamp: Date;
-  mood: number;
-  energy: number;
-  stress: number;
-  sleep: number;
-  activities: string[];
-  notes: string;
-  correlationFactors: {
-    weather: string;
-    cycle: string;
-    exercise: boolean;
-    socialActivity: boolean;
-  };
-}
+import React, { useMemo, useState } from 'react';
+import { AnomalousDay, MoodEntry, MOOD_FACTORS } from '@/types/mood-tracker';
+import { rollupDailyEntries } from '@/lib/check-ins';
+import { MoodAnalytics } from '@/lib/mood-analytics';
 
 interface HeatmapCalendarProps {
   entries: MoodEntry[];
@@ -33,6 +19,9 @@ interface CalendarDay {
   hasExercise?: boolean;
   activities?: string[];
   notes?: string;
+  checkIns?: number;
+  moodRange?: [number, number];
+  anomaly?: AnomalousDay;
   isCurrentMonth: boolean;
   isEmpty: boolean;
 }
@@ -58,6 +47,28 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
 
   const dayNames = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
 
+  // Entries are keyed by their YYYY-MM-DD calendar date
+  const toDateKey = (date: Date): string => {
+    const month = String(date.getMonth() + 1).padStart(2, '0');
+    const day = String(date.getDate()).padStart(2, '0');
+    return `${date.getFullYear()}-${month}-${day}`;
+  };
+
+  // Days with several check-ins show their daily rollup
+  const dailyEntries = rollupDailyEntries(entries);
+
+  // Unusual days against each day's rolling baseline, by date
+  const anomaliesByDate = useMemo(
+    () => new Map(new MoodAnalytics(entries).detectAnomalies().map(anomaly => [anomaly.date, anomaly] as [string, AnomalousDay])),
+    [entries]
+  );
+
+  const roundScore = (value?: number): number | undefined =>
+    value === undefined ? undefined : Math.round(value * 10) / 10;
+
+  const getFactorLabel = (factorId: string): string =>
+    MOOD_FACTORS.find(f => f.id === factorId)?.label ?? factorId.replace(/_/g, ' ');
+
   // Get calendar data for current month
   const generateCalendarDays = (): CalendarDay[] => {
     const year = currentDate.getFullYear();
@@ -86,20 +97,22 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
     // Add days of current month
     for (let day = 1; day <= daysInMonth; day++) {
       const date = new Date(year, month, day);
-      const dayEntry = entries.find(entry => 
-        entry.timestamp.toDateString() === date.toDateString()
-      );
+      const dateKey = toDateKey(date);
+      const dayEntry = dailyEntries.find(entry => entry.date === dateKey);
       
       days.push({
         date,
         day,
-        mood: dayEntry?.mood,
-        energy: dayEntry?.energy,
-        stress: dayEntry?.stress,
+        mood: roundScore(dayEntry?.mood),
+        energy: roundScore(dayEntry?.energy),
+        stress: roundScore(dayEntry?.stress),
         sleep: dayEntry?.sleep,
-        hasExercise: dayEntry?.correlationFactors.exercise,
-        activities: dayEntry?.activities,
+        hasExercise: dayEntry ? dayEntry.exercise > 0 : undefined,
+        activities: dayEntry?.factors.map(getFactorLabel),
         notes: dayEntry?.notes,
+        checkIns: dayEntry?.checkIns,
+        moodRange: dayEntry?.moodRange,
+        anomaly: anomaliesByDate.get(dateKey),
         isCurrentMonth: true,
         isEmpty: !dayEntry
       });
@@ -385,7 +398,7 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
               key={index}
               onClick={() => !day.isEmpty && day.isCurrentMonth ? setSelectedDay(day) : null}
               className={`
-                aspect-square rounded-lg flex items-center justify-center text-sm font-medium transition-all
+                relative aspect-square rounded-lg flex items-center justify-center text-sm font-medium transition-all
                 ${getIntensityColor(day)}
                 ${day.isCurrentMonth && !day.isEmpty ? 'hover:ring-2 hover:ring-pink-400 cursor-pointer' : 'cursor-default'}
                 ${!day.isCurrentMonth ? 'opacity-40' : ''}
@@ -397,6 +410,12 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
               <span className={day.isCurrentMonth ? 'text-gray-800' : 'text-gray-400'}>
                 {day.day}
               </span>
+              {day.anomaly && day.isCurrentMonth && (
+                <span
+                  className="absolute top-1 right-1 w-2 h-2 rounded-full bg-red-500"
+                  title={day.anomaly.explanations.join('; ')}
+                />
+              )}
             </button>
           ))}
         </div>
@@ -433,6 +452,12 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
             <div className="w-4 h-4 bg-transparent border-2 border-green-400 rounded"></div>
             <span className="text-sm text-gray-600">Exercise day</span>
           </div>
+          <div className="flex items-center gap-2 mt-2">
+            <div className="w-4 h-4 flex items-center justify-center">
+              <div className="w-2 h-2 rounded-full bg-red-500"></div>
+            </div>
+            <span className="text-sm text-gray-600">Unusual day for you</span>
+          </div>
         </div>
 
         {/* Selected Day Details */}
@@ -443,6 +468,17 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
             </h5>
             
             <div className="space-y-2 text-sm">
+              {selectedDay.anomaly && (
+                <div className="p-2 bg-red-50 border border-red-200 rounded-lg">
+                  <span className="text-red-700 font-medium block mb-1">Unusual day</span>
+                  <ul className="text-xs text-red-700 space-y-1">
+                    {selectedDay.anomaly.explanations.map(explanation => (
+                      <li key={explanation}>{explanation}</li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+
               {selectedDay.mood && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Mood:</span>
@@ -450,6 +486,15 @@ const HeatmapCalendar: React.FC<HeatmapCalendarProps> = ({ entries }) => {
                 </div>
               )}
               
+              {selectedDay.checkIns && selectedDay.checkIns > 1 && selectedDay.moodRange && (
+                <div className="flex justify-between">
+                  <span className="text-gray-600">Check-ins:</span>
+                  <span className="font-medium text-gray-800">
+                    {selectedDay.checkIns} (mood {selectedDay.moodRange[0]}–{selectedDay.moodRange[1]})
+                  </span>
+                </div>
+              )}
+
               {selectedDay.energy && (
                 <div className="flex justify-between">
                   <span className="text-gray-600">Energy:</span>
@@ -0,0 +1,117 @@
+'use client';
+
+import React from 'react';
+import { Upload } from 'lucide-react';
+import { MOOD_FACTORS } from '@/types/mood-tracker';
+import { ImporterResult } from '@/types/mood-import';
+
+interface ImportPreviewProps {
+  sourceName: string;
+  result: ImporterResult;
+  onImport: () => void;
+  onCancel: () => void;
+}
+
+const getFactorLabel = (factorId: string) =>
+  MOOD_FACTORS.find(factor => factor.id === factorId)?.label || factorId;
+
+const ImportPreview: React.FC<ImportPreviewProps> = ({ sourceName, result, onImport, onCancel }) => {
+  const { stats, errors } = result;
+  const matched = stats.activities.filter(activity => activity.factorId || activity.countsAsExercise);
+  const unmatched = stats.activities.filter(activity => !activity.factorId && !activity.countsAsExercise);
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {[
+          { label: 'Rows read', value: stats.totalRows },
+          { label: 'Entries', value: stats.entries },
+          { label: 'With notes', value: stats.notes },
+          { label: 'Dates', value: stats.dateRange ? `${stats.dateRange.start} – ${stats.dateRange.end}` : '—' },
+        ].map(stat => (
+          <div key={stat.label} className="p-3 bg-indigo-50 rounded-lg">
+            <p className="text-xs text-indigo-700">{stat.label}</p>
+            <p className="text-sm font-semibold text-gray-900">{stat.value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">{sourceName} moods → mood score</h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {stats.moodLabels.map(mapping => (
+                <tr key={mapping.label} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-1 pr-4 capitalize">{mapping.label}</td>
+                  <td className="py-1 pr-4">{mapping.score}/10</td>
+                  <td className="py-1 text-gray-500">{mapping.count}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">
+            Activities → factors ({matched.length} matched, {unmatched.length} custom)
+          </h4>
+          <table className="w-full text-sm">
+            <tbody>
+              {matched.map(activity => (
+                <tr key={activity.activity} className="border-b border-gray-100 text-gray-700">
+                  <td className="py-1 pr-4">{activity.activity}</td>
+                  <td className="py-1 pr-4">
+                    {[activity.factorId && getFactorLabel(activity.factorId), activity.countsAsExercise && 'Exercise']
+                      .filter(Boolean)
+                      .join(' + ')}
+                  </td>
+                  <td className="py-1 text-gray-500">{activity.count}×</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {unmatched.length > 0 && (
+            <p className="text-xs text-gray-500 mt-2">
+              Kept as custom factors: {unmatched.map(activity => activity.activity).join(', ')}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {errors.length > 0 && (
+        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+          <p className="font-medium text-yellow-800 mb-2">
+            {errors.length} problem{errors.length === 1 ? '' : 's'} (these rows will be skipped)
+          </p>
+          <ul className="space-y-1 text-sm text-yellow-800 max-h-48 overflow-y-auto">
+            {errors.map((rowError, index) => (
+              <li key={index}>
+                Row {rowError.row}{rowError.column ? `, ${rowError.column}` : ''}: {rowError.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="flex space-x-3">
+        <button
+          onClick={onImport}
+          disabled={stats.entries === 0}
+          className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+        >
+          <Upload className="w-4 h-4 mr-2" />
+          Import {stats.entries} entr{stats.entries === 1 ? 'y' : 'ies'}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreview;
@@ -0,0 +1,151 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell, ReferenceLine } from 'recharts';
+import { Clock } from 'lucide-react';
+import { MoodEntry, MoodEntryNumericKeys } from '@/types/mood-tracker';
+import { MoodAnalytics } from '@/lib/mood-analytics';
+
+interface LagCorrelationChartProps {
+  entries: MoodEntry[];
+}
+
+interface LagDataPoint {
+  label: string;
+  correlation: number;
+  adjustedSignificance: number;
+  confidenceInterval: [number, number];
+  sampleSize: number;
+  isSignificant: boolean;
+  isStrongest: boolean;
+}
+
+const FACTOR_LABELS: Record<MoodEntryNumericKeys, string> = {
+  mood: 'Mood',
+  energy: 'Energy',
+  stress: 'Low stress',
+  sleep: 'Sleep',
+  hydration: 'Hydration',
+  exercise: 'Exercise',
+  nutrition: 'Nutrition',
+};
+
+const describeLag = (lag: number): string =>
+  lag === 0 ? 'same day' : lag === 1 ? 'next day' : `${lag} days later`;
+
+/**
+ * Correlation of each factor with mood on the same day and the days after,
+ * with the strongest significant lag picked out per factor
+ */
+const LagCorrelationChart: React.FC<LagCorrelationChartProps> = ({ entries }) => {
+  const laggedCorrelations = useMemo(
+    () => new MoodAnalytics(entries).calculateLaggedCorrelations(),
+    [entries]
+  );
+  const [selectedFactor, setSelectedFactor] = useState<MoodEntryNumericKeys | null>(null);
+
+  const selected = laggedCorrelations.find(result => result.source === selectedFactor) || laggedCorrelations[0];
+
+  if (!selected) {
+    return (
+      <div className="text-center py-8 text-gray-500">
+        <Clock className="w-10 h-10 mx-auto mb-3 text-gray-400" />
+        <p>Keep logging on consecutive days to see how factors affect mood on the days that follow.</p>
+      </div>
+    );
+  }
+
+  const chartData: LagDataPoint[] = selected.lags.map(lag => ({
+    label: lag.lag === 0 ? 'Same day' : `+${lag.lag}d`,
+    correlation: Math.round(lag.correlation * 1000) / 1000,
+    adjustedSignificance: lag.adjustedSignificance,
+    confidenceInterval: lag.confidenceInterval,
+    sampleSize: lag.sampleSize,
+    isSignificant: lag.isSignificant,
+    isStrongest: selected.strongestLag?.lag === lag.lag,
+  }));
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap gap-2">
+        {laggedCorrelations.map(result => (
+          <button
+            key={result.source}
+            onClick={() => setSelectedFactor(result.source)}
+            className={`px-3 py-2 rounded-lg border text-sm font-medium transition-colors ${
+              result.source === selected.source
+                ? 'border-indigo-300 bg-indigo-50 text-indigo-700'
+                : 'border-gray-300 bg-white text-gray-600 hover:bg-gray-50'
+            }`}
+          >
+            {FACTOR_LABELS[result.source]}
+          </button>
+        ))}
+      </div>
+
+      <ResponsiveContainer width="100%" height={300}>
+        <BarChart data={chartData}>
+          <CartesianGrid strokeDasharray="3 3" className="opacity-30" />
+          <XAxis dataKey="label" className="text-xs" />
+          <YAxis domain={[-1, 1]} className="text-xs" />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <Tooltip
+            formatter={(value: number, _name: string, item: { payload?: LagDataPoint }) => {
+              const point = item.payload;
+              return [
+                point
+                  ? `r = ${value}, 95% CI ${point.confidenceInterval[0].toFixed(2)} to ${point.confidenceInterval[1].toFixed(2)} ` +
+                    `(adjusted p = ${point.adjustedSignificance.toFixed(3)}, n = ${point.sampleSize})`
+                  : `r = ${value}`,
+                `${FACTOR_LABELS[selected.source]} → mood`
+              ];
+            }}
+            contentStyle={{
+              backgroundColor: 'white',
+              border: '1px solid #e5e7eb',
+              borderRadius: '8px',
+              boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'
+            }}
+          />
+          <Bar dataKey="correlation">
+            {chartData.map(point => (
+              <Cell
+                key={point.label}
+                fill={
+                  point.isStrongest ? '#4f46e5'
+                    : !point.isSignificant ? '#e5e7eb'
+                    : point.correlation >= 0 ? '#a5b4fc' : '#fca5a5'
+                }
+              />
+            ))}
+          </Bar>
+        </BarChart>
+      </ResponsiveContainer>
+
+      <p className="text-xs text-gray-500">
+        Grey bars are not significant once corrected for the number of factors and lags tested together.
+      </p>
+
+      <div>
+        <h4 className="font-medium text-gray-700 mb-2">Strongest lag per factor</h4>
+        <ul className="divide-y divide-gray-100 text-sm">
+          {laggedCorrelations.map(result => (
+            <li key={result.source} className={`py-2 flex justify-between ${result.strongestLag ? '' : 'opacity-50'}`}>
+              <span className="text-gray-800">{FACTOR_LABELS[result.source]}</span>
+              {result.strongestLag ? (
+                <span className="text-gray-600">
+                  {describeLag(result.strongestLag.lag)}: r = {result.strongestLag.correlation.toFixed(2)}
+                  {' '}(n = {result.strongestLag.sampleSize})
+                </span>
+              ) : (
+                <span className="text-gray-400">No significant lag</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default LagCorrelationChart;
@@ -0,0 +1,108 @@
+'use client';
+
+import React from 'react';
+import { History, RotateCcw, X } from 'lucide-react';
+import { MoodEntry, MOOD_FACTORS } from '@/types/mood-tracker';
+import { MoodEntryRevision } from '@/types/history';
+
+interface RevisionHistoryProps {
+  revisions: MoodEntryRevision[]; // Newest first
+  onRestore: (revision: MoodEntryRevision) => void;
+  onClose: () => void;
+}
+
+const TRACKED_FIELDS: { key: keyof MoodEntry; label: string }[] = [
+  { key: 'mood', label: 'Mood' },
+  { key: 'energy', label: 'Energy' },
+  { key: 'stress', label: 'Stress' },
+  { key: 'sleep', label: 'Sleep' },
+  { key: 'exercise', label: 'Exercise' },
+  { key: 'hydration', label: 'Hydration' },
+  { key: 'nutrition', label: 'Nutrition' },
+];
+
+const getFactorLabel = (factorId: string) =>
+  MOOD_FACTORS.find(factor => factor.id === factorId)?.label || factorId;
+
+const formatValue = (value: MoodEntry[keyof MoodEntry]) =>
+  typeof value === 'number' ? Math.round(value * 10) / 10 : String(value ?? '');
+
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ revisions, onRestore, onClose }) => {
+  const describeChange = (revision: MoodEntryRevision) => {
+    if (revision.source === 'undo') return 'Undone';
+    if (revision.source === 'redo') return 'Redone';
+    if (revision.source === 'restore') return 'Restored';
+    if (revision.type === 'add') return 'Created';
+    if (revision.type === 'delete') return 'Deleted';
+    return 'Edited';
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <History className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-semibold text-gray-900">Revision History</h2>
+        </div>
+        <button onClick={onClose} aria-label="Close revision history" className="text-gray-400 hover:text-gray-600">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      {revisions.length === 0 ? (
+        <p className="text-sm text-gray-500">No earlier versions of this entry have been recorded.</p>
+      ) : (
+        <ol className="space-y-3">
+          {revisions.map((revision, index) => {
+            const { snapshot } = revision;
+            // The newest non-deleted revision is what is stored now
+            const isCurrent = index === 0 && !revision.deleted;
+
+            return (
+              <li key={revision.operationId} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex items-center justify-between mb-2">
+                  <div className="text-sm">
+                    <span className="font-medium text-gray-900">{describeChange(revision)}</span>
+                    <span className="text-gray-500 ml-2">
+                      {new Date(revision.timestamp).toLocaleString()}
+                    </span>
+                  </div>
+                  {isCurrent ? (
+                    <span className="text-xs px-2 py-1 bg-green-100 text-green-800 rounded">Current</span>
+                  ) : (
+                    <button
+                      onClick={() => onRestore(revision)}
+                      className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Restore</span>
+                    </button>
+                  )}
+                </div>
+
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1 text-xs text-gray-600">
+                  {TRACKED_FIELDS.map(({ key, label }) => (
+                    <span key={key}>
+                      {label}: <span className="font-medium text-gray-800">{formatValue(snapshot[key])}</span>
+                    </span>
+                  ))}
+                </div>
+
+                {snapshot.factors.length > 0 && (
+                  <p className="mt-2 text-xs text-gray-500">
+                    Factors: {snapshot.factors.map(getFactorLabel).join(', ')}
+                  </p>
+                )}
+                {snapshot.notes && (
+                  <p className="mt-1 text-xs text-gray-500 italic">&quot;{snapshot.notes}&quot;</p>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+};
+
+export default RevisionHistory;
@@ -1,10 +1,14 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip,
   ResponsiveContainer, AreaChart, Area, ReferenceLine
 } from 'recharts';
+import { forecastSeries, MIN_FORECAST_DAYS } from '@/lib/mood-forecast';
+import { findChangePoints } from '@/lib/change-points';
+import { toDateKey } from '@/lib/mood-queries';
+import { DEFAULT_ANALYTICS_CONFIG } from '@/types/mood-tracker';
 
 interface MoodEntry {
   id: string;
@@ -37,6 +41,18 @@ interface TrendDataPoint {
   hasExercise: boolean;
   timestamp: number;
 }
+
+// Forecast rows carry no actual values; the last actual row also starts the band
+type ChartDataPoint = Partial<TrendDataPoint> & {
+  date: string;
+  forecast?: number;
+  forecastRange?: [number, number];
+};
+
+// Date keys are UTC days, so they are printed in UTC rather than local time
+const formatDateKey = (dateKey: string): string =>
+  new Date(dateKey).toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone: 'UTC' });
+
 const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
   const [selectedMetric, setSelectedMetric] = useState<'mood' | 'energy' | 'stress' | 'sleep'>('mood');
   const [viewPeriod, setViewPeriod] = useState<'7d' | '30d' | 'all'>('30d');
@@ -77,7 +93,7 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
     const sleepMA = calculateMovingAverage(sleepValues);
 
     const data: TrendDataPoint[] = filteredEntries.map((entry, index) => ({
-      date: new Date(entry.timestamp).toLocaleDateString('en-US', { month: 'short', day: 'numeric' }),
+      date: formatDateKey(toDateKey(new Date(entry.timestamp))),
       mood: entry.mood,
       energy: entry.energy,
       stress: entry.stress,
@@ -92,6 +108,53 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
 
     setTrendData(data);
   }, [entries, viewPeriod, selectedMetric]);
+
+  const forecast = useMemo(
+    () => forecastSeries(
+      entries.map(entry => ({ date: toDateKey(new Date(entry.timestamp)), value: entry[selectedMetric] })),
+      selectedMetric
+    ),
+    [entries, selectedMetric]
+  );
+
+  // The forecast band continues the chart past the last entry
+  const chartData = useMemo((): ChartDataPoint[] => {
+    if (!forecast || trendData.length === 0) return trendData;
+    const points = viewPeriod === '7d' ? forecast.nextWeek : forecast.nextMonth;
+    const last = trendData[trendData.length - 1];
+    const lastValue = last[selectedMetric];
+
+    return [
+      ...trendData.slice(0, -1),
+      { ...last, forecast: lastValue, forecastRange: [lastValue, lastValue] },
+      ...points.map(point => ({
+        date: formatDateKey(point.date),
+        forecast: point.value,
+        forecastRange: [point.lower, point.upper] as [number, number],
+      })),
+    ];
+  }, [forecast, trendData, viewPeriod, selectedMetric]);
+
+  // Days the selected metric settled at a new level, over the whole history
+  const changeDates = useMemo(() => {
+    const byDate = new Map<string, number[]>();
+    entries.forEach(entry => {
+      const dateKey = toDateKey(new Date(entry.timestamp));
+      byDate.set(dateKey, (byDate.get(dateKey) || []).concat(entry[selectedMetric]));
+    });
+    const dates = Array.from(byDate.keys()).sort();
+    const values = dates.map(date => {
+      const day = byDate.get(date) || [];
+      return day.reduce((sum, value) => sum + value, 0) / day.length;
+    });
+    return findChangePoints(values, DEFAULT_ANALYTICS_CONFIG.minSegmentDays).map(index => dates[index]);
+  }, [entries, selectedMetric]);
+
+  const changeMarkers = trendData.filter(point => changeDates.indexOf(toDateKey(new Date(point.timestamp))) >= 0);
+
+  const lastEntryLabel = forecast && trendData.length > 0
+    ? (forecast.lastDate === toDateKey(new Date()) ? 'Today' : 'Last entry')
+    : null;
   const calculateTrendStats = () => {
     if (trendData.length < 2) return null;
 
@@ -152,17 +215,32 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
-      const data = payload[0].payload;
+      const data = payload[0].payload as ChartDataPoint;
       const metricName = selectedMetric.charAt(0).toUpperCase() + selectedMetric.slice(1);
+      const unit = selectedMetric === 'sleep' ? 'h' : '/10';
+
+      if (data[selectedMetric] === undefined && data.forecast !== undefined && data.forecastRange) {
+        return (
+          <div className="bg-white/95 backdrop-blur-sm p-4 rounded-lg shadow-lg border border-pink-200">
+            <p className="font-semibold text-gray-800 mb-2">{label}</p>
+            <p className={`font-medium ${getMetricColor(selectedMetric)}`}>
+              Forecast {metricName}: {data.forecast.toFixed(1)}{unit}
+            </p>
+            <p className="text-gray-600 text-sm">
+              {Math.round((forecast?.intervalLevel ?? 0.95) * 100)}% interval: {data.forecastRange[0].toFixed(1)}–{data.forecastRange[1].toFixed(1)}{unit}
+            </p>
+          </div>
+        );
+      }
 
       return (
         <div className="bg-white/95 backdrop-blur-sm p-4 rounded-lg shadow-lg border border-pink-200">
           <p className="font-semibold text-gray-800 mb-2">{label}</p>
           <p className={`font-medium ${getMetricColor(selectedMetric)}`}>
-            {metricName}: {payload[0].value}{selectedMetric === 'sleep' ? 'h' : '/10'}
+            {metricName}: {data[selectedMetric]}{unit}
           </p>
           <p className="text-gray-600 text-sm">
-            3-day average: {data.movingAverage.toFixed(1)}{selectedMetric === 'sleep' ? 'h' : '/10'}
+            3-day average: {data.movingAverage?.toFixed(1)}{unit}
           </p>
           {data.hasExercise && (
             <p className="text-green-600 text-sm mt-1">✓ Exercise day</p>
@@ -283,7 +361,7 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
       {/* Main Chart */}
       <div className="mb-6">
         <ResponsiveContainer width="100%" height={400}>
-          <AreaChart data={trendData} margin={{ top: 20, right: 30, bottom: 20, left: 20 }}>
+          <AreaChart data={chartData} margin={{ top: 20, right: 30, bottom: 20, left: 20 }}>
             <defs>
               <linearGradient id="colorMetric" x1="0" y1="0" x2="0" y2="1">
                 <stop offset="5%" stopColor={getMetricStroke(selectedMetric)} stopOpacity={0.3}/>
@@ -325,6 +403,45 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
               strokeDasharray="5 5"
               dot={false}
             />
+
+            {/* Forecast beyond the last entry */}
+            {forecast && (
+              <Area
+                type="monotone"
+                dataKey="forecastRange"
+                stroke="none"
+                fill="#a5b4fc"
+                fillOpacity={0.35}
+                isAnimationActive={false}
+              />
+            )}
+            {forecast && (
+              <Line
+                type="monotone"
+                dataKey="forecast"
+                stroke="#6366f1"
+                strokeWidth={2}
+                strokeDasharray="2 4"
+                dot={false}
+              />
+            )}
+            {changeMarkers.map(point => (
+              <ReferenceLine
+                key={point.timestamp}
+                x={point.date}
+                stroke="#6366f1"
+                strokeDasharray="4 4"
+                label={{ value: 'Change', position: 'top', fill: '#6366f1', fontSize: 11 }}
+              />
+            ))}
+            {lastEntryLabel && (
+              <ReferenceLine
+                x={trendData[trendData.length - 1].date}
+                stroke="#94a3b8"
+                strokeDasharray="3 3"
+                label={lastEntryLabel}
+              />
+            )}
           </AreaChart>
         </ResponsiveContainer>
       </div>
@@ -342,12 +459,34 @@ const TrendGraph: React.FC<TrendGraphProps> = ({ entries }) => {
               <div className="w-3 h-1 border-t-2 border-dashed border-pink-500"></div>
               <span className="text-sm text-gray-600">3-day moving average</span>
             </div>
+            {changeDates.length > 0 && (
+              <div className="flex items-center gap-2 mt-2">
+                <div className="w-3 h-3 border-l-2 border-dashed border-indigo-500"></div>
+                <span className="text-sm text-gray-600">Change in {selectedMetric} level</span>
+              </div>
+            )}
+            {forecast && (
+              <div className="flex items-center gap-2 mt-2">
+                <div className="w-3 h-3 bg-indigo-200 rounded-sm"></div>
+                <span className="text-sm text-gray-600">
+                  {viewPeriod === '7d' ? '7' : '30'}-day forecast, {Math.round(forecast.intervalLevel * 100)}% interval
+                </span>
+              </div>
+            )}
           </div>
 
           <div className="text-sm text-gray-600">
             <p className="mb-1">
               Exercise days: {trendData.filter(d => d.hasExercise).length} of {trendData.length}
             </p>
+            {forecast ? (
+              <p className="mb-1">
+                Forecast: {forecast.preferred.description}
+                {forecast.preferred.backtest && ` · off by ${forecast.preferred.backtest.meanAbsoluteError.toFixed(1)} on average over the last ${forecast.preferred.backtest.folds} weeks`}
+              </p>
+            ) : (
+              <p className="mb-1">Forecasts appear after {MIN_FORECAST_DAYS} days of entries</p>
+            )}
             {stats && parseFloat(stats.rSquared) > 0.5 && (
               <p>
                Strong trend detected (R² = {stats.rSquared})
@@ -1,32 +1,33 @@
 'use client';
 
 import React, { useState, useEffect } from 'react';
-import { TrendingUp, Target, AlertCircle, CheckCircle, BarChart3, Zap, ArrowLeft } from 'lucide-react';
+import { TrendingUp, Target, AlertCircle, CheckCircle, BarChart3, Zap, ArrowLeft, SlidersHorizontal } from 'lucide-react';
+import {
+  CorrelationData,
+  DEFAULT_ANALYTICS_CONFIG,
+  MoodEntry,
+  MoodRegressionModel,
+  MOOD_ENTRY_SCHEMA_VERSION
+} from '@/types/mood-tracker';
+import { getRepositories } from '@/lib/storage';
+import { rollupDailyEntries } from '@/lib/check-ins';
+import { MoodAnalytics } from '@/lib/mood-analytics';
 
 // Types
-interface MoodEntry {
-  id: string;
-  date: string;
-  mood: number;
-  energy: number;
-  sleep: number;
-  exercise: boolean;
-  hydration: number;
-  stress: number;
-  notes?: string;
-  tags?: string[];
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface OptimizationResult {
   parameter: string;
   correlation: number;
   impact: 'high' | 'medium' | 'low';
   recommendation: string;
   confidence: number;
+  confidenceInterval: [number, number];
+  adjustedSignificance: number;
+  isSignificant: boolean;
 }
 
+// Above this, a driver overlaps so much with the others that its own effect is unreliable
+const HIGH_VARIANCE_INFLATION = 5;
+
 interface TrendAnalysis {
   trend: 'improving' | 'declining' | 'stable';
   rate: number;
@@ -36,6 +37,7 @@ interface TrendAnalysis {
 const OptimizationInsightsPage: React.FC = () => {
   const [entries, setEntries] = useState<MoodEntry[]>([]);
   const [optimizations, setOptimizations] = useState<OptimizationResult[]>([]);
+  const [regression, setRegression] = useState<MoodRegressionModel | null>(null);
   const [moodTrend, setMoodTrend] = useState<TrendAnalysis>({ trend: 'stable', rate: 0, significance: 0 });
   const [selectedTimeframe, setSelectedTimeframe] = useState<'week' | 'month' | 'quarter'>('month');
   const [isLoading, setIsLoading] = useState(true);
@@ -53,23 +55,22 @@ const OptimizationInsightsPage: React.FC = () => {
     }
   }, [entries, selectedTimeframe]);
 
-  const loadMoodData = () => {
+  const loadMoodData = async () => {
     try {
       setIsLoading(true);
       
-      // Try to load from localStorage first
-      const savedData = typeof window !== 'undefined' ? localStorage.getItem('herflowstate-mood-entries') : null;
+      // Try to load saved entries first
+      const { moods } = await getRepositories();
+      const savedData = await moods.getAll();
       
-      if (savedData) {
-        const parsedData = JSON.parse(savedData);
-        setEntries(parsedData);
+      if (savedData.length > 0) {
+        // Trend analysis below expects one entry per day, newest first
+        setEntries(rollupDailyEntries(savedData).reverse());
       } else {
         // Generate sample data for development
         const sampleData = generateSampleData();
         setEntries(sampleData);
-        if (typeof window !== 'undefined') {
-          localStorage.setItem('herflowstate-mood-entries', JSON.stringify(sampleData));
-        }
+        await moods.replaceAll(sampleData);
       }
     } catch (err) {
       setError('Failed to load mood data');
@@ -96,17 +97,19 @@ const OptimizationInsightsPage: React.FC = () => {
       
       data.push({
         id: `entry-${i}`,
+        schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
         date: date.toISOString().split('T')[0],
+        timestamp: date.toISOString(),
+        updatedAt: date.toISOString(),
         mood: Math.max(1, Math.min(10, 5.5 + Math.random() * 2 + moodTrend)),
         energy: Math.max(1, Math.min(10, 6 + Math.random() * 2 + (isWeekend ? 0.5 : -0.5))),
         sleep: Math.max(4, Math.min(12, sleepBase + (Math.random() - 0.5) * 2)),
-        exercise: Math.random() > (isWeekend ? 0.3 : 0.6),
+        exercise: Math.random() > (isWeekend ? 0.3 : 0.6) ? 30 : 0,
         hydration: Math.max(4, Math.min(12, 7 + Math.random() * 3)),
         stress: Math.max(1, Math.min(10, 4 + Math.random() * 3 + (isWeekend ? -1 : 1))),
-        notes: i % 5 === 0 ? 'Sample note for analysis' : undefined,
-        tags: i % 7 === 0 ? ['work-stress', 'tired'] : undefined,
-        createdAt: date.toISOString(),
-        updatedAt: date.toISOString(),
+        nutrition: Math.max(1, Math.min(10, 6 + Math.random() * 2)),
+        notes: i % 5 === 0 ? 'Sample note for analysis' : '',
+        factors: i % 7 === 0 ? ['work_stress'] : [],
       });
     }
     return data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
@@ -136,48 +139,35 @@ const OptimizationInsightsPage: React.FC = () => {
     const days = daysMap[selectedTimeframe];
     const recentEntries = getRecentEntries(days);
     
-    if (recentEntries.length < 3) {
+    // Too few days for a correlation to mean anything
+    if (recentEntries.length < DEFAULT_ANALYTICS_CONFIG.minEntriesForCorrelation) {
       setOptimizations([]);
+      setRegression(null);
       return;
     }
 
-    // Calculate correlations using Pearson correlation coefficient
-    const calculateCorrelation = (x: number[], y: number[]): number => {
-      const n = x.length;
-      if (n < 3) return 0;
-      
-      const sumX = x.reduce((a, b) => a + b, 0);
-      const sumY = y.reduce((a, b) => a + b, 0);
-      const sumXY = x.reduce((sum, xi, i) => sum + xi * y[i], 0);
-      const sumX2 = x.reduce((sum, xi) => sum + xi * xi, 0);
-      const sumY2 = y.reduce((sum, yi) => sum + yi * yi, 0);
-
-      const numerator = n * sumXY - sumX * sumY;
-      const denominator = Math.sqrt((n * sumX2 - sumX * sumX) * (n * sumY2 - sumY * sumY));
-      
-      return denominator === 0 ? 0 : numerator / denominator;
-    };
-
-    const moods = recentEntries.map(d => d.mood);
-    const sleep = recentEntries.map(d => d.sleep);
-    const energy = recentEntries.map(d => d.energy);
-    const hydration = recentEntries.map(d => d.hydration);
-    const stress = recentEntries.map(d => -d.stress); // Negative because lower stress = better
-    const exercise = recentEntries.map(d => d.exercise ? 1 : 0);
+    // Pearson correlations with mood, corrected for testing all factors at
+    // once (stress is inverted there: lower stress = better)
+    const analytics = new MoodAnalytics(recentEntries);
+    const correlationData = analytics.calculateCorrelations();
+    const findCorrelation = (factor: string): CorrelationData | undefined =>
+      correlationData.find(c => c.factor === factor);
 
     const correlations = [
-      { param: 'Sleep Quality', corr: calculateCorrelation(moods, sleep), avg: calculateAverage(recentEntries, 'sleep') },
-      { param: 'Energy Levels', corr: calculateCorrelation(moods, energy), avg: calculateAverage(recentEntries, 'energy') },
-      { param: 'Hydration', corr: calculateCorrelation(moods, hydration), avg: calculateAverage(recentEntries, 'hydration') },
-      { param: 'Stress Management', corr: calculateCorrelation(moods, stress), avg: calculateAverage(recentEntries, 'stress') },
-      { param: 'Exercise', corr: calculateCorrelation(moods, exercise), avg: recentEntries.filter(e => e.exercise).length / recentEntries.length }
+      { param: 'Sleep Quality', data: findCorrelation('Sleep'), avg: calculateAverage(recentEntries, 'sleep') },
+      { param: 'Energy Levels', data: findCorrelation('Energy'), avg: calculateAverage(recentEntries, 'energy') },
+      { param: 'Hydration', data: findCorrelation('Hydration'), avg: calculateAverage(recentEntries, 'hydration') },
+      { param: 'Stress Management', data: findCorrelation('Stress'), avg: calculateAverage(recentEntries, 'stress') },
+      { param: 'Exercise', data: findCorrelation('Exercise'), avg: calculateAverage(recentEntries, 'exercise') }
     ];
 
     // Generate optimization recommendations
-    const results: OptimizationResult[] = correlations.map(({ param, corr, avg }) => {
+    const results: OptimizationResult[] = correlations.map(({ param, data, avg }) => {
+      const corr = data ? data.correlation : 0;
       const absCorr = Math.abs(corr);
       const impact = absCorr > 0.6 ? 'high' : absCorr > 0.3 ? 'medium' : 'low';
-      const confidence = Math.min(95, absCorr * 100 + 20);
+      const adjustedSignificance = data ? data.adjustedSignificance : 1;
+      const confidence = (1 - adjustedSignificance) * 100;
       
       let recommendation = '';
 
@@ -210,12 +200,13 @@ const OptimizationInsightsPage: React.FC = () => {
             : `Stress levels manageable. Current coping strategies appear effective.`;
           break;
         case 'Exercise':
-          const exerciseRate = (avg * 100).toFixed(0);
+          // Correlated by minutes, so the advice is about duration rather than how often
+          const exerciseMinutes = avg.toFixed(0);
           recommendation = corr > 0.2
-            ? `Exercise shows positive mood correlation. Current ${exerciseRate}% frequency. Consider optimizing timing and consistency.`
+            ? `Longer exercise sessions go with better mood. Current avg ${exerciseMinutes} min/day. Consider optimizing timing and consistency.`
             : corr < -0.2
-            ? `Exercise pattern may need adjustment. Current ${exerciseRate}% frequency shows negative correlation.`
-            : `Exercise routine stable at ${exerciseRate}% frequency. Continue current pattern.`;
+            ? `Exercise duration may need adjustment. Current avg ${exerciseMinutes} min/day shows negative correlation.`
+            : `Exercise duration stable at ${exerciseMinutes} min/day. Continue current pattern.`;
           break;
       }
 
@@ -224,7 +215,10 @@ const OptimizationInsightsPage: React.FC = () => {
         correlation: corr,
         impact,
         recommendation,
-        confidence
+        confidence,
+        confidenceInterval: data ? data.confidenceInterval : [-1, 1],
+        adjustedSignificance,
+        isSignificant: data ? data.isSignificant : false
       };
     });
 
@@ -245,6 +239,8 @@ const OptimizationInsightsPage: React.FC = () => {
     });
 
     setOptimizations(results.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation)));
+    // Each driver's effect with the others held fixed
+    setRegression(analytics.fitMoodRegression());
   };
 
   const getImpactColor = (impact: string) => {
@@ -372,18 +368,35 @@ const OptimizationInsightsPage: React.FC = () => {
           <h2 className="text-xl font-semibold">Parameter Optimization Analysis</h2>
         </div>
 
+        {optimizations.length === 0 && (
+          <p className="text-sm text-gray-600">
+            Correlations need at least {DEFAULT_ANALYTICS_CONFIG.minEntriesForCorrelation} days of entries in the selected timeframe.
+          </p>
+        )}
+
         <div className="grid gap-4">
           {optimizations.map((opt, index) => (
-            <div key={index} className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow">
+            <div
+              key={index}
+              className={`border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow ${
+                opt.isSignificant ? '' : 'opacity-50 bg-gray-50'
+              }`}
+            >
               <div className="flex items-start justify-between mb-3">
                 <div className="flex items-center space-x-3">
                   <Zap className="w-5 h-5 text-indigo-600" />
                   <h3 className="font-semibold text-gray-900">{opt.parameter}</h3>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <span className={`px-2 py-1 rounded-full text-xs font-medium ${getImpactColor(opt.impact)}`}>
-                    {opt.impact.toUpperCase()} IMPACT
-                  </span>
+                  {opt.isSignificant ? (
+                    <span className={`px-2 py-1 rounded-full text-xs font-medium ${getImpactColor(opt.impact)}`}>
+                      {opt.impact.toUpperCase()} IMPACT
+                    </span>
+                  ) : (
+                    <span className="px-2 py-1 rounded-full text-xs font-medium text-gray-600 bg-gray-200">
+                      NOT SIGNIFICANT
+                    </span>
+                  )}
                   <span className="text-sm text-gray-500">
                     r = {opt.correlation.toFixed(3)}
                   </span>
@@ -398,10 +411,13 @@ const OptimizationInsightsPage: React.FC = () => {
                     Correlation: {(opt.correlation * 100).toFixed(1)}%
                   </div>
                   <div className="text-xs text-gray-500">
-                    Confidence: {opt.confidence.toFixed(0)}%
+                    95% CI: {opt.confidenceInterval[0].toFixed(2)} to {opt.confidenceInterval[1].toFixed(2)}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    Adjusted p: {opt.adjustedSignificance.toFixed(3)}
                   </div>
                 </div>
-                {opt.impact === 'high' && (
+                {opt.isSignificant && opt.impact === 'high' && (
                   <CheckCircle className="w-4 h-4 text-green-500" />
                 )}
               </div>
@@ -411,7 +427,7 @@ const OptimizationInsightsPage: React.FC = () => {
                 <div className="w-full bg-gray-200 rounded-full h-2">
                   <div 
                     className={`h-2 rounded-full ${
-                      opt.correlation > 0 ? 'bg-green-500' : 'bg-red-500'
+                      !opt.isSignificant ? 'bg-gray-400' : opt.correlation > 0 ? 'bg-green-500' : 'bg-red-500'
                     }`}
                     style={{ width: `${Math.abs(opt.correlation) * 100}%` }}
                   ></div>
@@ -422,6 +438,63 @@ const OptimizationInsightsPage: React.FC = () => {
         </div>
       </div>
 
+      {/* Mood Drivers */}
+      <div className="bg-white border border-gray-200 rounded-xl p-6">
+        <div className="flex items-center space-x-2 mb-2">
+          <SlidersHorizontal className="w-6 h-6 text-indigo-600" />
+          <h2 className="text-xl font-semibold">Mood Drivers</h2>
+        </div>
+
+        {!regression ? (
+          <p className="text-sm text-gray-600">
+            Separating the drivers needs more days of entries in the selected timeframe than there are measures to compare.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 mb-4">
+              Each driver&apos;s effect on mood with the others held fixed, from a multiple regression over {regression.sampleSize} days
+              (R² {regression.rSquared.toFixed(2)}, adjusted {regression.adjustedRSquared.toFixed(2)}).
+            </p>
+
+            <div className="divide-y divide-gray-100">
+              {regression.coefficients.map(coefficient => (
+                <div
+                  key={coefficient.predictor}
+                  className={`py-3 flex flex-wrap items-center justify-between gap-2 ${coefficient.isSignificant ? '' : 'opacity-50'}`}
+                >
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium text-gray-900">{coefficient.label}</span>
+                    {coefficient.varianceInflationFactor > HIGH_VARIANCE_INFLATION && (
+                      <span
+                        className="px-2 py-0.5 rounded-full text-xs font-medium text-yellow-700 bg-yellow-50"
+                        title="Moves closely with other drivers, so its separate effect is uncertain"
+                      >
+                        OVERLAPS (VIF {isFinite(coefficient.varianceInflationFactor) ? coefficient.varianceInflationFactor.toFixed(1) : '∞'})
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-4 text-xs text-gray-500">
+                    <span className={coefficient.standardizedCoefficient >= 0 ? 'text-green-700' : 'text-red-700'}>
+                      β = {coefficient.standardizedCoefficient.toFixed(2)}
+                    </span>
+                    <span>
+                      {coefficient.coefficient >= 0 ? '+' : ''}{coefficient.coefficient.toFixed(2)} mood per {coefficient.kind === 'factor' ? 'day logged' : 'unit'}
+                    </span>
+                    <span>Partial R²: {(coefficient.partialRSquared * 100).toFixed(1)}%</span>
+                    <span>Adjusted p: {coefficient.adjustedSignificance.toFixed(3)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <p className="text-xs text-gray-500 mt-3">
+              β is in standard deviations of mood per standard deviation of the driver. Faded rows are not significant once
+              corrected for the number of drivers.
+            </p>
+          </>
+        )}
+      </div>
+
       {/* Action Items */}
       <div className="bg-gradient-to-r from-indigo-50 to-purple-50 border border-indigo-200 rounded-xl p-6">
         <h2 className="text-xl font-semibold mb-4 flex items-center space-x-2">
@@ -431,7 +504,7 @@ const OptimizationInsightsPage: React.FC = () => {
         
         <div className="grid gap-3">
           {optimizations
-            .filter(opt => opt.impact === 'high' || Math.abs(opt.correlation) > 0.4)
+            .filter(opt => opt.isSignificant && (opt.impact === 'high' || Math.abs(opt.correlation) > 0.4))
             .slice(0, 3)
             .map((opt, index) => (
               <div key={index} className="flex items-start space-x-3 p-3 bg-white rounded-lg border">
@@ -1,98 +1,163 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { 
   Heart, Brain, Zap, Droplets, Activity, Moon, 
   ArrowLeft, Save, Calendar, Target, TrendingUp,
-  AlertCircle, CheckCircle, Coffee
+  AlertCircle, CheckCircle, Coffee, Apple, Trash2, History, Undo2, Redo2, Clock, Plus
 } from 'lucide-react';
+import { MoodEntry, MOOD_ENTRY_NUMERIC_KEYS, MOOD_ENTRY_SCHEMA_VERSION, MOOD_FACTORS } from '@/types/mood-tracker';
+import { MoodEntryRevision, Operation } from '@/types/history';
+import { createMoodEntryId, sortMoodEntries } from '@/lib/mood-migration';
+import { markMetricsRecorded } from '@/lib/mood-queries';
+import {
+  getTimeOfDay,
+  rollupCheckIns,
+  TIME_OF_DAY_LABELS,
+  TIME_OF_DAY_PRESETS,
+  toCheckInTimestamp,
+  toTimeInputValue
+} from '@/lib/check-ins';
+import { createMoodEntryOperation, toMoodEntryRevisions } from '@/lib/operation-log';
+import { getRepositories } from '@/lib/storage';
+import { refreshReminders } from '@/lib/reminders';
+import { blockUpdateReload } from '@/lib/service-worker';
+import { useOperationHistory } from '@/hooks/useOperationHistory';
+import UndoToast from '@/components/UndoToast';
+import RevisionHistory from '../components/RevisionHistory';
 
 // Types
-interface MoodEntry {
-  id: string;
-  date: string;
-  mood: number;
-  energy: number;
-  sleep: number;
-  exercise: boolean;
-  hydration: number;
-  stress: number;
-  notes?: string;
-  tags?: string[];
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface FormData {
   date: string;
   mood: number;
   energy: number;
   sleep: number;
-  exercise: boolean;
+  exercise: number;
   hydration: number;
   stress: number;
+  nutrition: number;
   notes: string;
-  tags: string[];
+  factors: string[];
 }
 
+type PresetTimeOfDay = keyof typeof TIME_OF_DAY_PRESETS;
+
+const PRESET_TIMES_OF_DAY = Object.keys(TIME_OF_DAY_PRESETS) as PresetTimeOfDay[];
+
+const toFormData = (entry: MoodEntry): FormData => ({
+  date: entry.date,
+  mood: entry.mood,
+  energy: entry.energy,
+  sleep: entry.sleep,
+  exercise: entry.exercise,
+  hydration: entry.hydration,
+  stress: entry.stress,
+  nutrition: entry.nutrition,
+  notes: entry.notes,
+  factors: entry.factors
+});
+
+/**
+ * Starting values for another check-in on the day. Sleep, exercise, hydration
+ * and nutrition describe the whole day, so they carry over from the latest
+ * check-in; the time is now for today, else the first unlogged part of the day.
+ */
+const getNewCheckInDefaults = (date: string, checkIns: MoodEntry[]): { values: Omit<FormData, 'date'>; time: string } => {
+  const latest = checkIns[checkIns.length - 1];
+  const today = new Date().toISOString().split('T')[0];
+  const loggedTimes = checkIns.map(entry => getTimeOfDay(entry.timestamp));
+  const openPreset = PRESET_TIMES_OF_DAY.find(timeOfDay => loggedTimes.indexOf(timeOfDay) === -1) || 'evening';
+
+  return {
+    time: date === today ? toTimeInputValue(new Date()) : TIME_OF_DAY_PRESETS[openPreset],
+    values: {
+      mood: 5,
+      energy: 5,
+      sleep: latest ? latest.sleep : 7,
+      exercise: latest ? latest.exercise : 0,
+      hydration: latest ? latest.hydration : 6,
+      stress: 5,
+      nutrition: latest ? latest.nutrition : 5,
+      notes: '',
+      factors: []
+    }
+  };
+};
+
 const DailyMoodEntry: React.FC = () => {
+  // The date stays empty until the mount effect resolves it, so only that day is loaded
   const [formData, setFormData] = useState<FormData>({
-    date: new Date().toISOString().split('T')[0],
+    date: '',
     mood: 5,
     energy: 5,
     sleep: 7,
-    exercise: false,
+    exercise: 0,
     hydration: 6,
     stress: 5,
+    nutrition: 5,
     notes: '',
-    tags: []
+    factors: []
   });
 
+  // All of the day's check-ins, and the one being edited (null for a new check-in)
+  const [dayEntries, setDayEntries] = useState<MoodEntry[]>([]);
   const [existingEntry, setExistingEntry] = useState<MoodEntry | null>(null);
+  const [checkInTime, setCheckInTime] = useState(() => toTimeInputValue(new Date()));
   const [isSubmitting, setIsSubmitting] = useState(false);
   const [showSuccess, setShowSuccess] = useState(false);
   const [errors, setErrors] = useState<Record<string, string>>({});
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<MoodEntryRevision[] | null>(null);
+  const [hasUnsavedInput, setHasUnsavedInput] = useState(false);
+
+  // Saves, deletes and restores go through the operation log; reload the
+  // visible day whenever one of them (or an undo/redo) touches storage,
+  // keeping the check-in that was just written open
+  const { perform, undo, redo, canUndo, canRedo } = useOperationHistory((operation: Operation) => {
+    const written = operation.target === 'moodEntry' ? operation.after : null;
+    checkExistingEntry(formData.date, written?.id);
+    if (revisions) loadRevisions(existingEntry?.id);
+  });
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  // Open on today, or on the day a reminder notification links to with ?date=
+  useEffect(() => {
+    const requested = new URLSearchParams(window.location.search).get('date');
+    const date = requested && /^\d{4}-\d{2}-\d{2}$/.test(requested)
+      ? requested
+      : new Date().toISOString().split('T')[0];
+    setFormData(prev => ({ ...prev, date }));
+  }, []);
+
+  // An app update reloads the page; hold it off while there is input to lose
+  useEffect(() => {
+    if (hasUnsavedInput) return blockUpdateReload();
+  }, [hasUnsavedInput]);
 
   // Check for existing entry on date change
   useEffect(() => {
+    if (!formData.date) return;
     checkExistingEntry(formData.date);
+    setRevisions(null);
   }, [formData.date]);
 
-  const checkExistingEntry = (date: string) => {
+  const checkExistingEntry = async (date: string, selectedId?: string) => {
     try {
-      const savedEntries = localStorage.getItem('herflowstate-mood-entries');
-      if (savedEntries) {
-        const entries: MoodEntry[] = JSON.parse(savedEntries);
-        const existing = entries.find(entry => entry.date === date);
-        if (existing) {
-          setExistingEntry(existing);
-          // Pre-populate form with existing data
-          setFormData({
-            date: existing.date,
-            mood: existing.mood,
-            energy: existing.energy,
-            sleep: existing.sleep,
-            exercise: existing.exercise,
-            hydration: existing.hydration,
-            stress: existing.stress,
-            notes: existing.notes || '',
-            tags: existing.tags || []
-          });
-        } else {
-          setExistingEntry(null);
-          // Reset form for new entry (keep date)
-          setFormData(prev => ({
-            ...prev,
-            mood: 5,
-            energy: 5,
-            sleep: 7,
-            exercise: false,
-            hydration: 6,
-            stress: 5,
-            notes: '',
-            tags: []
-          }));
-        }
+      const { moods } = await getRepositories();
+      const checkIns = sortMoodEntries(await moods.getByDate(date));
+      const selected = selectedId ? checkIns.find(entry => entry.id === selectedId) : undefined;
+      setDayEntries(checkIns);
+      setHasUnsavedInput(false);
+      if (selected) {
+        setExistingEntry(selected);
+        setCheckInTime(toTimeInputValue(selected.timestamp));
+        setFormData(toFormData(selected));
+      } else {
+        const defaults = getNewCheckInDefaults(date, checkIns);
+        setExistingEntry(null);
+        setCheckInTime(defaults.time);
+        setFormData(prev => ({ ...prev, ...defaults.values }));
       }
     } catch (error) {
       console.error('Error checking existing entry:', error);
@@ -106,6 +171,10 @@ const DailyMoodEntry: React.FC = () => {
       newErrors.date = 'Date is required';
     }
 
+    if (!/^\d{2}:\d{2}$/.test(checkInTime)) {
+      newErrors.time = 'Check-in time is required';
+    }
+
     if (formData.mood < 1 || formData.mood > 10) {
       newErrors.mood = 'Mood must be between 1 and 10';
     }
@@ -126,6 +195,14 @@ const DailyMoodEntry: React.FC = () => {
       newErrors.stress = 'Stress must be between 1 and 10';
     }
 
+    if (formData.exercise < 0 || formData.exercise > 120) {
+      newErrors.exercise = 'Exercise must be between 0 and 120 minutes';
+    }
+
+    if (formData.nutrition < 1 || formData.nutrition > 10) {
+      newErrors.nutrition = 'Nutrition must be between 1 and 10';
+    }
+
     setErrors(newErrors);
     return Object.keys(newErrors).length === 0;
   };
@@ -137,59 +214,39 @@ const DailyMoodEntry: React.FC = () => {
     }
 
     setIsSubmitting(true);
+    dismissToast(); // A new change replaces whatever the toast would undo
 
     try {
-      // Get existing entries
-      const savedEntries = localStorage.getItem('herflowstate-mood-entries');
-      let entries: MoodEntry[] = savedEntries ? JSON.parse(savedEntries) : [];
-
-      const entryData: MoodEntry = {
-        id: existingEntry?.id || generateId(),
+      // Keep the original timestamp (to the second) unless the time was changed
+      const timestamp = existingEntry && toTimeInputValue(existingEntry.timestamp) === checkInTime
+        ? existingEntry.timestamp
+        : toCheckInTimestamp(formData.date, checkInTime);
+      // Saving the form confirms every metric on it, including imported placeholders
+      const entryData: MoodEntry = markMetricsRecorded({
+        ...existingEntry,
+        id: existingEntry?.id || createMoodEntryId(),
+        schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
         date: formData.date,
+        timestamp,
+        updatedAt: new Date().toISOString(),
         mood: formData.mood,
         energy: formData.energy,
         sleep: formData.sleep,
         exercise: formData.exercise,
         hydration: formData.hydration,
         stress: formData.stress,
-        notes: formData.notes || undefined,
-        tags: formData.tags.length > 0 ? formData.tags : undefined,
-        createdAt: existingEntry?.createdAt || new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
-
-      if (existingEntry) {
-        // Update existing entry
-        entries = entries.map(entry => 
-          entry.id === existingEntry.id ? entryData : entry
-        );
-      } else {
-        // Add new entry
-        entries.push(entryData);
-      }
-
-      // Sort entries by date (newest first)
-      entries.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+        nutrition: formData.nutrition,
+        notes: formData.notes,
+        factors: formData.factors
+      }, MOOD_ENTRY_NUMERIC_KEYS);
 
-      // Save to localStorage
-      localStorage.setItem('herflowstate-mood-entries', JSON.stringify(entries));
+      // Add a check-in, or update the one being edited
+      await perform(createMoodEntryOperation(existingEntry, entryData));
+      // Drops today's "only if no entry yet" reminders
+      refreshReminders().catch(err => console.error('Error refreshing reminders:', err));
 
       setShowSuccess(true);
       setTimeout(() => setShowSuccess(false), 3000);
-
-      // If it was a new entry, navigate to next day
-      if (!existingEntry) {
-        const nextDay = new Date(formData.date);
-        nextDay.setDate(nextDay.getDate() + 1);
-        const nextDayStr = nextDay.toISOString().split('T')[0];
-        const today = new Date().toISOString().split('T')[0];
-        
-        // Only advance to next day if it's not in the future
-        if (nextDayStr <= today) {
-          setFormData(prev => ({ ...prev, date: nextDayStr }));
-        }
-      }
-
     } catch (error) {
       console.error('Error saving entry:', error);
       setErrors({ submit: 'Failed to save entry. Please try again.' });
@@ -198,20 +255,87 @@ const DailyMoodEntry: React.FC = () => {
     }
   };
 
-  const generateId = (): string => {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+  const handleDelete = async () => {
+    if (!existingEntry) return;
+
+    try {
+      await perform(createMoodEntryOperation(existingEntry, null));
+      setRevisions(null);
+      setToastMessage(
+        `${TIME_OF_DAY_LABELS[getTimeOfDay(existingEntry.timestamp)]} check-in for ${new Date(existingEntry.date).toLocaleDateString()} deleted`
+      );
+    } catch (error) {
+      console.error('Error deleting entry:', error);
+      setErrors({ submit: 'Failed to delete entry. Please try again.' });
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await undo();
+    } catch (error) {
+      console.error('Error undoing change:', error);
+      setErrors({ submit: 'Failed to undo. Please try again.' });
+    }
+  };
+
+  const handleRedo = async () => {
+    try {
+      await redo();
+    } catch (error) {
+      console.error('Error redoing change:', error);
+      setErrors({ submit: 'Failed to redo. Please try again.' });
+    }
+  };
+
+  const loadRevisions = async (entryId?: string) => {
+    if (!entryId) return;
+
+    try {
+      const { history } = await getRepositories();
+      setRevisions(toMoodEntryRevisions(await history.getForRecord('moodEntry', entryId)));
+    } catch (error) {
+      console.error('Error loading revision history:', error);
+    }
+  };
+
+  const handleRestoreRevision = async (revision: MoodEntryRevision) => {
+    try {
+      const restored = { ...revision.snapshot, updatedAt: new Date().toISOString() };
+      await perform(createMoodEntryOperation(existingEntry, restored, 'restore'));
+    } catch (error) {
+      console.error('Error restoring revision:', error);
+      setErrors({ submit: 'Failed to restore revision. Please try again.' });
+    }
+  };
+
+  const handleSelectCheckIn = (entry: MoodEntry) => {
+    setRevisions(null);
+    checkExistingEntry(formData.date, entry.id);
+  };
+
+  const handleNewCheckIn = () => {
+    setRevisions(null);
+    checkExistingEntry(formData.date);
+  };
+
+  const handlePresetTime = (timeOfDay: PresetTimeOfDay) => {
+    setCheckInTime(TIME_OF_DAY_PRESETS[timeOfDay]);
+    setHasUnsavedInput(true);
   };
 
   const handleSliderChange = (field: keyof FormData, value: number) => {
     setFormData(prev => ({ ...prev, [field]: value }));
+    setHasUnsavedInput(true);
   };
 
-  const handleTagToggle = (tag: string) => {
+  const handleFactorToggle = (factorId: string) => {
+    setHasUnsavedInput(true);
     setFormData(prev => ({
       ...prev,
-      tags: prev.tags.includes(tag)
-        ? prev.tags.filter(t => t !== tag)
-        : [...prev.tags, tag]
+      factors: prev.factors.includes(factorId)
+        ? prev.factors.filter(f => f !== factorId)
+        : [...prev.factors, factorId]
     }));
   };
 
@@ -235,10 +359,10 @@ const DailyMoodEntry: React.FC = () => {
     return 'text-red-500';
   };
 
-  const commonTags = [
-    'work-stress', 'tired', 'productive', 'anxious', 'happy', 
-    'social', 'exercise', 'travel', 'sick', 'excited'
-  ];
+  const dayRollup = dayEntries.length > 1 ? rollupCheckIns(dayEntries) : null;
+  const checkInLabel = existingEntry
+    ? `${TIME_OF_DAY_LABELS[getTimeOfDay(existingEntry.timestamp)].toLowerCase()} check-in`
+    : 'check-in';
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
@@ -257,7 +381,9 @@ const DailyMoodEntry: React.FC = () => {
           <div className="text-center">
             <h1 className="text-3xl font-bold text-gray-900">Daily Wellness Entry</h1>
             <p className="text-gray-600 mt-2">
-              {existingEntry ? 'Update your entry' : 'Track your wellness metrics'}
+              {existingEntry
+                ? 'Update your check-in'
+                : dayEntries.length > 0 ? 'Add another check-in' : 'Track your wellness metrics'}
             </p>
           </div>
           
@@ -274,18 +400,47 @@ const DailyMoodEntry: React.FC = () => {
           <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
             <CheckCircle className="w-5 h-5 text-green-600" />
             <span className="text-green-800">
-              Entry {existingEntry ? 'updated' : 'saved'} successfully!
+              Check-in {existingEntry ? 'updated' : 'saved'} successfully!
             </span>
           </div>
         )}
 
         {/* Existing Entry Notice */}
         {existingEntry && (
-          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2">
-            <AlertCircle className="w-5 h-5 text-blue-600" />
-            <span className="text-blue-800">
-              Updating existing entry for {new Date(existingEntry.date).toLocaleDateString()}
-            </span>
+          <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center justify-between">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-blue-600" />
+              <span className="text-blue-800">
+                Updating the {checkInLabel} at {toTimeInputValue(existingEntry.timestamp)} on {new Date(existingEntry.date).toLocaleDateString()}
+              </span>
+            </div>
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => revisions ? setRevisions(null) : loadRevisions(existingEntry.id)}
+                className="flex items-center space-x-1 text-sm text-blue-700 hover:text-blue-900"
+              >
+                <History className="w-4 h-4" />
+                <span>History</span>
+              </button>
+              <button
+                onClick={handleDelete}
+                className="flex items-center space-x-1 text-sm text-red-600 hover:text-red-800"
+              >
+                <Trash2 className="w-4 h-4" />
+                <span>Delete</span>
+              </button>
+            </div>
+          </div>
+        )}
+
+        {/* Revision History */}
+        {existingEntry && revisions && (
+          <div className="mb-6">
+            <RevisionHistory
+              revisions={revisions}
+              onRestore={handleRestoreRevision}
+              onClose={() => setRevisions(null)}
+            />
           </div>
         )}
 
@@ -307,6 +462,84 @@ const DailyMoodEntry: React.FC = () => {
             {errors.date && <p className="mt-2 text-sm text-red-600">{errors.date}</p>}
           </div>
 
+          {/* Check-ins */}
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center space-x-2">
+                <Clock className="w-5 h-5 text-indigo-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Check-ins</h2>
+              </div>
+              {existingEntry && (
+                <button
+                  onClick={handleNewCheckIn}
+                  className="flex items-center space-x-1 text-sm text-indigo-600 hover:text-indigo-800"
+                >
+                  <Plus className="w-4 h-4" />
+                  <span>New check-in</span>
+                </button>
+              )}
+            </div>
+
+            {dayEntries.length === 0 ? (
+              <p className="text-sm text-gray-500 mb-4">No check-ins for this day yet.</p>
+            ) : (
+              <div className="flex flex-wrap gap-2 mb-4">
+                {dayEntries.map(entry => (
+                  <button
+                    key={entry.id}
+                    type="button"
+                    onClick={() => handleSelectCheckIn(entry)}
+                    aria-pressed={existingEntry?.id === entry.id}
+                    className={`px-3 py-1 text-sm rounded-full border transition-colors ${
+                      existingEntry?.id === entry.id
+                        ? 'bg-indigo-100 border-indigo-300 text-indigo-700'
+                        : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {TIME_OF_DAY_LABELS[getTimeOfDay(entry.timestamp)]} {toTimeInputValue(entry.timestamp)} · {getMoodEmoji(entry.mood)} {entry.mood}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {dayRollup && (
+              <p className="text-sm text-gray-600 mb-4">
+                Day average: mood {dayRollup.mood.toFixed(1)}/10 over {dayRollup.checkIns} check-ins,
+                ranging {dayRollup.moodRange[0]}–{dayRollup.moodRange[1]}
+              </p>
+            )}
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="time"
+                value={checkInTime}
+                onChange={(e) => {
+                  setCheckInTime(e.target.value);
+                  setHasUnsavedInput(true);
+                }}
+                aria-label="Check-in time"
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              />
+              <div className="flex gap-2">
+                {PRESET_TIMES_OF_DAY.map(timeOfDay => (
+                  <button
+                    key={timeOfDay}
+                    type="button"
+                    onClick={() => handlePresetTime(timeOfDay)}
+                    className={`flex-1 px-3 py-2 text-sm rounded-lg border transition-colors ${
+                      getTimeOfDay(toCheckInTimestamp(formData.date, checkInTime)) === timeOfDay
+                        ? 'bg-indigo-100 border-indigo-300 text-indigo-700'
+                        : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'
+                    }`}
+                  >
+                    {TIME_OF_DAY_LABELS[timeOfDay]}
+                  </button>
+                ))}
+              </div>
+            </div>
+            {errors.time && <p className="mt-2 text-sm text-red-600">{errors.time}</p>}
+          </div>
+
           {/* Mood & Energy */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             
@@ -422,16 +655,24 @@ const DailyMoodEntry: React.FC = () => {
                 <Activity className="w-5 h-5 text-green-600" />
                 <h2 className="text-lg font-semibold text-gray-900">Exercise</h2>
               </div>
-              <label className="flex items-center space-x-3 cursor-pointer">
+              <div className="space-y-4">
                 <input
-                  type="checkbox"
-                  checked={formData.exercise}
-                  onChange={(e) => setFormData(prev => ({ ...prev, exercise: e.target.checked }))}
-                  className="w-5 h-5 text-green-600 border-gray-300 rounded focus:ring-green-500"
+                  type="range"
+                  min="0"
+                  max="120"
+                  step="5"
+                  value={formData.exercise}
+                  onChange={(e) => handleSliderChange('exercise', Number(e.target.value))}
+                  className="w-full h-2 bg-gradient-to-r from-gray-200 via-green-200 to-green-400 rounded-lg appearance-none slider"
                 />
-                <span className="text-gray-700">I exercised today</span>
-              </label>
+                <div className="flex justify-between text-xs text-gray-500">
+                  <span>0 min</span>
+                  <span className="font-bold text-lg">{formData.exercise} min</span>
+                  <span>120+ min</span>
+                </div>
+              </div>
               <p className="text-xs text-gray-500 mt-2">Any physical activity counts!</p>
+              {errors.exercise && <p className="mt-2 text-sm text-red-600">{errors.exercise}</p>}
             </div>
 
             {/* Stress */}
@@ -459,26 +700,50 @@ const DailyMoodEntry: React.FC = () => {
             </div>
           </div>
 
-          {/* Tags */}
+          {/* Nutrition */}
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-4">
+              <Apple className="w-5 h-5 text-orange-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Nutrition</h2>
+            </div>
+            <div className="space-y-4">
+              <input
+                type="range"
+                min="1"
+                max="10"
+                value={formData.nutrition}
+                onChange={(e) => handleSliderChange('nutrition', Number(e.target.value))}
+                className="w-full h-2 bg-gradient-to-r from-red-200 via-yellow-200 to-green-200 rounded-lg appearance-none slider"
+              />
+              <div className="flex justify-between text-xs text-gray-500">
+                <span>Poor (1)</span>
+                <span className="font-bold text-lg">{formData.nutrition}/10</span>
+                <span>Excellent (10)</span>
+              </div>
+            </div>
+            {errors.nutrition && <p className="mt-2 text-sm text-red-600">{errors.nutrition}</p>}
+          </div>
+
+          {/* Factors */}
           <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
             <div className="flex items-center space-x-2 mb-4">
               <Target className="w-5 h-5 text-purple-600" />
-              <h2 className="text-lg font-semibold text-gray-900">Tags</h2>
+              <h2 className="text-lg font-semibold text-gray-900">Contributing Factors</h2>
               <span className="text-sm text-gray-500">(Optional)</span>
             </div>
             <div className="flex flex-wrap gap-2">
-              {commonTags.map(tag => (
+              {MOOD_FACTORS.map(factor => (
                 <button
-                  key={tag}
+                  key={factor.id}
                   type="button"
-                  onClick={() => handleTagToggle(tag)}
+                  onClick={() => handleFactorToggle(factor.id)}
                   className={`px-3 py-1 text-sm rounded-full border transition-colors ${
-                    formData.tags.includes(tag)
+                    formData.factors.includes(factor.id)
                       ? 'bg-purple-100 border-purple-300 text-purple-700'
                       : 'bg-gray-100 border-gray-300 text-gray-600 hover:bg-gray-200'
                   }`}
                 >
-                  {tag}
+                  {factor.label}
                 </button>
               ))}
             </div>
@@ -493,7 +758,10 @@ const DailyMoodEntry: React.FC = () => {
             </div>
             <textarea
               value={formData.notes}
-              onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
+              onChange={(e) => {
+                setFormData(prev => ({ ...prev, notes: e.target.value }));
+                setHasUnsavedInput(true);
+              }}
               placeholder="How was your day? Any insights or observations..."
               rows={4}
               className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent resize-none"
@@ -508,7 +776,15 @@ const DailyMoodEntry: React.FC = () => {
           )}
 
           {/* Submit Button */}
-          <div className="flex justify-center">
+          <div className="flex justify-center items-center space-x-3">
+            <button
+              onClick={handleUndo}
+              disabled={!canUndo}
+              aria-label="Undo last change"
+              className="p-3 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Undo2 className="w-4 h-4" />
+            </button>
             <button
               onClick={handleSubmit}
               disabled={isSubmitting}
@@ -522,13 +798,29 @@ const DailyMoodEntry: React.FC = () => {
               ) : (
                 <>
                   <Save className="w-4 h-4 mr-2" />
-                  {existingEntry ? 'Update Entry' : 'Save Entry'}
+                  {existingEntry ? 'Update Check-in' : 'Save Check-in'}
                 </>
               )}
             </button>
+            <button
+              onClick={handleRedo}
+              disabled={!canRedo}
+              aria-label="Redo change"
+              className="p-3 rounded-lg border border-gray-300 text-gray-600 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+            >
+              <Redo2 className="w-4 h-4" />
+            </button>
           </div>
         </div>
       </div>
+
+      {toastMessage && (
+        <UndoToast
+          message={toastMessage}
+          onUndo={handleUndo}
+          onDismiss={dismissToast}
+        />
+      )}
     </div>
   );
 };
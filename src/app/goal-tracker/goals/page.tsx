@@ -2,13 +2,20 @@
 
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { Plus, Target, TrendingUp, AlertCircle, CheckCircle, Clock, Filter } from 'lucide-react';
 import { Goal, GoalCategory, GoalPriority, GoalStatus, GoalProgress } from '@/types/goals';
+import { Operation } from '@/types/history';
 import { GoalOptimizer } from '@/utils/goalOptimization';
 import GoalCard from '@/components/goals/GoalCard';
 import CreateGoalModal from '@/components/goals/CreateGoalModal';
 import GoalDetailsModal from '@/components/goals/GoalDetailsModal';
+import { getRepositories, subscribeToProfileSwitch } from '@/lib/storage';
+import { subscribeToRemoteChanges } from '@/lib/sync';
+import { createGoalProgressOperation } from '@/lib/operation-log';
+import { useOperationHistory } from '@/hooks/useOperationHistory';
+import { useProfiles } from '@/hooks/useProfiles';
+import UndoToast from '@/components/UndoToast';
 
 const GoalTrackerPage: React.FC = () => {
   const [goals, setGoals] = useState<Goal[]>([]);
@@ -18,50 +25,60 @@ const GoalTrackerPage: React.FC = () => {
   const [isDetailsModalOpen, setIsDetailsModalOpen] = useState(false);
   const [filterCategory, setFilterCategory] = useState<GoalCategory | 'all'>('all');
   const [filterStatus, setFilterStatus] = useState<GoalStatus | 'all'>('all');
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
 
-  // Load goals from localStorage on component mount
-  useEffect(() => {
-    const savedGoals = localStorage.getItem('herflow-goals');
-    const savedProgress = localStorage.getItem('herflow-goal-progress');
-    
-    if (savedGoals) {
-      const parsedGoals = JSON.parse(savedGoals).map((goal: any) => ({
-        ...goal,
-        createdAt: new Date(goal.createdAt),
-        updatedAt: new Date(goal.updatedAt),
-        deadline: new Date(goal.deadline),
-        milestones: goal.milestones?.map((m: any) => ({
-          ...m,
-          targetDate: new Date(m.targetDate),
-          completedAt: m.completedAt ? new Date(m.completedAt) : undefined
-        })) || []
-      }));
-      setGoals(parsedGoals);
-    }
-    
-    if (savedProgress) {
-      const parsedProgress = JSON.parse(savedProgress);
-      Object.keys(parsedProgress).forEach(goalId => {
-        parsedProgress[goalId] = parsedProgress[goalId].map((p: any) => ({
-          ...p,
-          date: new Date(p.date)
-        }));
-      });
-      setProgressData(parsedProgress);
-    }
-  }, []);
+  // Progress updates are logged with the goal before/after, so currentValue changes can be undone
+  const { perform, undo, clear: clearHistory } = useOperationHistory((operation: Operation) => {
+    if (operation.target !== 'goalProgress') return;
+    const { after, progress } = operation;
 
-  // Save goals to localStorage whenever goals change
-  useEffect(() => {
-    localStorage.setItem('herflow-goals', JSON.stringify(goals));
-  }, [goals]);
+    setGoals(prev => prev.map(g => g.id === after.id ? after : g));
+    setSelectedGoal(prev => prev && prev.id === after.id ? after : prev);
+    setProgressData(prev => {
+      const records = prev[progress.goalId] || [];
+      return {
+        ...prev,
+        [progress.goalId]: operation.type === 'add'
+          ? [...records, progress]
+          : records.filter(p => p.date.getTime() !== progress.date.getTime())
+      };
+    });
+  });
 
-  // Save progress data to localStorage whenever it changes
+  const { activeProfile } = useProfiles();
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  // Load goals and progress from the storage engine on mount, after every profile switch
+  // and whenever a sync brings in changes from another device
   useEffect(() => {
-    localStorage.setItem('herflow-goal-progress', JSON.stringify(progressData));
-  }, [progressData]);
+    const loadGoals = async () => {
+      try {
+        const { goals: goalRepository } = await getRepositories();
+        setGoals(await goalRepository.getAll());
+        setProgressData(await goalRepository.getAllProgress());
+      } catch (err) {
+        console.error('Error loading goals:', err);
+      }
+    };
+
+    loadGoals();
+    const unsubscribeProfile = subscribeToProfileSwitch(() => {
+      setGoals([]);
+      setProgressData({});
+      setSelectedGoal(null);
+      setIsDetailsModalOpen(false);
+      clearHistory();
+      loadGoals();
+    });
+    const unsubscribeRemote = subscribeToRemoteChanges(loadGoals);
+    return () => {
+      unsubscribeProfile();
+      unsubscribeRemote();
+    };
+  }, [clearHistory]);
 
-  const handleCreateGoal = (newGoal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt' | 'metrics'>) => {
+  const handleCreateGoal = async (newGoal: Omit<Goal, 'id' | 'createdAt' | 'updatedAt' | 'metrics'>) => {
     const goal: Goal = {
       ...newGoal,
       id: Date.now().toString(),
@@ -79,9 +96,19 @@ const GoalTrackerPage: React.FC = () => {
     
     setGoals(prev => [...prev, goal]);
     setIsCreateModalOpen(false);
+
+    try {
+      const { goals: goalRepository } = await getRepositories();
+      await goalRepository.put(goal);
+    } catch (err) {
+      console.error('Error saving goal:', err);
+    }
   };
 
-  const handleUpdateProgress = (goalId: string, value: number, notes?: string, mood?: number) => {
+  const handleUpdateProgress = async (goalId: string, value: number, notes?: string, mood?: number) => {
+    const goal = goals.find(g => g.id === goalId);
+    if (!goal) return;
+
     const progress: GoalProgress = {
       goalId,
       date: new Date(),
@@ -90,27 +117,23 @@ const GoalTrackerPage: React.FC = () => {
       mood
     };
     
-    setProgressData(prev => ({
-      ...prev,
-      [goalId]: [...(prev[goalId] || []), progress]
-    }));
-    
     // Update goal current value and recalculate metrics
-    setGoals(prev => prev.map(goal => {
-      if (goal.id === goalId) {
-        const goalProgressData = [...(progressData[goalId] || []), progress];
-        const metrics = GoalOptimizer.calculateGoalMetrics(goal, goalProgressData);
-        
-        return {
-          ...goal,
-          currentValue: value,
-          updatedAt: new Date(),
-          metrics,
-          status: metrics.completionRate >= 100 ? GoalStatus.COMPLETED : goal.status
-        };
-      }
-      return goal;
-    }));
+    const updatedGoal = GoalOptimizer.applyProgress(goal, [...(progressData[goalId] || []), progress], progress);
+
+    try {
+      await perform(createGoalProgressOperation(goal, updatedGoal, progress));
+      setToastMessage(`${goal.title}: ${goal.currentValue} → ${value} ${goal.unit}`);
+    } catch (err) {
+      console.error('Error saving goal progress:', err);
+    }
+  };
+
+  const handleUndoProgress = async () => {
+    try {
+      await undo();
+    } catch (err) {
+      console.error('Error undoing goal progress:', err);
+    }
   };
 
   const handleGoalClick = (goal: Goal) => {
@@ -142,7 +165,7 @@ const GoalTrackerPage: React.FC = () => {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">Goal Tracker</h1>
-                <p className="text-gray-600">Optimize your progress with data-driven insights</p>
+                <p className="text-gray-600">{activeProfile.name}&apos;s goals, optimized with data-driven insights</p>
               </div>
             </div>
             <button
@@ -286,6 +309,14 @@ const GoalTrackerPage: React.FC = () => {
           onUpdateProgress={handleUpdateProgress}
         />
       )}
+
+      {toastMessage && (
+        <UndoToast
+          message={toastMessage}
+          onUndo={handleUndoProgress}
+          onDismiss={dismissToast}
+        />
+      )}
     </div>
   );
 };
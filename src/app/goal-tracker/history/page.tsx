@@ -1,32 +1,25 @@
 'use client';
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
+import Link from 'next/link';
 import { 
   LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer,
-  BarChart, Bar, Area, AreaChart, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar
+  BarChart, Bar, Area, AreaChart, RadarChart, PolarGrid, PolarAngleAxis, PolarRadiusAxis, Radar,
+  ReferenceLine
 } from 'recharts';
 import { 
   ArrowLeft, TrendingUp, Calendar, Filter, Download, 
   Heart, Zap, Moon, Droplets, Activity, Brain,
-  BarChart3, PieChart, Target, Settings
+  BarChart3, PieChart, Target, Settings, Flag, Scale
 } from 'lucide-react';
+import { ChangePoint, DEFAULT_ANALYTICS_CONFIG, MoodEntry, MOOD_ENTRY_SCHEMA_VERSION } from '@/types/mood-tracker';
+import { getRepositories } from '@/lib/storage';
+import { rollupDailyEntries } from '@/lib/check-ins';
+import { MoodAnalytics } from '@/lib/mood-analytics';
+import LagCorrelationChart from '../components/LagCorrelationChart';
+import FactorImpactView from '../components/FactorImpactView';
 
 // Types
-interface MoodEntry {
-  id: string;
-  date: string;
-  mood: number;
-  energy: number;
-  sleep: number;
-  exercise: boolean;
-  hydration: number;
-  stress: number;
-  notes?: string;
-  tags?: string[];
-  createdAt: string;
-  updatedAt: string;
-}
-
 interface ChartDataPoint {
   date: string;
   mood: number;
@@ -67,21 +60,28 @@ const DataVisualizationCharts: React.FC = () => {
     }
   }, [entries, selectedTimeframe]);
 
-  const loadData = () => {
+  // Change points over the whole history, most recent first
+  const changePoints = useMemo(
+    () => new MoodAnalytics(entries)
+      .detectChangePoints()
+      .reduce<ChangePoint[]>((all, analysis) => all.concat(analysis.changePoints), [])
+      .sort((a, b) => b.date.localeCompare(a.date)),
+    [entries]
+  );
+
+  const loadData = async () => {
     try {
       setIsLoading(true);
-      const savedEntries = typeof window !== 'undefined' ? localStorage.getItem('herflowstate-mood-entries') : null;
+      const { moods } = await getRepositories();
+      const savedEntries = await moods.getAll();
       
-      if (savedEntries) {
-        const parsedEntries: MoodEntry[] = JSON.parse(savedEntries);
-        setEntries(parsedEntries);
+      if (savedEntries.length > 0) {
+        setEntries(savedEntries);
       } else {
         // Generate sample data for development
         const sampleData = generateSampleData();
         setEntries(sampleData);
-        if (typeof window !== 'undefined') {
-          localStorage.setItem('herflowstate-mood-entries', JSON.stringify(sampleData));
-        }
+        await moods.replaceAll(sampleData);
       }
     } catch (error) {
       console.error('Error loading data:', error);
@@ -105,15 +105,19 @@ const DataVisualizationCharts: React.FC = () => {
       
       data.push({
         id: `sample-${i}`,
+        schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
         date: date.toISOString().split('T')[0],
+        timestamp: date.toISOString(),
+        updatedAt: date.toISOString(),
         mood: Math.max(1, Math.min(10, 6 + moodTrend + (Math.random() - 0.5))),
         energy: Math.max(1, Math.min(10, 6 + Math.sin(i * 0.1) * 1.5 + (Math.random() - 0.5))),
         sleep: Math.max(4, Math.min(12, (isWeekend ? 8.5 : 7) + (Math.random() - 0.5) * 1.5)),
-        exercise: Math.random() > (isWeekend ? 0.4 : 0.7),
+        exercise: Math.random() > (isWeekend ? 0.4 : 0.7) ? 30 : 0,
         hydration: Math.max(4, Math.min(15, 8 + (Math.random() - 0.5) * 3)),
         stress: Math.max(1, Math.min(10, 5 - moodTrend * 0.5 + (Math.random() - 0.5) * 2)),
-        createdAt: date.toISOString(),
-        updatedAt: date.toISOString(),
+        nutrition: Math.max(1, Math.min(10, 6 + (Math.random() - 0.5) * 2)),
+        notes: '',
+        factors: [],
       });
     }
     return data.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
@@ -131,7 +135,8 @@ const DataVisualizationCharts: React.FC = () => {
     const cutoffDate = new Date();
     cutoffDate.setDate(cutoffDate.getDate() - days);
 
-    const filteredEntries = entries
+    // One point per day: several check-ins are rolled up into their daily average
+    const filteredEntries = rollupDailyEntries(entries)
       .filter(entry => new Date(entry.date) >= cutoffDate)
       .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
 
@@ -142,7 +147,7 @@ const DataVisualizationCharts: React.FC = () => {
       sleep: Math.round(entry.sleep * 10) / 10,
       hydration: entry.hydration,
       stress: Math.round(entry.stress * 10) / 10,
-      exercise: entry.exercise ? 1 : 0,
+      exercise: entry.exercise > 0 ? 1 : 0,
       formattedDate: new Date(entry.date).toLocaleDateString('en-US', { 
         month: 'short', 
         day: 'numeric' 
@@ -228,6 +233,23 @@ const DataVisualizationCharts: React.FC = () => {
     }
   };
 
+  // Vertical markers where a displayed metric changed level
+  const renderChangePointMarkers = () =>
+    changePoints
+      .filter(changePoint => selectedMetrics.includes(changePoint.metric))
+      .map(changePoint => {
+        const point = chartData.find(d => d.date === changePoint.date);
+        return point && (
+          <ReferenceLine
+            key={`${changePoint.metric}-${changePoint.date}`}
+            x={point.formattedDate}
+            stroke={getMetricColor(changePoint.metric)}
+            strokeDasharray="4 4"
+            label={{ value: '⚑', position: 'top', fill: getMetricColor(changePoint.metric) }}
+          />
+        );
+      });
+
   const renderLineChart = () => (
     <ResponsiveContainer width="100%" height={400}>
       <LineChart data={chartData}>
@@ -247,6 +269,7 @@ const DataVisualizationCharts: React.FC = () => {
           }}
         />
         <Legend />
+        {renderChangePointMarkers()}
         {selectedMetrics.map(metric => (
           <Line
             key={metric}
@@ -281,6 +304,7 @@ const DataVisualizationCharts: React.FC = () => {
           }}
         />
         <Legend />
+        {renderChangePointMarkers()}
         {selectedMetrics.map(metric => (
           <Area
             key={metric}
@@ -316,6 +340,7 @@ const DataVisualizationCharts: React.FC = () => {
           }}
         />
         <Legend />
+        {renderChangePointMarkers()}
         {selectedMetrics.map(metric => (
           <Bar
             key={metric}
@@ -540,6 +565,89 @@ const DataVisualizationCharts: React.FC = () => {
           )}
         </div>
 
+        {/* Change Points */}
+        {entries.length > 0 && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <Flag className="w-6 h-6 text-indigo-600" />
+              <h2 className="text-xl font-semibold text-gray-900">When Things Changed</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-6">
+              Days where a metric settled at a new level, with the factors logged around them. Changes in the
+              displayed metrics are flagged on the chart above.
+            </p>
+            {changePoints.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No lasting changes found yet. Each level needs at least {DEFAULT_ANALYTICS_CONFIG.minSegmentDays} days of entries.
+              </p>
+            ) : (
+              <ul className="divide-y divide-gray-100">
+                {changePoints.map(changePoint => (
+                  <li key={`${changePoint.metric}-${changePoint.date}`} className="py-3 space-y-2">
+                    <div className="flex items-center">
+                      <div className="flex items-center space-x-2 text-sm">
+                        {getMetricIcon(changePoint.metric)}
+                        <span className="font-medium text-gray-900 capitalize">{changePoint.metric}</span>
+                        <span className="text-gray-600">
+                          {changePoint.afterMean > changePoint.beforeMean ? 'rose' : 'fell'} from{' '}
+                          {changePoint.beforeMean.toFixed(1)} to {changePoint.afterMean.toFixed(1)} on{' '}
+                          {new Date(changePoint.date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric' })}
+                        </span>
+                      </div>
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2">
+                      {changePoint.nearbyFactors.map(factor => (
+                        <span key={factor.factor} className="px-2 py-1 rounded-full text-xs bg-indigo-50 text-indigo-700">
+                          {factor.label} · {factor.days} day{factor.days === 1 ? '' : 's'}
+                        </span>
+                      ))}
+                      {changePoint.nearbyFactors.length === 0 && (
+                        <span className="text-xs text-gray-400">
+                          No factors logged within {DEFAULT_ANALYTICS_CONFIG.changePointFactorWindowDays} days
+                        </span>
+                      )}
+                      <Link
+                        href={`/goal-tracker/entry/?date=${changePoint.date}`}
+                        className="text-xs text-indigo-600 hover:text-indigo-800 underline"
+                      >
+                        View check-ins
+                      </Link>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
+        {/* Lagged Effects */}
+        {entries.length > 0 && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <Activity className="w-6 h-6 text-indigo-600" />
+              <h2 className="text-xl font-semibold text-gray-900">Delayed Effects on Mood</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-6">
+              How each factor relates to your mood the same day and up to a week later, using all of your history
+            </p>
+            <LagCorrelationChart entries={entries} />
+          </div>
+        )}
+
+        {/* Factor Impact */}
+        {entries.length > 0 && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+            <div className="flex items-center space-x-2 mb-2">
+              <Scale className="w-6 h-6 text-indigo-600" />
+              <h2 className="text-xl font-semibold text-gray-900">What Helps, What Hurts</h2>
+            </div>
+            <p className="text-sm text-gray-600 mb-6">
+              Your mood, energy and stress on days with each factor compared with days without it
+            </p>
+            <FactorImpactView entries={entries} />
+          </div>
+        )}
+
         {/* Insights Panel */}
         {chartData.length > 0 && (
           <div className="bg-gradient-to-r from-indigo-50 to-purple-50 rounded-xl p-6 border border-indigo-200">
@@ -0,0 +1,319 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import {
+  ArrowLeft, Upload, FileSpreadsheet, FileJson, AlertCircle, CheckCircle, Table, Columns
+} from 'lucide-react';
+import { CsvImportOptions } from '@/types/mood-import';
+import { useMoodTracker } from '@/hooks/useMoodTracker';
+import { parseCsv } from '@/lib/csv';
+import { parseMoodCsv, suggestCsvImportOptions } from '@/lib/mood-csv';
+import { detectImporter, getImporter, getImporters } from '@/lib/importers';
+import CsvColumnMapper from '../components/CsvColumnMapper';
+import ImportPreview from '../components/ImportPreview';
+import HealthImport from '../components/HealthImport';
+
+// How many converted rows the mapping step previews
+const PREVIEW_ROWS = 5;
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const ImportExportPage: React.FC = () => {
+  const { entries, exportData, exportCsv, importData, importCsv, importFromApp, applyHealthUpdates, error, loading } = useMoodTracker();
+
+  const [csvText, setCsvText] = useState<string | null>(null);
+  const [csvFileName, setCsvFileName] = useState('');
+  const [options, setOptions] = useState<CsvImportOptions | null>(null);
+  const [importerId, setImporterId] = useState(''); // '' = generic CSV with column mapping
+  const [message, setMessage] = useState<string | null>(null);
+
+  const rows = useMemo(() => (csvText ? parseCsv(csvText) : []), [csvText]);
+
+  // Re-run the conversion whenever the mapping changes so errors show live
+  const preview = useMemo(
+    () => (options && rows.length > 0 ? parseMoodCsv(rows, options) : null),
+    [rows, options]
+  );
+
+  const importer = importerId ? getImporter(importerId) : undefined;
+  const appPreview = useMemo(
+    () => (importer && csvText ? importer.parse(csvText) : null),
+    [importer, csvText]
+  );
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const handleFileSelected = async (file: File) => {
+    setMessage(null);
+    const text = await file.text();
+
+    if (file.name.toLowerCase().endsWith('.json')) {
+      setCsvText(null);
+      if (await importData(text)) {
+        setMessage(`Imported entries from ${file.name}`);
+      }
+      return;
+    }
+
+    const parsedRows = parseCsv(text);
+    if (parsedRows.length < 2) {
+      setMessage(`${file.name} has no data rows`);
+      return;
+    }
+    setCsvText(text);
+    setCsvFileName(file.name);
+    setOptions(suggestCsvImportOptions(parsedRows));
+    setImporterId(detectImporter(file.name, text)?.id || '');
+  };
+
+  const resetCsv = () => {
+    setCsvText(null);
+    setOptions(null);
+    setImporterId('');
+  };
+
+  const handleAppImport = async () => {
+    if (!csvText || !importer || !appPreview) return;
+
+    const imported = await importFromApp(importer.id, csvText);
+    const skipped = appPreview.errors.length;
+    setMessage(
+      `Imported ${imported} new entr${imported === 1 ? 'y' : 'ies'} from ${importer.name}` +
+      (skipped > 0 ? `; ${skipped} problem${skipped === 1 ? '' : 's'} skipped` : '')
+    );
+    resetCsv();
+  };
+
+  const handleCsvImport = async () => {
+    if (!csvText || !options) return;
+
+    const imported = await importCsv(csvText, options);
+    const skipped = preview ? preview.totalRows - preview.entries.length : 0;
+    setMessage(
+      `Imported ${imported} new entr${imported === 1 ? 'y' : 'ies'} from ${csvFileName}` +
+      (skipped > 0 ? `; ${skipped} row${skipped === 1 ? '' : 's'} skipped` : '')
+    );
+    resetCsv();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-5xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Import &amp; Export</h1>
+            <p className="text-gray-600 mt-2">Move your mood entries in and out of spreadsheets</p>
+          </div>
+
+          <Table className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {/* Export */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Export</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            {loading ? 'Loading entries…' : `${entries.length} mood entries`}. CSV has one column per field; factors are separated by semicolons.
+          </p>
+          <div className="flex space-x-3">
+            <button
+              onClick={() => downloadFile(exportCsv(), `mood-entries-${today}.csv`, 'text/csv')}
+              disabled={loading || entries.length === 0}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Download CSV
+            </button>
+            <button
+              onClick={() => downloadFile(exportData(), `mood-entries-${today}.json`, 'application/json')}
+              disabled={loading || entries.length === 0}
+              className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              <FileJson className="w-4 h-4 mr-2" />
+              Download JSON
+            </button>
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900">Import</h2>
+            <p className="text-sm text-gray-600">
+              Daylio, Bearable and eMoods exports are recognised automatically; other CSV files go through a
+              column-mapping step. Entries already in the app are never overwritten.
+            </p>
+          </div>
+
+          <label className="flex items-center justify-center px-4 py-6 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-indigo-400 transition-colors">
+            <Upload className="w-5 h-5 text-gray-500 mr-2" />
+            <span className="text-gray-700">{csvFileName && csvText ? csvFileName : 'Choose a .csv or .json file'}</span>
+            <input
+              type="file"
+              accept=".csv,text/csv,.json,application/json"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleFileSelected(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+
+          {csvText && rows.length > 0 && (
+            <div className="flex items-center space-x-3">
+              <label className="text-sm font-medium text-gray-700">File format</label>
+              <select
+                value={importerId}
+                onChange={(e) => setImporterId(e.target.value)}
+                className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent"
+              >
+                {getImporters().map(registered => (
+                  <option key={registered.id} value={registered.id}>{registered.name} export</option>
+                ))}
+                <option value="">Other CSV (map columns)</option>
+              </select>
+              {importer && <span className="text-sm text-gray-500">{importer.description}</span>}
+            </div>
+          )}
+
+          {importer && appPreview && (
+            <ImportPreview
+              sourceName={importer.name}
+              result={appPreview}
+              onImport={handleAppImport}
+              onCancel={resetCsv}
+            />
+          )}
+
+          {!importer && options && rows.length > 0 && (
+            <div className="space-y-6">
+              <div className="flex items-center space-x-2">
+                <Columns className="w-5 h-5 text-indigo-600" />
+                <h3 className="font-semibold text-gray-900">Map columns</h3>
+              </div>
+
+              <CsvColumnMapper
+                headers={rows[0]}
+                sampleRow={rows[1] || []}
+                options={options}
+                onChange={setOptions}
+              />
+
+              {preview && (
+                <div className="space-y-4">
+                  <p className="text-sm text-gray-700">
+                    {preview.entries.length} of {preview.totalRows} rows ready to import
+                    {preview.unknownFactors.length > 0 && (
+                      <span className="text-gray-500"> · unrecognised factors: {preview.unknownFactors.join(', ')}</span>
+                    )}
+                  </p>
+
+                  {preview.entries.length > 0 && (
+                    <div className="overflow-x-auto">
+                      <table className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-gray-500 border-b border-gray-200">
+                            {['Date', 'Mood', 'Energy', 'Stress', 'Sleep', 'Exercise', 'Factors', 'Notes'].map(label => (
+                              <th key={label} className="py-2 pr-4 font-medium">{label}</th>
+                            ))}
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {preview.entries.slice(0, PREVIEW_ROWS).map(entry => (
+                            <tr key={entry.id} className="border-b border-gray-100 text-gray-700">
+                              <td className="py-2 pr-4">{entry.date}</td>
+                              <td className="py-2 pr-4">{entry.mood}</td>
+                              <td className="py-2 pr-4">{entry.energy}</td>
+                              <td className="py-2 pr-4">{entry.stress}</td>
+                              <td className="py-2 pr-4">{entry.sleep}</td>
+                              <td className="py-2 pr-4">{entry.exercise}</td>
+                              <td className="py-2 pr-4">{entry.factors.join(', ')}</td>
+                              <td className="py-2 pr-4 truncate max-w-xs">{entry.notes}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  )}
+
+                  {preview.errors.length > 0 && (
+                    <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg">
+                      <p className="font-medium text-yellow-800 mb-2">
+                        {preview.errors.length} problem{preview.errors.length === 1 ? '' : 's'} (these rows will be skipped)
+                      </p>
+                      <ul className="space-y-1 text-sm text-yellow-800 max-h-48 overflow-y-auto">
+                        {preview.errors.map((rowError, index) => (
+                          <li key={index}>
+                            Row {rowError.row}{rowError.column ? `, ${rowError.column}` : ''}: {rowError.message}
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  )}
+
+                  <div className="flex space-x-3">
+                    <button
+                      onClick={handleCsvImport}
+                      disabled={preview.entries.length === 0}
+                      className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                    >
+                      <Upload className="w-4 h-4 mr-2" />
+                      Import {preview.entries.length} entr{preview.entries.length === 1 ? 'y' : 'ies'}
+                    </button>
+                    <button
+                      onClick={resetCsv}
+                      className="px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Health apps */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <HealthImport entries={entries} onApply={applyHealthUpdates} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportExportPage;
@@ -0,0 +1,284 @@
+'use client';
+
+import React, { useState } from 'react';
+import Link from 'next/link';
+import {
+  ArrowLeft,
+  Users,
+  UserPlus,
+  Pencil,
+  Download,
+  Trash2,
+  ShieldCheck,
+  RefreshCw,
+  Bell,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+import { Profile } from '@/types/profile';
+import { addProfile, MAX_PROFILE_NAME_LENGTH, ProfileError, renameProfile } from '@/lib/profiles';
+import { deleteProfile, StorageLockedError, switchProfile, withProfileRepositories } from '@/lib/storage';
+import { createBackup, getBackupFileName, serializeBackup } from '@/lib/backup';
+import { useProfiles } from '@/hooks/useProfiles';
+import ProfileAvatar from '@/components/ProfileAvatar';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const downloadFile = (content: string, fileName: string, type: string) => {
+  const blob = new Blob([content], { type });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+const ProfilesPage: React.FC = () => {
+  const { profiles, activeProfile } = useProfiles();
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editName, setEditName] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<void> | void, success: string | null) => {
+    setError(null);
+    setMessage(null);
+    setIsWorking(true);
+    try {
+      await action();
+      if (success) setMessage(success);
+    } catch (err) {
+      if (err instanceof ProfileError) {
+        setError(err.message);
+      } else if (err instanceof StorageLockedError) {
+        setError('This profile has a passcode. Switch to it and unlock it to export its data.');
+      } else {
+        console.error('Error updating profiles:', err);
+        setError('Something went wrong. Please try again.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAdd = () => run(() => {
+    const profile = addProfile(newName);
+    setNewName('');
+    setMessage(`Added ${profile.name}. Switch to it to start tracking.`);
+  }, null);
+
+  const handleRename = (profile: Profile) => run(() => {
+    renameProfile(profile.id, editName);
+    setEditingId(null);
+  }, 'Profile renamed');
+
+  const handleExport = (profile: Profile) => run(async () => {
+    const backup = await withProfileRepositories(profile.id, repositories => createBackup(repositories));
+    downloadFile(serializeBackup(backup), getBackupFileName(backup, false, profile.name), 'application/json');
+  }, `Exported ${profile.name}'s data`);
+
+  const handleDelete = (profile: Profile) => {
+    const confirmed = window.confirm(
+      `Delete ${profile.name} and all of their moods, goals and settings from this device? This cannot be undone.`
+    );
+    if (!confirmed) return;
+    run(() => deleteProfile(profile.id), `Deleted ${profile.name}`);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Profiles</h1>
+            <p className="text-gray-600 mt-2">Everyone sharing this device keeps their own moods, goals and settings</p>
+          </div>
+
+          <Users className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {/* Profile list */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100">
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">On this device</h2>
+          <ul className="divide-y divide-gray-100">
+            {profiles.map(profile => {
+              const isActive = profile.id === activeProfile.id;
+              return (
+                <li key={profile.id} className="py-4 flex flex-wrap items-center gap-3">
+                  <ProfileAvatar profile={profile} size="lg" />
+
+                  <div className="flex-1 min-w-[10rem]">
+                    {editingId === profile.id ? (
+                      <form
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleRename(profile);
+                        }}
+                        className="flex space-x-2"
+                      >
+                        <input
+                          value={editName}
+                          onChange={(e) => setEditName(e.target.value)}
+                          maxLength={MAX_PROFILE_NAME_LENGTH}
+                          autoFocus
+                          className={inputClassName}
+                        />
+                        <button type="submit" disabled={isWorking} className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm">
+                          Save
+                        </button>
+                        <button type="button" onClick={() => setEditingId(null)} className="px-3 py-2 text-gray-600 text-sm">
+                          Cancel
+                        </button>
+                      </form>
+                    ) : (
+                      <>
+                        <p className="font-medium text-gray-900">{profile.name}</p>
+                        <p className="text-xs text-gray-500">
+                          {isActive ? 'In use now' : `Added ${new Date(profile.createdAt).toLocaleDateString()}`}
+                        </p>
+                      </>
+                    )}
+                  </div>
+
+                  {editingId !== profile.id && (
+                    <div className="flex items-center space-x-2">
+                      {!isActive && (
+                        <button
+                          onClick={() => run(() => switchProfile(profile.id), null)}
+                          disabled={isWorking}
+                          className="px-3 py-2 bg-indigo-600 text-white rounded-lg text-sm hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                        >
+                          Switch
+                        </button>
+                      )}
+                      {isActive && (
+                        <>
+                          <Link
+                            href="/goal-tracker/security"
+                            title="Passcode"
+                            className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                          >
+                            <ShieldCheck className="w-5 h-5" />
+                          </Link>
+                          <Link
+                            href="/goal-tracker/sync"
+                            title="Sync between devices"
+                            className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                          >
+                            <RefreshCw className="w-5 h-5" />
+                          </Link>
+                          <Link
+                            href="/goal-tracker/reminders"
+                            title="Check-in reminders"
+                            className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                          >
+                            <Bell className="w-5 h-5" />
+                          </Link>
+                        </>
+                      )}
+                      <button
+                        onClick={() => {
+                          setEditingId(profile.id);
+                          setEditName(profile.name);
+                        }}
+                        title="Rename"
+                        className="p-2 text-gray-500 hover:text-indigo-600 transition-colors"
+                      >
+                        <Pencil className="w-5 h-5" />
+                      </button>
+                      <button
+                        onClick={() => handleExport(profile)}
+                        disabled={isWorking}
+                        title="Export this profile"
+                        className="p-2 text-gray-500 hover:text-indigo-600 transition-colors disabled:opacity-50"
+                      >
+                        <Download className="w-5 h-5" />
+                      </button>
+                      {!isActive && (
+                        <button
+                          onClick={() => handleDelete(profile)}
+                          disabled={isWorking}
+                          title="Delete this profile"
+                          className="p-2 text-gray-500 hover:text-red-600 transition-colors disabled:opacity-50"
+                        >
+                          <Trash2 className="w-5 h-5" />
+                        </button>
+                      )}
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+          <p className="text-sm text-gray-500 mt-4">
+            Each profile can have its own passcode: switch to it, then open the shield. To delete the profile in use,
+            switch to another one first.
+          </p>
+        </div>
+
+        {/* Add profile */}
+        <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+          <div className="flex items-center space-x-2">
+            <UserPlus className="w-5 h-5 text-indigo-600" />
+            <h2 className="text-lg font-semibold text-gray-900">Add a profile</h2>
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleAdd();
+            }}
+            className="flex space-x-3"
+          >
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              placeholder="Name"
+              maxLength={MAX_PROFILE_NAME_LENGTH}
+              className={inputClassName}
+            />
+            <button
+              type="submit"
+              disabled={isWorking || newName.trim() === ''}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+            >
+              <UserPlus className="w-4 h-4 mr-2" />
+              Add
+            </button>
+          </form>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ProfilesPage;
@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Zap, Heart, Brain, Target, CheckCircle, AlertCircle } from 'lucide-react';
+import { MoodEntry, MOOD_ENTRY_SCHEMA_VERSION } from '@/types/mood-tracker';
+import { Goal, GoalProgress, GoalStatus } from '@/types/goals';
+import { Operation } from '@/types/history';
+import { createMoodEntryId } from '@/lib/mood-migration';
+import { toDateKey } from '@/lib/mood-queries';
+import { getCurrentCheckIn, getTimeOfDay, TIME_OF_DAY_LABELS } from '@/lib/check-ins';
+import { createGoalProgressOperation, createMoodEntryOperation } from '@/lib/operation-log';
+import { getRepositories } from '@/lib/storage';
+import { refreshReminders } from '@/lib/reminders';
+import { GoalOptimizer } from '@/utils/goalOptimization';
+import { useOperationHistory } from '@/hooks/useOperationHistory';
+import UndoToast from '@/components/UndoToast';
+
+type QuickField = 'mood' | 'energy' | 'stress';
+
+const SCALE = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10];
+
+// Same starting values as the full check-in form for the fields quick log skips
+const DEFAULT_ENTRY_VALUES = {
+  energy: 5,
+  sleep: 7,
+  exercise: 0,
+  hydration: 6,
+  stress: 5,
+  nutrition: 5,
+  notes: '',
+  factors: [] as string[]
+};
+
+const FIELD_LABELS: Record<QuickField, string> = {
+  mood: 'Mood',
+  energy: 'Energy',
+  stress: 'Stress',
+};
+
+const getMoodEmoji = (mood: number) => {
+  if (mood <= 2) return '😢';
+  if (mood <= 4) return '😕';
+  if (mood <= 6) return '😐';
+  if (mood <= 8) return '🙂';
+  return '😄';
+};
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+/**
+ * One-tap check-in, launched from the home-screen shortcuts. Each tap saves
+ * straight into the check-in for this part of the day, starting one when
+ * there is none yet; the full form stays one link away.
+ */
+const QuickLogPage: React.FC = () => {
+  const [today] = useState(() => toDateKey(new Date()));
+  const [dayCheckIns, setDayCheckIns] = useState<MoodEntry[]>([]);
+  const [goals, setGoals] = useState<Goal[]>([]);
+  const [goalValues, setGoalValues] = useState<Record<string, string>>({});
+  const [goalsFirst, setGoalsFirst] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [toastMessage, setToastMessage] = useState<string | null>(null);
+
+  const { perform, undo } = useOperationHistory((operation: Operation) => {
+    if (operation.target === 'moodEntry') {
+      const { before, after } = operation;
+      setDayCheckIns(prev => {
+        const others = prev.filter(entry => entry.id !== (after || before)?.id);
+        return after && after.date === today ? [...others, after] : others;
+      });
+    } else {
+      setGoals(prev => prev.map(goal => (goal.id === operation.after.id ? operation.after : goal)));
+      setGoalValues(prev => ({ ...prev, [operation.after.id]: String(operation.after.currentValue) }));
+    }
+  });
+
+  const dismissToast = useCallback(() => setToastMessage(null), []);
+
+  const loadData = useCallback(async () => {
+    try {
+      const { moods, goals: goalRepository } = await getRepositories();
+      const [checkIns, allGoals] = await Promise.all([moods.getByDate(today), goalRepository.getAll()]);
+      const activeGoals = allGoals.filter(goal => goal.status === GoalStatus.ACTIVE);
+      setDayCheckIns(checkIns);
+      setGoals(activeGoals);
+      setGoalValues(activeGoals.reduce<Record<string, string>>(
+        (values, goal) => ({ ...values, [goal.id]: String(goal.currentValue) }), {}
+      ));
+    } catch (err) {
+      console.error('Error loading quick log:', err);
+      setError('Failed to load today\'s check-in');
+    }
+  }, [today]);
+
+  useEffect(() => {
+    // The "Update goal" shortcut opens with ?log=goal
+    setGoalsFirst(new URLSearchParams(window.location.search).get('log') === 'goal');
+    loadData();
+  }, [loadData]);
+
+  const todayEntry = getCurrentCheckIn(dayCheckIns);
+  const timeOfDayLabel = TIME_OF_DAY_LABELS[getTimeOfDay(new Date())].toLowerCase();
+
+  const handleRate = async (field: QuickField, value: number) => {
+    setError(null);
+    setIsSaving(true);
+    dismissToast();
+
+    // A new check-in keeps the day's sleep, exercise and hydration so far
+    const latest = dayCheckIns[dayCheckIns.length - 1];
+    const now = new Date().toISOString();
+    const entry: MoodEntry = todayEntry
+      ? { ...todayEntry, [field]: value, updatedAt: now }
+      : {
+          id: createMoodEntryId(),
+          schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+          date: today,
+          timestamp: now,
+          updatedAt: now,
+          mood: 5,
+          ...DEFAULT_ENTRY_VALUES,
+          ...(latest && {
+            sleep: latest.sleep,
+            exercise: latest.exercise,
+            hydration: latest.hydration,
+            nutrition: latest.nutrition
+          }),
+          [field]: value
+        };
+
+    try {
+      await perform(createMoodEntryOperation(todayEntry, entry));
+      setToastMessage(`${FIELD_LABELS[field]} ${value} saved to your ${timeOfDayLabel} check-in`);
+      refreshReminders().catch(err => console.error('Error refreshing reminders:', err));
+    } catch (err) {
+      console.error('Error saving quick log:', err);
+      setError('Failed to save. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleLogGoal = async (goal: Goal) => {
+    const value = parseFloat(goalValues[goal.id]);
+    if (isNaN(value)) return;
+    setError(null);
+    setIsSaving(true);
+    dismissToast();
+
+    const progress: GoalProgress = {
+      goalId: goal.id,
+      date: new Date(),
+      value,
+      mood: todayEntry?.mood
+    };
+
+    try {
+      const { goals: goalRepository } = await getRepositories();
+      const history = await goalRepository.getProgress(goal.id);
+      const updatedGoal = GoalOptimizer.applyProgress(goal, [...history, progress], progress);
+      await perform(createGoalProgressOperation(goal, updatedGoal, progress));
+      setToastMessage(`${goal.title}: ${goal.currentValue} → ${value} ${goal.unit}`);
+    } catch (err) {
+      console.error('Error saving goal progress:', err);
+      setError('Failed to save goal progress. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUndo = async () => {
+    try {
+      await undo();
+    } catch (err) {
+      console.error('Error undoing quick log:', err);
+    }
+  };
+
+  const renderScale = (field: QuickField) => (
+    <div className="grid grid-cols-5 gap-2">
+      {SCALE.map(value => {
+        const selected = todayEntry?.[field] === value;
+        return (
+          <button
+            key={value}
+            onClick={() => handleRate(field, value)}
+            disabled={isSaving}
+            aria-pressed={selected}
+            className={`py-3 rounded-lg border text-sm font-medium transition-colors disabled:opacity-50 ${
+              selected
+                ? 'bg-indigo-600 border-indigo-600 text-white'
+                : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300 hover:bg-indigo-50'
+            }`}
+          >
+            {field === 'mood' && <span className="block text-xl">{getMoodEmoji(value)}</span>}
+            {value}
+          </button>
+        );
+      })}
+    </div>
+  );
+
+  const moodSection = (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-6">
+      <div>
+        <div className="flex items-center space-x-2 mb-4">
+          <Heart className="w-5 h-5 text-pink-500" />
+          <h2 className="text-lg font-semibold text-gray-900">How are you feeling?</h2>
+        </div>
+        {renderScale('mood')}
+      </div>
+
+      {todayEntry && (
+        <>
+          <div>
+            <div className="flex items-center space-x-2 mb-4">
+              <Zap className="w-5 h-5 text-yellow-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Energy</h2>
+              <span className="text-sm text-gray-500">(Optional)</span>
+            </div>
+            {renderScale('energy')}
+          </div>
+          <div>
+            <div className="flex items-center space-x-2 mb-4">
+              <Brain className="w-5 h-5 text-purple-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Stress</h2>
+              <span className="text-sm text-gray-500">(Optional)</span>
+            </div>
+            {renderScale('stress')}
+          </div>
+        </>
+      )}
+
+      <p className="text-sm text-gray-600">
+        {todayEntry ? `Saved to your ${timeOfDayLabel} check-in. ` : `Tap a number to save your ${timeOfDayLabel} check-in. `}
+        <Link href={`/goal-tracker/entry/?date=${today}`} className="text-indigo-600 hover:text-indigo-800 underline">
+          Open the full check-in
+        </Link>
+      </p>
+    </div>
+  );
+
+  const goalSection = (
+    <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+      <div className="flex items-center space-x-2">
+        <Target className="w-5 h-5 text-indigo-600" />
+        <h2 className="text-lg font-semibold text-gray-900">Update a goal</h2>
+      </div>
+      {goals.length === 0 ? (
+        <p className="text-sm text-gray-600">
+          No active goals. <Link href="/goal-tracker/goals" className="text-indigo-600 underline">Create one</Link>
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-100">
+          {goals.map(goal => (
+            <li key={goal.id} className="py-3 flex items-center space-x-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{goal.title}</p>
+                <p className="text-xs text-gray-500">
+                  {goal.currentValue} / {goal.targetValue} {goal.unit}
+                </p>
+              </div>
+              <input
+                type="number"
+                inputMode="decimal"
+                value={goalValues[goal.id] ?? ''}
+                onChange={(e) => setGoalValues(prev => ({ ...prev, [goal.id]: e.target.value }))}
+                aria-label={`New value for ${goal.title}`}
+                className={`${inputClassName} max-w-[7rem]`}
+              />
+              <button
+                onClick={() => handleLogGoal(goal)}
+                disabled={isSaving || isNaN(parseFloat(goalValues[goal.id]))}
+                className="flex items-center px-3 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <CheckCircle className="w-4 h-4 mr-1" />
+                Log
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Quick Log</h1>
+            <p className="text-gray-600 mt-2">A five-second check-in</p>
+          </div>
+
+          <Zap className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {goalsFirst ? goalSection : moodSection}
+        {goalsFirst ? moodSection : goalSection}
+      </div>
+
+      {toastMessage && (
+        <UndoToast
+          message={toastMessage}
+          onUndo={handleUndo}
+          onDismiss={dismissToast}
+        />
+      )}
+    </div>
+  );
+};
+
+export default QuickLogPage;
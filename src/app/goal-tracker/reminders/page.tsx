@@ -0,0 +1,232 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Bell, BellOff, Plus, Trash2, AlertCircle, CheckCircle } from 'lucide-react';
+import { AppSettings, ReminderDays, ReminderSchedule } from '@/types/settings';
+import { getRepositories } from '@/lib/storage';
+import {
+  createReminderSchedule,
+  getReminderPermission,
+  refreshReminders,
+  ReminderPermission,
+  requestReminderPermission,
+  supportsScheduledReminders
+} from '@/lib/reminders';
+
+const DAY_OPTIONS: { value: ReminderDays; label: string }[] = [
+  { value: 'daily', label: 'Every day' },
+  { value: 'weekdays', label: 'Weekdays only' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const RemindersPage: React.FC = () => {
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+  const [permission, setPermission] = useState<ReminderPermission>('default');
+  const [isScheduled, setIsScheduled] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadSettings = useCallback(async () => {
+    try {
+      const { settings: repository } = await getRepositories();
+      setSettings(await repository.get());
+    } catch (err) {
+      console.error('Error loading reminder settings:', err);
+      setError('Failed to load reminder settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    setPermission(getReminderPermission());
+    setIsScheduled(supportsScheduledReminders());
+    loadSettings();
+  }, [loadSettings]);
+
+  const saveReminders = async (reminders: ReminderSchedule[]) => {
+    if (!settings) return;
+    setError(null);
+    setMessage(null);
+    const next: AppSettings = { ...settings, reminders, updatedAt: new Date().toISOString() };
+    setSettings(next);
+    try {
+      const { settings: repository } = await getRepositories();
+      await repository.save(next);
+      await refreshReminders();
+    } catch (err) {
+      console.error('Error saving reminders:', err);
+      setError('Failed to save reminders');
+      await loadSettings();
+    }
+  };
+
+  const updateReminder = (id: string, changes: Partial<ReminderSchedule>) => {
+    if (!settings) return;
+    saveReminders(settings.reminders.map(reminder => (reminder.id === id ? { ...reminder, ...changes } : reminder)));
+  };
+
+  const handleEnableNotifications = async () => {
+    setError(null);
+    try {
+      const result = await requestReminderPermission();
+      setPermission(result);
+      if (result === 'granted') {
+        await refreshReminders();
+        setMessage('Notifications are on');
+      }
+    } catch (err) {
+      console.error('Error requesting notification permission:', err);
+      setError('Could not turn on notifications');
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Check-in Reminders</h1>
+            <p className="text-gray-600 mt-2">A gentle nudge to log how your day went</p>
+          </div>
+
+          <Bell className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {permission === 'unsupported' && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            This browser does not support notifications, so reminders cannot be shown.
+          </div>
+        )}
+
+        {permission === 'denied' && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            Notifications are blocked for this site. Allow them in your browser settings to get reminders.
+          </div>
+        )}
+
+        {permission === 'default' && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+            <div className="flex items-center space-x-2">
+              <BellOff className="w-5 h-5 text-gray-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Notifications are off</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              Reminders are shown as notifications from this device. Nothing is sent to a server.
+            </p>
+            <button
+              onClick={handleEnableNotifications}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+            >
+              <Bell className="w-4 h-4 mr-2" />
+              Allow notifications
+            </button>
+          </div>
+        )}
+
+        {settings && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-gray-900">Schedules</h2>
+              <button
+                onClick={() => saveReminders([...settings.reminders, createReminderSchedule()])}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add reminder
+              </button>
+            </div>
+            <p className="text-sm text-gray-600">
+              {isScheduled
+                ? 'Reminders arrive on time, even when the app is closed.'
+                : 'This browser can only show reminders while the app is open, or the next time you open it.'}
+            </p>
+
+            {settings.reminders.length === 0 && (
+              <p className="text-sm text-gray-500">No reminders yet.</p>
+            )}
+
+            <ul className="divide-y divide-gray-100">
+              {settings.reminders.map(reminder => (
+                <li key={reminder.id} className="py-4 space-y-3">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <input
+                      type="time"
+                      value={reminder.time}
+                      onChange={(e) => e.target.value && updateReminder(reminder.id, { time: e.target.value })}
+                      className={inputClassName}
+                    />
+                    <select
+                      value={reminder.days}
+                      onChange={(e) => updateReminder(reminder.id, { days: e.target.value as ReminderDays })}
+                      className={inputClassName}
+                    >
+                      {DAY_OPTIONS.map(option => (
+                        <option key={option.value} value={option.value}>{option.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <label className="flex items-center space-x-2 text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={reminder.onlyIfNoEntry}
+                        onChange={(e) => updateReminder(reminder.id, { onlyIfNoEntry: e.target.checked })}
+                        className="rounded text-indigo-600 focus:ring-indigo-500"
+                      />
+                      <span>Only if I haven&apos;t checked in yet</span>
+                    </label>
+                    <div className="flex items-center space-x-4">
+                      <label className="flex items-center space-x-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={reminder.enabled}
+                          onChange={(e) => updateReminder(reminder.id, { enabled: e.target.checked })}
+                          className="rounded text-indigo-600 focus:ring-indigo-500"
+                        />
+                        <span>On</span>
+                      </label>
+                      <button
+                        onClick={() => saveReminders(settings.reminders.filter(item => item.id !== reminder.id))}
+                        title="Delete reminder"
+                        className="p-2 text-gray-500 hover:text-red-600 transition-colors"
+                      >
+                        <Trash2 className="w-5 h-5" />
+                      </button>
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default RemindersPage;
@@ -0,0 +1,286 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { ArrowLeft, Lock, Unlock, KeyRound, ShieldCheck, AlertCircle, CheckCircle } from 'lucide-react';
+import { LockState } from '@/types/encryption';
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  getEncryptionConfig,
+  getLockState,
+  lockStorage,
+  setAutoLockMinutes
+} from '@/lib/storage';
+import { DecryptionError, isWebCryptoAvailable } from '@/lib/crypto';
+import { useProfiles } from '@/hooks/useProfiles';
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 0, label: 'Never' },
+  { minutes: 1, label: 'After 1 minute' },
+  { minutes: 5, label: 'After 5 minutes' },
+  { minutes: 15, label: 'After 15 minutes' },
+  { minutes: 60, label: 'After 1 hour' },
+];
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const SecurityPage: React.FC = () => {
+  const { profiles, activeProfile } = useProfiles();
+  const [lockState, setLockState] = useState<LockState | null>(null);
+  const [autoLock, setAutoLock] = useState(5);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadState = useCallback(async () => {
+    try {
+      const [state, config] = await Promise.all([getLockState(), getEncryptionConfig()]);
+      setLockState(state);
+      if (config) setAutoLock(config.autoLockMinutes);
+    } catch (err) {
+      console.error('Error loading encryption settings:', err);
+      setError('Failed to load encryption settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadState();
+  }, [loadState]);
+
+  const resetForm = () => {
+    setPassphrase('');
+    setConfirmation('');
+    setCurrentPassphrase('');
+  };
+
+  const newPassphraseProblem =
+    passphrase.length < MIN_PASSPHRASE_LENGTH ? `Use at least ${MIN_PASSPHRASE_LENGTH} characters` :
+    passphrase !== confirmation ? 'Passcodes do not match' :
+    null;
+
+  const run = async (action: () => Promise<void>, success: string) => {
+    setError(null);
+    setMessage(null);
+    setIsWorking(true);
+    try {
+      await action();
+      resetForm();
+      setMessage(success);
+      await loadState();
+    } catch (err) {
+      if (err instanceof DecryptionError) {
+        setError('Current passcode is incorrect');
+      } else {
+        console.error('Error updating encryption:', err);
+        setError('Something went wrong; your data was not changed.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleAutoLockChange = async (minutes: number) => {
+    setAutoLock(minutes);
+    if (lockState !== 'unlocked') return;
+    try {
+      await setAutoLockMinutes(minutes);
+    } catch (err) {
+      console.error('Error saving auto-lock:', err);
+      setError('Failed to save the auto-lock setting');
+    }
+  };
+
+  const autoLockSelect = (
+    <select
+      value={autoLock}
+      onChange={(e) => handleAutoLockChange(Number(e.target.value))}
+      className={inputClassName}
+    >
+      {AUTO_LOCK_OPTIONS.map(option => (
+        <option key={option.minutes} value={option.minutes}>{option.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Passcode &amp; Encryption</h1>
+            <p className="text-gray-600 mt-2">
+              {profiles.length > 1
+                ? `Keep ${activeProfile.name}'s notes, factors and goals unreadable without their passcode`
+                : 'Keep notes, factors and goals unreadable without your passcode'}
+            </p>
+          </div>
+
+          <ShieldCheck className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {!isWebCryptoAvailable() && (
+          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-yellow-800">
+            This browser does not support WebCrypto (it needs HTTPS), so encryption is unavailable.
+          </div>
+        )}
+
+        {lockState === 'disabled' && isWebCryptoAvailable() && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+            <div className="flex items-center space-x-2">
+              <Unlock className="w-5 h-5 text-gray-500" />
+              <h2 className="text-lg font-semibold text-gray-900">Encryption is off</h2>
+            </div>
+            <p className="text-sm text-gray-600">
+              Your data will be encrypted with AES-GCM using a key derived from your passcode (PBKDF2, 600,000
+              rounds). There is no way to recover your data if you forget it — keep a backup.
+            </p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <input
+                type="password"
+                value={passphrase}
+                onChange={(e) => setPassphrase(e.target.value)}
+                placeholder="New passcode"
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+              <input
+                type="password"
+                value={confirmation}
+                onChange={(e) => setConfirmation(e.target.value)}
+                placeholder="Repeat passcode"
+                autoComplete="new-password"
+                className={inputClassName}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">Lock automatically</label>
+              {autoLockSelect}
+            </div>
+            {passphrase && newPassphraseProblem && <p className="text-sm text-red-600">{newPassphraseProblem}</p>}
+            <button
+              onClick={() => run(() => enableEncryption(passphrase, autoLock), 'Encryption is on. Your data is now encrypted on this device.')}
+              disabled={isWorking || newPassphraseProblem !== null}
+              className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+            >
+              <Lock className="w-4 h-4 mr-2" />
+              {isWorking ? 'Encrypting…' : 'Turn on encryption'}
+            </button>
+          </div>
+        )}
+
+        {lockState === 'unlocked' && (
+          <>
+            <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center space-x-2">
+                  <Lock className="w-5 h-5 text-green-600" />
+                  <h2 className="text-lg font-semibold text-gray-900">Encryption is on</h2>
+                </div>
+                <button
+                  onClick={lockStorage}
+                  className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+                >
+                  <Lock className="w-4 h-4 mr-2" />
+                  Lock now
+                </button>
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Lock automatically</label>
+                {autoLockSelect}
+              </div>
+            </div>
+
+            <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+              <div className="flex items-center space-x-2">
+                <KeyRound className="w-5 h-5 text-indigo-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Change passcode or turn off encryption</h2>
+              </div>
+              <input
+                type="password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                placeholder="Current passcode"
+                autoComplete="current-password"
+                className={inputClassName}
+              />
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <input
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="New passcode"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  placeholder="Repeat new passcode"
+                  autoComplete="new-password"
+                  className={inputClassName}
+                />
+              </div>
+              {passphrase && newPassphraseProblem && <p className="text-sm text-red-600">{newPassphraseProblem}</p>}
+              <div className="flex space-x-3">
+                <button
+                  onClick={() => run(() => changePassphrase(currentPassphrase, passphrase), 'Passcode changed and data re-encrypted')}
+                  disabled={isWorking || currentPassphrase === '' || newPassphraseProblem !== null}
+                  className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+                >
+                  <KeyRound className="w-4 h-4 mr-2" />
+                  Change passcode
+                </button>
+                <button
+                  onClick={() => {
+                    if (window.confirm('Store your data unencrypted on this device again?')) {
+                      run(() => disableEncryption(currentPassphrase), 'Encryption is off');
+                    }
+                  }}
+                  disabled={isWorking || currentPassphrase === ''}
+                  className="flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+                >
+                  <Unlock className="w-4 h-4 mr-2" />
+                  Turn off encryption
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SecurityPage;
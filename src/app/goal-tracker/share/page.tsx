@@ -0,0 +1,207 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import Link from 'next/link';
+import { ArrowLeft, Share2, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { MoodImportPreview } from '@/types/mood-import';
+import { useMoodTracker } from '@/hooks/useMoodTracker';
+import { clearSharedFile, consumeLaunchedFiles, getSharedFile, ReceivedFile } from '@/lib/shared-files';
+
+// How many of the new entries the preview lists
+const PREVIEW_ROWS = 5;
+
+const SHARE_ERRORS: Record<string, string> = {
+  empty: 'Nothing that could be imported was shared. Share a .json or .csv export.',
+  error: 'The shared file could not be received. Please try sharing it again.',
+};
+
+/**
+ * Landing page for backups shared from other apps (manifest `share_target`,
+ * received by the service worker) or opened with the app from the file
+ * manager (`file_handlers`). Nothing is saved until the preview is accepted.
+ */
+const ShareImportPage: React.FC = () => {
+  const { previewImport, confirmImport, loading, error } = useMoodTracker();
+  const [received, setReceived] = useState<ReceivedFile | null>(null);
+  const [preview, setPreview] = useState<MoodImportPreview | null>(null);
+  const [isWaiting, setIsWaiting] = useState(true);
+  const [shareError, setShareError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  useEffect(() => {
+    const shared = new URLSearchParams(window.location.search).get('shared');
+    consumeLaunchedFiles(setReceived);
+
+    if (shared) {
+      window.history.replaceState(null, '', window.location.pathname);
+      if (SHARE_ERRORS[shared]) {
+        setShareError(SHARE_ERRORS[shared]);
+        setIsWaiting(false);
+        return;
+      }
+    }
+
+    getSharedFile()
+      .then(file => {
+        if (file) setReceived(file);
+      })
+      .catch(err => {
+        console.error('Error reading the shared file:', err);
+        setShareError(SHARE_ERRORS.error);
+      })
+      .finally(() => setIsWaiting(false));
+  }, []);
+
+  // Compare against the stored entries once they have loaded
+  useEffect(() => {
+    if (received && !loading) setPreview(previewImport(received.text, received.name));
+  }, [received, loading, previewImport]);
+
+  const finish = () => {
+    setReceived(null);
+    setPreview(null);
+    clearSharedFile().catch(err => console.error('Error clearing the shared file:', err));
+  };
+
+  const handleImport = async () => {
+    if (!preview) return;
+    const imported = await confirmImport(preview);
+    setMessage(`Imported ${imported} new entr${imported === 1 ? 'y' : 'ies'} from ${preview.fileName}`);
+    finish();
+  };
+
+  const handleCancel = () => {
+    finish();
+    window.history.back();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Import Shared File</h1>
+            <p className="text-gray-600 mt-2">Check what a shared export adds before it is saved</p>
+          </div>
+
+          <Share2 className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {(shareError || (error && received)) && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg space-y-2">
+            <div className="flex items-center space-x-2">
+              <AlertCircle className="w-5 h-5 text-red-600" />
+              <span className="text-red-800">{shareError || error}</span>
+            </div>
+            <p className="text-sm text-red-700">
+              You can also import from <Link href="/goal-tracker/import" className="underline">Import &amp; Export</Link> or
+              restore a full backup from <Link href="/goal-tracker/backup" className="underline">Backup &amp; Restore</Link>.
+            </p>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {!received && !message && !shareError && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 text-sm text-gray-600">
+            {isWaiting
+              ? 'Reading the shared file…'
+              : 'No shared file is waiting. Share a HerFlowState export or a CSV to this app, or open one with it from your file manager.'}
+          </div>
+        )}
+
+        {preview && (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-6">
+            <div>
+              <h2 className="text-lg font-semibold text-gray-900">{preview.fileName}</h2>
+              <p className="text-sm text-gray-600">Read as {preview.source}</p>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              {[
+                { label: 'Entries in file', value: preview.total },
+                { label: 'New', value: preview.added.length },
+                { label: 'Already saved', value: preview.duplicates },
+                { label: 'Dates', value: preview.dateRange ? `${preview.dateRange.start} – ${preview.dateRange.end}` : '—' },
+              ].map(stat => (
+                <div key={stat.label} className="p-3 bg-indigo-50 rounded-lg">
+                  <p className="text-xs text-indigo-700">{stat.label}</p>
+                  <p className="text-sm font-semibold text-gray-900">{stat.value}</p>
+                </div>
+              ))}
+            </div>
+
+            {(preview.sameDay > 0 || preview.skipped > 0) && (
+              <ul className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-lg p-3 space-y-1">
+                {preview.sameDay > 0 && (
+                  <li>
+                    {preview.sameDay} new entr{preview.sameDay === 1 ? 'y falls on a day' : 'ies fall on days'} that
+                    already {preview.sameDay === 1 ? 'has' : 'have'} a check-in; both are kept.
+                  </li>
+                )}
+                {preview.skipped > 0 && (
+                  <li>{preview.skipped} invalid row{preview.skipped === 1 ? '' : 's'} will be skipped.</li>
+                )}
+              </ul>
+            )}
+
+            {preview.added.length > 0 && (
+              <div>
+                <h3 className="text-sm font-medium text-gray-700 mb-2">New entries</h3>
+                <ul className="divide-y divide-gray-100 text-sm">
+                  {preview.added.slice(0, PREVIEW_ROWS).map(entry => (
+                    <li key={entry.id} className="py-2 flex justify-between">
+                      <span className="text-gray-800">{entry.date}</span>
+                      <span className="text-gray-500">
+                        Mood {entry.mood} · Energy {entry.energy} · Stress {entry.stress}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+                {preview.added.length > PREVIEW_ROWS && (
+                  <p className="text-xs text-gray-500 mt-2">and {preview.added.length - PREVIEW_ROWS} more</p>
+                )}
+              </div>
+            )}
+
+            <div className="flex space-x-3">
+              <button
+                onClick={handleImport}
+                disabled={preview.added.length === 0}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <Upload className="w-4 h-4 mr-2" />
+                {preview.added.length === 0
+                  ? 'Nothing new to import'
+                  : `Import ${preview.added.length} entr${preview.added.length === 1 ? 'y' : 'ies'}`}
+              </button>
+              <button
+                onClick={handleCancel}
+                className="px-4 py-2 bg-gray-100 text-gray-700 rounded-lg hover:bg-gray-200 transition-colors"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ShareImportPage;
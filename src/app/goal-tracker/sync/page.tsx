@@ -0,0 +1,342 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  RefreshCw,
+  Cloud,
+  CloudOff,
+  QrCode as QrCodeIcon,
+  Link2,
+  Copy,
+  Lock,
+  AlertCircle,
+  CheckCircle
+} from 'lucide-react';
+import { SyncConfig, SyncEndpoint, SyncStatus } from '@/types/sync';
+import {
+  createPairingLink,
+  createSpaceId,
+  createSyncKey,
+  DEFAULT_SYNC_SERVER_URL,
+  disableSync,
+  enableSync,
+  getSyncConfig,
+  getSyncEndpoint,
+  getSyncStatus,
+  parsePairingCode,
+  refreshSyncStatus,
+  subscribeToSyncStatus,
+  SyncError,
+  syncNow
+} from '@/lib/sync';
+import { useProfiles } from '@/hooks/useProfiles';
+import QrCode from '@/components/QrCode';
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 focus:border-transparent';
+
+const PHASE_LABELS: Record<SyncStatus['phase'], string> = {
+  disabled: 'Off',
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  error: 'Last sync failed',
+};
+
+const SyncPage: React.FC = () => {
+  const { profiles, activeProfile } = useProfiles();
+  const [config, setConfig] = useState<SyncConfig | undefined>(undefined);
+  const [endpoint, setEndpoint] = useState<SyncEndpoint | null>(null);
+  const [status, setStatus] = useState<SyncStatus>(getSyncStatus());
+  const [serverUrl, setServerUrl] = useState(DEFAULT_SYNC_SERVER_URL);
+  const [pairingCode, setPairingCode] = useState('');
+  const [showPairing, setShowPairing] = useState(false);
+  const [isWorking, setIsWorking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const loadConfig = useCallback(async () => {
+    try {
+      const current = await getSyncConfig();
+      const currentEndpoint = current ? await getSyncEndpoint() : null;
+      setConfig(current);
+      setEndpoint(currentEndpoint);
+      if (currentEndpoint) setServerUrl(currentEndpoint.serverUrl);
+      await refreshSyncStatus();
+    } catch (err) {
+      console.error('Error loading sync settings:', err);
+      setError('Failed to load sync settings');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadConfig();
+    return subscribeToSyncStatus(setStatus);
+  }, [loadConfig]);
+
+  // Opened from a scanned pairing link: take the code out of the address bar and offer to join
+  useEffect(() => {
+    if (!window.location.hash.includes('pair=')) return;
+    setPairingCode(window.location.hash);
+    window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  }, []);
+
+  const run = async (action: () => Promise<void>, success: string | null) => {
+    setError(null);
+    setMessage(null);
+    setIsWorking(true);
+    try {
+      await action();
+      if (success) setMessage(success);
+      await loadConfig();
+    } catch (err) {
+      if (err instanceof SyncError) {
+        setError(err.message);
+      } else {
+        console.error('Error updating sync:', err);
+        setError('Something went wrong; your data was not changed.');
+      }
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  // The first sync uploads everything; a failure leaves sync on and retries later
+  const handleStart = () =>
+    run(async () => {
+      await enableSync({ serverUrl, spaceId: createSpaceId(), encryptionKey: createSyncKey() });
+      await syncNow().catch(() => undefined);
+    }, 'Sync is on. Pair your other devices to share this profile with them.');
+
+  const handleJoin = () =>
+    run(async () => {
+      await enableSync(parsePairingCode(pairingCode));
+      setPairingCode('');
+      await syncNow().catch(() => undefined);
+    }, 'This device is paired. Your data will be merged with the other devices.');
+
+  const handleCopyLink = async (link: string) => {
+    try {
+      await navigator.clipboard.writeText(link);
+      setMessage('Pairing link copied');
+    } catch (err) {
+      console.error('Error copying pairing link:', err);
+      setError('Could not copy the link; select and copy it instead');
+    }
+  };
+
+  const handleSyncNow = () =>
+    run(async () => {
+      const result = await syncNow();
+      setMessage(`Synced: ${result.pushed} sent, ${result.pulled} received${result.merged ? `, ${result.merged} merged` : ''}`);
+    }, null);
+
+  const handleDisable = () => {
+    if (!window.confirm('Stop syncing this profile? Data already on this device stays here.')) return;
+    run(async () => {
+      await disableSync();
+      setShowPairing(false);
+    }, 'Sync is off');
+  };
+
+  const pairingLink = endpoint && typeof window !== 'undefined' ? createPairingLink(endpoint, window.location.origin) : null;
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-indigo-50 to-purple-100 p-6">
+      <div className="max-w-3xl mx-auto space-y-6">
+
+        {/* Header */}
+        <div className="flex items-center justify-between mb-8">
+          <button
+            onClick={() => window.history.back()}
+            className="flex items-center space-x-2 text-gray-600 hover:text-gray-900 transition-colors"
+          >
+            <ArrowLeft className="w-5 h-5" />
+            <span>Back to Dashboard</span>
+          </button>
+
+          <div className="text-center">
+            <h1 className="text-3xl font-bold text-gray-900">Sync</h1>
+            <p className="text-gray-600 mt-2">
+              {profiles.length > 1
+                ? `Keep ${activeProfile.name}'s moods and goals in step across devices`
+                : 'Keep moods and goals in step across your devices'}
+            </p>
+          </div>
+
+          <Cloud className="w-6 h-6 text-indigo-600" />
+        </div>
+
+        {error && (
+          <div className="p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2">
+            <AlertCircle className="w-5 h-5 text-red-600" />
+            <span className="text-red-800">{error}</span>
+          </div>
+        )}
+
+        {message && (
+          <div className="p-4 bg-green-50 border border-green-200 rounded-lg flex items-center space-x-2">
+            <CheckCircle className="w-5 h-5 text-green-600" />
+            <span className="text-green-800">{message}</span>
+          </div>
+        )}
+
+        {config ? (
+          <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <Cloud className="w-5 h-5 text-green-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Sync is on</h2>
+              </div>
+              <button
+                onClick={handleSyncNow}
+                disabled={isWorking || status.phase === 'syncing'}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${status.phase === 'syncing' ? 'animate-spin' : ''}`} />
+                Sync now
+              </button>
+            </div>
+
+            {pairingCode && (
+              <div className="p-3 bg-yellow-50 border border-yellow-200 rounded-lg text-sm text-yellow-800">
+                This device already syncs this profile. Turn off sync first to join the space from the pairing link.
+              </div>
+            )}
+
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Status</dt>
+                <dd className={status.phase === 'error' ? 'text-red-700' : 'text-gray-900'}>
+                  {PHASE_LABELS[status.phase]}
+                  {status.error && ` — ${status.error}`}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Changes waiting to upload</dt>
+                <dd className="text-gray-900">{status.pendingChanges}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Last synced</dt>
+                <dd className="text-gray-900">
+                  {status.lastSyncedAt ? new Date(status.lastSyncedAt).toLocaleString() : 'Not yet'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Server</dt>
+                <dd className="text-gray-900 break-all">{endpoint ? endpoint.serverUrl : 'Not set up'}</dd>
+              </div>
+              <div className="md:col-span-2 flex items-center space-x-2 text-gray-600">
+                <Lock className="w-4 h-4 text-green-600" />
+                <span>End-to-end encrypted: the server only stores unreadable records, random ids and timestamps</span>
+              </div>
+            </dl>
+
+            <div className="flex space-x-3">
+              <button
+                onClick={() => setShowPairing(!showPairing)}
+                className="flex items-center px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                <QrCodeIcon className="w-4 h-4 mr-2" />
+                {showPairing ? 'Hide pairing code' : 'Pair a device'}
+              </button>
+              <button
+                onClick={handleDisable}
+                disabled={isWorking}
+                className="flex items-center px-4 py-2 border border-red-300 text-red-700 rounded-lg hover:bg-red-50 transition-colors disabled:opacity-50"
+              >
+                <CloudOff className="w-4 h-4 mr-2" />
+                Turn off sync
+              </button>
+            </div>
+
+            {showPairing && pairingLink && (
+              <div className="border-t border-gray-100 pt-4 flex flex-col md:flex-row md:items-center md:space-x-6 space-y-4 md:space-y-0">
+                <div className="flex-shrink-0 self-center">
+                  <QrCode value={pairingLink} title="Pairing code" />
+                </div>
+                <div className="space-y-3 text-sm text-gray-600">
+                  <p>
+                    Scan this with the camera of your other device, or open the link there. It carries the key
+                    that decrypts your synced data, so only show it to your own devices.
+                  </p>
+                  <div className="flex space-x-2">
+                    <input type="text" readOnly value={pairingLink} className={`${inputClassName} font-mono text-xs`} />
+                    <button
+                      onClick={() => handleCopyLink(pairingLink)}
+                      title="Copy pairing link"
+                      className="flex items-center px-3 py-2 border border-gray-300 rounded-lg text-gray-700 hover:bg-gray-50 transition-colors"
+                    >
+                      <Copy className="w-4 h-4" />
+                    </button>
+                  </div>
+                </div>
+              </div>
+            )}
+          </div>
+        ) : (
+          <>
+            <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+              <div className="flex items-center space-x-2">
+                <CloudOff className="w-5 h-5 text-gray-500" />
+                <h2 className="text-lg font-semibold text-gray-900">Start syncing</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                Everything keeps working offline. Changes are uploaded when you are back online and merged
+                field by field with edits from your other devices; when two devices change the same field,
+                the later edit wins. Records are encrypted on this device before upload, so the server cannot
+                read your moods, notes or goals. Start a local server with <code>npm run sync-server</code>.
+              </p>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Server address</label>
+                <input
+                  type="url"
+                  value={serverUrl}
+                  onChange={(e) => setServerUrl(e.target.value)}
+                  placeholder={DEFAULT_SYNC_SERVER_URL}
+                  className={inputClassName}
+                />
+              </div>
+              <button
+                onClick={handleStart}
+                disabled={isWorking || serverUrl.trim() === ''}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <Cloud className="w-4 h-4 mr-2" />
+                {isWorking ? 'Connecting…' : 'Turn on sync'}
+              </button>
+            </div>
+
+            <div className="bg-white rounded-xl p-6 shadow-lg border border-gray-100 space-y-4">
+              <div className="flex items-center space-x-2">
+                <Link2 className="w-5 h-5 text-indigo-600" />
+                <h2 className="text-lg font-semibold text-gray-900">Join from another device</h2>
+              </div>
+              <p className="text-sm text-gray-600">
+                On a device that already syncs, open Sync and choose &ldquo;Pair a device&rdquo;. Scan the code with
+                this device&apos;s camera, or paste the pairing link here.
+              </p>
+              <input
+                type="text"
+                value={pairingCode}
+                onChange={(e) => setPairingCode(e.target.value)}
+                placeholder="Pairing link"
+                className={`${inputClassName} font-mono`}
+              />
+              <button
+                onClick={handleJoin}
+                disabled={isWorking || pairingCode.trim() === ''}
+                className="flex items-center px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+              >
+                <Link2 className="w-4 h-4 mr-2" />
+                Join and sync
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncPage;
@@ -1,6 +1,10 @@
 import './globals.css'
 import type { Metadata, Viewport } from 'next'
 import { Inter, Playfair_Display } from 'next/font/google'
+import StorageLockGate from '@/components/StorageLockGate'
+import ServiceWorkerRegistration from '@/components/ServiceWorkerRegistration'
+import UpdatePrompt from '@/components/UpdatePrompt'
+import ReleaseNotes from '@/components/ReleaseNotes'
 
 const inter = Inter({
   subsets: ['latin'],
@@ -67,8 +71,11 @@ export default function RootLayout({
       </head>
       <body className={`font-sans bg-gradient-to-br from-primary-50 to-secondary-50 min-h-screen antialiased`}>
         <main className="relative">
-          {children}
+          <StorageLockGate>{children}</StorageLockGate>
         </main>
+        <ServiceWorkerRegistration />
+        <UpdatePrompt />
+        <ReleaseNotes />
       </body>
     </html>
   )
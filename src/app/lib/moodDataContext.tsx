@@ -1,27 +1,29 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useMemo, ReactNode } from 'react';
+import { MoodEntry, MOOD_ENTRY_NUMERIC_KEYS, MOOD_ENTRY_SCHEMA_VERSION } from '@/types/mood-tracker';
+import { MoodEntryRevision, Operation } from '@/types/history';
+import { createMoodEntryId } from '@/lib/mood-migration';
+import { markMetricsRecorded, selectEntriesInRange, upsertSortedEntry } from '@/lib/mood-queries';
+import { createMoodEntryOperation, toMoodEntryRevisions } from '@/lib/operation-log';
+import { getRepositories, subscribeToProfileSwitch } from '@/lib/storage';
+import { subscribeToRemoteChanges } from '@/lib/sync';
+import { useOperationHistory } from '@/hooks/useOperationHistory';
 
 // Types
-export interface MoodEntry {
-  id: string;
-  date: string;
-  mood: number;
-  energy: number;
-  sleep: number;
-  exercise: boolean;
-  hydration: number;
-  stress: number;
-  notes?: string;
-  tags?: string[];
-  createdAt: string;
-  updatedAt: string;
-}
+export type { MoodEntry };
 
 export interface MoodDataContextType {
   entries: MoodEntry[];
-  addEntry: (entry: Omit<MoodEntry, 'id' | 'createdAt' | 'updatedAt'>) => void;
+  addEntry: (entry: Omit<MoodEntry, 'id' | 'schemaVersion' | 'timestamp' | 'updatedAt'>) => void;
   updateEntry: (id: string, entry: Partial<MoodEntry>) => void;
   deleteEntry: (id: string) => void;
   getEntriesInRange: (startDate: string, endDate: string) => MoodEntry[];
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastOperation: Operation | null;
+  getEntryRevisions: (id: string) => Promise<MoodEntryRevision[]>;
+  restoreRevision: (revision: MoodEntryRevision) => void;
   isLoading: boolean;
   error: string | null;
 }
@@ -31,28 +33,60 @@ const MoodDataContext = createContext<MoodDataContextType | undefined>(undefined
 
 // Provider Component
 export const MoodDataProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
-  const [entries, setEntries] = useState<MoodEntry[]>([]);
+  // Kept oldest first so range lookups can binary search; exposed newest first
+  const [sortedEntries, setSortedEntries] = useState<MoodEntry[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load data from localStorage on mount (in production, this would be API calls)
+  const entries = useMemo(() => [...sortedEntries].reverse(), [sortedEntries]);
+
+  // Every add/update/delete goes through the operation log so it can be undone
+  const history = useOperationHistory((operation: Operation) => {
+    if (operation.target !== 'moodEntry') return;
+    const { after, recordId } = operation;
+    setSortedEntries(prev => after ? upsertSortedEntry(prev, after) : prev.filter(entry => entry.id !== recordId));
+  });
+
+  // Load data from the storage engine on mount (in production, this would be API calls),
+  // start over from the new profile's stores whenever another profile is opened,
+  // and pick up entries a sync brought in from other devices
   useEffect(() => {
     loadData();
+    const unsubscribeProfile = subscribeToProfileSwitch(() => {
+      setSortedEntries([]);
+      setError(null);
+      history.clear();
+      loadData();
+    });
+    const unsubscribeRemote = subscribeToRemoteChanges(reloadEntries);
+    return () => {
+      unsubscribeProfile();
+      unsubscribeRemote();
+    };
   }, []);
 
+  const reloadEntries = async () => {
+    try {
+      const { moods } = await getRepositories();
+      setSortedEntries(await moods.getAll());
+    } catch (err) {
+      console.error('Error reloading synced mood data:', err);
+    }
+  };
+
   const loadData = async () => {
     try {
       setIsLoading(true);
       // In production, replace this with API call
-      const savedData = localStorage.getItem('herflowstate-mood-entries');
-      if (savedData) {
-        const parsedData = JSON.parse(savedData);
-        setEntries(parsedData);
+      const { moods } = await getRepositories();
+      const savedData = await moods.getAll();
+      if (savedData.length > 0) {
+        setSortedEntries(savedData);
       } else {
         // Initialize with sample data for development
         const sampleData = generateSampleData();
-        setEntries(sampleData);
-        localStorage.setItem('herflowstate-mood-entries', JSON.stringify(sampleData));
+        setSortedEntries(sampleData);
+        await moods.putMany(sampleData);
       }
     } catch (err) {
       setError('Failed to load mood data');
@@ -62,53 +96,87 @@ export const MoodDataProvider: React.FC<{ children: ReactNode }> = ({ children }
     }
   };
 
-  const saveData = (newEntries: MoodEntry[]) => {
+  // Persist one record instead of rewriting the whole collection
+  const saveEntry = async (before: MoodEntry | null, entry: MoodEntry) => {
     try {
-      localStorage.setItem('herflowstate-mood-entries', JSON.stringify(newEntries));
-      setEntries(newEntries);
+      await history.perform(createMoodEntryOperation(before, entry));
     } catch (err) {
       setError('Failed to save mood data');
       console.error('Error saving mood data:', err);
     }
   };
 
-  const addEntry = (entryData: Omit<MoodEntry, 'id' | 'createdAt' | 'updatedAt'>) => {
+  const addEntry = (entryData: Omit<MoodEntry, 'id' | 'schemaVersion' | 'timestamp' | 'updatedAt'>) => {
     const newEntry: MoodEntry = {
       ...entryData,
-      id: generateId(),
-      createdAt: new Date().toISOString(),
+      id: createMoodEntryId(),
+      schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+      timestamp: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
 
-    const updatedEntries = [...entries, newEntry].sort((a, b) => 
-      new Date(b.date).getTime() - new Date(a.date).getTime()
-    );
-    
-    saveData(updatedEntries);
+    saveEntry(null, newEntry);
   };
 
   const updateEntry = (id: string, updateData: Partial<MoodEntry>) => {
-    const updatedEntries = entries.map(entry =>
-      entry.id === id
-        ? { ...entry, ...updateData, updatedAt: new Date().toISOString() }
-        : entry
-    );
-    
-    saveData(updatedEntries);
+    const existing = sortedEntries.find(entry => entry.id === id);
+    if (!existing) return;
+
+    saveEntry(existing, markMetricsRecorded(
+      { ...existing, ...updateData, id, updatedAt: new Date().toISOString() },
+      MOOD_ENTRY_NUMERIC_KEYS.filter(metric => updateData[metric] !== undefined)
+    ));
+  };
+
+  const deleteEntry = async (id: string) => {
+    const existing = sortedEntries.find(entry => entry.id === id);
+    if (!existing) return;
+
+    try {
+      await history.perform(createMoodEntryOperation(existing, null));
+    } catch (err) {
+      setError('Failed to delete mood data');
+      console.error('Error deleting mood data:', err);
+    }
+  };
+
+  const undo = async () => {
+    try {
+      await history.undo();
+    } catch (err) {
+      setError('Failed to undo last change');
+      console.error('Error undoing mood data change:', err);
+    }
+  };
+
+  const redo = async () => {
+    try {
+      await history.redo();
+    } catch (err) {
+      setError('Failed to redo change');
+      console.error('Error redoing mood data change:', err);
+    }
+  };
+
+  const getEntryRevisions = async (id: string): Promise<MoodEntryRevision[]> => {
+    const { history: operationLog } = await getRepositories();
+    return toMoodEntryRevisions(await operationLog.getForRecord('moodEntry', id));
   };
 
-  const deleteEntry = (id: string) => {
-    const updatedEntries = entries.filter(entry => entry.id !== id);
-    saveData(updatedEntries);
+  const restoreRevision = async (revision: MoodEntryRevision) => {
+    const current = sortedEntries.find(entry => entry.id === revision.snapshot.id) || null;
+    const restored = { ...revision.snapshot, updatedAt: new Date().toISOString() };
+
+    try {
+      await history.perform(createMoodEntryOperation(current, restored, 'restore'));
+    } catch (err) {
+      setError('Failed to restore mood data');
+      console.error('Error restoring mood entry revision:', err);
+    }
   };
 
   const getEntriesInRange = (startDate: string, endDate: string): MoodEntry[] => {
-    return entries.filter(entry => {
-      const entryDate = new Date(entry.date);
-      const start = new Date(startDate);
-      const end = new Date(endDate);
-      return entryDate >= start && entryDate <= end;
-    });
+    return [...selectEntriesInRange(sortedEntries, startDate, endDate)].reverse();
   };
 
   // Helper function to generate sample data for development
@@ -128,25 +196,23 @@ export const MoodDataProvider: React.FC<{ children: ReactNode }> = ({ children }
       const moodTrend = i * 0.02; // Slight improvement over time
       
       data.push({
-        id: generateId(),
+        id: createMoodEntryId(),
+        schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
         date: date.toISOString().split('T')[0],
+        timestamp: date.toISOString(),
+        updatedAt: date.toISOString(),
         mood: Math.max(1, Math.min(10, 5.5 + Math.random() * 2 + moodTrend)),
         energy: Math.max(1, Math.min(10, 6 + Math.random() * 2 + (isWeekend ? 0.5 : -0.5))),
         sleep: Math.max(4, Math.min(12, sleepBase + (Math.random() - 0.5) * 2)),
-        exercise: Math.random() > (isWeekend ? 0.3 : 0.6),
+        exercise: Math.random() > (isWeekend ? 0.3 : 0.6) ? 30 : 0,
         hydration: Math.max(4, Math.min(12, 7 + Math.random() * 3)),
         stress: Math.max(1, Math.min(10, 4 + Math.random() * 3 + (isWeekend ? -1 : 1))),
-        notes: i % 5 === 0 ? 'Sample note for analysis' : undefined,
-        tags: i % 7 === 0 ? ['work-stress', 'tired'] : undefined,
-        createdAt: date.toISOString(),
-        updatedAt: date.toISOString(),
+        nutrition: Math.max(1, Math.min(10, 6 + Math.random() * 2)),
+        notes: i % 5 === 0 ? 'Sample note for analysis' : '',
+        factors: i % 7 === 0 ? ['work_stress'] : [],
       });
     }
-    return data.sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
-  };
-
-  const generateId = (): string => {
-    return Date.now().toString(36) + Math.random().toString(36).substr(2);
+    return data;
   };
 
   const contextValue: MoodDataContextType = {
@@ -155,6 +221,13 @@ export const MoodDataProvider: React.FC<{ children: ReactNode }> = ({ children }
     updateEntry,
     deleteEntry,
     getEntriesInRange,
+    undo,
+    redo,
+    canUndo: history.canUndo,
+    canRedo: history.canRedo,
+    lastOperation: history.lastOperation,
+    getEntryRevisions,
+    restoreRevision,
     isLoading,
     error,
   };
@@ -0,0 +1,100 @@
+'use client'
+
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { switchProfile, unlockStorage } from '@/lib/storage'
+import { DecryptionError } from '@/lib/crypto'
+import { getActiveProfile, getProfileRegistry } from '@/lib/profiles'
+import ProfileAvatar from './ProfileAvatar'
+
+export default function LockScreen() {
+  const [profile] = useState(getActiveProfile)
+  const [otherProfiles] = useState(() => getProfileRegistry().profiles.filter(p => p.id !== profile.id))
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [unlocking, setUnlocking] = useState(false)
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setError(null)
+    setUnlocking(true)
+
+    try {
+      await unlockStorage(passphrase)
+    } catch (err) {
+      if (err instanceof DecryptionError) {
+        setError('Incorrect passcode')
+      } else {
+        console.error('Error unlocking storage:', err)
+        setError('Could not open your data. Please try again.')
+      }
+      setPassphrase('')
+    } finally {
+      setUnlocking(false)
+    }
+  }
+
+  const handleSwitch = async (profileId: string) => {
+    try {
+      await switchProfile(profileId)
+    } catch (err) {
+      console.error('Error switching profile:', err)
+      setError('Could not open that profile. Please try again.')
+    }
+  }
+
+  return (
+    <div className="min-h-screen flex flex-col items-center justify-center p-6 space-y-6">
+      <form
+        onSubmit={handleUnlock}
+        className="w-full max-w-sm bg-white rounded-2xl shadow-lg border border-gray-100 p-8 space-y-6 text-center"
+      >
+        <div className="mx-auto w-14 h-14 rounded-full bg-primary-100 flex items-center justify-center">
+          <Lock className="w-7 h-7 text-primary-600" />
+        </div>
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{profile.name}&apos;s profile is locked</h1>
+          <p className="text-sm text-gray-600 mt-1">Enter the passcode to decrypt this profile on this device.</p>
+        </div>
+
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          autoFocus
+          autoComplete="current-password"
+          aria-label="Passcode"
+          className="w-full px-4 py-3 border border-gray-300 rounded-lg text-center focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+        />
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={unlocking || passphrase === ''}
+          className="w-full py-3 bg-primary-600 text-white rounded-lg font-semibold hover:bg-primary-700 transition-colors disabled:opacity-50"
+        >
+          {unlocking ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+
+      {otherProfiles.length > 0 && (
+        <div className="text-center space-y-3">
+          <p className="text-sm text-gray-600">Not you? Switch profile</p>
+          <div className="flex flex-wrap justify-center gap-3">
+            {otherProfiles.map(other => (
+              <button
+                key={other.id}
+                onClick={() => handleSwitch(other.id)}
+                className="flex items-center space-x-2 px-3 py-2 bg-white rounded-lg border border-gray-200 hover:border-primary-300 transition-colors"
+              >
+                <ProfileAvatar profile={other} size="sm" />
+                <span className="text-sm text-gray-800">{other.name}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
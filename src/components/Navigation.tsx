@@ -3,6 +3,7 @@
 import Link from 'next/link'
 import { usePathname } from 'next/navigation'
 import { Home, Heart, Target, DollarSign, BookOpen, Sparkles } from 'lucide-react'
+import ProfileSwitcher from './ProfileSwitcher'
 
 const navigationItems = [
   { href: '/', icon: Home, label: 'Home' },
@@ -36,6 +37,7 @@ export default function Navigation() {
             </Link>
           )
         })}
+        <ProfileSwitcher />
       </div>
     </nav>
   )
@@ -0,0 +1,82 @@
+'use client'
+
+import { useState } from 'react'
+import { AlertTriangle, CloudOff, RefreshCw, X } from 'lucide-react'
+import { OutboxWriteKind } from '@/types/sync'
+import { usePendingChanges } from '@/hooks/usePendingChanges'
+
+const KIND_LABELS: Record<OutboxWriteKind, string> = {
+  moodEntry: 'Mood check-in',
+  goalProgress: 'Goal progress',
+}
+
+/**
+ * Floating badge for changes made offline that have not reached the sync
+ * server yet, with a panel to retry them or give up on individual ones
+ */
+export default function PendingChangesIndicator() {
+  const { entries, isRetrying, retry, discard } = usePendingChanges()
+  const [open, setOpen] = useState(false)
+
+  if (entries.length === 0) return null
+
+  const failed = entries.filter(entry => entry.state === 'failed').length
+  const summary = failed > 0
+    ? `${failed} change${failed === 1 ? '' : 's'} failed to upload`
+    : `${entries.length} change${entries.length === 1 ? '' : 's'} waiting to upload`
+
+  return (
+    <div className="fixed bottom-20 right-4 z-40 flex flex-col items-end">
+      {open && (
+        <div className="mb-2 w-72 bg-white rounded-xl shadow-lg border border-gray-100 p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <h2 className="text-sm font-semibold text-gray-900">Pending changes</h2>
+            <button onClick={() => setOpen(false)} aria-label="Close" className="text-gray-400 hover:text-gray-600">
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Saved on this device. They upload automatically once you are back online.
+          </p>
+          <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+            {entries.map(entry => (
+              <li key={entry.id} className="py-2 flex items-start justify-between space-x-2">
+                <div className="min-w-0">
+                  <p className="text-sm text-gray-800">{KIND_LABELS[entry.kind]}</p>
+                  <p className="text-xs text-gray-500">Changed {new Date(entry.queuedAt).toLocaleString()}</p>
+                  {entry.lastError && <p className="text-xs text-red-600">{entry.lastError}</p>}
+                </div>
+                <button
+                  onClick={() => discard(entry)}
+                  title="Keep this change on this device only"
+                  className="text-xs text-gray-500 hover:text-red-600 whitespace-nowrap"
+                >
+                  Discard
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={retry}
+            disabled={isRetrying}
+            className="w-full flex items-center justify-center px-3 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 mr-2 ${isRetrying ? 'animate-spin' : ''}`} />
+            Retry now
+          </button>
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className={`flex items-center space-x-2 px-3 py-2 rounded-full shadow-lg text-sm font-medium ${
+          failed > 0 ? 'bg-red-50 text-red-700 border border-red-200' : 'bg-amber-50 text-amber-800 border border-amber-200'
+        }`}
+      >
+        {failed > 0 ? <AlertTriangle className="w-4 h-4" /> : <CloudOff className="w-4 h-4" />}
+        <span>{summary}</span>
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,34 @@
+'use client'
+
+import { Profile, ProfileColor } from '@/types/profile'
+
+const COLOR_CLASSES: Record<ProfileColor, string> = {
+  indigo: 'bg-indigo-500',
+  rose: 'bg-rose-500',
+  emerald: 'bg-emerald-500',
+  amber: 'bg-amber-500',
+  sky: 'bg-sky-500',
+  violet: 'bg-violet-500',
+}
+
+const SIZE_CLASSES = {
+  sm: 'w-6 h-6 text-xs',
+  md: 'w-8 h-8 text-sm',
+  lg: 'w-10 h-10 text-base',
+}
+
+interface ProfileAvatarProps {
+  profile: Profile
+  size?: keyof typeof SIZE_CLASSES
+}
+
+export default function ProfileAvatar({ profile, size = 'md' }: ProfileAvatarProps) {
+  return (
+    <span
+      className={`${COLOR_CLASSES[profile.color]} ${SIZE_CLASSES[size]} inline-flex items-center justify-center rounded-full text-white font-semibold`}
+      aria-hidden="true"
+    >
+      {profile.name.charAt(0).toUpperCase()}
+    </span>
+  )
+}
@@ -0,0 +1,86 @@
+'use client'
+
+import { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { Check, Users } from 'lucide-react'
+import { switchProfile } from '@/lib/storage'
+import { useProfiles } from '@/hooks/useProfiles'
+import ProfileAvatar from './ProfileAvatar'
+
+/**
+ * Bottom-nav button showing who is using the app, with a menu to switch profiles
+ */
+export default function ProfileSwitcher() {
+  const { profiles, activeProfile } = useProfiles()
+  const [open, setOpen] = useState(false)
+  const [switching, setSwitching] = useState(false)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    const handleClick = (e: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSwitch = async (profileId: string) => {
+    if (profileId === activeProfile.id) {
+      setOpen(false)
+      return
+    }
+    setSwitching(true)
+    try {
+      await switchProfile(profileId)
+    } catch (err) {
+      console.error('Error switching profile:', err)
+    } finally {
+      setSwitching(false)
+      setOpen(false)
+    }
+  }
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="flex flex-col items-center p-2 rounded-lg text-gray-500 hover:text-primary-500 hover:bg-primary-50/50 transition-all duration-200"
+      >
+        <ProfileAvatar profile={activeProfile} size="sm" />
+        <span className="text-xs font-medium mt-0.5 max-w-[4rem] truncate">{activeProfile.name}</span>
+      </button>
+
+      {open && (
+        <div role="menu" className="absolute bottom-full right-0 mb-2 w-56 bg-white rounded-xl shadow-lg border border-gray-100 py-2">
+          {profiles.map(profile => (
+            <button
+              key={profile.id}
+              role="menuitem"
+              onClick={() => handleSwitch(profile.id)}
+              disabled={switching}
+              className="w-full flex items-center space-x-3 px-4 py-2 text-left hover:bg-gray-50 disabled:opacity-50"
+            >
+              <ProfileAvatar profile={profile} size="sm" />
+              <span className="flex-1 text-sm text-gray-800 truncate">{profile.name}</span>
+              {profile.id === activeProfile.id && <Check className="w-4 h-4 text-primary-600" />}
+            </button>
+          ))}
+          <div className="border-t border-gray-100 mt-2 pt-2">
+            <Link
+              href="/goal-tracker/profiles"
+              role="menuitem"
+              onClick={() => setOpen(false)}
+              className="flex items-center space-x-3 px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+            >
+              <Users className="w-4 h-4" />
+              <span>Manage profiles</span>
+            </Link>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,43 @@
+'use client'
+
+import { useMemo } from 'react'
+import { encodeQrCode } from '@/lib/qr-code'
+
+// Light border scanners need around the symbol, in modules
+const QUIET_ZONE = 4
+
+interface QrCodeProps {
+  value: string
+  size?: number
+  title?: string
+}
+
+export default function QrCode({ value, size = 220, title = 'QR code' }: QrCodeProps) {
+  const modules = useMemo(() => encodeQrCode(value), [value])
+  const dimension = modules.length + QUIET_ZONE * 2
+
+  // One path segment per dark module keeps the SVG crisp at any size
+  const path = useMemo(
+    () =>
+      modules
+        .map((row, y) =>
+          row.map((dark, x) => (dark ? `M${x + QUIET_ZONE} ${y + QUIET_ZONE}h1v1h-1z` : '')).join('')
+        )
+        .join(''),
+    [modules]
+  )
+
+  return (
+    <svg
+      width={size}
+      height={size}
+      viewBox={`0 0 ${dimension} ${dimension}`}
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={title}
+    >
+      <rect width={dimension} height={dimension} fill="#ffffff" />
+      <path d={path} fill="#111827" />
+    </svg>
+  )
+}
@@ -0,0 +1,62 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Sparkles, X } from 'lucide-react'
+import { getUnseenReleaseNotes, markReleaseNotesSeen, ReleaseNote } from '@/lib/release-notes'
+
+/**
+ * "What's new" card, shown once after the app updates to a newer version
+ */
+export default function ReleaseNotes() {
+  const [notes, setNotes] = useState<ReleaseNote[]>([])
+
+  useEffect(() => {
+    try {
+      setNotes(getUnseenReleaseNotes())
+    } catch (err) {
+      console.error('Error reading release notes:', err)
+    }
+  }, [])
+
+  if (notes.length === 0) return null
+
+  const dismiss = () => {
+    markReleaseNotesSeen()
+    setNotes([])
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/30 p-4">
+      <div role="dialog" aria-labelledby="release-notes-title" className="w-full max-w-md bg-white rounded-xl shadow-lg border border-gray-100 p-6 space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Sparkles className="w-5 h-5 text-indigo-600" />
+            <h2 id="release-notes-title" className="text-lg font-semibold text-gray-900">What&apos;s new</h2>
+          </div>
+          <button onClick={dismiss} aria-label="Close" className="text-gray-400 hover:text-gray-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="max-h-80 overflow-y-auto space-y-4">
+          {notes.map(note => (
+            <div key={note.version}>
+              <p className="text-sm font-medium text-gray-900">
+                Version {note.version}
+                <span className="ml-2 text-xs font-normal text-gray-500">{new Date(`${note.date}T00:00:00`).toLocaleDateString()}</span>
+              </p>
+              <ul className="mt-2 list-disc list-inside space-y-1 text-sm text-gray-600">
+                {note.highlights.map(highlight => <li key={highlight}>{highlight}</li>)}
+              </ul>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={dismiss}
+          className="w-full px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors"
+        >
+          Got it
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -2,6 +2,7 @@
 'use client';
 
 import { useEffect, useState } from 'react';
+import { getUpdateStatus, subscribeToUpdateStatus, UpdateStatus } from '@/lib/service-worker';
 
 interface ServiceWorkerDetails {
   message: string;
@@ -12,6 +13,8 @@ export default function ServiceWorkerDebug() {
   const [swDetails, setSwDetails] = useState<ServiceWorkerDetails[]>([]);
 
   useEffect(() => {
+    let unsubscribe: (() => void) | undefined;
+
     const checkServiceWorker = async () => {
       const details: ServiceWorkerDetails[] = [];
       
@@ -40,26 +43,22 @@ export default function ServiceWorkerDebug() {
           }
         });
         
-        // Try to register manually
-        details.push({ message: '🔄 Attempting manual registration...' });
-        
-        const registration = await navigator.serviceWorker.register('/sw.js', {
-          scope: '/'
-        });
-        
-        details.push({ message: '✅ Manual registration successful!' });
-        details.push({ message: `  - Scope: ${registration.scope}` });
-        details.push({ message: `  - Installing: ${registration.installing ? '✅' : '❌'}` });
-        details.push({ message: `  - Waiting: ${registration.waiting ? '✅' : '❌'}` });
-        details.push({ message: `  - Active: ${registration.active ? '✅' : '❌'}` });
-        
-        setSwStatus('✅ Service Worker registered successfully');
-        
-        // Listen for updates
-        registration.addEventListener('updatefound', () => {
-          details.push({ message: '🔄 Service Worker update found' });
+        // Registration itself happens in ServiceWorkerRegistration; just report it
+        const registration = await navigator.serviceWorker.getRegistration();
+        if (!registration) {
+          setSwStatus('⚠️ Service Worker not registered yet');
+          setSwDetails(details);
+          return;
+        }
+
+        setSwStatus('✅ Service Worker registered');
+
+        const showUpdateStatus = (status: UpdateStatus) => {
+          details.push({ message: `🔄 Update available: ${status.available ? '✅' : '❌'} (reload ${status.blocked ? 'on hold' : 'allowed'})` });
           setSwDetails([...details]);
-        });
+        };
+        showUpdateStatus(getUpdateStatus());
+        unsubscribe = subscribeToUpdateStatus(showUpdateStatus);
         
       } catch (error) {
         const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -71,6 +70,7 @@ export default function ServiceWorkerDebug() {
     };
     
     checkServiceWorker();
+    return () => unsubscribe?.();
   }, []);
 
   const checkFiles = async () => {
@@ -0,0 +1,12 @@
+'use client'
+
+import { useEffect } from 'react'
+import { registerServiceWorker } from '@/lib/service-worker'
+
+export default function ServiceWorkerRegistration() {
+  useEffect(() => {
+    registerServiceWorker().catch(err => console.error('Error registering service worker:', err))
+  }, [])
+
+  return null
+}
@@ -0,0 +1,54 @@
+'use client'
+
+import { Fragment, useEffect, useState } from 'react'
+import { LockState } from '@/types/encryption'
+import { getActiveProfile } from '@/lib/profiles'
+import { getLockState, subscribeToLockState, subscribeToProfileSwitch } from '@/lib/storage'
+import { useAutoLock } from '@/hooks/useAutoLock'
+import { useAutoSync } from '@/hooks/useAutoSync'
+import { useReminders } from '@/hooks/useReminders'
+import LockScreen from './LockScreen'
+import PendingChangesIndicator from './PendingChangesIndicator'
+
+/**
+ * Keeps the app behind the lock screen while encrypted storage is locked.
+ * Children unmount on lock, so no decrypted data stays in component state,
+ * and remount on a profile switch, so every page reloads the new profile's data.
+ */
+export default function StorageLockGate({ children }: { children: React.ReactNode }) {
+  const [lockState, setLockState] = useState<LockState | null>(null)
+  const [profileId, setProfileId] = useState(() => getActiveProfile().id)
+
+  useEffect(() => {
+    let active = true
+    getLockState()
+      .then(state => {
+        if (active) setLockState(state)
+      })
+      .catch(err => {
+        console.error('Error reading lock state:', err)
+        if (active) setLockState('disabled')
+      })
+
+    const unsubscribeLock = subscribeToLockState(setLockState)
+    const unsubscribeProfile = subscribeToProfileSwitch(setProfileId)
+    return () => {
+      active = false
+      unsubscribeLock()
+      unsubscribeProfile()
+    }
+  }, [])
+
+  useAutoLock(lockState === 'unlocked')
+  useAutoSync(lockState === 'unlocked' || lockState === 'disabled')
+  useReminders(lockState === 'unlocked' || lockState === 'disabled')
+
+  if (lockState === null) return <div className="min-h-screen" />
+  if (lockState === 'locked') return <LockScreen />
+  return (
+    <Fragment key={profileId}>
+      {children}
+      <PendingChangesIndicator />
+    </Fragment>
+  )
+}
@@ -0,0 +1,40 @@
+'use client'
+
+import { useEffect } from 'react'
+import { Undo2, X } from 'lucide-react'
+
+interface UndoToastProps {
+  message: string
+  onUndo: () => void
+  onDismiss: () => void
+  duration?: number // ms before the toast hides itself
+}
+
+export default function UndoToast({ message, onUndo, onDismiss, duration = 6000 }: UndoToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onDismiss, duration)
+    return () => clearTimeout(timer)
+  }, [message, duration, onDismiss])
+
+  return (
+    <div
+      role="status"
+      className="fixed bottom-24 left-1/2 -translate-x-1/2 z-50 flex items-center space-x-4 bg-gray-900 text-white px-4 py-3 rounded-lg shadow-lg"
+    >
+      <span className="text-sm">{message}</span>
+      <button
+        onClick={() => {
+          onUndo()
+          onDismiss()
+        }}
+        className="flex items-center space-x-1 text-sm font-semibold text-indigo-300 hover:text-indigo-200"
+      >
+        <Undo2 className="w-4 h-4" />
+        <span>Undo</span>
+      </button>
+      <button onClick={onDismiss} aria-label="Dismiss" className="text-gray-400 hover:text-gray-200">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+  )
+}
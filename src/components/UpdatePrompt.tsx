@@ -0,0 +1,37 @@
+'use client'
+
+import { useState } from 'react'
+import { RefreshCw } from 'lucide-react'
+import { useServiceWorkerUpdate } from '@/hooks/useServiceWorkerUpdate'
+
+/**
+ * Banner offering to reload into a new version once it has been downloaded.
+ * Pages with unsaved input hold the reload off until they are saved.
+ */
+export default function UpdatePrompt() {
+  const { available, blocked, applyUpdate } = useServiceWorkerUpdate()
+  const [isReloading, setIsReloading] = useState(false)
+
+  if (!available) return null
+
+  return (
+    <div className="fixed top-4 left-1/2 -translate-x-1/2 z-50 w-[calc(100%-2rem)] max-w-md">
+      <div className="flex items-center justify-between space-x-3 px-4 py-3 bg-white rounded-xl shadow-lg border border-indigo-100">
+        <div className="min-w-0">
+          <p className="text-sm font-medium text-gray-900">New version available</p>
+          {blocked && (
+            <p className="text-xs text-gray-500">Save or discard your check-in first; your input would be lost.</p>
+          )}
+        </div>
+        <button
+          onClick={() => setIsReloading(applyUpdate())}
+          disabled={blocked || isReloading}
+          className="flex items-center px-3 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors disabled:opacity-50 whitespace-nowrap"
+        >
+          <RefreshCw className={`w-4 h-4 mr-2 ${isReloading ? 'animate-spin' : ''}`} />
+          Reload
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,53 @@
+// src/hooks/useAutoLock.ts
+'use client';
+
+import { useEffect } from 'react';
+import { getAutoLockMinutes, lockStorage } from '@/lib/storage';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'scroll', 'touchstart'];
+
+// Resetting the timer on every pointer move is wasteful; once per few seconds is enough
+const ACTIVITY_THROTTLE_MS = 5000;
+
+/**
+ * Lock the encrypted vault after the configured minutes without user input.
+ * Timers are throttled in background tabs, so the idle time is also checked
+ * when the page becomes visible again.
+ */
+export const useAutoLock = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let lastActivity = Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const schedule = () => {
+      clearTimeout(timer);
+      const minutes = getAutoLockMinutes();
+      if (minutes > 0) timer = setTimeout(lockStorage, minutes * 60000);
+    };
+
+    const handleActivity = () => {
+      if (Date.now() - lastActivity < ACTIVITY_THROTTLE_MS) return;
+      lastActivity = Date.now();
+      schedule();
+    };
+
+    const handleVisibility = () => {
+      const minutes = getAutoLockMinutes();
+      if (document.visibilityState === 'visible' && minutes > 0 && Date.now() - lastActivity >= minutes * 60000) {
+        lockStorage();
+      }
+    };
+
+    schedule();
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,66 @@
+// src/hooks/useAutoSync.ts
+'use client';
+
+import { useEffect } from 'react';
+import { getSyncStatus, queueOfflineWrites, resetSyncStatus, subscribeToLocalChanges, syncNow } from '@/lib/sync';
+import { subscribeToProfileSwitch } from '@/lib/storage';
+
+// Wait for a burst of edits to settle before uploading them
+const LOCAL_CHANGE_DELAY_MS = 5000;
+
+const SYNC_INTERVAL_MS = 5 * 60000;
+
+/**
+ * Keep a sync-enabled profile in sync: on start, after local edits, when the
+ * connection comes back, when the app is reopened and every few minutes.
+ * Offline, edits are queued for the service worker to upload instead.
+ * Failures are reported through the sync status, not thrown.
+ */
+export const useAutoSync = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let debounce: ReturnType<typeof setTimeout> | undefined;
+
+    const trySync = () => {
+      clearTimeout(debounce);
+      if (getSyncStatus().phase === 'disabled') return;
+      if (!navigator.onLine) {
+        queueOfflineWrites().catch(err => console.error('Error queueing offline writes:', err));
+        return;
+      }
+      syncNow().catch(err => console.error('Error syncing:', err));
+    };
+
+    const start = () => {
+      resetSyncStatus()
+        .then(trySync)
+        .catch(err => console.error('Error reading sync status:', err));
+    };
+
+    const handleLocalChange = () => {
+      clearTimeout(debounce);
+      debounce = setTimeout(trySync, LOCAL_CHANGE_DELAY_MS);
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') trySync();
+    };
+
+    start();
+    const interval = setInterval(trySync, SYNC_INTERVAL_MS);
+    const unsubscribeChanges = subscribeToLocalChanges(handleLocalChange);
+    const unsubscribeProfile = subscribeToProfileSwitch(start);
+    window.addEventListener('online', trySync);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearTimeout(debounce);
+      clearInterval(interval);
+      unsubscribeChanges();
+      unsubscribeProfile();
+      window.removeEventListener('online', trySync);
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled]);
+};
@@ -7,9 +7,35 @@ import {
   MoodEntryFormData, 
   WellnessMetrics, 
   AdvancedInsights,
-  DataQualityMetric 
+  DataQualityMetric,
+  MOOD_ENTRY_NUMERIC_KEYS,
+  MOOD_ENTRY_SCHEMA_VERSION
 } from '@/types/mood-tracker';
+import { MoodEntryRevision, Operation } from '@/types/history';
+import { RestoreMode, RestoreReport } from '@/types/backup';
+import { CsvImportOptions, MoodImportPreview } from '@/types/mood-import';
+import { HealthUpdateProposal } from '@/types/health-import';
 import { MoodAnalytics } from '@/lib/mood-analytics';
+import { createMoodEntryId, isImportableMoodEntry } from '@/lib/mood-migration';
+import { moodEntriesToCsv, parseMoodCsv } from '@/lib/mood-csv';
+import { parseCsv } from '@/lib/csv';
+import { getImporter } from '@/lib/importers';
+import { parseMoodExport, previewImportFile } from '@/lib/import-file';
+import { markMetricsRecorded, selectEntriesInRange, upsertSortedEntry } from '@/lib/mood-queries';
+import { rollupDailyEntries } from '@/lib/check-ins';
+import { createMoodEntryOperation, toMoodEntryRevisions } from '@/lib/operation-log';
+import { getRepositories } from '@/lib/storage';
+import { subscribeToRemoteChanges } from '@/lib/sync';
+import {
+  createBackup,
+  decryptBackup,
+  encryptBackup,
+  isEncryptedBackup,
+  parseBackup,
+  restoreBackup as restoreBackupBundle,
+  serializeBackup
+} from '@/lib/backup';
+import { useOperationHistory } from './useOperationHistory';
 
 interface UseMoodTrackerReturn {
   // Data
@@ -23,90 +49,177 @@ interface UseMoodTrackerReturn {
   updateEntry: (id: string, updates: Partial<MoodEntry>) => void;
   deleteEntry: (id: string) => void;
   exportData: () => string;
-  importData: (jsonData: string) => boolean;
+  importData: (jsonData: string) => Promise<boolean>;
+  previewImport: (text: string, fileName: string) => MoodImportPreview | null;
+  confirmImport: (preview: MoodImportPreview) => Promise<number>;
+  exportCsv: () => string;
+  importCsv: (csvText: string, options: CsvImportOptions) => Promise<number>;
+  importFromApp: (importerId: string, text: string) => Promise<number>;
+  applyHealthUpdates: (proposals: HealthUpdateProposal[]) => Promise<number>;
+  exportBackup: (passphrase?: string) => Promise<string>;
+  restoreBackup: (jsonData: string, mode: RestoreMode, passphrase?: string) => Promise<RestoreReport | null>;
+  getEntriesInRange: (startDate: string, endDate: string) => MoodEntry[];
+  undo: () => void;
+  redo: () => void;
+  getEntryRevisions: (id: string) => Promise<MoodEntryRevision[]>;
+  restoreRevision: (revision: MoodEntryRevision) => void;
   
   // State
   loading: boolean;
   error: string | null;
   hasEntryForToday: boolean;
   streakDays: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastOperation: Operation | null;
 }
 
-const STORAGE_KEY = 'herflowstate-mood-entries';
-const BACKUP_KEY = 'herflowstate-mood-backup';
-
 export const useMoodTracker = (): UseMoodTrackerReturn => {
   const [entries, setEntries] = useState<MoodEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
-  // Load entries from localStorage on mount
+  // Load entries from the storage engine on mount, and again when a sync brings in remote edits
   useEffect(() => {
-    try {
-      const savedEntries = localStorage.getItem(STORAGE_KEY);
-      if (savedEntries) {
-        const parsedEntries = JSON.parse(savedEntries) as MoodEntry[];
-        // Validate and sort entries
-        const validEntries = parsedEntries
-          .filter(entry => entry.id && entry.date && typeof entry.mood === 'number')
-          .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-        setEntries(validEntries);
+    let cancelled = false;
+
+    const loadEntries = async () => {
+      try {
+        const { moods } = await getRepositories();
+        const savedEntries = await moods.getAll();
+        if (!cancelled) setEntries(savedEntries);
+      } catch (err) {
+        setError('Failed to load saved data');
+        console.error('Error loading mood entries:', err);
+      } finally {
+        if (!cancelled) setLoading(false);
       }
-    } catch (err) {
-      setError('Failed to load saved data');
-      console.error('Error loading mood entries:', err);
-    } finally {
-      setLoading(false);
-    }
+    };
+
+    loadEntries();
+    const unsubscribe = subscribeToRemoteChanges(loadEntries);
+    return () => {
+      cancelled = true;
+      unsubscribe();
+    };
   }, []);
 
-  // Save entries to localStorage whenever entries change
-  const saveEntries = useCallback((newEntries: MoodEntry[]) => {
+  // Mirror a logged operation (including undo/redo) in the sorted in-memory list
+  const applyToEntries = useCallback((operation: Operation) => {
+    if (operation.target !== 'moodEntry') return;
+    const { after, recordId } = operation;
+    setEntries(prev => after ? upsertSortedEntry(prev, after) : prev.filter(entry => entry.id !== recordId));
+  }, []);
+
+  const {
+    perform,
+    performAll,
+    undo: undoOperation,
+    redo: redoOperation,
+    canUndo,
+    canRedo,
+    lastOperation
+  } = useOperationHistory(applyToEntries);
+
+  // Persist a single record through the operation log
+  const saveEntry = useCallback(async (before: MoodEntry | null, entry: MoodEntry) => {
     try {
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(newEntries));
-      // Create backup
-      localStorage.setItem(BACKUP_KEY, JSON.stringify(newEntries));
-      setEntries(newEntries);
+      await perform(createMoodEntryOperation(before, entry));
       setError(null);
     } catch (err) {
       setError('Failed to save data');
-      console.error('Error saving mood entries:', err);
+      console.error('Error saving mood entry:', err);
     }
-  }, []);
+  }, [perform]);
 
   // Add new entry
   const addEntry = useCallback((formData: MoodEntryFormData) => {
+    const now = new Date().toISOString();
     const newEntry: MoodEntry = {
-      id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
-      date: new Date().toISOString().split('T')[0],
-      timestamp: new Date().toISOString(),
+      id: createMoodEntryId(),
+      schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+      date: now.split('T')[0],
+      timestamp: now,
+      updatedAt: now,
       ...formData
     };
 
-    const updatedEntries = [...entries, newEntry]
-      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
-    
-    saveEntries(updatedEntries);
-  }, [entries, saveEntries]);
+    saveEntry(null, newEntry);
+  }, [saveEntry]);
 
   // Update existing entry
   const updateEntry = useCallback((id: string, updates: Partial<MoodEntry>) => {
-    const updatedEntries = entries.map(entry =>
-      entry.id === id ? { ...entry, ...updates } : entry
-    );
-    saveEntries(updatedEntries);
-  }, [entries, saveEntries]);
+    const existing = entries.find(entry => entry.id === id);
+    if (!existing) return;
+
+    saveEntry(existing, markMetricsRecorded(
+      { ...existing, ...updates, id, updatedAt: new Date().toISOString() },
+      MOOD_ENTRY_NUMERIC_KEYS.filter(metric => updates[metric] !== undefined)
+    ));
+  }, [entries, saveEntry]);
+
+  // Delete entry (logged, so it can be undone)
+  const deleteEntry = useCallback(async (id: string) => {
+    const existing = entries.find(entry => entry.id === id);
+    if (!existing) return;
+
+    try {
+      await perform(createMoodEntryOperation(existing, null));
+      setError(null);
+    } catch (err) {
+      setError('Failed to delete entry');
+      console.error('Error deleting mood entry:', err);
+    }
+  }, [entries, perform]);
+
+  const undo = useCallback(async () => {
+    try {
+      await undoOperation();
+    } catch (err) {
+      setError('Failed to undo last change');
+      console.error('Error undoing mood entry change:', err);
+    }
+  }, [undoOperation]);
+
+  const redo = useCallback(async () => {
+    try {
+      await redoOperation();
+    } catch (err) {
+      setError('Failed to redo change');
+      console.error('Error redoing mood entry change:', err);
+    }
+  }, [redoOperation]);
+
+  // Every logged version of an entry, newest first
+  const getEntryRevisions = useCallback(async (id: string): Promise<MoodEntryRevision[]> => {
+    const { history: operationLog } = await getRepositories();
+    return toMoodEntryRevisions(await operationLog.getForRecord('moodEntry', id));
+  }, []);
+
+  // Bring back an earlier version (also recreates a deleted entry)
+  const restoreRevision = useCallback(async (revision: MoodEntryRevision) => {
+    const current = entries.find(entry => entry.id === revision.snapshot.id) || null;
+    const restored = { ...revision.snapshot, updatedAt: new Date().toISOString() };
+
+    try {
+      await perform(createMoodEntryOperation(current, restored, 'restore'));
+      setError(null);
+    } catch (err) {
+      setError('Failed to restore revision');
+      console.error('Error restoring mood entry revision:', err);
+    }
+  }, [entries, perform]);
 
-  // Delete entry
-  const deleteEntry = useCallback((id: string) => {
-    const updatedEntries = entries.filter(entry => entry.id !== id);
-    saveEntries(updatedEntries);
-  }, [entries, saveEntries]);
+  // Entries between two YYYY-MM-DD dates (inclusive), via binary search on the sorted list
+  const getEntriesInRange = useCallback((startDate: string, endDate: string): MoodEntry[] => {
+    return selectEntriesInRange(entries, startDate, endDate);
+  }, [entries]);
 
   // Export data as JSON
   const exportData = useCallback(() => {
     const exportObject = {
       version: '1.0',
+      schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
       exportDate: new Date().toISOString(),
       entries: entries,
       totalEntries: entries.length
@@ -114,44 +227,139 @@ export const useMoodTracker = (): UseMoodTrackerReturn => {
     return JSON.stringify(exportObject, null, 2);
   }, [entries]);
 
+  // Merge imported entries with existing ones, avoiding duplicates, as one
+  // undoable step; resolves to how many were added once they are saved
+  const mergeImportedEntries = useCallback(async (validEntries: MoodEntry[]): Promise<number> => {
+    const existingIds = new Set(entries.map(e => e.id));
+    const newEntries = new Map<string, MoodEntry>();
+    validEntries.forEach(entry => {
+      if (!existingIds.has(entry.id)) newEntries.set(entry.id, entry);
+    });
+
+    try {
+      await performAll(Array.from(newEntries.values()).map(entry => createMoodEntryOperation(null, entry)));
+      setError(null);
+      return newEntries.size;
+    } catch (err) {
+      setError('Failed to save imported data');
+      console.error('Error saving imported entries:', err);
+      return 0;
+    }
+  }, [entries, performAll]);
+
   // Import data from JSON
-  const importData = useCallback((jsonData: string): boolean => {
+  const importData = useCallback(async (jsonData: string): Promise<boolean> => {
+    let imported: MoodEntry[];
     try {
-      const importObject = JSON.parse(jsonData);
-      
-      if (!importObject.entries || !Array.isArray(importObject.entries)) {
-        throw new Error('Invalid data format');
-      }
+      imported = parseMoodExport(jsonData).entries;
+    } catch (err) {
+      setError('Failed to import data: ' + (err as Error).message);
+      return false;
+    }
+    await mergeImportedEntries(imported);
+    return true;
+  }, [mergeImportedEntries]);
 
-      const importedEntries = importObject.entries as MoodEntry[];
-      
-      // Validate imported entries
-      const validEntries = importedEntries.filter(entry =>
-        entry.id &&
-        entry.date &&
-        typeof entry.mood === 'number' &&
-        typeof entry.energy === 'number' &&
-        typeof entry.stress === 'number'
-      );
-
-      if (validEntries.length === 0) {
-        throw new Error('No valid entries found in import data');
-      }
+  // Validate a JSON export or CSV the way importData/importCsv would and report what merging it changes
+  const previewImport = useCallback((text: string, fileName: string): MoodImportPreview | null => {
+    try {
+      const preview = previewImportFile(entries, text, fileName);
+      setError(null);
+      return preview;
+    } catch (err) {
+      setError('Failed to import data: ' + (err as Error).message);
+      return null;
+    }
+  }, [entries]);
 
-      // Merge with existing entries, avoiding duplicates
-      const existingIds = new Set(entries.map(e => e.id));
-      const newEntries = validEntries.filter(e => !existingIds.has(e.id));
-      
-      const mergedEntries = [...entries, ...newEntries]
-        .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+  // Merge the entries a preview found to be new
+  const confirmImport = useCallback((preview: MoodImportPreview): Promise<number> =>
+    mergeImportedEntries(preview.added), [mergeImportedEntries]);
+
+  // Export as CSV, one column per MoodEntry field
+  const exportCsv = useCallback(() => moodEntriesToCsv(entries), [entries]);
+
+  // Import the rows of a CSV that passed the column-mapping step; bad rows are skipped
+  const importCsv = useCallback(async (csvText: string, options: CsvImportOptions): Promise<number> => {
+    const { entries: validEntries, errors } = parseMoodCsv(parseCsv(csvText), options);
+
+    if (validEntries.length === 0) {
+      setError('Failed to import data: ' + (errors[0]?.message || 'No valid rows found in CSV'));
+      return 0;
+    }
+
+    if (errors.length > 0) {
+      console.warn(`Skipped ${errors.length} invalid CSV value(s) during import`, errors);
+    }
+    return mergeImportedEntries(validEntries);
+  }, [mergeImportedEntries]);
 
-      saveEntries(mergedEntries);
-      return true;
+  // Import another app's export through the importer registry; unconvertible rows are skipped
+  const importFromApp = useCallback(async (importerId: string, text: string): Promise<number> => {
+    const importer = getImporter(importerId);
+    if (!importer) {
+      setError(`Failed to import data: no importer for "${importerId}"`);
+      return 0;
+    }
+
+    const { entries: converted, errors } = importer.parse(text);
+    const validEntries = converted.filter(isImportableMoodEntry);
+
+    if (validEntries.length === 0) {
+      setError('Failed to import data: ' + (errors[0]?.message || `No entries found in ${importer.name} export`));
+      return 0;
+    }
+
+    if (errors.length > 0) {
+      console.warn(`Skipped ${errors.length} ${importer.name} row(s) during import`, errors);
+    }
+    return mergeImportedEntries(validEntries);
+  }, [mergeImportedEntries]);
+
+  // Write the sleep/exercise values accepted from a health-data import as one
+  // undoable step; resolves to how many entries changed once they are saved
+  const applyHealthUpdates = useCallback(async (proposals: HealthUpdateProposal[]): Promise<number> => {
+    try {
+      await performAll(proposals.map(proposal => createMoodEntryOperation(proposal.before, proposal.after)));
+      setError(null);
+      return proposals.length;
     } catch (err) {
-      setError('Failed to import data: ' + (err as Error).message);
-      return false;
+      setError('Failed to save health data');
+      console.error('Error saving health updates:', err);
+      return 0;
     }
-  }, [entries, saveEntries]);
+  }, [performAll]);
+
+  // Full backup of every store (mood, goals, progress, settings, history); encrypted when given a passphrase
+  const exportBackup = useCallback(async (passphrase?: string): Promise<string> => {
+    const json = serializeBackup(await createBackup());
+    return passphrase ? encryptBackup(json, passphrase) : json;
+  }, []);
+
+  // Validate and restore a full backup; dry-run only reports what would change
+  const restoreBackup = useCallback(async (
+    jsonData: string,
+    mode: RestoreMode,
+    passphrase?: string
+  ): Promise<RestoreReport | null> => {
+    try {
+      if (isEncryptedBackup(jsonData) && !passphrase) {
+        throw new Error('this backup is encrypted; enter its passphrase');
+      }
+      const json = isEncryptedBackup(jsonData) ? await decryptBackup(jsonData, passphrase as string) : jsonData;
+      const report = await restoreBackupBundle(await parseBackup(json), mode);
+      if (report.applied) {
+        const { moods } = await getRepositories();
+        setEntries(await moods.getAll());
+      }
+      setError(null);
+      return report;
+    } catch (err) {
+      setError('Failed to restore backup: ' + (err as Error).message);
+      console.error('Error restoring backup:', err);
+      return null;
+    }
+  }, []);
 
   // Memoized analytics calculations
   const analytics = useMemo((): AdvancedInsights | null => {
@@ -186,11 +394,12 @@ export const useMoodTracker = (): UseMoodTrackerReturn => {
     return analyticsEngine.calculateWellnessMetrics();
   }, [entries]);
 
-  // Data quality metrics
+  // Data quality metrics, counted in days rather than check-ins
   const dataQuality = useMemo((): DataQualityMetric => {
+    const dailyEntries = rollupDailyEntries(entries);
     const now = new Date();
-    const firstEntryDate = entries.length > 0 
-      ? new Date(entries[0].date)
+    const firstEntryDate = dailyEntries.length > 0 
+      ? new Date(dailyEntries[0].date)
       : now;
     
     const daysSinceFirst = Math.ceil(
@@ -198,17 +407,17 @@ export const useMoodTracker = (): UseMoodTrackerReturn => {
     );
     
     const totalPossibleDays = Math.max(1, daysSinceFirst);
-    const daysTracked = entries.length;
+    const daysTracked = dailyEntries.length;
     
     const completeness = Math.min(100, (daysTracked / totalPossibleDays) * 100);
     
     // Calculate consistency (how regular the tracking is)
     let consistencyScore = 0;
-    if (entries.length > 1) {
+    if (dailyEntries.length > 1) {
       const gaps = [];
-      for (let i = 1; i < entries.length; i++) {
-        const prevDate = new Date(entries[i - 1].date);
-        const currDate = new Date(entries[i].date);
+      for (let i = 1; i < dailyEntries.length; i++) {
+        const prevDate = new Date(dailyEntries[i - 1].date);
+        const currDate = new Date(dailyEntries[i].date);
         const dayGap = (currDate.getTime() - prevDate.getTime()) / (1000 * 60 * 60 * 24);
         gaps.push(dayGap);
       }
@@ -218,10 +427,10 @@ export const useMoodTracker = (): UseMoodTrackerReturn => {
     }
     
     // Calculate depth (entries with notes and factors)
-    const entriesWithNotes = entries.filter(e => e.notes && e.notes.trim().length > 0).length;
-    const entriesWithFactors = entries.filter(e => e.factors && e.factors.length > 0).length;
-    const depth = entries.length > 0 
-      ? ((entriesWithNotes + entriesWithFactors) / (entries.length * 2)) * 100
+    const entriesWithNotes = dailyEntries.filter(e => e.notes && e.notes.trim().length > 0).length;
+    const entriesWithFactors = dailyEntries.filter(e => e.factors && e.factors.length > 0).length;
+    const depth = dailyEntries.length > 0 
+      ? ((entriesWithNotes + entriesWithFactors) / (dailyEntries.length * 2)) * 100
       : 0;
     
     const reliability = (completeness + consistencyScore + depth) / 3;
@@ -290,11 +499,27 @@ export const useMoodTracker = (): UseMoodTrackerReturn => {
     deleteEntry,
     exportData,
     importData,
+    previewImport,
+    confirmImport,
+    exportCsv,
+    importCsv,
+    importFromApp,
+    applyHealthUpdates,
+    exportBackup,
+    restoreBackup,
+    getEntriesInRange,
+    undo,
+    redo,
+    getEntryRevisions,
+    restoreRevision,
     
     // State
     loading,
     error,
     hasEntryForToday,
-    streakDays
+    streakDays,
+    canUndo,
+    canRedo,
+    lastOperation
   };
 };
\ No newline at end of file
@@ -0,0 +1,88 @@
+// src/hooks/useOperationHistory.ts
+'use client';
+
+import { useState, useCallback, useRef } from 'react';
+import { Operation } from '@/types/history';
+import { MAX_UNDO_DEPTH, applyOperations, invertOperation, repeatOperation } from '@/lib/operation-log';
+import { getRepositories } from '@/lib/storage';
+
+interface UseOperationHistoryReturn {
+  perform: (operation: Operation) => Promise<void>;
+  performAll: (operations: Operation[]) => Promise<void>;
+  undo: () => Promise<Operation | null>;
+  redo: () => Promise<Operation | null>;
+  clear: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  lastOperation: Operation | null;
+}
+
+/**
+ * Session undo/redo on top of the persisted operation log. Every operation is
+ * written to storage and appended to the log; `onApplied` lets the caller
+ * mirror the change in its own in-memory state. `performAll` logs each
+ * operation on its own, so every record keeps its revision history, but
+ * undoes and redoes them as one step.
+ */
+export const useOperationHistory = (onApplied: (operation: Operation) => void): UseOperationHistoryReturn => {
+  const [undoStack, setUndoStack] = useState<Operation[][]>([]);
+  const [redoStack, setRedoStack] = useState<Operation[][]>([]);
+
+  // Always call the latest callback without re-creating perform/undo/redo
+  const onAppliedRef = useRef(onApplied);
+  onAppliedRef.current = onApplied;
+
+  const commit = useCallback(async (operations: Operation[]) => {
+    const repositories = await getRepositories();
+    await applyOperations(repositories, operations);
+    await repositories.history.appendMany(operations);
+    operations.forEach(operation => onAppliedRef.current(operation));
+  }, []);
+
+  const performAll = useCallback(async (operations: Operation[]) => {
+    if (operations.length === 0) return;
+    await commit(operations);
+    setUndoStack(prev => [...prev, operations].slice(-MAX_UNDO_DEPTH));
+    setRedoStack([]);
+  }, [commit]);
+
+  const perform = useCallback((operation: Operation) => performAll([operation]), [performAll]);
+
+  const undo = useCallback(async (): Promise<Operation | null> => {
+    const operations = undoStack[undoStack.length - 1];
+    if (!operations) return null;
+
+    // Reverse order, so a record changed twice in one step ends up as it started
+    await commit(operations.map(operation => invertOperation(operation)).reverse());
+    setUndoStack(prev => prev.slice(0, -1));
+    setRedoStack(prev => [...prev, operations]);
+    return operations[operations.length - 1];
+  }, [undoStack, commit]);
+
+  const redo = useCallback(async (): Promise<Operation | null> => {
+    const operations = redoStack[redoStack.length - 1];
+    if (!operations) return null;
+
+    await commit(operations.map(operation => repeatOperation(operation)));
+    setRedoStack(prev => prev.slice(0, -1));
+    setUndoStack(prev => [...prev, operations]);
+    return operations[operations.length - 1];
+  }, [redoStack, commit]);
+
+  // Session stacks only make sense for the stores they were recorded against
+  const clear = useCallback(() => {
+    setUndoStack([]);
+    setRedoStack([]);
+  }, []);
+
+  return {
+    perform,
+    performAll,
+    undo,
+    redo,
+    clear,
+    canUndo: undoStack.length > 0,
+    canRedo: redoStack.length > 0,
+    lastOperation: undoStack.length > 0 ? undoStack[undoStack.length - 1].slice(-1)[0] : null
+  };
+};
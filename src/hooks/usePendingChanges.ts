@@ -0,0 +1,59 @@
+// src/hooks/usePendingChanges.ts
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { OutboxEntry } from '@/types/sync';
+import { getStorageProfileId } from '@/lib/storage';
+import { discardPendingChange, getOutboxEntries, retryPendingChanges, subscribeToOutbox } from '@/lib/sync';
+
+interface UsePendingChangesReturn {
+  entries: OutboxEntry[];
+  isRetrying: boolean;
+  retry: () => Promise<void>;
+  discard: (entry: OutboxEntry) => Promise<void>;
+}
+
+/**
+ * The active profile's uploads waiting in the offline queue, kept current as
+ * the app or the service worker adds, sends or fails them
+ */
+export const usePendingChanges = (): UsePendingChangesReturn => {
+  const [entries, setEntries] = useState<OutboxEntry[]>([]);
+  const [isRetrying, setIsRetrying] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      setEntries(await getOutboxEntries(await getStorageProfileId()));
+    } catch (err) {
+      console.error('Error reading the offline queue:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    return subscribeToOutbox(load);
+  }, [load]);
+
+  const retry = useCallback(async () => {
+    setIsRetrying(true);
+    try {
+      await retryPendingChanges();
+    } catch (err) {
+      // The sync status reports why; the entries stay queued
+      console.error('Error retrying pending changes:', err);
+    } finally {
+      setIsRetrying(false);
+      await load();
+    }
+  }, [load]);
+
+  const discard = useCallback(async (entry: OutboxEntry) => {
+    try {
+      await discardPendingChange(entry);
+    } catch (err) {
+      console.error('Error discarding a pending change:', err);
+    }
+  }, []);
+
+  return { entries, isRetrying, retry, discard };
+};
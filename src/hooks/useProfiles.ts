@@ -0,0 +1,27 @@
+// src/hooks/useProfiles.ts
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Profile, ProfileRegistry } from '@/types/profile';
+import { getProfileRegistry, subscribeToProfiles } from '@/lib/profiles';
+
+interface UseProfilesReturn {
+  profiles: Profile[];
+  activeProfile: Profile;
+}
+
+/**
+ * The profile registry, kept current as profiles are added, renamed or switched
+ */
+export const useProfiles = (): UseProfilesReturn => {
+  const [registry, setRegistry] = useState<ProfileRegistry>(getProfileRegistry);
+
+  useEffect(() => {
+    // The server render only knows the default registry
+    setRegistry(getProfileRegistry());
+    return subscribeToProfiles(setRegistry);
+  }, []);
+
+  const activeProfile = registry.profiles.find(p => p.id === registry.activeProfileId) || registry.profiles[0];
+  return { profiles: registry.profiles, activeProfile };
+};
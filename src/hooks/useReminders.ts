@@ -0,0 +1,45 @@
+// src/hooks/useReminders.ts
+'use client';
+
+import { useEffect } from 'react';
+import { refreshReminders } from '@/lib/reminders';
+import { subscribeToProfileSwitch } from '@/lib/storage';
+import { subscribeToRemoteChanges } from '@/lib/sync';
+
+/**
+ * Keep check-in reminders current: on start, when the app is reopened, after
+ * a profile switch or synced changes, and at the next due time while the app
+ * stays open. Failures are logged, never thrown.
+ */
+export const useReminders = (enabled: boolean) => {
+  useEffect(() => {
+    if (!enabled) return;
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const refresh = () => {
+      clearTimeout(timer);
+      refreshReminders()
+        .then(next => {
+          if (next) timer = setTimeout(refresh, Math.max(next.getTime() - Date.now(), 0));
+        })
+        .catch(err => console.error('Error refreshing reminders:', err));
+    };
+
+    const handleVisibility = () => {
+      if (document.visibilityState === 'visible') refresh();
+    };
+
+    refresh();
+    const unsubscribeProfile = subscribeToProfileSwitch(refresh);
+    const unsubscribeRemote = subscribeToRemoteChanges(refresh);
+    document.addEventListener('visibilitychange', handleVisibility);
+
+    return () => {
+      clearTimeout(timer);
+      unsubscribeProfile();
+      unsubscribeRemote();
+      document.removeEventListener('visibilitychange', handleVisibility);
+    };
+  }, [enabled]);
+};
@@ -0,0 +1,20 @@
+// src/hooks/useServiceWorkerUpdate.ts
+'use client';
+
+import { useEffect, useState } from 'react';
+import { applyUpdate, getUpdateStatus, subscribeToUpdateStatus, UpdateStatus } from '@/lib/service-worker';
+
+interface UseServiceWorkerUpdateReturn extends UpdateStatus {
+  applyUpdate: () => boolean;
+}
+
+/**
+ * Whether a new version is waiting, and whether it can be applied right now
+ */
+export const useServiceWorkerUpdate = (): UseServiceWorkerUpdateReturn => {
+  const [status, setStatus] = useState<UpdateStatus>(getUpdateStatus);
+
+  useEffect(() => subscribeToUpdateStatus(setStatus), []);
+
+  return { ...status, applyUpdate };
+};
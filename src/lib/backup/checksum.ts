@@ -0,0 +1,32 @@
+// src/lib/backup/checksum.ts
+
+/**
+ * JSON with object keys sorted, so the same data always hashes the same way.
+ * Dates and undefined behave exactly as in JSON.stringify.
+ */
+export const stableStringify = (value: unknown): string => {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (value === null || typeof value !== 'object') return JSON.stringify(value);
+
+  if (Array.isArray(value)) {
+    return `[${value.map(item => item === undefined ? 'null' : stableStringify(item)).join(',')}]`;
+  }
+
+  const record = value as Record<string, unknown>;
+  const fields = Object.keys(record)
+    .filter(key => record[key] !== undefined)
+    .sort()
+    .map(key => `${JSON.stringify(key)}:${stableStringify(record[key])}`);
+  return `{${fields.join(',')}}`;
+};
+
+/**
+ * SHA-256 of the canonical JSON form, as lowercase hex (WebCrypto)
+ */
+export const checksum = async (value: unknown): Promise<string> => {
+  const bytes = new TextEncoder().encode(stableStringify(value));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+};
@@ -0,0 +1,345 @@
+// src/lib/backup/index.ts
+import { MOOD_ENTRY_SCHEMA_VERSION, MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { Operation } from '@/types/history';
+import { AppSettings } from '@/types/settings';
+import {
+  BackupBundle,
+  BackupData,
+  BackupManifest,
+  BackupStoreName,
+  BackupValidationIssue,
+  RestoreChanges,
+  RestoreMode,
+  RestoreReport,
+  RestoreStrategy,
+  StoreChangeSummary
+} from '@/types/backup';
+import { EncryptedBackupEnvelope } from '@/types/encryption';
+import { sortMoodEntries } from '@/lib/mood-migration';
+import { createKeyDerivationParams, decryptText, deriveKey, encryptText } from '@/lib/crypto';
+import { getRepositories, readAllData, Repositories } from '@/lib/storage';
+import { reviveGoal, reviveGoalProgress, reviveOperation } from '@/lib/storage/local-storage';
+import { checksum, stableStringify } from './checksum';
+import { bundleSchema, validateSchema } from './schema';
+
+export const BACKUP_FORMAT = 'herflowstate-backup';
+// Bump when the bundle layout changes; parseBackup refuses bundles newer than this
+export const BACKUP_FORMAT_VERSION = 1;
+
+// Wraps a serialised backup in AES-GCM under its own passphrase
+export const ENCRYPTED_BACKUP_FORMAT = 'herflowstate-encrypted-backup';
+
+export const BACKUP_STORES: BackupStoreName[] = ['moodEntries', 'goals', 'goalProgress', 'settings', 'operations'];
+
+/**
+ * Thrown by parseBackup with every problem found, each pointing at the offending field
+ */
+export class BackupValidationError extends Error {
+  constructor(public issues: BackupValidationIssue[]) {
+    super(
+      `Backup is invalid (${issues.length} problem${issues.length === 1 ? '' : 's'}): ` +
+      issues.slice(0, 3).map(issue => `${issue.path || '(root)'} ${issue.message}`).join('; ')
+    );
+    this.name = 'BackupValidationError';
+    Object.setPrototypeOf(this, BackupValidationError.prototype);
+  }
+}
+
+const countRecords = (data: BackupData, store: BackupStoreName): number =>
+  store === 'settings' ? 1 : (data[store] as unknown[]).length;
+
+const groupProgress = (records: GoalProgress[]): Record<string, GoalProgress[]> =>
+  records.reduce<Record<string, GoalProgress[]>>((grouped, progress) => {
+    grouped[progress.goalId] = [...(grouped[progress.goalId] || []), progress];
+    return grouped;
+  }, {});
+
+/**
+ * Snapshot every store into a bundle with a manifest of per-store counts and checksums
+ */
+export const createBackup = async (repositories?: Repositories): Promise<BackupBundle> => {
+  const data = await readAllData(repositories || await getRepositories());
+
+  const stores = {} as BackupManifest['stores'];
+  for (const store of BACKUP_STORES) {
+    stores[store] = { count: countRecords(data, store), checksum: await checksum(data[store]) };
+  }
+
+  return {
+    manifest: {
+      format: BACKUP_FORMAT,
+      formatVersion: BACKUP_FORMAT_VERSION,
+      createdAt: new Date().toISOString(),
+      moodEntrySchemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+      stores
+    },
+    data
+  };
+};
+
+export const serializeBackup = (bundle: BackupBundle): string => JSON.stringify(bundle, null, 2);
+
+export const getBackupFileName = (bundle: BackupBundle, encrypted: boolean = false, profileName?: string): string => {
+  const profile = profileName ? `${profileName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '')}-` : '';
+  return `herflowstate-${profile}backup-${bundle.manifest.createdAt.split('T')[0]}${encrypted ? '.encrypted' : ''}.json`;
+};
+
+/**
+ * Encrypt a serialised backup with a passphrase; the result is still a JSON file
+ */
+export const encryptBackup = async (json: string, passphrase: string): Promise<string> => {
+  const kdf = createKeyDerivationParams();
+  const envelope: EncryptedBackupEnvelope = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    formatVersion: BACKUP_FORMAT_VERSION,
+    createdAt: new Date().toISOString(),
+    kdf,
+    payload: await encryptText(await deriveKey(passphrase, kdf), json),
+  };
+  return JSON.stringify(envelope, null, 2);
+};
+
+export const isEncryptedBackup = (json: string): boolean => {
+  try {
+    const raw = JSON.parse(json);
+    return typeof raw === 'object' && raw !== null && raw.format === ENCRYPTED_BACKUP_FORMAT;
+  } catch (err) {
+    return false;
+  }
+};
+
+/**
+ * Unwrap an encrypted backup to the plain bundle JSON parseBackup expects.
+ * Throws DecryptionError when the passphrase is wrong.
+ */
+export const decryptBackup = async (json: string, passphrase: string): Promise<string> => {
+  const envelope = JSON.parse(json) as EncryptedBackupEnvelope;
+  if (envelope.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError([
+      { path: 'formatVersion', message: `${envelope.formatVersion} is newer than this app supports (${BACKUP_FORMAT_VERSION})` }
+    ]);
+  }
+  if (!envelope.kdf || !envelope.payload || typeof envelope.payload.data !== 'string') {
+    throw new BackupValidationError([{ path: 'payload', message: 'is missing or malformed' }]);
+  }
+
+  return decryptText(await deriveKey(passphrase, envelope.kdf), envelope.payload);
+};
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Schema check as a type guard, collecting every issue into `issues`. Dates
+ * are still strings in a passing bundle; parseBackup revives them.
+ */
+const isBundleShaped = (value: unknown, issues: BackupValidationIssue[]): value is BackupBundle =>
+  validateSchema(value, bundleSchema, '', issues).length === 0;
+
+const findDuplicateIds = (records: { id: string }[], path: string): BackupValidationIssue[] => {
+  const seen = new Set<string>();
+  return records.reduce<BackupValidationIssue[]>((issues, record, index) => {
+    if (seen.has(record.id)) {
+      issues.push({ path: `${path}[${index}].id`, message: `duplicate id "${record.id}"` });
+    }
+    seen.add(record.id);
+    return issues;
+  }, []);
+};
+
+/**
+ * Parse and fully validate a backup file: structure, format version, per-store
+ * counts and checksums, and references between stores. Throws
+ * BackupValidationError listing every issue; returns a bundle with Dates revived.
+ */
+export const parseBackup = async (json: string): Promise<BackupBundle> => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(json);
+  } catch (err) {
+    throw new BackupValidationError([{ path: '', message: `is not valid JSON (${(err as Error).message})` }]);
+  }
+
+  const rawManifest = isRecord(raw) && isRecord(raw.manifest) ? raw.manifest : null;
+  if (!isRecord(raw) || !rawManifest || rawManifest.format !== BACKUP_FORMAT) {
+    const hint = isRecord(raw) && Array.isArray(raw.entries) ? ' (this looks like a mood-only export; import it as entries instead)' : '';
+    throw new BackupValidationError([{ path: 'manifest.format', message: `is not a ${BACKUP_FORMAT} file${hint}` }]);
+  }
+
+  if (typeof rawManifest.formatVersion === 'number' && rawManifest.formatVersion > BACKUP_FORMAT_VERSION) {
+    throw new BackupValidationError([{
+      path: 'manifest.formatVersion',
+      message: `${rawManifest.formatVersion} was written by a newer version of the app (supported: ${BACKUP_FORMAT_VERSION})`
+    }]);
+  }
+
+  const issues: BackupValidationIssue[] = [];
+  if (!isBundleShaped(raw, issues)) throw new BackupValidationError(issues);
+  const { manifest, data } = raw;
+
+  for (const store of BACKUP_STORES) {
+    const expected = manifest.stores[store];
+    const count = countRecords(data, store);
+    if (expected.count !== count) {
+      issues.push({ path: `manifest.stores.${store}.count`, message: `says ${expected.count} but the file contains ${count}` });
+    }
+    if (expected.checksum !== await checksum(data[store])) {
+      issues.push({ path: `data.${store}`, message: 'does not match its checksum; the file is corrupt or was edited' });
+    }
+  }
+
+  data.moodEntries.forEach((entry, index) => {
+    if (entry.schemaVersion > MOOD_ENTRY_SCHEMA_VERSION) {
+      issues.push({
+        path: `data.moodEntries[${index}].schemaVersion`,
+        message: `${entry.schemaVersion} is newer than this app supports (${MOOD_ENTRY_SCHEMA_VERSION})`
+      });
+    }
+  });
+  issues.push(...findDuplicateIds(data.moodEntries, 'data.moodEntries'));
+  issues.push(...findDuplicateIds(data.goals, 'data.goals'));
+
+  const goalIds = new Set(data.goals.map(goal => goal.id));
+  data.goalProgress.forEach((progress, index) => {
+    if (!goalIds.has(progress.goalId)) {
+      issues.push({ path: `data.goalProgress[${index}].goalId`, message: `refers to unknown goal "${progress.goalId}"` });
+    }
+  });
+
+  if (issues.length > 0) throw new BackupValidationError(issues);
+
+  return {
+    manifest,
+    data: {
+      moodEntries: data.moodEntries,
+      goals: data.goals.map(reviveGoal),
+      goalProgress: data.goalProgress.map(reviveGoalProgress),
+      settings: data.settings,
+      operations: data.operations.map(reviveOperation)
+    }
+  };
+};
+
+const emptySummary = (): StoreChangeSummary => ({ added: 0, updated: 0, unchanged: 0, removed: 0 });
+
+/**
+ * Combine one store's current and incoming records. Replace takes the backup
+ * as-is; merge keeps local records and only takes incoming ones that are new
+ * or newer (per `isNewer`).
+ */
+const planStore = <T>(
+  current: T[],
+  incoming: T[],
+  keyOf: (record: T) => string,
+  isNewer: (incoming: T, existing: T) => boolean,
+  strategy: RestoreStrategy
+): { records: T[]; summary: StoreChangeSummary } => {
+  const summary = emptySummary();
+  const existing = new Map<string, T>();
+  current.forEach(record => existing.set(keyOf(record), record));
+
+  if (strategy === 'replace') {
+    const incomingKeys = new Set<string>();
+    incoming.forEach(record => {
+      const key = keyOf(record);
+      const previous = existing.get(key);
+      incomingKeys.add(key);
+      if (!previous) summary.added++;
+      else if (stableStringify(previous) === stableStringify(record)) summary.unchanged++;
+      else summary.updated++;
+    });
+    summary.removed = current.filter(record => !incomingKeys.has(keyOf(record))).length;
+    return { records: incoming, summary };
+  }
+
+  const merged = new Map(existing);
+  incoming.forEach(record => {
+    const key = keyOf(record);
+    const previous = existing.get(key);
+    if (!previous) {
+      summary.added++;
+      merged.set(key, record);
+    } else if (isNewer(record, previous) && stableStringify(previous) !== stableStringify(record)) {
+      summary.updated++;
+      merged.set(key, record);
+    } else {
+      summary.unchanged++;
+    }
+  });
+  return { records: Array.from(merged.values()), summary };
+};
+
+const never = () => false;
+
+const planRestore = (current: BackupData, incoming: BackupData, strategy: RestoreStrategy) => {
+  const moodEntries = planStore<MoodEntry>(
+    current.moodEntries, incoming.moodEntries, entry => entry.id,
+    (a, b) => a.updatedAt > b.updatedAt, strategy
+  );
+  const goals = planStore<Goal>(
+    current.goals, incoming.goals, goal => goal.id,
+    (a, b) => a.updatedAt.getTime() > b.updatedAt.getTime(), strategy
+  );
+  // Progress records and operations are immutable, so identical keys mean identical records
+  const goalProgress = planStore<GoalProgress>(
+    current.goalProgress, incoming.goalProgress, p => `${p.goalId}|${p.date.toISOString()}`, never, strategy
+  );
+  const operations = planStore<Operation>(current.operations, incoming.operations, op => op.id, never, strategy);
+  const settings = planStore<AppSettings>(
+    [current.settings], [incoming.settings], () => 'settings',
+    (a, b) => (a.updatedAt || '') > (b.updatedAt || ''), strategy
+  );
+
+  const data: BackupData = {
+    moodEntries: sortMoodEntries(moodEntries.records),
+    goals: goals.records,
+    goalProgress: goalProgress.records,
+    settings: settings.records[0],
+    operations: operations.records
+  };
+  const changes: RestoreChanges = {
+    moodEntries: moodEntries.summary,
+    goals: goals.summary,
+    goalProgress: goalProgress.summary,
+    settings: settings.summary,
+    operations: operations.summary
+  };
+  return { data, changes };
+};
+
+/**
+ * Restore a parsed bundle. `dry-run` writes nothing and reports what both
+ * replace and merge would change; the other modes apply and report.
+ */
+export const restoreBackup = async (
+  bundle: BackupBundle,
+  mode: RestoreMode,
+  repositories?: Repositories
+): Promise<RestoreReport> => {
+  const repos = repositories || await getRepositories();
+  const current = await readAllData(repos);
+
+  if (mode === 'dry-run') {
+    return {
+      mode,
+      applied: false,
+      changes: {
+        replace: planRestore(current, bundle.data, 'replace').changes,
+        merge: planRestore(current, bundle.data, 'merge').changes
+      }
+    };
+  }
+
+  const { data, changes } = planRestore(current, bundle.data, mode);
+
+  await repos.moods.replaceAll(data.moodEntries);
+  await repos.goals.replaceAll(data.goals);
+  await repos.goals.replaceAllProgress(groupProgress(data.goalProgress));
+  await repos.settings.save(data.settings);
+  await repos.history.replaceAll(data.operations);
+
+  return { mode, applied: true, changes: { [mode]: changes } };
+};
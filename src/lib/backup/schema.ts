@@ -0,0 +1,267 @@
+// src/lib/backup/schema.ts
+import { GoalCategory, GoalPriority, GoalStatus } from '@/types/goals';
+import { BackupValidationIssue } from '@/types/backup';
+import { MOOD_ENTRY_NUMERIC_KEYS } from '@/types/mood-tracker';
+
+/**
+ * Minimal declarative schema, just expressive enough for the backup bundle.
+ * Unknown object keys are allowed so newer minor additions still restore.
+ */
+export type Schema =
+  | { type: 'string'; optional?: boolean; nullable?: boolean; pattern?: RegExp; patternLabel?: string; values?: readonly string[] }
+  | { type: 'number'; optional?: boolean; min?: number; max?: number; values?: readonly number[] }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'array'; optional?: boolean; items: Schema }
+  | { type: 'object'; optional?: boolean; nullable?: boolean; fields: Record<string, Schema> }
+  | { type: 'any'; optional?: boolean };
+
+const DATE_KEY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+const isoDate = (optional = false): Schema =>
+  ({ type: 'string', optional, pattern: ISO_DATE_PATTERN, patternLabel: 'an ISO 8601 timestamp' });
+
+const scale = (min: number, max: number): Schema => ({ type: 'number', min, max });
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && isNaN(value)) return 'NaN';
+  return typeof value;
+};
+
+/**
+ * Validate `value` against `schema`, collecting every problem with its path
+ */
+export const validateSchema = (
+  value: unknown,
+  schema: Schema,
+  path: string,
+  issues: BackupValidationIssue[] = []
+): BackupValidationIssue[] => {
+  if (value === undefined) {
+    if (!schema.optional) issues.push({ path, message: 'is required' });
+    return issues;
+  }
+  if (value === null && (schema.type === 'string' || schema.type === 'object') && schema.nullable) {
+    return issues;
+  }
+
+  switch (schema.type) {
+    case 'any':
+      break;
+
+    case 'string':
+      if (typeof value !== 'string') {
+        issues.push({ path, message: `expected string, got ${describe(value)}` });
+      } else if (schema.values && schema.values.indexOf(value) < 0) {
+        issues.push({ path, message: `"${value}" is not one of ${schema.values.join(', ')}` });
+      } else if (schema.pattern && !schema.pattern.test(value)) {
+        issues.push({ path, message: `"${value}" is not ${schema.patternLabel || `in the format ${schema.pattern}`}` });
+      }
+      break;
+
+    case 'number':
+      if (typeof value !== 'number' || !isFinite(value)) {
+        issues.push({ path, message: `expected number, got ${describe(value)}` });
+      } else if (schema.values && schema.values.indexOf(value) < 0) {
+        issues.push({ path, message: `${value} is not one of ${schema.values.join(', ')}` });
+      } else if ((schema.min !== undefined && value < schema.min) || (schema.max !== undefined && value > schema.max)) {
+        const range = schema.max === undefined ? `>= ${schema.min}`
+          : schema.min === undefined ? `<= ${schema.max}`
+          : `between ${schema.min} and ${schema.max}`;
+        issues.push({ path, message: `${value} must be ${range}` });
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        issues.push({ path, message: `expected boolean, got ${describe(value)}` });
+      }
+      break;
+
+    case 'array':
+      if (!Array.isArray(value)) {
+        issues.push({ path, message: `expected array, got ${describe(value)}` });
+      } else {
+        value.forEach((item, index) => validateSchema(item, schema.items, `${path}[${index}]`, issues));
+      }
+      break;
+
+    case 'object':
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        issues.push({ path, message: `expected object, got ${describe(value)}` });
+      } else {
+        const record = value as Record<string, unknown>;
+        Object.keys(schema.fields).forEach(key =>
+          validateSchema(record[key], schema.fields[key], path ? `${path}.${key}` : key, issues)
+        );
+      }
+      break;
+  }
+
+  return issues;
+};
+
+export const moodEntrySchema: Schema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    schemaVersion: { type: 'number', min: 1 },
+    date: { type: 'string', pattern: DATE_KEY_PATTERN, patternLabel: 'a YYYY-MM-DD date' },
+    timestamp: isoDate(),
+    updatedAt: isoDate(),
+    mood: scale(1, 10),
+    energy: scale(1, 10),
+    stress: scale(1, 10),
+    sleep: scale(0, 24),
+    hydration: scale(0, 20),
+    exercise: { type: 'number', min: 0 },
+    nutrition: scale(1, 10),
+    notes: { type: 'string' },
+    factors: { type: 'array', items: { type: 'string' } },
+    weather: { type: 'string', optional: true },
+    location: { type: 'string', optional: true },
+    unrecordedMetrics: { type: 'array', optional: true, items: { type: 'string', values: MOOD_ENTRY_NUMERIC_KEYS } },
+  },
+};
+
+const enumValues = (values: Record<string, string>) => Object.keys(values).map(key => values[key]);
+
+export const goalSchema: Schema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    title: { type: 'string' },
+    description: { type: 'string' },
+    category: { type: 'string', values: enumValues(GoalCategory) },
+    targetValue: { type: 'number' },
+    currentValue: { type: 'number' },
+    unit: { type: 'string' },
+    deadline: isoDate(),
+    priority: { type: 'string', values: enumValues(GoalPriority) },
+    status: { type: 'string', values: enumValues(GoalStatus) },
+    createdAt: isoDate(),
+    updatedAt: isoDate(),
+    milestones: {
+      type: 'array',
+      items: {
+        type: 'object',
+        fields: {
+          id: { type: 'string' },
+          title: { type: 'string' },
+          targetValue: { type: 'number' },
+          targetDate: isoDate(),
+          isCompleted: { type: 'boolean' },
+          completedAt: isoDate(true),
+        },
+      },
+    },
+    metrics: {
+      type: 'object',
+      fields: {
+        completionRate: { type: 'number' },
+        timeRemaining: { type: 'number' },
+        averageDailyProgress: { type: 'number' },
+        projectedCompletion: isoDate(),
+        efficiencyScore: { type: 'number' },
+        consistencyScore: { type: 'number' },
+      },
+    },
+  },
+};
+
+export const goalProgressSchema: Schema = {
+  type: 'object',
+  fields: {
+    goalId: { type: 'string' },
+    date: isoDate(),
+    value: { type: 'number' },
+    notes: { type: 'string', optional: true },
+    mood: { type: 'number', optional: true, min: 1, max: 10 },
+  },
+};
+
+export const settingsSchema: Schema = {
+  type: 'object',
+  fields: {
+    weekStartsOn: { type: 'number', values: [0, 1] },
+    // Optional so backups from before reminder schedules still restore
+    reminders: {
+      type: 'array',
+      optional: true,
+      items: {
+        type: 'object',
+        fields: {
+          id: { type: 'string' },
+          time: { type: 'string', pattern: TIME_PATTERN, patternLabel: 'an HH:MM time' },
+          days: { type: 'string', values: ['daily', 'weekdays'] },
+          onlyIfNoEntry: { type: 'boolean' },
+          enabled: { type: 'boolean' },
+        },
+      },
+    },
+    updatedAt: { type: 'string', nullable: true, pattern: ISO_DATE_PATTERN, patternLabel: 'an ISO 8601 timestamp' },
+  },
+};
+
+// Snapshots inside operations are checked loosely; they are history, not live data
+export const operationSchema: Schema = {
+  type: 'object',
+  fields: {
+    id: { type: 'string' },
+    target: { type: 'string', values: ['moodEntry', 'goalProgress'] },
+    type: { type: 'string', values: ['add', 'update', 'delete'] },
+    recordId: { type: 'string' },
+    timestamp: isoDate(),
+    source: { type: 'string', values: ['user', 'undo', 'redo', 'restore'] },
+    before: { type: 'object', nullable: true, fields: {} },
+    after: { type: 'object', nullable: true, fields: {} },
+    progress: { type: 'object', optional: true, fields: {} },
+  },
+};
+
+const storeManifestSchema: Schema = {
+  type: 'object',
+  fields: {
+    count: { type: 'number', min: 0 },
+    checksum: { type: 'string', pattern: SHA256_PATTERN, patternLabel: 'a SHA-256 hex digest' },
+  },
+};
+
+export const bundleSchema: Schema = {
+  type: 'object',
+  fields: {
+    manifest: {
+      type: 'object',
+      fields: {
+        format: { type: 'string' },
+        formatVersion: { type: 'number', min: 1 },
+        createdAt: isoDate(),
+        moodEntrySchemaVersion: { type: 'number', min: 1 },
+        stores: {
+          type: 'object',
+          fields: {
+            moodEntries: storeManifestSchema,
+            goals: storeManifestSchema,
+            goalProgress: storeManifestSchema,
+            settings: storeManifestSchema,
+            operations: storeManifestSchema,
+          },
+        },
+      },
+    },
+    data: {
+      type: 'object',
+      fields: {
+        moodEntries: { type: 'array', items: moodEntrySchema },
+        goals: { type: 'array', items: goalSchema },
+        goalProgress: { type: 'array', items: goalProgressSchema },
+        settings: settingsSchema,
+        operations: { type: 'array', items: operationSchema },
+      },
+    },
+  },
+};
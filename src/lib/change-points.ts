@@ -0,0 +1,69 @@
+// src/lib/change-points.ts
+import { standardDeviation } from '@/lib/statistics';
+
+/**
+ * Noise level of a series from its day-to-day differences, so shifts in the
+ * mean barely inflate it. The difference of two independent days has twice
+ * the variance of one. A median-based estimate would be quantized by whole-
+ * number ratings and undershoot, letting ordinary noise pass as a change.
+ */
+const estimateNoise = (values: number[]): number => {
+  const differences = values.slice(1).map((value, i) => value - values[i]);
+  return differences.length > 1 ? standardDeviation(differences) / Math.SQRT2 : 0;
+};
+
+/**
+ * Changes in the mean of a series by PELT (pruned exact linear time) with a
+ * Gaussian cost and an MBIC-style penalty of 3·ln n. Returns the index that
+ * starts each new segment; every segment is at least `minSegment` long.
+ */
+export const findChangePoints = (values: number[], minSegment: number): number[] => {
+  const n = values.length;
+  if (n < 2 * minSegment) return [];
+
+  const noise = estimateNoise(values);
+  if (noise === 0) return [];
+  const variance = noise * noise;
+  const penalty = 3 * Math.log(n);
+
+  const sums = [0];
+  const squares = [0];
+  values.forEach((value, i) => {
+    sums.push(sums[i] + value);
+    squares.push(squares[i] + value * value);
+  });
+  const cost = (start: number, end: number) => {
+    const sum = sums[end] - sums[start];
+    return (squares[end] - squares[start] - (sum * sum) / (end - start)) / variance;
+  };
+
+  const best: number[] = [-penalty];
+  const previous: number[] = [0];
+  let candidates: number[] = [];
+
+  for (let end = minSegment; end <= n; end++) {
+    // A segment can start here once the one before it is long enough
+    const start = end - minSegment;
+    if (start === 0 || start >= minSegment) candidates.push(start);
+
+    let minimum = Infinity;
+    let argmin = 0;
+    candidates.forEach(candidate => {
+      const total = best[candidate] + cost(candidate, end) + penalty;
+      if (total < minimum) {
+        minimum = total;
+        argmin = candidate;
+      }
+    });
+    best[end] = minimum;
+    previous[end] = argmin;
+
+    candidates = candidates.filter(candidate => best[candidate] + cost(candidate, end) <= minimum);
+  }
+
+  const changePoints: number[] = [];
+  for (let end = n; previous[end] > 0; end = previous[end]) {
+    changePoints.unshift(previous[end]);
+  }
+  return changePoints;
+};
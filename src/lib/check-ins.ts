@@ -0,0 +1,137 @@
+// src/lib/check-ins.ts
+import {
+  DailyMoodRollup,
+  MoodEntry,
+  MoodEntryNumericKeys,
+  MOOD_ENTRY_NUMERIC_KEYS,
+  TimeOfDay
+} from '@/types/mood-tracker';
+import { sortMoodEntries } from '@/lib/mood-migration';
+import { isMetricRecorded } from '@/lib/mood-queries';
+
+export const TIME_OF_DAY_ORDER: TimeOfDay[] = ['morning', 'afternoon', 'evening', 'night'];
+
+export const TIME_OF_DAY_LABELS: Record<TimeOfDay, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  evening: 'Evening',
+  night: 'Night',
+};
+
+// Clock time a past check-in is logged at when only its part of the day is picked
+export const TIME_OF_DAY_PRESETS: Record<Exclude<TimeOfDay, 'night'>, string> = {
+  morning: '09:00',
+  afternoon: '14:00',
+  evening: '20:00',
+};
+
+/**
+ * Part of the day a check-in was logged in, by local clock hour:
+ * morning 5–12, afternoon 12–17, evening 17–22, night otherwise
+ */
+export const getTimeOfDay = (timestamp: string | Date): TimeOfDay => {
+  const hour = new Date(timestamp).getHours();
+  if (hour >= 5 && hour < 12) return 'morning';
+  if (hour >= 12 && hour < 17) return 'afternoon';
+  if (hour >= 17 && hour < 22) return 'evening';
+  return 'night';
+};
+
+/**
+ * Local HH:MM of a check-in, for display and the time input
+ */
+export const toTimeInputValue = (timestamp: string | Date): string => {
+  const date = new Date(timestamp);
+  return `${String(date.getHours()).padStart(2, '0')}:${String(date.getMinutes()).padStart(2, '0')}`;
+};
+
+/**
+ * ISO timestamp for a check-in logged at a local HH:MM on the given day
+ */
+export const toCheckInTimestamp = (dateKey: string, time: string): string => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const [hours, minutes] = time.split(':').map(Number);
+  return new Date(year, month - 1, day, hours, minutes).toISOString();
+};
+
+/**
+ * Check-ins grouped under their YYYY-MM-DD key, each day earliest first
+ */
+export const groupEntriesByDate = (entries: MoodEntry[]): Map<string, MoodEntry[]> => {
+  const byDate = new Map<string, MoodEntry[]>();
+  sortMoodEntries(entries).forEach(entry => {
+    const day = byDate.get(entry.date);
+    if (day) {
+      day.push(entry);
+    } else {
+      byDate.set(entry.date, [entry]);
+    }
+  });
+  return byDate;
+};
+
+const average = (values: number[]): number => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// A metric's values from the check-ins that recorded it, or every placeholder when none did
+const recordedValues = (checkIns: MoodEntry[], metric: MoodEntryNumericKeys): number[] => {
+  const recorded = checkIns.filter(entry => isMetricRecorded(entry, metric));
+  return (recorded.length > 0 ? recorded : checkIns).map(entry => entry[metric]);
+};
+
+/**
+ * Collapse one day's check-ins into a single entry. The 1-10 scales are
+ * averaged; sleep, hydration and exercise take the day's highest value, since
+ * a later check-in restates or adds to the running total rather than
+ * logging a separate amount. Only check-ins that recorded a metric count
+ * towards it, and the rollup stays unrecorded for metrics none of them had.
+ */
+export const rollupCheckIns = (checkIns: MoodEntry[]): DailyMoodRollup => {
+  const [first] = checkIns;
+  const last = checkIns[checkIns.length - 1];
+  const moods = recordedValues(checkIns, 'mood');
+  const unrecordedMetrics = MOOD_ENTRY_NUMERIC_KEYS.filter(metric =>
+    !checkIns.some(entry => isMetricRecorded(entry, metric))
+  );
+
+  const rollup: DailyMoodRollup = {
+    ...first,
+    updatedAt: checkIns.reduce((latest, entry) => (entry.updatedAt > latest ? entry.updatedAt : latest), first.updatedAt),
+    mood: average(moods),
+    energy: average(recordedValues(checkIns, 'energy')),
+    stress: average(recordedValues(checkIns, 'stress')),
+    nutrition: average(recordedValues(checkIns, 'nutrition')),
+    sleep: Math.max(...recordedValues(checkIns, 'sleep')),
+    hydration: Math.max(...recordedValues(checkIns, 'hydration')),
+    exercise: Math.max(...recordedValues(checkIns, 'exercise')),
+    notes: checkIns.map(entry => entry.notes.trim()).filter(Boolean).join('\n'),
+    factors: Array.from(new Set(checkIns.reduce<string[]>((all, entry) => all.concat(entry.factors), []))),
+    weather: last.weather ?? first.weather,
+    location: last.location ?? first.location,
+    checkIns: checkIns.length,
+    moodRange: [Math.min(...moods), Math.max(...moods)],
+  };
+
+  if (unrecordedMetrics.length > 0) {
+    rollup.unrecordedMetrics = unrecordedMetrics;
+  } else {
+    delete rollup.unrecordedMetrics;
+  }
+  return rollup;
+};
+
+/**
+ * One rolled-up entry per day, oldest first, for the analyses and charts
+ * that work a day at a time
+ */
+export const rollupDailyEntries = (entries: MoodEntry[]): DailyMoodRollup[] =>
+  Array.from(groupEntriesByDate(entries).values()).map(rollupCheckIns);
+
+/**
+ * The latest of a day's check-ins logged in the same part of the day as
+ * `now`, which quick edits update instead of starting another check-in
+ */
+export const getCurrentCheckIn = (checkIns: MoodEntry[], now: Date = new Date()): MoodEntry | null => {
+  const timeOfDay = getTimeOfDay(now);
+  const matching = sortMoodEntries(checkIns).filter(entry => getTimeOfDay(entry.timestamp) === timeOfDay);
+  return matching.length > 0 ? matching[matching.length - 1] : null;
+};
@@ -0,0 +1,105 @@
+// src/lib/crypto.ts
+import { EncryptedPayload, KeyDerivationParams } from '@/types/encryption';
+
+// OWASP's 2023 recommendation for PBKDF2-HMAC-SHA256
+export const PBKDF2_ITERATIONS = 600000;
+
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+/**
+ * Thrown when a payload fails to decrypt, which with AES-GCM almost always
+ * means the passphrase was wrong
+ */
+export class DecryptionError extends Error {
+  constructor(message: string = 'Incorrect passphrase or corrupted data') {
+    super(message);
+    this.name = 'DecryptionError';
+    Object.setPrototypeOf(this, DecryptionError.prototype);
+  }
+}
+
+export const isWebCryptoAvailable = (): boolean =>
+  typeof crypto !== 'undefined' && typeof crypto.subtle !== 'undefined';
+
+export const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+};
+
+export const fromBase64 = (value: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// URL- and filename-safe alphabet, without padding
+export const toBase64Url = (bytes: Uint8Array): string =>
+  toBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+
+export const fromBase64Url = (value: string): Uint8Array<ArrayBuffer> =>
+  fromBase64(value.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (value.length % 4)) % 4));
+
+export const randomBytes = (length: number): Uint8Array<ArrayBuffer> => crypto.getRandomValues(new Uint8Array(length));
+
+/**
+ * Fresh PBKDF2 parameters with a random salt
+ */
+export const createKeyDerivationParams = (): KeyDerivationParams => ({
+  algorithm: 'PBKDF2',
+  hash: 'SHA-256',
+  iterations: PBKDF2_ITERATIONS,
+  salt: toBase64(randomBytes(SALT_BYTES)),
+});
+
+/**
+ * Stretch a passphrase into a non-extractable AES-256-GCM key
+ */
+export const deriveKey = async (passphrase: string, params: KeyDerivationParams): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', hash: params.hash, salt: fromBase64(params.salt), iterations: params.iterations },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const encryptText = async (key: CryptoKey, text: string): Promise<EncryptedPayload> => {
+  const iv = randomBytes(IV_BYTES);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+};
+
+export const decryptText = async (key: CryptoKey, payload: EncryptedPayload): Promise<string> => {
+  try {
+    const data = await crypto.subtle.decrypt(
+      { name: 'AES-GCM', iv: fromBase64(payload.iv) },
+      key,
+      fromBase64(payload.data)
+    );
+    return new TextDecoder().decode(data);
+  } catch (err) {
+    throw new DecryptionError();
+  }
+};
+
+export const encryptJson = (key: CryptoKey, value: unknown): Promise<EncryptedPayload> =>
+  encryptText(key, JSON.stringify(value));
+
+export const decryptJson = async <T>(key: CryptoKey, payload: EncryptedPayload): Promise<T> =>
+  JSON.parse(await decryptText(key, payload)) as T;
@@ -0,0 +1,71 @@
+// src/lib/csv.ts
+
+/**
+ * Parse RFC 4180 CSV (quoted fields, escaped quotes, embedded newlines).
+ * Accepts comma, semicolon or tab delimiters and strips a UTF-8 BOM.
+ */
+export const parseCsv = (text: string, delimiter: string = detectDelimiter(text)): string[][] => {
+  const input = text.replace(/^\uFEFF/, '');
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  // Drop blank lines (a lone empty field)
+  return rows.filter(r => r.length > 1 || r[0].trim() !== '');
+};
+
+/**
+ * Guess the delimiter from the header line
+ */
+export const detectDelimiter = (text: string): string => {
+  const header = text.split(/\r?\n/, 1)[0] || '';
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    header.split(candidate).length > header.split(best).length ? candidate : best
+  );
+};
+
+const escapeField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialise rows to CSV with CRLF line endings (what spreadsheets expect)
+ */
+export const toCsv = (rows: (string | number | null | undefined)[][]): string =>
+  rows
+    .map(row => row.map(value => escapeField(value === null || value === undefined ? '' : String(value))).join(','))
+    .join('\r\n');
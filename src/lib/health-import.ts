@@ -0,0 +1,316 @@
+// src/lib/health-import.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { isMetricRecorded, markMetricsRecorded } from '@/lib/mood-queries';
+import {
+  DailyHealthTotals,
+  HealthConflictPolicy,
+  HealthField,
+  HealthFieldChange,
+  HealthParseResult,
+  HealthSource,
+  HealthUpdatePlan
+} from '@/types/health-import';
+
+interface Interval {
+  start: number; // Epoch ms
+  end: number;
+  day: string; // Calendar day the interval counts toward
+}
+
+// Sleep ending at or after this local hour belongs to the next morning's total
+const SLEEP_DAY_CUTOFF_HOUR = 18;
+
+const APPLE_SLEEP_TYPE = 'HKCategoryTypeIdentifierSleepAnalysis';
+const APPLE_IN_BED = 'HKCategoryValueSleepAnalysisInBed';
+const APPLE_AWAKE = 'HKCategoryValueSleepAnalysisAwake';
+
+// Google Fit sleep stages: 1 awake, 2 sleep, 3 out of bed, 4 light, 5 deep, 6 REM
+const GOOGLE_ASLEEP_STAGES = [2, 4, 5, 6];
+
+// Google Fit activity types that are not exercise: vehicle, on foot, still, unknown,
+// tilting, walking (detected passively all day), sleeping and the sleep stages
+const GOOGLE_NON_EXERCISE_ACTIVITIES = [0, 2, 3, 4, 5, 7, 72, 109, 110, 111, 112];
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+const localDateKey = (date: Date) =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const nextDay = (dateKey: string) => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day + 1));
+  return date.toISOString().split('T')[0];
+};
+
+const sleepDay = (dateKey: string, hour: number) =>
+  hour >= SLEEP_DAY_CUTOFF_HOUR ? nextDay(dateKey) : dateKey;
+
+/**
+ * Total minutes covered per day, with overlaps counted once (a watch and a
+ * phone often record the same night or workout)
+ */
+const sumByDay = (intervals: Interval[]): Map<string, number> => {
+  const totals = new Map<string, number>();
+  const byDay = new Map<string, Interval[]>();
+  intervals.forEach(interval => {
+    byDay.set(interval.day, [...(byDay.get(interval.day) || []), interval]);
+  });
+
+  byDay.forEach((dayIntervals, day) => {
+    const sorted = dayIntervals.slice().sort((a, b) => a.start - b.start);
+    let total = 0;
+    let [start, end] = [sorted[0].start, sorted[0].end];
+
+    sorted.slice(1).forEach(interval => {
+      if (interval.start <= end) {
+        end = Math.max(end, interval.end);
+      } else {
+        total += end - start;
+        [start, end] = [interval.start, interval.end];
+      }
+    });
+    totals.set(day, (total + end - start) / 60000);
+  });
+
+  return totals;
+};
+
+const toDailyTotals = (sleep: Interval[], workouts: Interval[]): DailyHealthTotals[] => {
+  const sleepMinutes = sumByDay(sleep);
+  const exerciseMinutes = sumByDay(workouts);
+  const days = Array.from(new Set([...Array.from(sleepMinutes.keys()), ...Array.from(exerciseMinutes.keys())])).sort();
+
+  return days.map(date => {
+    const totals: DailyHealthTotals = { date };
+    if (sleepMinutes.has(date)) totals.sleepHours = Math.round((sleepMinutes.get(date) as number) / 6) / 10;
+    if (exerciseMinutes.has(date)) totals.exerciseMinutes = Math.round(exerciseMinutes.get(date) as number);
+    return totals;
+  });
+};
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {};
+  const pattern = /(\w+)="([^"]*)"/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(tag)) !== null) {
+    attributes[match[1]] = match[2];
+  }
+  return attributes;
+};
+
+// "2024-03-01 23:10:00 +0100" -> epoch ms; the written date and hour are the device's local time
+const parseAppleDate = (value: string): number | null => {
+  const match = value.match(/^(\d{4}-\d{2}-\d{2}) (\d{2}:\d{2}:\d{2}) ([+-]\d{2})(\d{2})$/);
+  if (!match) return null;
+  const time = Date.parse(`${match[1]}T${match[2]}${match[3]}:${match[4]}`);
+  return isNaN(time) ? null : time;
+};
+
+const APPLE_DURATION_MINUTES: Record<string, number> = { s: 1 / 60, sec: 1 / 60, min: 1, hr: 60, h: 60 };
+
+/**
+ * Sleep-analysis records and workouts from an Apple Health export.xml.
+ * The file can run to hundreds of megabytes, so tags are scanned with a
+ * regular expression instead of building a DOM.
+ */
+export const parseAppleHealthExport = (xml: string): HealthParseResult => {
+  const asleep: Interval[] = [];
+  const inBed: Interval[] = [];
+  const workouts: Interval[] = [];
+  const pattern = /<(Record|Workout)\s([^>]*)>/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(xml)) !== null) {
+    const attributes = parseAttributes(match[2]);
+    const start = parseAppleDate(attributes.startDate || '');
+    const end = parseAppleDate(attributes.endDate || '');
+    if (start === null || end === null || end <= start) continue;
+
+    if (match[1] === 'Record') {
+      if (attributes.type !== APPLE_SLEEP_TYPE || attributes.value === APPLE_AWAKE) continue;
+      const interval = {
+        start,
+        end,
+        day: sleepDay(attributes.endDate.slice(0, 10), Number(attributes.endDate.slice(11, 13))),
+      };
+      (attributes.value === APPLE_IN_BED ? inBed : asleep).push(interval);
+    } else {
+      // Prefer the recorded duration (it excludes pauses) over the wall-clock span
+      const unit = APPLE_DURATION_MINUTES[attributes.durationUnit || 'min'];
+      const duration = Number(attributes.duration);
+      const minutes = unit && !isNaN(duration) ? duration * unit : (end - start) / 60000;
+      workouts.push({ start, end: start + minutes * 60000, day: attributes.startDate.slice(0, 10) });
+    }
+  }
+
+  // Older phones only logged time in bed; use it for nights with no asleep samples
+  const asleepDays = new Set(asleep.map(interval => interval.day));
+  const sleep = [...asleep, ...inBed.filter(interval => !asleepDays.has(interval.day))];
+
+  return {
+    source: 'apple-health',
+    days: toDailyTotals(sleep, workouts),
+    sleepRecords: sleep.length,
+    workoutRecords: workouts.length,
+  };
+};
+
+type JsonRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const nanosToMs = (value: unknown) => Number(value) / 1e6;
+
+const intValueOf = (point: JsonRecord): number | null => {
+  const values = Array.isArray(point.fitValue)
+    ? point.fitValue.map(fitValue => (isRecord(fitValue) ? fitValue.value : undefined))
+    : point.value;
+  const first = Array.isArray(values) ? values[0] : undefined;
+  return isRecord(first) && typeof first.intVal === 'number' ? first.intVal : null;
+};
+
+const toLocalInterval = (start: number, end: number, kind: 'sleep' | 'workout'): Interval | null => {
+  if (isNaN(start) || isNaN(end) || end <= start) return null;
+  const local = new Date(kind === 'sleep' ? end : start);
+  return {
+    start,
+    end,
+    day: kind === 'sleep' ? sleepDay(localDateKey(local), local.getHours()) : localDateKey(local),
+  };
+};
+
+/**
+ * Sleep segments, activity segments and sessions from Google Takeout "Fit"
+ * JSON files ("All Data" data-point files and "All Sessions" files). Pass
+ * every file at once so overlaps between them are only counted once.
+ */
+export const parseGoogleFitExport = (jsonFiles: string[]): HealthParseResult => {
+  const sleep: Interval[] = [];
+  const workouts: Interval[] = [];
+
+  const addInterval = (interval: Interval | null, kind: 'sleep' | 'workout') => {
+    if (interval) (kind === 'sleep' ? sleep : workouts).push(interval);
+  };
+
+  const visit = (value: unknown) => {
+    if (Array.isArray(value)) {
+      value.forEach(visit);
+      return;
+    }
+    if (!isRecord(value)) return;
+
+    // Session file: { fitnessActivity, startTime, endTime }
+    if (typeof value.fitnessActivity === 'string') {
+      const kind = value.fitnessActivity.indexOf('sleep') === 0 ? 'sleep' : 'workout';
+      addInterval(toLocalInterval(Date.parse(String(value.startTime)), Date.parse(String(value.endTime)), kind), kind);
+      return;
+    }
+
+    const points = value['Data Points'] || value.point;
+    if (Array.isArray(points)) {
+      points.forEach(point => {
+        if (!isRecord(point)) return;
+        const type = String(point.dataTypeName || value.dataTypeName || '');
+        const start = nanosToMs(point.startTimeNanos);
+        const end = nanosToMs(point.endTimeNanos);
+        const intValue = intValueOf(point);
+        if (intValue === null) return;
+
+        if (type === 'com.google.sleep.segment' && GOOGLE_ASLEEP_STAGES.indexOf(intValue) >= 0) {
+          addInterval(toLocalInterval(start, end, 'sleep'), 'sleep');
+        } else if (type === 'com.google.activity.segment' && GOOGLE_NON_EXERCISE_ACTIVITIES.indexOf(intValue) < 0) {
+          addInterval(toLocalInterval(start, end, 'workout'), 'workout');
+        }
+      });
+      return;
+    }
+
+    Object.keys(value).forEach(key => visit(value[key]));
+  };
+
+  jsonFiles.forEach(text => {
+    try {
+      visit(JSON.parse(text));
+    } catch (error) {
+      console.warn('Skipping unreadable Google Fit file:', error);
+    }
+  });
+
+  return {
+    source: 'google-fit',
+    days: toDailyTotals(sleep, workouts),
+    sleepRecords: sleep.length,
+    workoutRecords: workouts.length,
+  };
+};
+
+/**
+ * Which export a file looks like, from its name and first bytes
+ */
+export const detectHealthSource = (fileName: string, text: string): HealthSource | null => {
+  const head = text.slice(0, 2000);
+  if (fileName.toLowerCase().endsWith('.xml') && head.indexOf('<HealthData') >= 0) return 'apple-health';
+  if (/\.json$/i.test(fileName) && /"(Data Points|fitnessActivity|dataTypeName)"/.test(head)) return 'google-fit';
+  return null;
+};
+
+const roundField = (field: HealthField, value: number) =>
+  field === 'sleep' ? Math.round(value * 10) / 10 : Math.round(value);
+
+/**
+ * The value an entry ends up with. A zero on the entry means it was never
+ * filled in, so it is replaced under every policy.
+ */
+export const resolveHealthValue = (current: number, imported: number, policy: HealthConflictPolicy): number => {
+  if (current <= 0 || policy === 'overwrite') return imported;
+  if (policy === 'average') return (current + imported) / 2;
+  return current;
+};
+
+/**
+ * Proposed sleep/exercise changes for entries on days the export covers
+ */
+export const planHealthUpdates = (
+  entries: MoodEntry[],
+  days: DailyHealthTotals[],
+  policy: HealthConflictPolicy,
+  fields: HealthField[] = ['sleep', 'exercise']
+): HealthUpdatePlan => {
+  const plan: HealthUpdatePlan = { proposals: [], unchanged: 0, withoutEntry: [] };
+  const updatedAt = new Date().toISOString();
+
+  days.forEach(day => {
+    const dayEntries = entries.filter(entry => entry.date === day.date);
+    if (dayEntries.length === 0) {
+      plan.withoutEntry.push(day.date);
+      return;
+    }
+
+    dayEntries.forEach(entry => {
+      const changes: HealthFieldChange[] = [];
+      fields.forEach(field => {
+        const imported = field === 'sleep' ? day.sleepHours : day.exerciseMinutes;
+        if (imported === undefined) return;
+
+        // A value the entry never recorded is a placeholder, so the import always fills it
+        const recorded = isMetricRecorded(entry, field);
+        const next = roundField(field, recorded ? resolveHealthValue(entry[field], imported, policy) : imported);
+        if (next !== entry[field] || !recorded) changes.push({ field, current: entry[field], imported, next });
+      });
+
+      if (changes.length === 0) {
+        plan.unchanged++;
+        return;
+      }
+
+      const after: MoodEntry = markMetricsRecorded({ ...entry, updatedAt }, changes.map(change => change.field));
+      changes.forEach(change => {
+        after[change.field] = change.next;
+      });
+      plan.proposals.push({ before: entry, after, changes });
+    });
+  });
+
+  return plan;
+};
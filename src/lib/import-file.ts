@@ -0,0 +1,91 @@
+// src/lib/import-file.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { MoodImportPreview } from '@/types/mood-import';
+import { isImportableMoodEntry, migrateMoodEntries } from '@/lib/mood-migration';
+import { parseMoodCsv, REQUIRED_CSV_FIELDS, suggestCsvImportOptions } from '@/lib/mood-csv';
+import { parseCsv } from '@/lib/csv';
+import { detectImporter } from '@/lib/importers';
+import { isEncryptedBackup } from '@/lib/backup';
+
+interface ImportFileContents {
+  source: string;
+  entries: MoodEntry[];
+  skipped: number;
+}
+
+/**
+ * Valid entries of a JSON mood export (see useMoodTracker's exportData),
+ * upgraded from older schema versions. Throws when none are usable.
+ */
+export const parseMoodExport = (jsonData: string): { entries: MoodEntry[]; skipped: number } => {
+  const importObject = JSON.parse(jsonData);
+
+  if (!importObject.entries || !Array.isArray(importObject.entries)) {
+    if (importObject.manifest || isEncryptedBackup(jsonData)) {
+      throw new Error('this is a full backup; restore it from Backup & Restore');
+    }
+    throw new Error('Invalid data format');
+  }
+
+  // Upgrade entries exported by older versions before validating
+  const importedEntries = migrateMoodEntries(importObject.entries).entries;
+  const validEntries = importedEntries.filter(isImportableMoodEntry);
+
+  if (validEntries.length === 0) {
+    throw new Error('No valid entries found in import data');
+  }
+  return { entries: validEntries, skipped: importObject.entries.length - validEntries.length };
+};
+
+/**
+ * Read a .json or .csv file without asking anything: JSON as a mood export,
+ * CSV through a matching app importer or the guessed column mapping
+ */
+const readImportFile = (text: string, fileName: string): ImportFileContents => {
+  if (fileName.toLowerCase().endsWith('.json') || text.trim().charAt(0) === '{') {
+    return { source: 'HerFlowState export', ...parseMoodExport(text) };
+  }
+
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new Error(`${fileName} has no data rows`);
+
+  const importer = detectImporter(fileName, text);
+  if (importer) {
+    const { entries, errors } = importer.parse(text);
+    const validEntries = entries.filter(isImportableMoodEntry);
+    if (validEntries.length === 0) throw new Error(errors[0]?.message || `No entries found in ${importer.name} export`);
+    return { source: importer.name, entries: validEntries, skipped: errors.length };
+  }
+
+  const options = suggestCsvImportOptions(rows);
+  const missing = REQUIRED_CSV_FIELDS.filter(field => options.mapping[field] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`no column found for ${missing.join(', ')}; map the columns under Import & Export`);
+  }
+  const { entries, errors, totalRows } = parseMoodCsv(rows, options);
+  if (entries.length === 0) throw new Error(errors[0]?.message || 'No valid rows found in CSV');
+  return { source: 'CSV', entries, skipped: totalRows - entries.length };
+};
+
+/**
+ * What importing `text` would do to `existing`. Entries merge by id, so ones
+ * already stored are left alone; throws when the file holds nothing usable.
+ */
+export const previewImportFile = (existing: MoodEntry[], text: string, fileName: string): MoodImportPreview => {
+  const { source, entries, skipped } = readImportFile(text, fileName);
+  const existingIds = new Set(existing.map(entry => entry.id));
+  const existingDates = new Set(existing.map(entry => entry.date));
+  const added = entries.filter(entry => !existingIds.has(entry.id));
+  const dates = entries.map(entry => entry.date).sort();
+
+  return {
+    fileName,
+    source,
+    total: entries.length,
+    added,
+    duplicates: entries.length - added.length,
+    sameDay: added.filter(entry => existingDates.has(entry.date)).length,
+    skipped,
+    dateRange: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+  };
+};
@@ -0,0 +1,156 @@
+// src/lib/importers/bearable.ts
+import { MoodImporter } from '@/types/mood-import';
+import { LEGACY_EXERCISE_MINUTES } from '@/lib/mood-migration';
+import { detectDateFormat, detectRatingScale, parseCsvDate, rescaleRating } from '@/lib/mood-csv';
+import { clampRating, ImportCollector, readCsvRows, splitList } from './shared';
+
+interface BearableDay {
+  row: number;
+  moods: number[];
+  energies: number[];
+  stresses: number[];
+  sleep: number | null;
+  exercise: number;
+  activities: string[];
+  notes: string[];
+}
+
+// Categories whose detail column lists things that happened that day
+const ACTIVITY_CATEGORIES = ['factors', 'experiences', 'activities', 'symptoms'];
+
+const MEDICATION_CATEGORIES = ['meds/supplements', 'medication', 'meds'];
+
+const NOTE_CATEGORIES = ['notes', 'daily notes', 'journal'];
+
+// "7:30", "7h 30m" or "7.5" -> 7.5 hours
+const parseDuration = (value: string): number | null => {
+  const trimmed = value.trim().toLowerCase();
+  const clock = trimmed.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1]) + Number(clock[2]) / 60;
+
+  const units = trimmed.match(/^(?:(\d+(?:\.\d+)?)\s*h)?\s*(?:(\d+)\s*m(?:in)?)?$/);
+  if (units && (units[1] || units[2])) return Number(units[1] || 0) + Number(units[2] || 0) / 60;
+
+  const hours = Number(trimmed);
+  return trimmed !== '' && !isNaN(hours) ? hours : null;
+};
+
+// Symptom details carry a severity suffix: "Headache (Mild)"
+const stripSeverity = (value: string) => value.replace(/\s*\([^)]*\)\s*$/, '');
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+/**
+ * Bearable "Export data (CSV)": a long table with one row per tracked item
+ * (date, category, rating/amount, detail, notes). Rows are grouped by day:
+ * mood and energy ratings are averaged, sleep becomes hours and factor or
+ * symptom details become activities.
+ */
+export const bearableImporter: MoodImporter = {
+  id: 'bearable',
+  name: 'Bearable',
+  description: 'CSV from Bearable → Settings → Export data',
+
+  detect: (headers) =>
+    headers.indexOf('category') >= 0 && headers.indexOf('rating/amount') >= 0,
+
+  parse: (text) => {
+    const collector = new ImportCollector();
+    const { headers, data } = readCsvRows(text);
+    const dateColumn = headers.indexOf('date formatted') >= 0 ? headers.indexOf('date formatted') : headers.indexOf('date');
+    const column = (name: string) => headers.indexOf(name);
+    const cellOf = (row: string[], name: string) => (column(name) >= 0 ? (row[column(name)] || '').trim() : '');
+    const categoryOf = (row: string[]) => cellOf(row, 'category').toLowerCase();
+
+    collector.countRows(data.length);
+
+    const dateFormat = detectDateFormat(data.map(row => row[dateColumn] || ''));
+    const ratingsOf = (category: string) =>
+      data.filter(row => categoryOf(row) === category).map(row => cellOf(row, 'rating/amount'));
+    const scales = {
+      mood: detectRatingScale(ratingsOf('mood')),
+      energy: detectRatingScale(ratingsOf('energy')),
+      stress: detectRatingScale(ratingsOf('stress')),
+    };
+
+    const days = new Map<string, BearableDay>();
+
+    data.forEach((row, index) => {
+      const line = index + 2;
+      const date = parseCsvDate(row[dateColumn] || '', dateFormat);
+      if (!date) {
+        collector.error(line, `"${row[dateColumn] || ''}" is not a ${dateFormat} date`, headers[dateColumn] || 'date');
+        return;
+      }
+
+      const day = days.get(date) || {
+        row: line, moods: [], energies: [], stresses: [], sleep: null, exercise: 0, activities: [], notes: []
+      };
+      days.set(date, day);
+
+      const category = categoryOf(row);
+      const amount = cellOf(row, 'rating/amount');
+      const detail = cellOf(row, 'detail');
+      const rowNote = cellOf(row, 'notes');
+      if (rowNote) day.notes.push(rowNote);
+
+      if (category === 'mood' || category === 'energy' || category === 'stress') {
+        const rating = Number(amount);
+        if (amount === '' || isNaN(rating) || rating < 1 || rating > scales[category]) {
+          collector.error(line, `"${amount}" is not a 1-${scales[category]} ${category} rating`, 'rating/amount');
+          return;
+        }
+
+        const score = clampRating(rescaleRating(rating, scales[category]));
+        if (category === 'mood') {
+          day.moods.push(score);
+          collector.recordMoodLabel(`mood ${amount}`, score);
+        } else if (category === 'energy') {
+          day.energies.push(score);
+        } else {
+          day.stresses.push(score);
+        }
+      } else if (category === 'sleep') {
+        const hours = parseDuration(amount || detail);
+        if (hours === null) {
+          collector.error(line, `"${amount || detail}" is not a sleep duration`, 'rating/amount');
+          return;
+        }
+        day.sleep = (day.sleep || 0) + hours;
+      } else if (category === 'exercise') {
+        const hours = parseDuration(amount);
+        day.exercise += hours === null ? LEGACY_EXERCISE_MINUTES : Math.round(hours * 60);
+      } else if (ACTIVITY_CATEGORIES.indexOf(category) >= 0) {
+        day.activities.push(...splitList(detail).map(stripSeverity));
+      } else if (MEDICATION_CATEGORIES.indexOf(category) >= 0) {
+        day.activities.push('medication');
+      } else if (NOTE_CATEGORIES.indexOf(category) >= 0 && detail) {
+        day.notes.push(detail);
+      }
+    });
+
+    days.forEach((day, date) => {
+      if (day.moods.length === 0) {
+        collector.error(day.row, `No mood rating on ${date}`);
+        return;
+      }
+
+      const { factors, exercised } = collector.mapActivities(Array.from(new Set(day.activities)));
+      const raw: Record<string, unknown> = {
+        id: `bearable-${date}`,
+        date,
+        mood: clampRating(average(day.moods)),
+        exercise: day.exercise || (exercised ? LEGACY_EXERCISE_MINUTES : 0),
+        factors,
+        notes: Array.from(new Set(day.notes)).join('\n\n'),
+      };
+      if (day.energies.length > 0) raw.energy = clampRating(average(day.energies));
+      if (day.stresses.length > 0) raw.stress = clampRating(average(day.stresses));
+      if (day.sleep !== null) raw.sleep = Math.round(day.sleep * 10) / 10;
+
+      collector.addEntry(raw, day.row);
+    });
+
+    return collector.result();
+  },
+};
@@ -0,0 +1,102 @@
+// src/lib/importers/daylio.ts
+import { MoodImporter } from '@/types/mood-import';
+import { LEGACY_EXERCISE_MINUTES } from '@/lib/mood-migration';
+import { parseCsvDate, rescaleRating } from '@/lib/mood-csv';
+import { clampRating, ImportCollector, readCsvRows, splitList } from './shared';
+
+// Daylio's five default moods, best first; custom mood names fall back to their 1-5 level
+const DAYLIO_MOOD_LEVELS: Record<string, number> = {
+  rad: 5,
+  good: 4,
+  meh: 3,
+  bad: 2,
+  awful: 1,
+};
+
+// "9:05 pm" or "21:05" -> [21, 5]
+const parseDaylioTime = (value: string): [number, number] | null => {
+  const match = value.trim().toLowerCase().match(/^(\d{1,2}):(\d{2})\s*(am|pm)?$/);
+  if (!match) return null;
+
+  let hours = Number(match[1]) % (match[3] ? 12 : 24);
+  if (match[3] === 'pm') hours += 12;
+  return [hours, Number(match[2])];
+};
+
+// Notes may carry HTML line breaks and a separate title
+const toPlainNote = (title: string, note: string): string =>
+  [title, note]
+    .map(part => part.replace(/<br\s*\/?>/gi, '\n').replace(/<[^>]+>/g, '').trim())
+    .filter(Boolean)
+    .join('\n');
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+/**
+ * Daylio "Export entries (CSV)": one row per check-in with full_date, time,
+ * mood label, " | "-separated activities and a note. Each check-in becomes
+ * its own entry, keyed by its date and time, so a day with several keeps them
+ * all for the time-of-day and daily rollup views. Daylio has no energy,
+ * stress, sleep, hydration or nutrition, so those are left unrecorded.
+ */
+export const daylioImporter: MoodImporter = {
+  id: 'daylio',
+  name: 'Daylio',
+  description: 'CSV from Daylio → More → Export entries',
+
+  detect: (headers) =>
+    ['full_date', 'mood', 'activities'].every(header => headers.indexOf(header) >= 0),
+
+  parse: (text) => {
+    const collector = new ImportCollector();
+    const { headers, data } = readCsvRows(text);
+    const column = (name: string) => headers.indexOf(name);
+    const idCounts = new Map<string, number>();
+
+    collector.countRows(data.length);
+
+    data.forEach((row, index) => {
+      const line = index + 2;
+      const cell = (name: string) => (column(name) >= 0 ? (row[column(name)] || '').trim() : '');
+
+      const date = parseCsvDate(cell('full_date'), 'YYYY-MM-DD');
+      if (!date) {
+        collector.error(line, `"${cell('full_date')}" is not a YYYY-MM-DD date`, 'full_date');
+        return;
+      }
+
+      const label = cell('mood');
+      const level = DAYLIO_MOOD_LEVELS[label.toLowerCase()] ?? Number(label);
+      if (!label || isNaN(level) || level < 1 || level > 5) {
+        collector.error(line, `Unknown mood "${label}"`, 'mood');
+        return;
+      }
+
+      const mood = clampRating(rescaleRating(level, 5));
+      collector.recordMoodLabel(label.toLowerCase(), mood);
+
+      const { factors, exercised } = collector.mapActivities(
+        Array.from(new Set(splitList(cell('activities'), /\s*\|\s*/)))
+      );
+      const time = parseDaylioTime(cell('time'));
+      const [year, month, day] = date.split('-').map(Number);
+
+      // Two check-ins logged in the same minute still need distinct ids
+      const baseId = time ? `daylio-${date}-${pad(time[0])}${pad(time[1])}` : `daylio-${date}`;
+      const seen = idCounts.get(baseId) || 0;
+      idCounts.set(baseId, seen + 1);
+
+      collector.addEntry({
+        id: seen === 0 ? baseId : `${baseId}-${seen + 1}`,
+        date,
+        timestamp: time ? new Date(year, month - 1, day, time[0], time[1]).toISOString() : undefined,
+        mood,
+        exercise: exercised ? LEGACY_EXERCISE_MINUTES : 0,
+        factors,
+        notes: toPlainNote(cell('note_title'), cell('note')),
+      }, line);
+    });
+
+    return collector.result();
+  },
+};
@@ -0,0 +1,95 @@
+// src/lib/importers/emoods.ts
+import { MoodImporter } from '@/types/mood-import';
+import { detectDateFormat, parseCsvDate } from '@/lib/mood-csv';
+import { clampRating, ImportCollector, readCsvRows } from './shared';
+
+// eMoods rates each symptom none/mild/moderate/severe, exported as words or 0-3
+const SEVERITY_LEVELS: Record<string, number> = {
+  none: 0,
+  mild: 1,
+  moderate: 2,
+  severe: 3,
+};
+
+const SEVERITY_NAMES = ['none', 'mild', 'moderate', 'severe'];
+
+const parseSeverity = (value: string): number | null => {
+  const trimmed = value.trim().toLowerCase();
+  if (trimmed === '') return 0;
+  if (SEVERITY_LEVELS[trimmed] !== undefined) return SEVERITY_LEVELS[trimmed];
+
+  const level = Number(trimmed);
+  return Number.isInteger(level) && level >= 0 && level <= 3 ? level : null;
+};
+
+/**
+ * eMoods "Export (CSV)": one row per day with depressed, elevated, irritable
+ * and anxiety severities, hours slept and notes. Mood starts neutral and moves
+ * 1.5 points per level of elevation minus depression; anxiety drives stress.
+ */
+export const emoodsImporter: MoodImporter = {
+  id: 'emoods',
+  name: 'eMoods',
+  description: 'CSV from eMoods → Export → CSV',
+
+  detect: (headers) =>
+    ['depressed', 'elevated'].every(header => headers.indexOf(header) >= 0),
+
+  parse: (text) => {
+    const collector = new ImportCollector();
+    const { headers, data } = readCsvRows(text);
+    const column = (name: string) => headers.indexOf(name);
+    const cellOf = (row: string[], name: string) => (column(name) >= 0 ? (row[column(name)] || '').trim() : '');
+
+    collector.countRows(data.length);
+    const dateFormat = detectDateFormat(data.map(row => cellOf(row, 'date')));
+
+    data.forEach((row, index) => {
+      const line = index + 2;
+      const date = parseCsvDate(cellOf(row, 'date'), dateFormat);
+      if (!date) {
+        collector.error(line, `"${cellOf(row, 'date')}" is not a ${dateFormat} date`, 'date');
+        return;
+      }
+
+      const levels: Record<string, number> = {};
+      const invalid = ['depressed', 'elevated', 'irritable', 'anxiety'].filter(name => {
+        const level = parseSeverity(cellOf(row, name));
+        if (level === null) {
+          collector.error(line, `"${cellOf(row, name)}" is not a severity (none, mild, moderate, severe)`, name);
+          return true;
+        }
+        levels[name] = level;
+        return false;
+      });
+      if (invalid.length > 0) return;
+
+      const mood = clampRating(5.5 + (levels.elevated - levels.depressed) * 1.5);
+      collector.recordMoodLabel(
+        `depressed ${SEVERITY_NAMES[levels.depressed]}, elevated ${SEVERITY_NAMES[levels.elevated]}`,
+        mood
+      );
+
+      const activities: string[] = [];
+      if (levels.irritable > 0) activities.push('Irritable');
+      if (levels.anxiety >= 2) activities.push('Anxiety');
+      const { factors } = collector.mapActivities(activities);
+
+      const raw: Record<string, unknown> = {
+        id: `emoods-${date}`,
+        date,
+        mood,
+        stress: clampRating(1 + levels.anxiety * 3),
+        factors,
+        notes: cellOf(row, 'notes'),
+      };
+
+      const sleep = Number(cellOf(row, 'sleep'));
+      if (cellOf(row, 'sleep') !== '' && !isNaN(sleep)) raw.sleep = sleep;
+
+      collector.addEntry(raw, line);
+    });
+
+    return collector.result();
+  },
+};
@@ -0,0 +1,39 @@
+// src/lib/importers/index.ts
+import { MoodImporter } from '@/types/mood-import';
+import { daylioImporter } from './daylio';
+import { bearableImporter } from './bearable';
+import { emoodsImporter } from './emoods';
+import { readCsvRows } from './shared';
+
+const registry: MoodImporter[] = [];
+
+/**
+ * Add an importer, replacing any already registered under the same id
+ */
+export const registerImporter = (importer: MoodImporter): void => {
+  const index = registry.findIndex(registered => registered.id === importer.id);
+  if (index >= 0) {
+    registry[index] = importer;
+  } else {
+    registry.push(importer);
+  }
+};
+
+export const getImporters = (): MoodImporter[] => [...registry];
+
+export const getImporter = (id: string): MoodImporter | undefined =>
+  registry.find(importer => importer.id === id);
+
+/**
+ * The first registered importer that recognises the file's header row
+ */
+export const detectImporter = (fileName: string, text: string): MoodImporter | undefined => {
+  const { headers } = readCsvRows(text.split(/\r?\n/, 1)[0] || '');
+  return registry.find(importer => importer.detect(headers, fileName));
+};
+
+registerImporter(daylioImporter);
+registerImporter(bearableImporter);
+registerImporter(emoodsImporter);
+
+export { matchActivity } from './shared';
@@ -0,0 +1,211 @@
+// src/lib/importers/shared.ts
+import { MoodEntry, MOOD_ENTRY_NUMERIC_KEYS, MOOD_ENTRY_SCHEMA_VERSION, MOOD_FACTORS } from '@/types/mood-tracker';
+import { ActivityMapping, ImporterResult, ImportMappingStats, ImportRowError } from '@/types/mood-import';
+import { isImportableMoodEntry, migrateMoodEntry, normalizeFactorId } from '@/lib/mood-migration';
+import { moodEntrySchema, validateSchema } from '@/lib/backup/schema';
+import { parseCsv } from '@/lib/csv';
+
+// Activity names other apps use for things MOOD_FACTORS already covers, compared lowercase
+const ACTIVITY_FACTOR_SYNONYMS: Record<string, string> = {
+  'friends': 'social_interaction',
+  'party': 'social_interaction',
+  'date': 'social_interaction',
+  'socializing': 'social_interaction',
+  'socialising': 'social_interaction',
+  'family': 'family_time',
+  'coffee': 'caffeine',
+  'tea': 'caffeine',
+  'energy drink': 'caffeine',
+  'beer': 'alcohol',
+  'wine': 'alcohol',
+  'drinks': 'alcohol',
+  'drinking': 'alcohol',
+  'yoga': 'meditation',
+  'mindfulness': 'meditation',
+  'breathing': 'meditation',
+  'nature': 'time_in_nature',
+  'hiking': 'time_in_nature',
+  'outdoors': 'time_in_nature',
+  'park': 'time_in_nature',
+  'gardening': 'time_in_nature',
+  'trip': 'travel',
+  'vacation': 'travel',
+  'holiday': 'travel',
+  'sick': 'illness',
+  'ill': 'illness',
+  'cold': 'illness',
+  'flu': 'illness',
+  'period': 'menstrual_cycle',
+  'menstruation': 'menstrual_cycle',
+  'pms': 'menstrual_cycle',
+  'meds': 'medication',
+  'medicine': 'medication',
+  'work': 'work_stress',
+  'overtime': 'work_stress',
+  'deadline': 'work_stress',
+  'anxious': 'anxiety',
+  'panic attack': 'anxiety',
+  'headache': 'chronic_pain',
+  'migraine': 'chronic_pain',
+  'pain': 'chronic_pain',
+  'lonely': 'loneliness',
+  'argument': 'social_conflict',
+  'fight': 'social_conflict',
+  'conflict': 'social_conflict',
+  'news': 'news_consumption',
+  'instagram': 'social_media',
+  'tiktok': 'social_media',
+  'drawing': 'creative_activities',
+  'painting': 'creative_activities',
+  'music': 'creative_activities',
+  'writing': 'creative_activities',
+  'crafts': 'creative_activities',
+  'gaming': 'screen_time',
+  'tv': 'screen_time',
+  'movies': 'screen_time',
+  'netflix': 'screen_time',
+  'phone': 'screen_time',
+};
+
+// Activities that become exercise minutes rather than a factor
+const EXERCISE_ACTIVITIES = [
+  'exercise', 'sport', 'sports', 'gym', 'workout', 'run', 'running', 'walk', 'walking',
+  'cycling', 'swimming', 'dance', 'dancing', 'hiking', 'yoga', 'fitness'
+];
+
+export interface ActivityMatch {
+  factorId: string | null;
+  countsAsExercise: boolean;
+}
+
+const isKnownFactor = (factorId: string) => MOOD_FACTORS.some(factor => factor.id === factorId);
+
+/**
+ * Match an activity name against MOOD_FACTORS (id, label, then synonyms).
+ * Unmatched names come back as null; callers decide whether to keep them.
+ */
+export const matchActivity = (activity: string): ActivityMatch => {
+  const name = activity.trim().toLowerCase();
+  const countsAsExercise = EXERCISE_ACTIVITIES.indexOf(name) >= 0;
+  const normalized = normalizeFactorId(activity);
+
+  if (isKnownFactor(normalized)) return { factorId: normalized, countsAsExercise };
+  if (ACTIVITY_FACTOR_SYNONYMS[name]) return { factorId: ACTIVITY_FACTOR_SYNONYMS[name], countsAsExercise };
+  return { factorId: null, countsAsExercise };
+};
+
+export const splitList = (value: string, separator: RegExp = /\s*[|,;]\s*/): string[] =>
+  value.split(separator).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Header row (lowercased, trimmed) and data rows of a CSV export
+ */
+export const readCsvRows = (text: string): { headers: string[]; data: string[][] } => {
+  const [headers = [], ...data] = parseCsv(text);
+  return { headers: headers.map(header => header.trim().toLowerCase()), data };
+};
+
+// Midday local time, so an entry without a logged time never shifts day
+export const middayTimestamp = (date: string): string => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, 12).toISOString();
+};
+
+export const clampRating = (value: number): number =>
+  Math.round(Math.min(10, Math.max(1, value)) * 10) / 10;
+
+/**
+ * Collects mapping statistics while an importer converts rows, and runs the
+ * converted records through the same migration and schema checks as a CSV
+ * import before they are accepted.
+ */
+export class ImportCollector {
+  private readonly entries: MoodEntry[] = [];
+  private readonly errors: ImportRowError[] = [];
+  private readonly moodLabels = new Map<string, { score: number; count: number }>();
+  private readonly activities = new Map<string, ActivityMapping>();
+  private totalRows = 0;
+
+  countRows(rows: number): void {
+    this.totalRows += rows;
+  }
+
+  error(row: number, message: string, column?: string): void {
+    this.errors.push(column ? { row, column, message } : { row, message });
+  }
+
+  recordMoodLabel(label: string, score: number): void {
+    const current = this.moodLabels.get(label);
+    this.moodLabels.set(label, { score, count: (current ? current.count : 0) + 1 });
+  }
+
+  /**
+   * Map activity names to factor ids, keeping unmatched ones as custom factors.
+   * Returns the factors and whether any activity counts as exercise.
+   */
+  mapActivities(names: string[]): { factors: string[]; exercised: boolean } {
+    const factors: string[] = [];
+    let exercised = false;
+
+    names.forEach(name => {
+      const match = matchActivity(name);
+      const key = name.trim().toLowerCase();
+      const current = this.activities.get(key);
+      this.activities.set(key, {
+        activity: current ? current.activity : name.trim(),
+        factorId: match.factorId,
+        countsAsExercise: match.countsAsExercise,
+        count: (current ? current.count : 0) + 1,
+      });
+
+      if (match.countsAsExercise) exercised = true;
+      if (match.factorId) {
+        factors.push(match.factorId);
+      } else if (!match.countsAsExercise) {
+        factors.push(normalizeFactorId(name));
+      }
+    });
+
+    return { factors: Array.from(new Set(factors)), exercised };
+  }
+
+  /**
+   * Validate a raw record and keep it if it becomes a complete MoodEntry.
+   * Metrics the record leaves out are flagged as unrecorded rather than
+   * passed off as the placeholder values migration fills in.
+   */
+  addEntry(raw: Record<string, unknown>, row: number): void {
+    const entry = migrateMoodEntry({
+      ...raw,
+      schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+      timestamp: raw.timestamp || (typeof raw.date === 'string' ? middayTimestamp(raw.date) : undefined),
+      unrecordedMetrics: MOOD_ENTRY_NUMERIC_KEYS.filter(metric => typeof raw[metric] !== 'number'),
+    });
+    if (!entry || !isImportableMoodEntry(entry)) {
+      this.error(row, 'Missing a date or mood score');
+      return;
+    }
+
+    const issues = validateSchema(entry, moodEntrySchema, '');
+    if (issues.length > 0) {
+      issues.forEach(issue => this.error(row, issue.message, issue.path));
+      return;
+    }
+    this.entries.push(entry);
+  }
+
+  result(): ImporterResult {
+    const dates = this.entries.map(entry => entry.date).sort();
+    const stats: ImportMappingStats = {
+      totalRows: this.totalRows,
+      entries: this.entries.length,
+      dateRange: dates.length > 0 ? { start: dates[0], end: dates[dates.length - 1] } : null,
+      moodLabels: Array.from(this.moodLabels.entries())
+        .map(([label, { score, count }]) => ({ label, score, count }))
+        .sort((a, b) => b.score - a.score),
+      activities: Array.from(this.activities.values()).sort((a, b) => b.count - a.count),
+      notes: this.entries.filter(entry => entry.notes.trim() !== '').length,
+    };
+    return { entries: this.entries, errors: this.errors, stats };
+  }
+}
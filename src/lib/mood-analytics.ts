@@ -1,28 +1,105 @@
 // src/lib/mood-analytics.ts
 import { 
   MoodEntry, 
+  MoodEntryNumericKeys,
   CorrelationData, 
+  CorrelationEstimate,
+  CrossCorrelationData,
+  LagCorrelation,
   TrendAnalysis, 
   OptimizationSuggestion,
   WellnessMetrics,
   MoodPattern,
   AdvancedInsights,
-  DEFAULT_ANALYTICS_CONFIG
+  TimeOfDay,
+  TimeOfDayPattern,
+  IntradayVariability,
+  MoodRegressionModel,
+  RegressionCoefficient,
+  ChangePoint,
+  ChangePointAnalysis,
+  NearbyFactor,
+  AnomalousDay,
+  MetricDeviation,
+  StatisticalInsight,
+  FactorImpact,
+  FactorMetricImpact,
+  DEFAULT_ANALYTICS_CONFIG,
+  MOOD_FACTORS
 } from '@/types/mood-tracker';
+import { getTimeOfDay, groupEntriesByDate, rollupDailyEntries, TIME_OF_DAY_LABELS, TIME_OF_DAY_ORDER } from '@/lib/check-ins';
+import { sortMoodEntries } from '@/lib/mood-migration';
+import { addDaysToKey, isMetricRecorded } from '@/lib/mood-queries';
+import { forecastMetric } from '@/lib/mood-forecast';
+import { findChangePoints } from '@/lib/change-points';
+import {
+  benjaminiHochberg,
+  chiSquarePValue,
+  fisherZInterval,
+  fitLeastSquares,
+  invertMatrix,
+  mean,
+  median,
+  normalCdf,
+  cohensD,
+  createSeededRandom,
+  mannWhitneyU,
+  robustStandardDeviation,
+  standardDeviation
+} from '@/lib/statistics';
 
-// Type for valid mood entry keys that are numbers
-type MoodEntryNumericKeys = 'mood' | 'energy' | 'stress' | 'sleep' | 'hydration' | 'exercise' | 'nutrition';
+// Every daily series the analytics work on
+const NUMERIC_METRICS: MoodEntryNumericKeys[] = ['mood', 'energy', 'stress', 'sleep', 'hydration', 'exercise', 'nutrition'];
+
+// Names the regression reports metrics under; stress is inverted there
+const METRIC_LABELS: Record<MoodEntryNumericKeys, string> = {
+  mood: 'Mood',
+  energy: 'Energy',
+  stress: 'Low stress',
+  sleep: 'Sleep',
+  hydration: 'Hydration',
+  exercise: 'Exercise',
+  nutrition: 'Nutrition'
+};
+
+// Metrics the anomaly detection checks, one at a time and together
+const ANOMALY_METRICS: MoodEntryNumericKeys[] = ['mood', 'energy', 'stress', 'sleep'];
+
+// Smallest standard deviation assumed for a metric, so one that barely
+// varies does not make every small change look extreme
+const MIN_METRIC_SD = 0.5;
+
+// Metrics compared on days with and without each factor
+const FACTOR_IMPACT_METRICS: FactorMetricImpact['metric'][] = ['mood', 'energy', 'stress'];
+
+// Days both groups need before Welch's t-test is used; smaller groups of
+// 1-10 ratings get the rank-based Mann–Whitney U test instead
+const MIN_DAYS_FOR_T_TEST = 20;
+
+const BOOTSTRAP_SAMPLES = 1000;
+
+// Most recent unusual days reported as insights
+const MAX_ANOMALY_INSIGHTS = 5;
+
+// Check-ins a part of the day needs, on days with several, before it is compared
+const MIN_CHECK_INS_PER_TIME_OF_DAY = 3;
 
 /**
  * Advanced analytics engine for mood tracking data
  * Applies chemical engineering optimization principles to wellness data
  */
 export class MoodAnalytics {
+  // One rolled-up entry per day; the day-level analyses run on these
   private entries: MoodEntry[];
+  // Every check-in, oldest first, for the time-of-day analyses
+  private checkIns: MoodEntry[];
+  private entriesByDate: Map<string, MoodEntry>;
   private config = DEFAULT_ANALYTICS_CONFIG;
 
   constructor(entries: MoodEntry[]) {
-    this.entries = entries.sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    this.checkIns = sortMoodEntries(entries);
+    this.entries = rollupDailyEntries(entries);
+    this.entriesByDate = new Map(this.entries.map(entry => [entry.date, entry] as [string, MoodEntry]));
   }
 
   /**
@@ -139,6 +216,21 @@ export class MoodAnalytics {
     return h;
   }
 
+  /**
+   * Two-sided p-value of Welch's t-test for a difference in means. Two
+   * groups that never vary differ for certain unless their values match.
+   */
+  private welchTTest(a: number[], b: number[]): number {
+    const errorA = Math.pow(standardDeviation(a), 2) / a.length;
+    const errorB = Math.pow(standardDeviation(b), 2) / b.length;
+    const difference = Math.abs(mean(a) - mean(b));
+    if (errorA + errorB === 0) return difference === 0 ? 1 : 0;
+
+    const df = Math.pow(errorA + errorB, 2) /
+      (Math.pow(errorA, 2) / (a.length - 1) + Math.pow(errorB, 2) / (b.length - 1));
+    return this.tTestPValue(difference / Math.sqrt(errorA + errorB), df);
+  }
+
   /**
    * Safely extract numeric value from mood entry
    */
@@ -155,7 +247,49 @@ export class MoodAnalytics {
   }
 
   /**
-   * Calculate correlations between mood and other factors
+   * Days that recorded every one of `metrics`, so values an import only
+   * filled in never enter a series
+   */
+  private daysRecording(...metrics: MoodEntryNumericKeys[]): MoodEntry[] {
+    return this.entries.filter(entry => metrics.every(metric => isMetricRecorded(entry, metric)));
+  }
+
+  /**
+   * Pearson test plus Fisher z interval. The adjusted p starts out as the
+   * raw one until adjustForMultipleTesting sees the whole family.
+   */
+  private estimateCorrelation(x: number[], y: number[]): CorrelationEstimate {
+    const result = this.pearsonCorrelation(x, y);
+    return {
+      correlation: result.r,
+      significance: result.p,
+      adjustedSignificance: result.p,
+      confidenceInterval: fisherZInterval(result.r, result.n, this.config.confidenceThreshold),
+      isSignificant: result.n >= this.config.minEntriesForCorrelation && result.p < this.config.confidenceThreshold,
+      sampleSize: result.n
+    };
+  }
+
+  /**
+   * Apply the Benjamini–Hochberg correction across tests that were run
+   * together. Estimates below the minimum sample size never count as
+   * significant, whatever their p-value.
+   */
+  private adjustForMultipleTesting<
+    T extends Pick<CorrelationEstimate, 'significance' | 'adjustedSignificance' | 'isSignificant' | 'sampleSize'>
+  >(estimates: T[]): T[] {
+    const adjusted = benjaminiHochberg(estimates.map(estimate => estimate.significance));
+    return estimates.map((estimate, i) => ({
+      ...estimate,
+      adjustedSignificance: adjusted[i],
+      isSignificant: estimate.sampleSize >= this.config.minEntriesForCorrelation &&
+        adjusted[i] < this.config.confidenceThreshold
+    }));
+  }
+
+  /**
+   * Calculate correlations between mood and other factors, corrected for
+   * testing every factor at once
    */
   public calculateCorrelations(): CorrelationData[] {
     if (this.entries.length < this.config.minEntriesForCorrelation) {
@@ -166,34 +300,241 @@ export class MoodAnalytics {
     const correlationResults: CorrelationData[] = [];
 
     factors.forEach(factor => {
-      const moodValues = this.entries.map(entry => entry.mood);
-      const factorValues = this.entries.map(entry => this.getEntryValue(entry, factor));
+      const days = this.daysRecording('mood', factor);
+      if (days.length < this.config.minEntriesForCorrelation) return;
+      const moodValues = days.map(entry => entry.mood);
+      const factorValues = days.map(entry => this.getEntryValue(entry, factor));
 
-      const result = this.pearsonCorrelation(moodValues, factorValues);
+      const result = this.estimateCorrelation(moodValues, factorValues);
       
       let interpretation: CorrelationData['interpretation'];
-      const absR = Math.abs(result.r);
+      const absR = Math.abs(result.correlation);
       
       if (absR >= this.config.correlationThresholds.strong) {
-        interpretation = result.r > 0 ? 'strong_positive' : 'strong_negative';
+        interpretation = result.correlation > 0 ? 'strong_positive' : 'strong_negative';
       } else if (absR >= this.config.correlationThresholds.moderate) {
-        interpretation = result.r > 0 ? 'moderate_positive' : 'moderate_negative';
+        interpretation = result.correlation > 0 ? 'moderate_positive' : 'moderate_negative';
       } else if (absR >= this.config.correlationThresholds.weak) {
-        interpretation = result.r > 0 ? 'weak_positive' : 'weak_negative';
+        interpretation = result.correlation > 0 ? 'weak_positive' : 'weak_negative';
       } else {
         interpretation = 'negligible';
       }
 
       correlationResults.push({
+        ...result,
         factor: factor.charAt(0).toUpperCase() + factor.slice(1),
-        correlation: result.r,
-        significance: result.p,
-        sampleSize: result.n,
         interpretation
       });
     });
 
-    return correlationResults.sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+    return this.adjustForMultipleTesting(correlationResults)
+      .sort((a, b) => Math.abs(b.correlation) - Math.abs(a.correlation));
+  }
+
+  /**
+   * Paired values of `source` on each day and `target` `lag` days later.
+   * Days are matched by calendar date, so gaps in logging never pair the
+   * wrong days.
+   */
+  private getLaggedPairs(source: MoodEntryNumericKeys, target: MoodEntryNumericKeys, lag: number): { x: number[]; y: number[] } {
+    const x: number[] = [];
+    const y: number[] = [];
+
+    this.entries.forEach(entry => {
+      const later = this.entriesByDate.get(addDaysToKey(entry.date, lag));
+      if (!later || !isMetricRecorded(entry, source) || !isMetricRecorded(later, target)) return;
+      x.push(this.getEntryValue(entry, source));
+      y.push(this.getEntryValue(later, target));
+    });
+
+    return { x, y };
+  }
+
+  /**
+   * Unadjusted cross-correlation function of two metrics over lags 0 to
+   * maxLagDays, skipping lags with too few day pairs
+   */
+  private estimateCrossCorrelation(source: MoodEntryNumericKeys, target: MoodEntryNumericKeys): CrossCorrelationData {
+    const lags: LagCorrelation[] = [];
+
+    for (let lag = 0; lag <= this.config.maxLagDays; lag++) {
+      const { x, y } = this.getLaggedPairs(source, target, lag);
+      if (x.length < this.config.minEntriesForCorrelation) continue;
+      lags.push({ lag, ...this.estimateCorrelation(x, y) });
+    }
+
+    return { source, target, lags, strongestLag: null };
+  }
+
+  /**
+   * Correct every lag of every result as one family of tests, then pick
+   * each result's strongest lag among those still significant
+   */
+  private adjustCrossCorrelations(results: CrossCorrelationData[]): CrossCorrelationData[] {
+    const adjusted = this.adjustForMultipleTesting(
+      results.reduce<LagCorrelation[]>((all, result) => all.concat(result.lags), [])
+    );
+
+    let offset = 0;
+    return results.map(result => {
+      const lags = adjusted.slice(offset, offset + result.lags.length);
+      offset += result.lags.length;
+
+      const strongestLag = lags
+        .filter(lag => lag.isSignificant)
+        .reduce<LagCorrelation | null>(
+          (best, lag) => (!best || Math.abs(lag.correlation) > Math.abs(best.correlation) ? lag : best),
+          null
+        );
+
+      return { ...result, lags, strongestLag };
+    });
+  }
+
+  /**
+   * Cross-correlation function of two metrics over lags 0 to maxLagDays.
+   * Stress is inverted as in calculateCorrelations, so a positive r always
+   * means more of the better value.
+   */
+  public calculateCrossCorrelation(source: MoodEntryNumericKeys, target: MoodEntryNumericKeys): CrossCorrelationData {
+    return this.adjustCrossCorrelations([this.estimateCrossCorrelation(source, target)])[0];
+  }
+
+  /**
+   * How each factor relates to mood on the same day and up to maxLagDays
+   * later, e.g. tonight's sleep against tomorrow's mood. Factors with a
+   * significant lag come first, strongest first.
+   */
+  public calculateLaggedCorrelations(): CrossCorrelationData[] {
+    const results = NUMERIC_METRICS
+      .filter(metric => metric !== 'mood')
+      .map(metric => this.estimateCrossCorrelation(metric, 'mood'))
+      .filter(result => result.lags.length > 0);
+
+    return this.adjustCrossCorrelations(results).sort((a, b) =>
+      Math.abs(b.strongestLag?.correlation ?? 0) - Math.abs(a.strongestLag?.correlation ?? 0)
+    );
+  }
+
+  /**
+   * Cross-correlation functions between every ordered pair of metrics. Both
+   * orders are included, so together they cover negative lags as well.
+   */
+  public calculateCrossCorrelations(): CrossCorrelationData[] {
+    const results: CrossCorrelationData[] = [];
+
+    NUMERIC_METRICS.forEach(source => {
+      NUMERIC_METRICS.forEach(target => {
+        if (source === target) return;
+        const result = this.estimateCrossCorrelation(source, target);
+        if (result.lags.length > 0) results.push(result);
+      });
+    });
+
+    return this.adjustCrossCorrelations(results);
+  }
+
+  /**
+   * Multiple linear regression of mood on the other metrics and the factors
+   * logged often enough to compare, so each effect is net of the rest (sleep
+   * and stress tend to move together). Everything is standardized before the
+   * fit, so `ridgeLambda` shrinks every predictor alike. Factors are added,
+   * most frequent first, only while minEntriesForCorrelation residual degrees
+   * of freedom remain; null when even the metrics do not fit. Metrics left
+   * unrecorded on most days are dropped, and the fit runs on the days that
+   * recorded all the rest.
+   */
+  public fitMoodRegression(ridgeLambda: number = this.config.ridgeLambda): MoodRegressionModel | null {
+    const metrics = NUMERIC_METRICS.filter(metric =>
+      metric !== 'mood' && this.daysRecording(metric).length * 2 >= this.entries.length
+    );
+    const days = this.daysRecording('mood', ...metrics);
+    const n = days.length;
+    const maxPredictors = n - 1 - this.config.minEntriesForCorrelation;
+    if (maxPredictors < metrics.length) return null;
+
+    const factorDays = new Map<string, number>();
+    days.forEach(entry => entry.factors.forEach(factor => {
+      factorDays.set(factor, (factorDays.get(factor) || 0) + 1);
+    }));
+    const factors = Array.from(factorDays.entries())
+      .filter(([, days]) => days >= this.config.minFactorDays && n - days >= this.config.minFactorDays)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, maxPredictors - metrics.length)
+      .map(([factor]) => factor);
+
+    const columns = [
+      ...metrics.map(metric => ({
+        predictor: metric as string,
+        kind: 'metric' as const,
+        label: METRIC_LABELS[metric],
+        values: days.map(entry => this.getEntryValue(entry, metric))
+      })),
+      ...factors.map(factor => ({
+        predictor: factor,
+        kind: 'factor' as const,
+        label: MOOD_FACTORS.find(option => option.id === factor)?.label ?? factor,
+        values: days.map(entry => (entry.factors.indexOf(factor) >= 0 ? 1 : 0))
+      }))
+    ]
+      .map(column => ({ ...column, mean: mean(column.values), sd: standardDeviation(column.values) }))
+      .filter(column => column.sd > 0); // A metric never logged carries no information
+
+    const moods = days.map(entry => entry.mood);
+    const moodMean = mean(moods);
+    const moodSd = standardDeviation(moods);
+    if (columns.length === 0 || moodSd === 0) return null;
+
+    const rows = days.map((_, k) => columns.map(column => (column.values[k] - column.mean) / column.sd));
+    const target = moods.map(mood => (mood - moodMean) / moodSd);
+    const full = fitLeastSquares(rows, target, ridgeLambda);
+    if (!full) return null;
+
+    // Standardized mood has a total sum of squares of n - 1
+    const totalSumOfSquares = n - 1;
+    const residualDf = n - columns.length - 1;
+    const rSquared = Math.max(0, 1 - full.residualSumOfSquares / totalSumOfSquares);
+
+    // The VIFs are the diagonal of the inverse predictor correlation matrix
+    const predictorCorrelations = columns.map((_, i) =>
+      columns.map((__, j) => rows.reduce((sum, row) => sum + row[i] * row[j], 0) / totalSumOfSquares)
+    );
+    const inverseCorrelations = invertMatrix(predictorCorrelations);
+
+    const coefficients: RegressionCoefficient[] = columns.map((column, j) => {
+      const reduced = fitLeastSquares(rows.map(row => row.filter((_, i) => i !== j)), target, ridgeLambda);
+      const reducedSumOfSquares = reduced ? reduced.residualSumOfSquares : totalSumOfSquares;
+      const partialRSquared = reducedSumOfSquares > 0
+        ? Math.min(1, Math.max(0, (reducedSumOfSquares - full.residualSumOfSquares) / reducedSumOfSquares))
+        : 0;
+      // Partial F test on one numerator df, as a t statistic
+      const t = Math.sqrt((partialRSquared / (1 - partialRSquared)) * residualDf);
+      const significance = this.tTestPValue(t, residualDf);
+
+      return {
+        predictor: column.predictor,
+        kind: column.kind,
+        label: column.label,
+        coefficient: full.coefficients[j] * moodSd / column.sd,
+        standardizedCoefficient: full.coefficients[j],
+        partialRSquared,
+        varianceInflationFactor: inverseCorrelations ? inverseCorrelations[j][j] : Infinity,
+        significance,
+        adjustedSignificance: significance,
+        isSignificant: false,
+        sampleSize: n
+      };
+    });
+
+    return {
+      coefficients: this.adjustForMultipleTesting(coefficients)
+        .sort((a, b) => Math.abs(b.standardizedCoefficient) - Math.abs(a.standardizedCoefficient)),
+      intercept: coefficients.reduce((value, coefficient, j) => value - coefficient.coefficient * columns[j].mean, moodMean),
+      rSquared,
+      adjustedRSquared: 1 - (1 - rSquared) * (n - 1) / residualDf,
+      ridgeLambda,
+      sampleSize: n
+    };
   }
 
   /**
@@ -230,17 +571,20 @@ export class MoodAnalytics {
       return [];
     }
 
-    const metrics: MoodEntryNumericKeys[] = ['mood', 'energy', 'stress', 'sleep', 'hydration', 'exercise', 'nutrition'];
+    const metrics = NUMERIC_METRICS;
     const trends: TrendAnalysis[] = [];
 
-    // Create time indices (days since first entry)
+    // Time indices are days since the first entry
     const firstDate = new Date(this.entries[0].date).getTime();
-    const timeIndices = this.entries.map(entry => 
-      (new Date(entry.date).getTime() - firstDate) / (1000 * 60 * 60 * 24)
-    );
 
     metrics.forEach(metric => {
-      const values = this.entries.map(entry => this.getEntryValue(entry, metric));
+      const days = this.daysRecording(metric);
+      if (days.length < this.config.minEntriesForTrends) return;
+
+      const timeIndices = days.map(entry =>
+        (new Date(entry.date).getTime() - firstDate) / (1000 * 60 * 60 * 24)
+      );
+      const values = days.map(entry => this.getEntryValue(entry, metric));
 
       const regression = this.linearRegression(timeIndices, values);
       
@@ -259,7 +603,7 @@ export class MoodAnalytics {
         direction,
         magnitude: Math.abs(weeklyChange),
         significance: regression.r2,
-        timeframe: this.entries.length
+        timeframe: days.length
       });
     });
 
@@ -267,45 +611,61 @@ export class MoodAnalytics {
   }
 
   /**
-   * Generate optimization suggestions based on correlations
+   * Generate optimization suggestions from each metric's effect on mood: its
+   * standardized regression coefficient, which holds the other metrics fixed,
+   * or its plain correlation while there are too few days to fit the model
    */
   public generateOptimizations(): OptimizationSuggestion[] {
-    const correlations = this.calculateCorrelations();
+    const regression = this.fitMoodRegression();
+    const effectSource: OptimizationSuggestion['effectSource'] = regression ? 'regression' : 'correlation';
+    const effects = regression
+      ? regression.coefficients
+          .filter(coefficient => coefficient.kind === 'metric')
+          .map(coefficient => ({
+            factor: coefficient.predictor,
+            effect: coefficient.standardizedCoefficient,
+            isSignificant: coefficient.isSignificant
+          }))
+      : this.calculateCorrelations().map(corr => ({
+          factor: corr.factor.toLowerCase(),
+          effect: corr.correlation,
+          isSignificant: corr.isSignificant
+        }));
     const suggestions: OptimizationSuggestion[] = [];
 
-    correlations.forEach(corr => {
-      if (Math.abs(corr.correlation) >= this.config.correlationThresholds.weak && 
-          corr.significance < this.config.confidenceThreshold) {
+    effects.forEach(({ factor, effect, isSignificant }) => {
+      if (Math.abs(effect) >= this.config.correlationThresholds.weak && isSignificant) {
         
         let suggestion: OptimizationSuggestion;
-        const factor = corr.factor.toLowerCase();
 
         switch (factor) {
           case 'sleep':
             suggestion = {
               category: 'sleep',
-              priority: Math.abs(corr.correlation) > 0.5 ? 1 : 2,
-              title: corr.correlation > 0 ? 'Optimize Sleep Duration' : 'Improve Sleep Quality',
-              description: corr.correlation > 0 
+              priority: Math.abs(effect) > 0.5 ? 1 : 2,
+              title: effect > 0 ? 'Optimize Sleep Duration' : 'Improve Sleep Quality',
+              description: effect > 0 
                 ? 'Increase sleep duration to 7-9 hours per night for better mood regulation.'
                 : 'Focus on sleep quality through consistent bedtime routines and sleep hygiene.',
-              expectedImpact: Math.abs(corr.correlation) * 3, // Scale to 0-3 range
+              expectedImpact: Math.abs(effect) * 3, // Scale to 0-3 range
               timeframe: '1-2 weeks',
               difficulty: 'moderate',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
           case 'exercise':
             suggestion = {
               category: 'exercise',
-              priority: Math.abs(corr.correlation) > 0.4 ? 1 : 2,
+              priority: Math.abs(effect) > 0.4 ? 1 : 2,
               title: 'Increase Physical Activity',
               description: 'Regular exercise shows strong correlation with improved mood. Aim for 30 minutes of moderate activity daily.',
-              expectedImpact: Math.abs(corr.correlation) * 2.5,
+              expectedImpact: Math.abs(effect) * 2.5,
               timeframe: '2-3 weeks',
               difficulty: 'moderate',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
@@ -315,10 +675,11 @@ export class MoodAnalytics {
               priority: 2,
               title: 'Improve Nutritional Quality',
               description: 'Focus on whole foods, balanced meals, and consistent eating patterns.',
-              expectedImpact: Math.abs(corr.correlation) * 2,
+              expectedImpact: Math.abs(effect) * 2,
               timeframe: '1-3 weeks',
               difficulty: 'easy',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
@@ -328,10 +689,11 @@ export class MoodAnalytics {
               priority: 1,
               title: 'Implement Stress Management',
               description: 'Practice stress reduction techniques like meditation, deep breathing, or progressive muscle relaxation.',
-              expectedImpact: Math.abs(corr.correlation) * 3.5,
+              expectedImpact: Math.abs(effect) * 3.5,
               timeframe: '1-4 weeks',
               difficulty: 'moderate',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
@@ -341,10 +703,11 @@ export class MoodAnalytics {
               priority: 3,
               title: 'Maintain Proper Hydration',
               description: 'Aim for 8-10 glasses of water daily. Dehydration can significantly impact mood and energy.',
-              expectedImpact: Math.abs(corr.correlation) * 1.5,
+              expectedImpact: Math.abs(effect) * 1.5,
               timeframe: '1 week',
               difficulty: 'easy',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
@@ -354,10 +717,11 @@ export class MoodAnalytics {
               priority: 2,
               title: 'Boost Energy Levels',
               description: 'Energy and mood are closely linked. Focus on sleep, nutrition, and regular activity.',
-              expectedImpact: Math.abs(corr.correlation) * 2,
+              expectedImpact: Math.abs(effect) * 2,
               timeframe: '2-4 weeks',
               difficulty: 'moderate',
-              basedOnCorrelation: corr.correlation
+              basedOnEffect: effect,
+              effectSource
             };
             break;
 
@@ -396,14 +760,20 @@ export class MoodAnalytics {
     const recent = this.entries.slice(-14); // Last 2 weeks
     const older = this.entries.slice(-28, -14); // Previous 2 weeks
 
+    // Averaged over the days that recorded each metric; 0 when none did
+    const average = (metric: MoodEntryNumericKeys) => {
+      const days = this.daysRecording(metric);
+      return days.length > 0 ? days.reduce((sum, e) => sum + e[metric], 0) / days.length : 0;
+    };
+
     const metrics = {
-      averageMood: this.entries.reduce((sum, e) => sum + e.mood, 0) / this.entries.length,
-      averageEnergy: this.entries.reduce((sum, e) => sum + e.energy, 0) / this.entries.length,
-      averageStress: this.entries.reduce((sum, e) => sum + e.stress, 0) / this.entries.length,
-      averageSleep: this.entries.reduce((sum, e) => sum + e.sleep, 0) / this.entries.length,
-      averageHydration: this.entries.reduce((sum, e) => sum + e.hydration, 0) / this.entries.length,
-      averageExercise: this.entries.reduce((sum, e) => sum + e.exercise, 0) / this.entries.length,
-      averageNutrition: this.entries.reduce((sum, e) => sum + e.nutrition, 0) / this.entries.length,
+      averageMood: average('mood'),
+      averageEnergy: average('energy'),
+      averageStress: average('stress'),
+      averageSleep: average('sleep'),
+      averageHydration: average('hydration'),
+      averageExercise: average('exercise'),
+      averageNutrition: average('nutrition'),
       consistencyScore: Math.min(100, (this.entries.length / 30) * 100), // Based on 30-day tracking
       improvementTrend: 'stable' as WellnessMetrics['improvementTrend']
     };
@@ -427,7 +797,7 @@ export class MoodAnalytics {
    * Detect weekly patterns in mood data
    */
   public detectWeeklyPatterns(): MoodPattern[] {
-    if (this.entries.length < 14) return [];
+    if (this.entries.length < this.config.minEntriesForTrends) return [];
 
     const dayOfWeekMoods: { [key: string]: number[] } = {
       'Sunday': [], 'Monday': [], 'Tuesday': [], 'Wednesday': [],
@@ -471,40 +841,393 @@ export class MoodAnalytics {
     }];
   }
 
+  /**
+   * Average mood, energy and stress for each part of the day that has check-ins
+   */
+  public analyzeTimeOfDayPatterns(): TimeOfDayPattern[] {
+    return TIME_OF_DAY_ORDER
+      .map(timeOfDay => {
+        const checkIns = this.checkIns.filter(entry => getTimeOfDay(entry.timestamp) === timeOfDay);
+        const average = (metric: MoodEntryNumericKeys) => {
+          const recorded = checkIns.filter(entry => isMetricRecorded(entry, metric));
+          return recorded.reduce((sum, e) => sum + e[metric], 0) / (recorded.length || 1);
+        };
+        return {
+          timeOfDay,
+          averageMood: average('mood'),
+          averageEnergy: average('energy'),
+          averageStress: average('stress'),
+          checkIns: checkIns.length
+        };
+      })
+      .filter(pattern => pattern.checkIns > 0);
+  }
+
+  /**
+   * Detect parts of the day when mood runs above or below the rest of the
+   * same day. Only days with several check-ins count, so a habit of logging
+   * good days in the morning and bad ones at night is not mistaken for a
+   * time-of-day effect.
+   */
+  public detectTimeOfDayPatterns(): MoodPattern[] {
+    const deviations: Partial<Record<TimeOfDay, number[]>> = {};
+
+    groupEntriesByDate(this.checkIns).forEach(checkIns => {
+      if (checkIns.length < 2) return;
+      const dayMean = checkIns.reduce((sum, e) => sum + e.mood, 0) / checkIns.length;
+      checkIns.forEach(entry => {
+        const timeOfDay = getTimeOfDay(entry.timestamp);
+        const values = deviations[timeOfDay] || [];
+        values.push(entry.mood - dayMean);
+        deviations[timeOfDay] = values;
+      });
+    });
+
+    const periodAverages = TIME_OF_DAY_ORDER
+      .filter(timeOfDay => (deviations[timeOfDay] || []).length >= MIN_CHECK_INS_PER_TIME_OF_DAY)
+      .map(timeOfDay => {
+        const values = deviations[timeOfDay] as number[];
+        return {
+          label: TIME_OF_DAY_LABELS[timeOfDay],
+          average: values.reduce((sum, value) => sum + value, 0) / values.length
+        };
+      });
+
+    if (periodAverages.length < 2) return [];
+
+    const maxDeviation = Math.max(...periodAverages.map(p => p.average));
+    const minDeviation = Math.min(...periodAverages.map(p => p.average));
+    const variation = maxDeviation - minDeviation;
+
+    if (variation < 0.5) return []; // No significant pattern
+
+    const peakTimes = periodAverages.filter(p => p.average >= maxDeviation - 0.3).map(p => p.label);
+    const lowTimes = periodAverages.filter(p => p.average <= minDeviation + 0.3).map(p => p.label);
+
+    return [{
+      patternType: 'time_of_day',
+      description: `Mood shifts by ${variation.toFixed(1)} points over the course of a day`,
+      strength: Math.min(1, variation / 3),
+      peakDays: peakTimes,
+      lowDays: lowTimes,
+      recommendations: [
+        `Best time of day (${peakTimes.join(', ')}) - schedule demanding tasks here`,
+        `Lowest time of day (${lowTimes.join(', ')}) - plan breaks and lighter activities`
+      ]
+    }];
+  }
+
+  /**
+   * How much mood moves within a day, over the days with several check-ins
+   */
+  public calculateIntradayVariability(): IntradayVariability {
+    const days = Array.from(groupEntriesByDate(this.checkIns).entries());
+    const multiCheckInDays = days
+      .filter(([, checkIns]) => checkIns.length > 1)
+      .map(([date, checkIns]) => {
+        const moods = checkIns.map(e => e.mood);
+        const mean = moods.reduce((sum, mood) => sum + mood, 0) / moods.length;
+        const variance = moods.reduce((sum, mood) => sum + Math.pow(mood - mean, 2), 0) / moods.length;
+        return { date, moodRange: Math.max(...moods) - Math.min(...moods), stdDev: Math.sqrt(variance) };
+      });
+
+    const count = multiCheckInDays.length;
+
+    return {
+      daysWithMultipleCheckIns: count,
+      averageCheckInsPerDay: days.length > 0 ? this.checkIns.length / days.length : 0,
+      averageMoodRange: count > 0 ? multiCheckInDays.reduce((sum, d) => sum + d.moodRange, 0) / count : 0,
+      averageMoodStdDev: count > 0 ? multiCheckInDays.reduce((sum, d) => sum + d.stdDev, 0) / count : 0,
+      mostVariableDays: multiCheckInDays
+        .filter(d => d.moodRange > 0)
+        .sort((a, b) => b.moodRange - a.moodRange)
+        .slice(0, 3)
+        .map(({ date, moodRange }) => ({ date, moodRange }))
+    };
+  }
+
+  /**
+   * Factors logged within changePointFactorWindowDays of a date, most often
+   * logged first, as candidate explanations for a change starting that day
+   */
+  private getFactorsNear(date: string): NearbyFactor[] {
+    const window = this.config.changePointFactorWindowDays;
+    const days = new Map<string, number>();
+
+    for (let offset = -window; offset <= window; offset++) {
+      const entry = this.entriesByDate.get(addDaysToKey(date, offset));
+      entry?.factors.forEach(factor => days.set(factor, (days.get(factor) || 0) + 1));
+    }
+
+    return Array.from(days.entries())
+      .map(([factor, count]) => ({
+        factor,
+        label: MOOD_FACTORS.find(option => option.id === factor)?.label ?? factor,
+        days: count
+      }))
+      .sort((a, b) => b.days - a.days);
+  }
+
+  /**
+   * Split each metric's logged days into segments with different means (see
+   * findChangePoints). Each change carries the means either side and the
+   * factors logged around it. There is no confidence: testing the segments
+   * PELT chose by their own difference would overstate it. Metrics no day
+   * recorded are left out.
+   */
+  public detectChangePoints(): ChangePointAnalysis[] {
+    return NUMERIC_METRICS.filter(metric => this.daysRecording(metric).length > 0).map(metric => {
+      const recordedDays = this.daysRecording(metric);
+      const values = recordedDays.map(entry => entry[metric]);
+      const starts = [0, ...findChangePoints(values, this.config.minSegmentDays), values.length];
+
+      const segments = starts.slice(0, -1).map((start, i) => {
+        const segmentValues = values.slice(start, starts[i + 1]);
+        return {
+          startDate: recordedDays[start].date,
+          endDate: recordedDays[starts[i + 1] - 1].date,
+          mean: mean(segmentValues),
+          days: segmentValues.length
+        };
+      });
+
+      const changePoints: ChangePoint[] = segments.slice(1).map((after, i) => ({
+        metric,
+        date: after.startDate,
+        beforeMean: segments[i].mean,
+        afterMean: after.mean,
+        nearbyFactors: this.getFactorsNear(after.startDate)
+      }));
+
+      return { metric, segments, changePoints };
+    });
+  }
+
+  /**
+   * Days that stand out from the anomalyBaselineDays before them, either in
+   * one metric (robust z-score against the rolling median and MAD) or in the
+   * combination of mood, energy, stress and sleep (Mahalanobis distance,
+   * tested against a chi-square). A metric is only compared on days that
+   * recorded it, and the combined test only runs when every one was. Most
+   * recent first.
+   */
+  public detectAnomalies(): AnomalousDay[] {
+    const anomalies: AnomalousDay[] = [];
+    const baselineDays = this.config.anomalyBaselineDays;
+    const threshold = this.config.anomalyZThreshold;
+    let windowStart = 0;
+
+    this.entries.forEach((entry, i) => {
+      const earliest = addDaysToKey(entry.date, -baselineDays);
+      while (this.entries[windowStart].date < earliest) windowStart++;
+      const baseline = this.entries.slice(windowStart, i);
+
+      const deviations: MetricDeviation[] = ANOMALY_METRICS
+        .filter(metric => isMetricRecorded(entry, metric))
+        .map(metric => ({ metric, values: baseline.filter(day => isMetricRecorded(day, metric)).map(day => day[metric]) }))
+        .filter(({ values }) => values.length >= this.config.minEntriesForTrends)
+        .map(({ metric, values }) => {
+          const center = median(values);
+          const scale = Math.max(robustStandardDeviation(values), MIN_METRIC_SD);
+          return { metric, value: entry[metric], baseline: center, zScore: (entry[metric] - center) / scale };
+        })
+        .sort((a, b) => Math.abs(b.zScore) - Math.abs(a.zScore));
+      if (deviations.length === 0) return;
+
+      const complete = baseline.filter(day => ANOMALY_METRICS.every(metric => isMetricRecorded(day, metric)));
+      let distanceSquared: number | null = null;
+      if (deviations.length === ANOMALY_METRICS.length && complete.length >= this.config.minEntriesForTrends) {
+        const means = ANOMALY_METRICS.map(metric => mean(complete.map(day => day[metric])));
+        const covariance = ANOMALY_METRICS.map((a, j) => ANOMALY_METRICS.map((b, k) => {
+          const value = complete.reduce((sum, day) => sum + (day[a] - means[j]) * (day[b] - means[k]), 0) /
+            (complete.length - 1);
+          return j === k ? Math.max(value, MIN_METRIC_SD * MIN_METRIC_SD) : value;
+        }));
+        const inverse = invertMatrix(covariance);
+        const offsets = ANOMALY_METRICS.map((metric, j) => entry[metric] - means[j]);
+        distanceSquared = inverse
+          ? offsets.reduce((sum, a, j) => sum + a * offsets.reduce((inner, b, k) => inner + inverse[j][k] * b, 0), 0)
+          : null;
+      }
+      const mahalanobisP = distanceSquared === null ? 1 : chiSquarePValue(distanceSquared, ANOMALY_METRICS.length);
+
+      const flaggedBy: AnomalousDay['flaggedBy'] = [];
+      if (Math.abs(deviations[0].zScore) >= threshold) flaggedBy.push('robust_z');
+      if (mahalanobisP < this.config.anomalySignificance) flaggedBy.push('mahalanobis');
+      if (flaggedBy.length === 0) return;
+
+      const describe = (deviation: MetricDeviation) =>
+        `${deviation.metric} ${Math.abs(deviation.zScore).toFixed(1)}σ ${deviation.zScore > 0 ? 'above' : 'below'} your ${baselineDays}-day baseline`;
+      const extreme = deviations.filter(deviation => Math.abs(deviation.zScore) >= threshold);
+      const zP = 2 * (1 - normalCdf(Math.abs(deviations[0].zScore)));
+
+      anomalies.push({
+        date: entry.date,
+        deviations,
+        mahalanobisDistance: distanceSquared === null ? null : Math.sqrt(distanceSquared),
+        flaggedBy,
+        explanations: extreme.length > 0
+          ? extreme.map(describe)
+          : [`Unusual mix of mood, energy, stress and sleep; furthest out: ${describe(deviations[0])}`],
+        confidence: Math.round((1 - Math.min(zP, mahalanobisP)) * 100)
+      });
+    });
+
+    return anomalies.reverse();
+  }
+
+  private toAnomalyInsight(anomaly: AnomalousDay): StatisticalInsight {
+    return {
+      type: 'anomaly',
+      title: `Unusual day on ${anomaly.date}`,
+      description: anomaly.explanations.join('; '),
+      confidence: anomaly.confidence,
+      recommendation: 'Look back at the notes and factors logged that day to see what was different.',
+      priority: anomaly.flaggedBy.length > 1 ? 'high' : 'medium'
+    };
+  }
+
+  /**
+   * Percentile bootstrap interval for Cohen's d, resampling each group with
+   * replacement. Seeded from the factor and metric so it is stable.
+   */
+  private bootstrapCohensD(a: number[], b: number[], seedKey: string): [number, number] {
+    const random = createSeededRandom(seedKey.split('').reduce((hash, char) => (hash * 31 + char.charCodeAt(0)) % 2147483647, 7));
+    const resample = (values: number[]) => values.map(() => values[Math.floor(random() * values.length)]);
+    const estimates = Array.from({ length: BOOTSTRAP_SAMPLES }, () => cohensD(resample(a), resample(b)))
+      .sort((x, y) => x - y);
+    const tail = this.config.confidenceThreshold / 2;
+
+    return [
+      estimates[Math.floor(tail * (BOOTSTRAP_SAMPLES - 1))],
+      estimates[Math.ceil((1 - tail) * (BOOTSTRAP_SAMPLES - 1))]
+    ];
+  }
+
+  /**
+   * Mood, energy and stress on days each MOOD_FACTORS factor was logged
+   * against days it was not, for factors with at least minFactorDays of
+   * each. Factors with the largest overall effect come first. A metric is
+   * compared only over the days that recorded it, and left out of a factor
+   * when either side has too few of those.
+   */
+  public analyzeFactorImpacts(): FactorImpact[] {
+    const recordedValues = (days: MoodEntry[], metric: FactorMetricImpact['metric']) =>
+      days.filter(entry => isMetricRecorded(entry, metric)).map(entry => entry[metric]);
+    const impacts = MOOD_FACTORS
+      .map(option => {
+        const withFactor = this.entries.filter(entry => entry.factors.indexOf(option.id) >= 0);
+        const withoutFactor = this.entries.filter(entry => entry.factors.indexOf(option.id) < 0);
+        const metrics = FACTOR_IMPACT_METRICS.filter(metric =>
+          recordedValues(withFactor, metric).length >= this.config.minFactorDays &&
+          recordedValues(withoutFactor, metric).length >= this.config.minFactorDays
+        );
+        return { option, withFactor, withoutFactor, metrics };
+      })
+      .filter(({ withFactor, withoutFactor, metrics }) =>
+        withFactor.length >= this.config.minFactorDays && withoutFactor.length >= this.config.minFactorDays &&
+        metrics.length > 0
+      );
+
+    // One family of tests across every factor and metric
+    const metricImpacts = this.adjustForMultipleTesting(
+      impacts.reduce<FactorMetricImpact[]>((all, { option, withFactor, withoutFactor, metrics }) => all.concat(
+        metrics.map(metric => {
+          const withValues = recordedValues(withFactor, metric);
+          const withoutValues = recordedValues(withoutFactor, metric);
+          const useTTest = withValues.length >= MIN_DAYS_FOR_T_TEST && withoutValues.length >= MIN_DAYS_FOR_T_TEST;
+          const significance = useTTest
+            ? this.welchTTest(withValues, withoutValues)
+            : mannWhitneyU(withValues, withoutValues).p;
+
+          return {
+            metric,
+            withMean: mean(withValues),
+            withoutMean: mean(withoutValues),
+            test: useTTest ? 'welch_t' as const : 'mann_whitney_u' as const,
+            cohensD: cohensD(withValues, withoutValues),
+            cohensDInterval: this.bootstrapCohensD(withValues, withoutValues, `${option.id}:${metric}`),
+            significance,
+            adjustedSignificance: significance,
+            isSignificant: false,
+            sampleSize: withValues.length + withoutValues.length
+          };
+        })
+      ), [])
+    );
+
+    let offset = 0;
+    return impacts
+      .map(({ option, withFactor, withoutFactor, metrics: tested }): FactorImpact => {
+        const metrics = metricImpacts.slice(offset, offset + tested.length);
+        offset += tested.length;
+        // Positive means better: more mood or energy, less stress
+        const benefit = (impact: FactorMetricImpact) => (impact.metric === 'stress' ? -impact.cohensD : impact.cohensD);
+        const directions = metrics.filter(impact => impact.isSignificant).map(impact => benefit(impact) > 0);
+
+        return {
+          factor: option.id,
+          label: option.label,
+          category: option.category,
+          daysWith: withFactor.length,
+          daysWithout: withoutFactor.length,
+          metrics,
+          effect: directions.length === 0 ? 'unclear'
+            : directions.every(Boolean) ? 'helps'
+            : directions.some(Boolean) ? 'mixed' : 'hurts',
+          score: mean(metrics.map(benefit))
+        };
+      })
+      .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+  }
+
   /**
    * Generate comprehensive insights combining all analytics
    */
   public generateAdvancedInsights(): AdvancedInsights {
     const correlations = this.calculateCorrelations();
     const trends = this.analyzeTrends();
-    const patterns = this.detectWeeklyPatterns();
+    const patterns = [...this.detectWeeklyPatterns(), ...this.detectTimeOfDayPatterns()];
     const optimizations = this.generateOptimizations();
+    const anomalies = this.detectAnomalies();
 
-    // Simple mood prediction based on recent trends
+    // Forecast from the best backtested model; until there are enough days,
+    // the last week's average stands in
+    const forecast = forecastMetric(this.entries, 'mood');
     const recentEntries = this.entries.slice(-7);
     const avgRecentMood = recentEntries.length > 0 
       ? recentEntries.reduce((sum, e) => sum + e.mood, 0) / recentEntries.length
       : 5;
-    
-    const moodTrend = trends.find(t => t.metric === 'mood');
-    const nextWeekMood = moodTrend 
-      ? Math.max(1, Math.min(10, avgRecentMood + (moodTrend.magnitude * (moodTrend.direction === 'increasing' ? 1 : -1))))
-      : avgRecentMood;
-
-    const predictionFactors = [
-      ...correlations.slice(0, 3).map(c => c.factor),
-      ...(moodTrend ? [`${moodTrend.direction} mood trend`] : [])
-    ];
+    const nextWeekMood = forecast ? mean(forecast.nextWeek.map(point => point.value)) : avgRecentMood;
+
+    const backtest = forecast && forecast.preferred.backtest;
+    const predictionFactors = forecast
+      ? [
+          forecast.preferred.description,
+          ...(backtest ? [`7-day backtest error ±${backtest.meanAbsoluteError.toFixed(1)}`] : [])
+        ]
+      : ['Average of the last 7 days'];
 
     return {
       correlations,
+      laggedCorrelations: this.calculateLaggedCorrelations(),
+      crossCorrelations: this.calculateCrossCorrelations(),
+      regression: this.fitMoodRegression(),
+      changePoints: this.detectChangePoints(),
+      anomalies,
+      factorImpacts: this.analyzeFactorImpacts(),
+      insights: anomalies.slice(0, MAX_ANOMALY_INSIGHTS).map(anomaly => this.toAnomalyInsight(anomaly)),
       trends,
       patterns,
+      timeOfDay: this.analyzeTimeOfDayPatterns(),
+      intradayVariability: this.calculateIntradayVariability(),
       optimizations,
       predictions: {
         nextWeekMood,
-        confidence: Math.min(90, this.entries.length * 3), // Confidence increases with more data
-        basedOn: predictionFactors
+        // How often held-out days fell inside the prediction interval
+        confidence: backtest ? Math.round(backtest.intervalCoverage * 100) : Math.min(90, this.entries.length * 3),
+        basedOn: predictionFactors,
+        forecast
       }
     };
   }
@@ -0,0 +1,292 @@
+// src/lib/mood-csv.ts
+import { MoodEntry, MOOD_ENTRY_SCHEMA_VERSION, MOOD_FACTORS } from '@/types/mood-tracker';
+import {
+  CsvColumnMapping,
+  CsvDateFormat,
+  CsvImportOptions,
+  CsvImportResult,
+  ImportRowError,
+  MoodCsvField,
+  RatedField,
+  RatingScale
+} from '@/types/mood-import';
+import { isImportableMoodEntry, migrateMoodEntry, normalizeFactorId } from '@/lib/mood-migration';
+import { moodEntrySchema, validateSchema } from '@/lib/backup/schema';
+import { toCsv } from '@/lib/csv';
+
+// Export column order; also the fields offered in the import mapping step
+export const MOOD_CSV_FIELDS: MoodCsvField[] = [
+  'id', 'date', 'timestamp', 'updatedAt', 'schemaVersion',
+  'mood', 'energy', 'stress', 'sleep', 'hydration', 'exercise', 'nutrition',
+  'notes', 'factors', 'weather', 'location', 'unrecordedMetrics'
+];
+
+export const REQUIRED_CSV_FIELDS: MoodCsvField[] = ['date', 'mood', 'energy', 'stress'];
+
+export const RATED_FIELDS: RatedField[] = ['mood', 'energy', 'stress', 'nutrition'];
+
+export const CSV_DATE_FORMATS: CsvDateFormat[] = ['YYYY-MM-DD', 'MM/DD/YYYY', 'DD/MM/YYYY', 'DD.MM.YYYY'];
+
+// Written between factor ids on export; import also accepts "|"
+export const FACTOR_DELIMITER = ';';
+
+const NUMERIC_FIELDS: MoodCsvField[] = ['mood', 'energy', 'stress', 'sleep', 'hydration', 'exercise', 'nutrition'];
+
+// Header spellings seen in spreadsheets and other apps, compared lowercase without punctuation
+const HEADER_ALIASES: Partial<Record<MoodCsvField, string[]>> = {
+  id: ['id', 'entryid'],
+  date: ['date', 'day', 'fulldate', 'entrydate'],
+  timestamp: ['timestamp', 'time', 'datetime', 'createdat', 'loggedat'],
+  updatedAt: ['updatedat', 'modified', 'lastmodified'],
+  mood: ['mood', 'moodscore', 'moodrating', 'rating'],
+  energy: ['energy', 'energylevel'],
+  stress: ['stress', 'stresslevel', 'anxiety'],
+  sleep: ['sleep', 'sleephours', 'hoursslept', 'hoursofsleep'],
+  hydration: ['hydration', 'water', 'glassesofwater'],
+  exercise: ['exercise', 'exerciseminutes', 'workout', 'activityminutes'],
+  nutrition: ['nutrition', 'diet', 'food'],
+  notes: ['notes', 'note', 'journal', 'comment', 'comments'],
+  factors: ['factors', 'tags', 'activities'],
+  weather: ['weather'],
+  location: ['location', 'place'],
+};
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+/**
+ * Export entries with one column per MoodEntry field; factors and unrecorded
+ * metrics become delimited lists
+ */
+export const moodEntriesToCsv = (entries: MoodEntry[]): string =>
+  toCsv([
+    MOOD_CSV_FIELDS,
+    ...entries.map(entry => MOOD_CSV_FIELDS.map(field => {
+      if (field === 'factors') return entry.factors.join(FACTOR_DELIMITER);
+      if (field === 'unrecordedMetrics') return (entry.unrecordedMetrics || []).join(FACTOR_DELIMITER);
+      return entry[field];
+    }))
+  ]);
+
+/**
+ * Best-effort field -> column mapping from the header row
+ */
+export const guessColumnMapping = (headers: string[]): CsvColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const mapping: CsvColumnMapping = {};
+
+  MOOD_CSV_FIELDS.forEach(field => {
+    const aliases = HEADER_ALIASES[field] || [normalizeHeader(field)];
+    const index = normalized.findIndex(header => aliases.indexOf(header) >= 0);
+    if (index >= 0) mapping[field] = index;
+  });
+
+  return mapping;
+};
+
+const isValidDay = (year: number, month: number, day: number) => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+};
+
+const pad = (value: number) => (value < 10 ? `0${value}` : String(value));
+
+/**
+ * Parse a date cell in the given format to a YYYY-MM-DD key, or null if it doesn't fit
+ */
+export const parseCsvDate = (value: string, format: CsvDateFormat): string | null => {
+  const trimmed = value.trim();
+  let parts: number[] | null = null;
+
+  if (format === 'YYYY-MM-DD') {
+    // Also accepts full ISO timestamps; only the day is kept
+    const match = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (match) parts = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else {
+    const separator = format === 'DD.MM.YYYY' ? '\\.' : '/';
+    const match = trimmed.match(new RegExp(`^(\\d{1,2})${separator}(\\d{1,2})${separator}(\\d{4})`));
+    if (match) {
+      const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+      parts = format === 'MM/DD/YYYY' ? [year, first, second] : [year, second, first];
+    }
+  }
+
+  if (!parts || !isValidDay(parts[0], parts[1], parts[2])) return null;
+  return `${parts[0]}-${pad(parts[1])}-${pad(parts[2])}`;
+};
+
+/**
+ * Pick the format that reads the most samples, so a few typos don't defeat
+ * detection. US dates win ties between MM/DD and DD/MM unless a day above 12
+ * settles it.
+ */
+export const detectDateFormat = (values: string[]): CsvDateFormat => {
+  const samples = values.filter(value => value.trim() !== '').slice(0, 200);
+  const scores = CSV_DATE_FORMATS.map(format => samples.filter(value => parseCsvDate(value, format) !== null).length);
+  const best = scores.indexOf(Math.max(...scores));
+  return scores[best] > 0 ? CSV_DATE_FORMATS[best] : 'YYYY-MM-DD';
+};
+
+const parseNumber = (value: string): number => {
+  const trimmed = value.trim();
+  if (trimmed === '') return NaN;
+  // Decimal commas from European spreadsheets
+  return Number(/^-?\d+,\d+$/.test(trimmed) ? trimmed.replace(',', '.') : trimmed);
+};
+
+/**
+ * A column of whole-number scores that never exceed 5 is assumed to be on a
+ * 1-5 scale; fractional scores only come from 1-10 data (e.g. our own exports)
+ */
+export const detectRatingScale = (values: string[]): RatingScale => {
+  const numbers = values.map(parseNumber).filter(value => !isNaN(value));
+  if (numbers.length === 0 || numbers.some(value => value % 1 !== 0)) return 10;
+  return Math.max(...numbers) <= 5 ? 5 : 10;
+};
+
+// 1 -> 1, 3 -> 5.5, 5 -> 10
+export const rescaleRating = (value: number, scale: RatingScale): number =>
+  scale === 10 ? value : 1 + ((value - 1) * 9) / 4;
+
+/**
+ * Mapping, date format and scales guessed from the header and data rows
+ */
+export const suggestCsvImportOptions = (rows: string[][]): CsvImportOptions => {
+  const [headers = [], ...data] = rows;
+  const mapping = guessColumnMapping(headers);
+  // A schemaVersion column means the file came from our own CSV export
+  const isOwnExport = mapping.schemaVersion !== undefined;
+  const column = (field: MoodCsvField) =>
+    mapping[field] === undefined ? [] : data.map(row => row[mapping[field] as number] || '');
+  const scaleOf = (field: RatedField) => isOwnExport ? 10 : detectRatingScale(column(field));
+
+  return {
+    mapping,
+    dateFormat: detectDateFormat(column('date')),
+    scales: {
+      mood: scaleOf('mood'),
+      energy: scaleOf('energy'),
+      stress: scaleOf('stress'),
+      nutrition: scaleOf('nutrition'),
+    },
+    unknownFactors: 'keep',
+  };
+};
+
+const isKnownFactor = (factorId: string) => MOOD_FACTORS.some(factor => factor.id === factorId);
+
+/**
+ * Convert CSV rows (header first) to canonical entries using the mapping step's
+ * choices. Every bad row is reported with its line number and column instead
+ * of aborting the import.
+ */
+export const parseMoodCsv = (rows: string[][], options: CsvImportOptions): CsvImportResult => {
+  const [headers = [], ...data] = rows;
+  const { mapping } = options;
+  const errors: ImportRowError[] = [];
+  const entries: MoodEntry[] = [];
+  const unknownFactors = new Set<string>();
+
+  const missing = REQUIRED_CSV_FIELDS.filter(field => mapping[field] === undefined);
+  if (missing.length > 0) {
+    return {
+      entries,
+      errors: [{ row: 1, message: `Map a column to: ${missing.join(', ')}` }],
+      totalRows: data.length,
+      unknownFactors: []
+    };
+  }
+
+  const columnName = (field: MoodCsvField) => headers[mapping[field] as number] || field;
+
+  data.forEach((row, index) => {
+    const line = index + 2;
+    const rowErrors: ImportRowError[] = [];
+    const cell = (field: MoodCsvField) => mapping[field] === undefined ? undefined : (row[mapping[field] as number] || '').trim();
+    const raw: Record<string, unknown> = { schemaVersion: MOOD_ENTRY_SCHEMA_VERSION };
+
+    const date = parseCsvDate(cell('date') || '', options.dateFormat);
+    if (!date) {
+      rowErrors.push({ row: line, column: columnName('date'), message: `"${cell('date')}" is not a ${options.dateFormat} date` });
+    }
+    raw.date = date;
+
+    // Without a time column, pin the entry to midday local time so the day never shifts
+    const timestamp = cell('timestamp');
+    if (timestamp) {
+      raw.timestamp = timestamp;
+    } else if (date) {
+      const [year, month, day] = date.split('-').map(Number);
+      raw.timestamp = new Date(year, month - 1, day, 12).toISOString();
+    }
+
+    NUMERIC_FIELDS.forEach(field => {
+      const value = cell(field);
+      if (value === undefined || value === '') return;
+
+      let number = parseNumber(value);
+      if (isNaN(number)) {
+        rowErrors.push({ row: line, column: columnName(field), message: `"${value}" is not a number` });
+        return;
+      }
+
+      const scale = (RATED_FIELDS as string[]).indexOf(field) >= 0 ? options.scales[field as RatedField] : null;
+      if (scale) {
+        if (number < 1 || number > scale) {
+          rowErrors.push({ row: line, column: columnName(field), message: `${number} is outside the 1-${scale} scale` });
+          return;
+        }
+        number = Math.round(rescaleRating(number, scale) * 10) / 10;
+      }
+      raw[field] = number;
+    });
+
+    const factorCell = cell('factors');
+    if (factorCell) {
+      const factors = factorCell.split(/[;|]/).map(f => f.trim()).filter(Boolean).map(normalizeFactorId);
+      const unknown = factors.filter(factorId => !isKnownFactor(factorId));
+      unknown.forEach(factorId => unknownFactors.add(factorId));
+
+      if (unknown.length > 0 && options.unknownFactors === 'reject') {
+        rowErrors.push({ row: line, column: columnName('factors'), message: `Unknown factors: ${unknown.join(', ')}` });
+      }
+      raw.factors = options.unknownFactors === 'drop' ? factors.filter(isKnownFactor) : factors;
+    }
+
+    // Blank or unmapped metrics, plus any our own export listed; migration
+    // drops anything that is not a metric name
+    raw.unrecordedMetrics = [
+      ...NUMERIC_FIELDS.filter(field => raw[field] === undefined),
+      ...(cell('unrecordedMetrics') || '').split(/[;|]/).map(metric => metric.trim()).filter(Boolean),
+    ];
+
+    (['id', 'updatedAt', 'notes', 'weather', 'location'] as MoodCsvField[]).forEach(field => {
+      const value = cell(field);
+      if (value) raw[field] = value;
+    });
+
+    if (rowErrors.length > 0) {
+      errors.push(...rowErrors);
+      return;
+    }
+
+    const entry = migrateMoodEntry(raw);
+    if (!entry || !isImportableMoodEntry(entry)) {
+      errors.push({ row: line, message: 'Missing a date or mood, energy and stress scores' });
+      return;
+    }
+
+    // Same range checks a backup restore applies
+    const issues = validateSchema(entry, moodEntrySchema, '');
+    if (issues.length > 0) {
+      issues.forEach(issue => {
+        const field = issue.path.split(/[.[]/)[0] as MoodCsvField;
+        errors.push({ row: line, column: mapping[field] === undefined ? field : columnName(field), message: issue.message });
+      });
+      return;
+    }
+
+    entries.push(entry);
+  });
+
+  return { entries, errors, totalRows: data.length, unknownFactors: Array.from(unknownFactors) };
+};
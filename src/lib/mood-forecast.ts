@@ -0,0 +1,329 @@
+// src/lib/mood-forecast.ts
+import {
+  ForecastBacktest,
+  ForecastModelResult,
+  ForecastPoint,
+  MoodEntry,
+  MoodEntryNumericKeys,
+  MoodForecast
+} from '@/types/mood-tracker';
+import { rollupDailyEntries } from '@/lib/check-ins';
+import { addDaysToKey, isMetricRecorded } from '@/lib/mood-queries';
+import { fitLeastSquares, mean, normalQuantile } from '@/lib/statistics';
+
+export interface DailyValue {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+const SEASON_LENGTH = 7;
+const FORECAST_DAYS = 30;
+const BACKTEST_HORIZON = 7;
+const MAX_BACKTEST_FOLDS = 5;
+const MAX_AR_ORDER = 7;
+const INTERVAL_LEVEL = 0.95;
+
+// Two weeks start the seasonal model; a third is held out to test it
+export const MIN_FORECAST_DAYS = 3 * SEASON_LENGTH;
+
+// Forecasts and their intervals are kept inside each metric's scale
+const METRIC_RANGES: Record<MoodEntryNumericKeys, [number, number]> = {
+  mood: [1, 10],
+  energy: [1, 10],
+  stress: [1, 10],
+  nutrition: [1, 10],
+  sleep: [0, 12],
+  hydration: [0, 15],
+  exercise: [0, 120]
+};
+
+// Smoothing parameters the Holt-Winters fit searches
+const HOLT_WINTERS_GRID = {
+  alpha: [0.1, 0.3, 0.5, 0.7, 0.9],
+  beta: [0.01, 0.05, 0.15],
+  gamma: [0.05, 0.15, 0.3],
+  phi: [0.8, 0.9, 0.98]
+};
+
+interface DailySeries {
+  startDate: string;
+  values: number[]; // One per day; days without a check-in are interpolated
+  observed: boolean[];
+}
+
+interface FittedModel {
+  model: ForecastModelResult['model'];
+  description: string;
+  forecast: (horizon: number) => { values: number[]; standardErrors: number[] };
+}
+
+type ModelFitter = (values: number[]) => FittedModel | null;
+
+/**
+ * One value per calendar day from the first to the last logged one. Several
+ * values on a day are averaged; days in between are filled in linearly.
+ */
+const toDailySeries = (points: DailyValue[]): DailySeries | null => {
+  const byDate = new Map<string, number[]>();
+  points.forEach(({ date, value }) => {
+    const day = byDate.get(date);
+    if (day) {
+      day.push(value);
+    } else {
+      byDate.set(date, [value]);
+    }
+  });
+
+  const dates = Array.from(byDate.keys()).sort();
+  if (dates.length === 0) return null;
+
+  const values: number[] = [];
+  const observed: boolean[] = [];
+  for (let date = dates[0]; date <= dates[dates.length - 1]; date = addDaysToKey(date, 1)) {
+    const day = byDate.get(date);
+    values.push(day ? mean(day) : NaN);
+    observed.push(Boolean(day));
+  }
+
+  let previous = 0;
+  values.forEach((value, i) => {
+    if (observed[i]) {
+      previous = i;
+      return;
+    }
+    let next = i + 1;
+    while (!observed[next]) next++;
+    values[i] = values[previous] + ((values[next] - values[previous]) * (i - previous)) / (next - previous);
+  });
+
+  return { startDate: dates[0], values, observed };
+};
+
+const runHoltWinters = (values: number[], alpha: number, beta: number, gamma: number, phi: number) => {
+  const firstSeason = values.slice(0, SEASON_LENGTH);
+  let level = mean(firstSeason);
+  let trend = (mean(values.slice(SEASON_LENGTH, 2 * SEASON_LENGTH)) - level) / SEASON_LENGTH;
+  const seasonal = firstSeason.map(value => value - level);
+  let sumOfSquares = 0;
+
+  for (let t = SEASON_LENGTH; t < values.length; t++) {
+    const season = seasonal[t % SEASON_LENGTH];
+    const error = values[t] - (level + phi * trend + season);
+    sumOfSquares += error * error;
+
+    const previousLevel = level;
+    level = alpha * (values[t] - season) + (1 - alpha) * (previousLevel + phi * trend);
+    trend = beta * (level - previousLevel) + (1 - beta) * phi * trend;
+    seasonal[t % SEASON_LENGTH] = gamma * (values[t] - level) + (1 - gamma) * season;
+  }
+
+  return { level, trend, seasonal, sumOfSquares };
+};
+
+/**
+ * Additive Holt-Winters with a damped trend and weekly seasonality; the
+ * smoothing parameters minimise the one-step-ahead squared error
+ */
+const fitHoltWinters: ModelFitter = values => {
+  if (values.length < 2 * SEASON_LENGTH) return null;
+
+  let best: (ReturnType<typeof runHoltWinters> & { alpha: number; beta: number; gamma: number; phi: number }) | null = null;
+  for (const alpha of HOLT_WINTERS_GRID.alpha) {
+    for (const beta of HOLT_WINTERS_GRID.beta) {
+      for (const gamma of HOLT_WINTERS_GRID.gamma) {
+        for (const phi of HOLT_WINTERS_GRID.phi) {
+          const run = runHoltWinters(values, alpha, beta, gamma, phi);
+          if (!best || run.sumOfSquares < best.sumOfSquares) best = { ...run, alpha, beta, gamma, phi };
+        }
+      }
+    }
+  }
+  if (!best) return null;
+
+  const { level, trend, seasonal, sumOfSquares, alpha, beta, gamma, phi } = best;
+  const n = values.length;
+  const residualVariance = sumOfSquares / (n - SEASON_LENGTH);
+
+  return {
+    model: 'holt_winters',
+    description: `Holt-Winters, weekly seasonality (α ${alpha}, β ${beta}, γ ${gamma}, φ ${phi})`,
+    forecast: horizon => {
+      const forecastValues: number[] = [];
+      const standardErrors: number[] = [];
+      let dampedSum = 0;
+      let varianceFactor = 1;
+      for (let h = 1; h <= horizon; h++) {
+        // Error-correction weights of the damped additive model
+        if (h > 1) {
+          const c = alpha * (1 + beta * dampedSum) + (((h - 1) % SEASON_LENGTH === 0) ? gamma : 0);
+          varianceFactor += c * c;
+        }
+        dampedSum += Math.pow(phi, h);
+        forecastValues.push(level + dampedSum * trend + seasonal[(n + h - 1) % SEASON_LENGTH]);
+        standardErrors.push(Math.sqrt(residualVariance * varianceFactor));
+      }
+      return { values: forecastValues, standardErrors };
+    }
+  };
+};
+
+/**
+ * Autoregressive model with an intercept, its order (up to a week) picked by
+ * AIC. Every order is fit on the same days so their AICs are comparable.
+ */
+const fitAutoregressive: ModelFitter = values => {
+  const maxOrder = Math.min(MAX_AR_ORDER, Math.floor(values.length / 4));
+  let best: { order: number; coefficients: number[]; variance: number; aic: number } | null = null;
+
+  for (let order = 1; order <= maxOrder; order++) {
+    const rows: number[][] = [];
+    const targets: number[] = [];
+    for (let t = maxOrder; t < values.length; t++) {
+      rows.push([1, ...values.slice(t - order, t).reverse()]);
+      targets.push(values[t]);
+    }
+
+    const fit = fitLeastSquares(rows, targets, 0);
+    if (!fit) continue;
+    const count = targets.length;
+    const aic = count * Math.log(Math.max(fit.residualSumOfSquares / count, 1e-12)) + 2 * (order + 1);
+    if (!best || aic < best.aic) {
+      best = {
+        order,
+        coefficients: fit.coefficients,
+        variance: fit.residualSumOfSquares / (count - order - 1),
+        aic
+      };
+    }
+  }
+  if (!best) return null;
+
+  const { order, coefficients, variance, aic } = best;
+  const [intercept, ...weights] = coefficients;
+
+  return {
+    model: 'autoregressive',
+    description: `AR(${order}) (AIC ${aic.toFixed(1)})`,
+    forecast: horizon => {
+      const history = values.slice(-order);
+      const forecastValues: number[] = [];
+      const standardErrors: number[] = [];
+      // Moving-average (ψ) weights give the growth of the forecast variance
+      const psi = [1];
+      let psiSumOfSquares = 0;
+
+      for (let h = 1; h <= horizon; h++) {
+        const next = weights.reduce((sum, weight, i) => sum + weight * history[history.length - 1 - i], intercept);
+        history.push(next);
+        forecastValues.push(next);
+
+        psiSumOfSquares += psi[h - 1] * psi[h - 1];
+        standardErrors.push(Math.sqrt(variance * psiSumOfSquares));
+        psi.push(weights.reduce((sum, weight, i) => (h - 1 - i >= 0 ? sum + weight * psi[h - 1 - i] : sum), 0));
+      }
+      return { values: forecastValues, standardErrors };
+    }
+  };
+};
+
+const clamp = (value: number, [min, max]: [number, number]): number => Math.min(max, Math.max(min, value));
+
+const toForecastPoints = (
+  model: FittedModel,
+  startDate: string,
+  horizon: number,
+  range: [number, number]
+): ForecastPoint[] => {
+  const { values, standardErrors } = model.forecast(horizon);
+  const z = normalQuantile(1 - (1 - INTERVAL_LEVEL) / 2);
+  return values.map((value, i) => ({
+    date: addDaysToKey(startDate, i),
+    value: clamp(value, range),
+    lower: clamp(value - z * standardErrors[i], range),
+    upper: clamp(value + z * standardErrors[i], range)
+  }));
+};
+
+/**
+ * Score a model on its forecasts of the last few weeks, one week per fold,
+ * each refit on only the days before that week
+ */
+const backtestModel = (series: DailySeries, fitter: ModelFitter, range: [number, number]): ForecastBacktest | null => {
+  const errors: number[] = [];
+  let covered = 0;
+  let folds = 0;
+
+  for (let fold = MAX_BACKTEST_FOLDS; fold >= 1; fold--) {
+    const origin = series.values.length - fold * BACKTEST_HORIZON;
+    if (origin < 2 * SEASON_LENGTH) continue;
+    const model = fitter(series.values.slice(0, origin));
+    if (!model) continue;
+
+    folds++;
+    toForecastPoints(model, addDaysToKey(series.startDate, origin), BACKTEST_HORIZON, range).forEach((point, h) => {
+      if (!series.observed[origin + h]) return;
+      const actual = series.values[origin + h];
+      errors.push(actual - point.value);
+      if (actual >= point.lower && actual <= point.upper) covered++;
+    });
+  }
+
+  if (errors.length === 0) return null;
+  return {
+    horizon: BACKTEST_HORIZON,
+    folds,
+    meanAbsoluteError: mean(errors.map(Math.abs)),
+    rootMeanSquaredError: Math.sqrt(mean(errors.map(error => error * error))),
+    intervalCoverage: covered / errors.length
+  };
+};
+
+/**
+ * Forecast a daily series 30 days past its last logged day with every model
+ * that fits it. The model with the lowest backtest error is preferred; null
+ * while the series spans fewer than MIN_FORECAST_DAYS days.
+ */
+export const forecastSeries = (points: DailyValue[], metric: MoodEntryNumericKeys): MoodForecast | null => {
+  const series = toDailySeries(points);
+  if (!series || series.values.length < MIN_FORECAST_DAYS) return null;
+
+  const range = METRIC_RANGES[metric];
+  const lastDate = addDaysToKey(series.startDate, series.values.length - 1);
+  const models: ForecastModelResult[] = [];
+
+  [fitHoltWinters, fitAutoregressive].forEach(fitter => {
+    const model = fitter(series.values);
+    if (!model) return;
+    models.push({
+      model: model.model,
+      description: model.description,
+      points: toForecastPoints(model, addDaysToKey(lastDate, 1), FORECAST_DAYS, range),
+      backtest: backtestModel(series, fitter, range)
+    });
+  });
+  if (models.length === 0) return null;
+
+  const score = (result: ForecastModelResult) => result.backtest ? result.backtest.meanAbsoluteError : Infinity;
+  const preferred = models.reduce((best, result) => (score(result) < score(best) ? result : best));
+
+  return {
+    lastDate,
+    intervalLevel: INTERVAL_LEVEL,
+    models,
+    preferred,
+    nextWeek: preferred.points.slice(0, 7),
+    nextMonth: preferred.points
+  };
+};
+
+/**
+ * Forecast one metric from mood entries, a day at a time, over the days
+ * that recorded it
+ */
+export const forecastMetric = (entries: MoodEntry[], metric: MoodEntryNumericKeys): MoodForecast | null =>
+  forecastSeries(
+    rollupDailyEntries(entries)
+      .filter(entry => isMetricRecorded(entry, metric))
+      .map(entry => ({ date: entry.date, value: entry[metric] })),
+    metric
+  );
@@ -0,0 +1,270 @@
+// src/lib/mood-migration.ts
+import {
+  MoodEntry,
+  MoodEntryNumericKeys,
+  MOOD_ENTRY_NUMERIC_KEYS,
+  MOOD_ENTRY_SCHEMA_VERSION,
+  MOOD_FACTORS
+} from '@/types/mood-tracker';
+import { DEFAULT_PROFILE_ID, scopedStorageKey } from '@/lib/profiles';
+
+export const MOOD_STORAGE_KEY = 'herflowstate-mood-entries';
+export const MOOD_BACKUP_KEY = 'herflowstate-mood-backup';
+export const MOOD_QUARANTINE_KEY = 'herflowstate-mood-quarantine';
+
+/**
+ * Every shape that has been written to MOOD_STORAGE_KEY over time:
+ * - tracker-v1: useMoodTracker (numeric exercise, factors, nutrition, timestamp)
+ * - daily-entry-v1: MoodDataProvider and the entry page (boolean exercise, tags, createdAt/updatedAt)
+ * - calendar-v1: the chart components (Date timestamp, activities, correlationFactors)
+ */
+export type MoodEntryShape = 'canonical' | 'tracker-v1' | 'daily-entry-v1' | 'calendar-v1';
+
+export interface MoodMigrationResult {
+  entries: MoodEntry[];
+  migrated: number; // Records upgraded from a legacy shape
+  quarantined: unknown[]; // Records that could not be understood
+}
+
+// Minutes recorded for a legacy "I exercised today" checkbox
+export const LEGACY_EXERCISE_MINUTES = 30;
+
+// Neutral value for fields the legacy shapes never collected
+const DEFAULT_NUTRITION = 5;
+
+// Legacy free-form tags that have a direct MOOD_FACTORS equivalent
+const LEGACY_TAG_FACTORS: Record<string, string> = {
+  'work-stress': 'work_stress',
+  'anxious': 'anxiety',
+  'productive': 'achievement',
+  'social': 'social_interaction',
+  'travel': 'travel',
+  'sick': 'illness',
+};
+
+type RawRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is RawRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toNumber = (value: unknown, fallback: number): number => {
+  const num = typeof value === 'string' ? Number(value) : value;
+  return typeof num === 'number' && Number.isFinite(num) ? num : fallback;
+};
+
+const toIsoString = (value: unknown): string | null => {
+  if (value instanceof Date) return isNaN(value.getTime()) ? null : value.toISOString();
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? null : date.toISOString();
+  }
+  return null;
+};
+
+const toStringList = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string' && item.length > 0) : [];
+
+/**
+ * Map a legacy tag or activity onto a MOOD_FACTORS id, keeping unknown
+ * values (normalised to snake_case) so no user data is lost
+ */
+export const normalizeFactorId = (tag: string): string => {
+  const trimmed = tag.trim();
+  if (LEGACY_TAG_FACTORS[trimmed]) return LEGACY_TAG_FACTORS[trimmed];
+
+  const normalized = trimmed.toLowerCase().replace(/[\s-]+/g, '_');
+  const known = MOOD_FACTORS.find(f => f.id === normalized || f.label.toLowerCase() === trimmed.toLowerCase());
+  return known ? known.id : normalized;
+};
+
+const uniqueFactors = (factors: string[]): string[] =>
+  Array.from(new Set(factors.map(normalizeFactorId).filter(Boolean)));
+
+export const createMoodEntryId = (): string =>
+  `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+/**
+ * Detect which historical shape a stored record was written in
+ */
+export const detectMoodEntryShape = (raw: unknown): MoodEntryShape | null => {
+  if (!isRecord(raw)) return null;
+
+  if (raw.schemaVersion === MOOD_ENTRY_SCHEMA_VERSION) return 'canonical';
+  if (isRecord(raw.correlationFactors) || Array.isArray(raw.activities)) return 'calendar-v1';
+  if (typeof raw.exercise === 'boolean' || Array.isArray(raw.tags) || 'createdAt' in raw) return 'daily-entry-v1';
+  if (typeof raw.exercise === 'number' || Array.isArray(raw.factors) || 'timestamp' in raw) return 'tracker-v1';
+
+  return null;
+};
+
+/**
+ * Upgrade a single stored record of any known shape to the canonical MoodEntry.
+ * Returns null when the record lacks the minimum we need (a date and a mood score).
+ */
+export const migrateMoodEntry = (raw: unknown): MoodEntry | null => {
+  const shape = detectMoodEntryShape(raw);
+  if (!shape || !isRecord(raw)) return null;
+
+  const correlationFactors = isRecord(raw.correlationFactors) ? raw.correlationFactors : {};
+
+  const timestamp =
+    toIsoString(raw.timestamp) ??
+    toIsoString(raw.createdAt) ??
+    (typeof raw.date === 'string' ? toIsoString(raw.date) : null);
+  const date =
+    typeof raw.date === 'string' && /^\d{4}-\d{2}-\d{2}/.test(raw.date)
+      ? raw.date.slice(0, 10)
+      : timestamp?.split('T')[0];
+
+  const mood = toNumber(raw.mood, NaN);
+  if (!date || !timestamp || isNaN(mood)) return null;
+
+  let exercise: number;
+  if (typeof raw.exercise === 'boolean') {
+    exercise = raw.exercise ? LEGACY_EXERCISE_MINUTES : 0;
+  } else if (typeof correlationFactors.exercise === 'boolean') {
+    exercise = correlationFactors.exercise ? LEGACY_EXERCISE_MINUTES : 0;
+  } else {
+    exercise = toNumber(raw.exercise, 0);
+  }
+
+  const factors = [...toStringList(raw.factors), ...toStringList(raw.tags), ...toStringList(raw.activities)];
+  if (typeof correlationFactors.cycle === 'string' && correlationFactors.cycle.length > 0) {
+    factors.push('menstrual_cycle');
+  }
+  if (correlationFactors.socialActivity === true) {
+    factors.push('social_interaction');
+  }
+
+  const weather =
+    typeof raw.weather === 'string' ? raw.weather :
+    typeof correlationFactors.weather === 'string' && correlationFactors.weather ? correlationFactors.weather :
+    undefined;
+
+  const entry: MoodEntry = {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createMoodEntryId(),
+    schemaVersion: MOOD_ENTRY_SCHEMA_VERSION,
+    date,
+    timestamp,
+    updatedAt: toIsoString(raw.updatedAt) ?? timestamp,
+    mood,
+    energy: toNumber(raw.energy, 5),
+    stress: toNumber(raw.stress, 5),
+    sleep: toNumber(raw.sleep, 0),
+    hydration: toNumber(raw.hydration, 0),
+    exercise,
+    nutrition: toNumber(raw.nutrition, DEFAULT_NUTRITION),
+    notes: typeof raw.notes === 'string' ? raw.notes : '',
+    factors: uniqueFactors(factors),
+  };
+
+  if (weather) entry.weather = weather;
+  if (typeof raw.location === 'string') entry.location = raw.location;
+
+  const unrecordedMetrics = toStringList(raw.unrecordedMetrics)
+    .filter((metric): metric is MoodEntryNumericKeys => MOOD_ENTRY_NUMERIC_KEYS.indexOf(metric as MoodEntryNumericKeys) >= 0);
+  if (unrecordedMetrics.length > 0) entry.unrecordedMetrics = unrecordedMetrics;
+
+  return entry;
+};
+
+/**
+ * Minimum an imported entry needs before it is merged into the store.
+ * Shared by the JSON and CSV importers.
+ */
+export const isImportableMoodEntry = (entry: MoodEntry): boolean =>
+  Boolean(
+    entry.id &&
+    entry.date &&
+    typeof entry.mood === 'number' &&
+    typeof entry.energy === 'number' &&
+    typeof entry.stress === 'number'
+  );
+
+/**
+ * Sort entries chronologically by day, then by time logged
+ */
+export const sortMoodEntries = (entries: MoodEntry[]): MoodEntry[] =>
+  [...entries].sort((a, b) =>
+    a.date === b.date ? a.timestamp.localeCompare(b.timestamp) : a.date.localeCompare(b.date)
+  );
+
+/**
+ * Upgrade a whole stored collection. Duplicate ids (the same record written
+ * by two different screens) keep the most recently updated copy.
+ */
+export const migrateMoodEntries = (raw: unknown): MoodMigrationResult => {
+  const records = Array.isArray(raw) ? raw : isRecord(raw) && Array.isArray(raw.entries) ? raw.entries : [];
+  const byId = new Map<string, MoodEntry>();
+  const quarantined: unknown[] = [];
+  let migrated = 0;
+
+  records.forEach(record => {
+    const entry = migrateMoodEntry(record);
+    if (!entry) {
+      quarantined.push(record);
+      return;
+    }
+
+    if (detectMoodEntryShape(record) !== 'canonical') migrated++;
+
+    const existing = byId.get(entry.id);
+    if (!existing || existing.updatedAt < entry.updatedAt) {
+      byId.set(entry.id, entry);
+    }
+  });
+
+  return {
+    entries: sortMoodEntries(Array.from(byId.values())),
+    migrated,
+    quarantined,
+  };
+};
+
+const readJson = (key: string): unknown => {
+  const saved = localStorage.getItem(key);
+  if (!saved) return null;
+  try {
+    return JSON.parse(saved);
+  } catch (err) {
+    console.error(`Error parsing ${key}:`, err);
+    return null;
+  }
+};
+
+/**
+ * Load mood entries from localStorage, upgrading legacy records in place.
+ * Falls back to the backup key when the main key is unreadable, and moves
+ * records that cannot be migrated to a quarantine key instead of dropping them.
+ */
+export const loadMoodEntries = (profileId: string = DEFAULT_PROFILE_ID): MoodEntry[] => {
+  if (typeof window === 'undefined') return [];
+
+  const storageKey = scopedStorageKey(MOOD_STORAGE_KEY, profileId);
+  const quarantineKey = scopedStorageKey(MOOD_QUARANTINE_KEY, profileId);
+  const primary = readJson(storageKey);
+  const raw = primary ?? readJson(scopedStorageKey(MOOD_BACKUP_KEY, profileId));
+  if (!raw) return [];
+
+  const result = migrateMoodEntries(raw);
+
+  if (result.quarantined.length > 0) {
+    const previous = readJson(quarantineKey);
+    const quarantine = [...(Array.isArray(previous) ? previous : []), ...result.quarantined];
+    localStorage.setItem(quarantineKey, JSON.stringify(quarantine));
+    console.warn(`Quarantined ${result.quarantined.length} unreadable mood entries`);
+  }
+
+  if (primary === null || result.migrated > 0 || result.quarantined.length > 0) {
+    localStorage.setItem(storageKey, JSON.stringify(result.entries));
+  }
+
+  return result.entries;
+};
+
+/**
+ * Persist canonical entries to the profile's storage key
+ */
+export const saveMoodEntries = (entries: MoodEntry[], profileId: string = DEFAULT_PROFILE_ID): void => {
+  localStorage.setItem(scopedStorageKey(MOOD_STORAGE_KEY, profileId), JSON.stringify(sortMoodEntries(entries)));
+};
@@ -0,0 +1,103 @@
+// src/lib/mood-queries.ts
+import { MoodEntry, MoodEntryNumericKeys } from '@/types/mood-tracker';
+
+/**
+ * Normalise a Date or date/ISO string to the YYYY-MM-DD key entries are stored under
+ */
+export const toDateKey = (date: string | Date): string =>
+  typeof date === 'string' ? date.slice(0, 10) : date.toISOString().split('T')[0];
+
+/**
+ * Whether an entry's value for a metric was logged, rather than filled in
+ * for an import that had no such field
+ */
+export const isMetricRecorded = (entry: MoodEntry, metric: MoodEntryNumericKeys): boolean =>
+  !entry.unrecordedMetrics || entry.unrecordedMetrics.indexOf(metric) < 0;
+
+/**
+ * Copy of an entry with `metrics` no longer flagged as unrecorded, once a
+ * real value has been logged for them
+ */
+export const markMetricsRecorded = (entry: MoodEntry, metrics: MoodEntryNumericKeys[]): MoodEntry => {
+  if (!entry.unrecordedMetrics) return entry;
+
+  const updated = { ...entry };
+  const unrecordedMetrics = entry.unrecordedMetrics.filter(metric => metrics.indexOf(metric) < 0);
+  if (unrecordedMetrics.length > 0) {
+    updated.unrecordedMetrics = unrecordedMetrics;
+  } else {
+    delete updated.unrecordedMetrics;
+  }
+  return updated;
+};
+
+/**
+ * The date key `days` days after (or, for negative `days`, before) the given one
+ */
+export const addDaysToKey = (dateKey: string, days: number): string => {
+  const date = new Date(`${dateKey}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toDateKey(date);
+};
+
+/**
+ * Index of the first entry whose date is >= the given key (entries sorted oldest first)
+ */
+const lowerBound = (entries: MoodEntry[], dateKey: string): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].date < dateKey) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Index just past the last entry whose date is <= the given key
+ */
+const upperBound = (entries: MoodEntry[], dateKey: string): number => {
+  let low = 0;
+  let high = entries.length;
+  while (low < high) {
+    const mid = (low + high) >>> 1;
+    if (entries[mid].date <= dateKey) {
+      low = mid + 1;
+    } else {
+      high = mid;
+    }
+  }
+  return low;
+};
+
+/**
+ * Inclusive date-range lookup over entries already sorted oldest first.
+ * Binary searches the YYYY-MM-DD keys instead of parsing a Date per entry.
+ */
+export const selectEntriesInRange = (
+  sortedEntries: MoodEntry[],
+  startDate: string | Date,
+  endDate: string | Date
+): MoodEntry[] => {
+  const start = toDateKey(startDate);
+  const end = toDateKey(endDate);
+  if (start > end) return [];
+
+  return sortedEntries.slice(lowerBound(sortedEntries, start), upperBound(sortedEntries, end));
+};
+
+/**
+ * Insert or replace a single entry while keeping the array sorted oldest first
+ */
+export const upsertSortedEntry = (sortedEntries: MoodEntry[], entry: MoodEntry): MoodEntry[] => {
+  const withoutEntry = sortedEntries.filter(e => e.id !== entry.id);
+  let index = upperBound(withoutEntry, entry.date);
+  while (index > 0 && withoutEntry[index - 1].date === entry.date && withoutEntry[index - 1].timestamp > entry.timestamp) {
+    index--;
+  }
+  return [...withoutEntry.slice(0, index), entry, ...withoutEntry.slice(index)];
+};
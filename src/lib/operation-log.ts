@@ -0,0 +1,163 @@
+// src/lib/operation-log.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import {
+  GoalProgressOperation,
+  MoodEntryOperation,
+  MoodEntryRevision,
+  Operation,
+  OperationSource
+} from '@/types/history';
+import type { Repositories } from '@/lib/storage/repository';
+
+// Undo stacks are per session; the persisted log itself is unbounded (IndexedDB)
+export const MAX_UNDO_DEPTH = 50;
+
+export const createOperationId = (): string =>
+  `op_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 8)}`;
+
+export const sortOperations = (operations: Operation[]): Operation[] =>
+  [...operations].sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+
+/**
+ * Describe a mood entry change. Pass null `before` for an add and null `after` for a delete.
+ */
+export const createMoodEntryOperation = (
+  before: MoodEntry | null,
+  after: MoodEntry | null,
+  source: OperationSource = 'user'
+): MoodEntryOperation => {
+  const record = after || before;
+  if (!record) {
+    throw new Error('A mood entry operation needs a before or after state');
+  }
+
+  return {
+    id: createOperationId(),
+    target: 'moodEntry',
+    type: !before ? 'add' : !after ? 'delete' : 'update',
+    recordId: record.id,
+    timestamp: new Date().toISOString(),
+    source,
+    before,
+    after
+  };
+};
+
+export const createGoalProgressOperation = (
+  before: Goal,
+  after: Goal,
+  progress: GoalProgress,
+  source: OperationSource = 'user'
+): GoalProgressOperation => ({
+  id: createOperationId(),
+  target: 'goalProgress',
+  type: 'add',
+  recordId: after.id,
+  timestamp: new Date().toISOString(),
+  source,
+  before,
+  after,
+  progress
+});
+
+/**
+ * The operation that reverses `operation`: adds become deletes and the
+ * before/after states swap.
+ */
+export const invertOperation = (operation: Operation, source: OperationSource = 'undo'): Operation => {
+  const inverted = {
+    id: createOperationId(),
+    timestamp: new Date().toISOString(),
+    source
+  };
+
+  if (operation.target === 'goalProgress') {
+    return {
+      ...operation,
+      ...inverted,
+      type: operation.type === 'add' ? 'delete' : 'add',
+      before: operation.after,
+      after: operation.before
+    };
+  }
+
+  return {
+    ...operation,
+    ...inverted,
+    type: operation.type === 'add' ? 'delete' : operation.type === 'delete' ? 'add' : 'update',
+    before: operation.after,
+    after: operation.before
+  };
+};
+
+/**
+ * A fresh copy of `operation` for re-applying it (redo)
+ */
+export const repeatOperation = (operation: Operation, source: OperationSource = 'redo'): Operation => ({
+  ...operation,
+  id: createOperationId(),
+  timestamp: new Date().toISOString(),
+  source
+});
+
+/**
+ * Write the effect of an operation to storage. Does not append it to the log.
+ */
+export const applyOperation = async (repositories: Repositories, operation: Operation): Promise<void> => {
+  if (operation.target === 'moodEntry') {
+    if (operation.after) {
+      await repositories.moods.put(operation.after);
+    } else {
+      await repositories.moods.delete(operation.recordId);
+    }
+    return;
+  }
+
+  if (operation.type === 'add') {
+    await repositories.goals.addProgress(operation.progress);
+  } else {
+    await repositories.goals.removeProgress(operation.progress);
+  }
+  await repositories.goals.put(operation.after);
+};
+
+/**
+ * Write the effect of several operations to storage, in order. Consecutive
+ * mood entry adds and updates share one putMany, so a bulk import is a single
+ * write. Does not append them to the log.
+ */
+export const applyOperations = async (repositories: Repositories, operations: Operation[]): Promise<void> => {
+  let pending: MoodEntry[] = [];
+  const flush = async () => {
+    if (pending.length === 0) return;
+    await repositories.moods.putMany(pending);
+    pending = [];
+  };
+
+  for (const operation of operations) {
+    if (operation.target === 'moodEntry' && operation.after) {
+      pending.push(operation.after);
+      continue;
+    }
+    await flush();
+    await applyOperation(repositories, operation);
+  }
+  await flush();
+};
+
+/**
+ * Turn an entry's logged operations into a revision list, newest first
+ */
+export const toMoodEntryRevisions = (operations: Operation[]): MoodEntryRevision[] =>
+  operations
+    .filter((operation): operation is MoodEntryOperation => operation.target === 'moodEntry')
+    .map(operation => ({
+      operationId: operation.id,
+      type: operation.type,
+      source: operation.source,
+      timestamp: operation.timestamp,
+      snapshot: (operation.after || operation.before) as MoodEntry,
+      deleted: operation.after === null
+    }))
+    .reverse();
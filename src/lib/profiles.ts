@@ -0,0 +1,121 @@
+// src/lib/profiles.ts
+import { Profile, ProfileColor, ProfileRegistry } from '@/types/profile';
+
+export const PROFILES_STORAGE_KEY = 'herflow-profiles';
+
+// The profile that owns the unprefixed keys and database from before profiles existed
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const MAX_PROFILE_NAME_LENGTH = 40;
+
+export const PROFILE_COLORS: ProfileColor[] = ['indigo', 'rose', 'emerald', 'amber', 'sky', 'violet'];
+
+/**
+ * Thrown for invalid profile names and registry changes that are not allowed
+ */
+export class ProfileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileError';
+    Object.setPrototypeOf(this, ProfileError.prototype);
+  }
+}
+
+const listeners = new Set<(registry: ProfileRegistry) => void>();
+
+const createDefaultRegistry = (): ProfileRegistry => ({
+  profiles: [{ id: DEFAULT_PROFILE_ID, name: 'Me', color: PROFILE_COLORS[0], createdAt: new Date().toISOString() }],
+  activeProfileId: DEFAULT_PROFILE_ID,
+});
+
+/**
+ * Storage key for one profile's copy of a store. The default profile keeps
+ * the original key, so data written before profiles existed stays in place.
+ */
+export const scopedStorageKey = (key: string, profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? key : `${key}:${profileId}`;
+
+export const getProfileRegistry = (): ProfileRegistry => {
+  if (typeof window === 'undefined') return createDefaultRegistry();
+
+  try {
+    const saved = localStorage.getItem(PROFILES_STORAGE_KEY);
+    const registry: ProfileRegistry | null = saved ? JSON.parse(saved) : null;
+    if (!registry || !Array.isArray(registry.profiles) || registry.profiles.length === 0) {
+      return createDefaultRegistry();
+    }
+    const activeExists = registry.profiles.some(p => p.id === registry.activeProfileId);
+    return activeExists ? registry : { ...registry, activeProfileId: registry.profiles[0].id };
+  } catch (err) {
+    console.error('Error reading profiles:', err);
+    return createDefaultRegistry();
+  }
+};
+
+const saveProfileRegistry = (registry: ProfileRegistry): void => {
+  localStorage.setItem(PROFILES_STORAGE_KEY, JSON.stringify(registry));
+  listeners.forEach(listener => listener(registry));
+};
+
+export const subscribeToProfiles = (listener: (registry: ProfileRegistry) => void): (() => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+export const getActiveProfile = (): Profile => {
+  const registry = getProfileRegistry();
+  return registry.profiles.find(p => p.id === registry.activeProfileId) as Profile;
+};
+
+const validateName = (name: string, profiles: Profile[], exceptId?: string): string => {
+  const trimmed = name.trim();
+  if (!trimmed) throw new ProfileError('Enter a name');
+  if (trimmed.length > MAX_PROFILE_NAME_LENGTH) {
+    throw new ProfileError(`Use at most ${MAX_PROFILE_NAME_LENGTH} characters`);
+  }
+  if (profiles.some(p => p.id !== exceptId && p.name.toLowerCase() === trimmed.toLowerCase())) {
+    throw new ProfileError(`A profile called "${trimmed}" already exists`);
+  }
+  return trimmed;
+};
+
+export const addProfile = (name: string): Profile => {
+  const registry = getProfileRegistry();
+  const profile: Profile = {
+    id: `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: validateName(name, registry.profiles),
+    color: PROFILE_COLORS[registry.profiles.length % PROFILE_COLORS.length],
+    createdAt: new Date().toISOString(),
+  };
+  saveProfileRegistry({ ...registry, profiles: [...registry.profiles, profile] });
+  return profile;
+};
+
+export const renameProfile = (profileId: string, name: string): void => {
+  const registry = getProfileRegistry();
+  const trimmed = validateName(name, registry.profiles, profileId);
+  saveProfileRegistry({
+    ...registry,
+    profiles: registry.profiles.map(p => p.id === profileId ? { ...p, name: trimmed } : p),
+  });
+};
+
+/**
+ * Only records the choice; use switchProfile from '@/lib/storage' to also
+ * reopen storage for the new profile.
+ */
+export const setActiveProfileId = (profileId: string): void => {
+  const registry = getProfileRegistry();
+  if (!registry.profiles.some(p => p.id === profileId)) throw new ProfileError('Unknown profile');
+  saveProfileRegistry({ ...registry, activeProfileId: profileId });
+};
+
+export const removeProfileFromRegistry = (profileId: string): void => {
+  const registry = getProfileRegistry();
+  if (registry.activeProfileId === profileId) {
+    throw new ProfileError('Switch to another profile before deleting this one');
+  }
+  saveProfileRegistry({ ...registry, profiles: registry.profiles.filter(p => p.id !== profileId) });
+};
@@ -0,0 +1,346 @@
+// src/lib/qr-code.ts
+
+/**
+ * Minimal QR code encoder (ISO/IEC 18004): byte mode, error correction level L,
+ * versions 1–10. That covers up to 271 bytes, plenty for a pairing link.
+ */
+
+interface VersionSpec {
+  dataBlocks: number[]; // Data codewords in each block
+  ecPerBlock: number;
+  alignment: number[]; // Alignment pattern centre coordinates
+}
+
+const VERSIONS: VersionSpec[] = [
+  { dataBlocks: [19], ecPerBlock: 7, alignment: [] },
+  { dataBlocks: [34], ecPerBlock: 10, alignment: [6, 18] },
+  { dataBlocks: [55], ecPerBlock: 15, alignment: [6, 22] },
+  { dataBlocks: [80], ecPerBlock: 20, alignment: [6, 26] },
+  { dataBlocks: [108], ecPerBlock: 26, alignment: [6, 30] },
+  { dataBlocks: [68, 68], ecPerBlock: 18, alignment: [6, 34] },
+  { dataBlocks: [78, 78], ecPerBlock: 20, alignment: [6, 22, 38] },
+  { dataBlocks: [97, 97], ecPerBlock: 24, alignment: [6, 24, 42] },
+  { dataBlocks: [116, 116], ecPerBlock: 30, alignment: [6, 26, 46] },
+  { dataBlocks: [68, 68, 69, 69], ecPerBlock: 18, alignment: [6, 28, 50] },
+];
+
+const EC_LEVEL_L_BITS = 1;
+const PAD_BYTES = [0xec, 0x11];
+
+// GF(256) with the QR primitive polynomial x^8 + x^4 + x^3 + x^2 + 1
+const EXP: number[] = [];
+const LOG: number[] = [];
+for (let i = 0, value = 1; i < 255; i++) {
+  EXP[i] = value;
+  LOG[value] = i;
+  value <<= 1;
+  if (value & 0x100) value ^= 0x11d;
+}
+
+const gfMultiply = (a: number, b: number): number => (a === 0 || b === 0 ? 0 : EXP[(LOG[a] + LOG[b]) % 255]);
+
+const reedSolomonGenerator = (degree: number): number[] => {
+  let poly = [1];
+  for (let i = 0; i < degree; i++) {
+    const next = new Array(poly.length + 1).fill(0);
+    poly.forEach((coefficient, j) => {
+      next[j] ^= coefficient;
+      next[j + 1] ^= gfMultiply(coefficient, EXP[i]);
+    });
+    poly = next;
+  }
+  return poly;
+};
+
+/**
+ * Error correction codewords for one block of data codewords
+ */
+export const reedSolomonRemainder = (data: number[], degree: number): number[] => {
+  const generator = reedSolomonGenerator(degree);
+  const remainder = new Array(degree).fill(0);
+  data.forEach(byte => {
+    const factor = byte ^ (remainder.shift() as number);
+    remainder.push(0);
+    for (let i = 0; i < degree; i++) {
+      remainder[i] ^= gfMultiply(generator[i + 1], factor);
+    }
+  });
+  return remainder;
+};
+
+const getBit = (value: number, index: number): boolean => ((value >>> index) & 1) !== 0;
+
+/**
+ * The 15 format bits (error correction level and mask, BCH-protected)
+ */
+export const getFormatBits = (mask: number): number => {
+  const data = (EC_LEVEL_L_BITS << 3) | mask;
+  let remainder = data;
+  for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537);
+  return ((data << 10) | remainder) ^ 0x5412;
+};
+
+/**
+ * The 18 version bits drawn from version 7 up
+ */
+export const getVersionBits = (version: number): number => {
+  let remainder = version;
+  for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25);
+  return (version << 12) | remainder;
+};
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (x, y) => y % 2 === 0,
+  x => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0,
+];
+
+const encodeData = (bytes: number[], version: number, spec: VersionSpec): number[] => {
+  const capacity = spec.dataBlocks.reduce((sum, count) => sum + count, 0);
+  const bits: number[] = [];
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1);
+  };
+
+  append(0b0100, 4); // Byte mode
+  append(bytes.length, version < 10 ? 8 : 16);
+  bytes.forEach(byte => append(byte, 8));
+  append(0, Math.min(4, capacity * 8 - bits.length)); // Terminator
+  append(0, (8 - (bits.length % 8)) % 8);
+
+  const codewords: number[] = [];
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0));
+  }
+  for (let i = 0; codewords.length < capacity; i++) codewords.push(PAD_BYTES[i % 2]);
+  return codewords;
+};
+
+/**
+ * Split into blocks, add error correction to each and interleave
+ */
+const addErrorCorrection = (data: number[], spec: VersionSpec): number[] => {
+  const blocks: number[][] = [];
+  const ecBlocks: number[][] = [];
+  let offset = 0;
+  spec.dataBlocks.forEach(count => {
+    const block = data.slice(offset, offset + count);
+    offset += count;
+    blocks.push(block);
+    ecBlocks.push(reedSolomonRemainder(block, spec.ecPerBlock));
+  });
+
+  const result: number[] = [];
+  const longest = Math.max(...spec.dataBlocks);
+  for (let i = 0; i < longest; i++) {
+    blocks.forEach(block => {
+      if (i < block.length) result.push(block[i]);
+    });
+  }
+  for (let i = 0; i < spec.ecPerBlock; i++) {
+    ecBlocks.forEach(block => result.push(block[i]));
+  }
+  return result;
+};
+
+class QrMatrix {
+  readonly size: number;
+  readonly modules: boolean[][];
+  private readonly reserved: boolean[][];
+
+  constructor(private readonly version: number, spec: VersionSpec) {
+    this.size = version * 4 + 17;
+    this.modules = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+    this.reserved = Array.from({ length: this.size }, () => new Array(this.size).fill(false));
+
+    this.drawTimingPatterns();
+    this.drawFinderPattern(3, 3);
+    this.drawFinderPattern(this.size - 4, 3);
+    this.drawFinderPattern(3, this.size - 4);
+    this.drawAlignmentPatterns(spec.alignment);
+    this.drawFormatBits(0); // Reserves the area; redrawn once the mask is chosen
+    this.drawVersionBits();
+  }
+
+  private setFunction(x: number, y: number, dark: boolean): void {
+    this.modules[y][x] = dark;
+    this.reserved[y][x] = true;
+  }
+
+  private drawTimingPatterns(): void {
+    for (let i = 0; i < this.size; i++) {
+      this.setFunction(6, i, i % 2 === 0);
+      this.setFunction(i, 6, i % 2 === 0);
+    }
+  }
+
+  // Includes the light separator around the 7x7 pattern
+  private drawFinderPattern(centerX: number, centerY: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx;
+        const y = centerY + dy;
+        if (x < 0 || y < 0 || x >= this.size || y >= this.size) continue;
+        const distance = Math.max(Math.abs(dx), Math.abs(dy));
+        this.setFunction(x, y, distance !== 2 && distance !== 4);
+      }
+    }
+  }
+
+  private drawAlignmentPatterns(positions: number[]): void {
+    const last = positions.length - 1;
+    positions.forEach((y, i) => {
+      positions.forEach((x, j) => {
+        // These three would overlap the finder patterns
+        if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return;
+        for (let dy = -2; dy <= 2; dy++) {
+          for (let dx = -2; dx <= 2; dx++) {
+            this.setFunction(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1);
+          }
+        }
+      });
+    });
+  }
+
+  drawFormatBits(mask: number): void {
+    const bits = getFormatBits(mask);
+    const size = this.size;
+
+    for (let i = 0; i <= 5; i++) this.setFunction(8, i, getBit(bits, i));
+    this.setFunction(8, 7, getBit(bits, 6));
+    this.setFunction(8, 8, getBit(bits, 7));
+    this.setFunction(7, 8, getBit(bits, 8));
+    for (let i = 9; i < 15; i++) this.setFunction(14 - i, 8, getBit(bits, i));
+
+    for (let i = 0; i < 8; i++) this.setFunction(size - 1 - i, 8, getBit(bits, i));
+    for (let i = 8; i < 15; i++) this.setFunction(8, size - 15 + i, getBit(bits, i));
+    this.setFunction(8, size - 8, true); // Always-dark module
+  }
+
+  private drawVersionBits(): void {
+    if (this.version < 7) return;
+    const bits = getVersionBits(this.version);
+    for (let i = 0; i < 18; i++) {
+      const a = this.size - 11 + (i % 3);
+      const b = Math.floor(i / 3);
+      this.setFunction(a, b, getBit(bits, i));
+      this.setFunction(b, a, getBit(bits, i));
+    }
+  }
+
+  // Zig-zag up and down two-module columns from the right, skipping the vertical timing pattern
+  drawCodewords(codewords: number[]): void {
+    let bit = 0;
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5;
+      const upward = ((right + 1) & 2) === 0;
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        const y = upward ? this.size - 1 - vertical : vertical;
+        for (let j = 0; j < 2; j++) {
+          const x = right - j;
+          if (this.reserved[y][x] || bit >= codewords.length * 8) continue;
+          this.modules[y][x] = getBit(codewords[bit >>> 3], 7 - (bit & 7));
+          bit++;
+        }
+      }
+    }
+  }
+
+  // Applying a mask twice undoes it
+  applyMask(mask: number): void {
+    for (let y = 0; y < this.size; y++) {
+      for (let x = 0; x < this.size; x++) {
+        if (!this.reserved[y][x] && MASKS[mask](x, y)) this.modules[y][x] = !this.modules[y][x];
+      }
+    }
+  }
+
+  /**
+   * The standard's penalty score; the mask with the lowest one is used
+   */
+  getPenalty(): number {
+    const size = this.size;
+    const lines: boolean[][] = [
+      ...this.modules,
+      ...this.modules.map((_, x) => this.modules.map(row => row[x])),
+    ];
+    let penalty = 0;
+
+    lines.forEach(line => {
+      let run = 1;
+      for (let i = 1; i <= size; i++) {
+        if (i < size && line[i] === line[i - 1]) {
+          run++;
+          continue;
+        }
+        if (run >= 5) penalty += run - 2;
+        run = 1;
+      }
+
+      // Finder-like 1:1:3:1:1 runs with four light modules on one side; the quiet zone counts as light
+      const text = `0000${line.map(dark => (dark ? '1' : '0')).join('')}0000`;
+      for (let i = text.indexOf('1011101'); i >= 0; i = text.indexOf('1011101', i + 1)) {
+        if (text.slice(i - 4, i) === '0000' || text.slice(i + 7, i + 11) === '0000') penalty += 40;
+      }
+    });
+
+    let dark = 0;
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (this.modules[y][x]) dark++;
+        if (
+          x < size - 1 && y < size - 1 &&
+          this.modules[y][x] === this.modules[y][x + 1] &&
+          this.modules[y][x] === this.modules[y + 1][x] &&
+          this.modules[y][x] === this.modules[y + 1][x + 1]
+        ) {
+          penalty += 3;
+        }
+      }
+    }
+    penalty += Math.floor(Math.abs((dark * 20) / (size * size) - 10)) * 10;
+
+    return penalty;
+  }
+}
+
+/**
+ * Encode text (as UTF-8) into a square grid of modules, true = dark.
+ * Throws if the text does not fit in a version 10 symbol.
+ */
+export const encodeQrCode = (text: string): boolean[][] => {
+  const bytes = Array.from(new TextEncoder().encode(text));
+
+  const index = VERSIONS.findIndex((spec, i) => {
+    const capacityBits = spec.dataBlocks.reduce((sum, count) => sum + count, 0) * 8;
+    return 4 + (i + 1 < 10 ? 8 : 16) + bytes.length * 8 <= capacityBits;
+  });
+  if (index < 0) throw new Error('Text is too long for a QR code');
+
+  const version = index + 1;
+  const spec = VERSIONS[index];
+  const matrix = new QrMatrix(version, spec);
+  matrix.drawCodewords(addErrorCorrection(encodeData(bytes, version, spec), spec));
+
+  let bestMask = 0;
+  let bestPenalty = Infinity;
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    matrix.applyMask(mask);
+    matrix.drawFormatBits(mask);
+    const penalty = matrix.getPenalty();
+    if (penalty < bestPenalty) {
+      bestMask = mask;
+      bestPenalty = penalty;
+    }
+    matrix.applyMask(mask);
+  }
+
+  matrix.applyMask(bestMask);
+  matrix.drawFormatBits(bestMask);
+  return matrix.modules;
+};
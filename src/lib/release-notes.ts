@@ -0,0 +1,57 @@
+// src/lib/release-notes.ts
+
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION || '0.0.0';
+
+const LAST_SEEN_VERSION_KEY = 'herflow-last-seen-version';
+
+export interface ReleaseNote {
+  version: string;
+  date: string; // YYYY-MM-DD
+  highlights: string[];
+}
+
+/**
+ * Newest first. Add an entry whenever package.json's version is bumped.
+ */
+export const RELEASE_NOTES: ReleaseNote[] = [
+  {
+    version: '1.1.0',
+    date: '2026-10-19',
+    highlights: [
+      'Check-in reminders with daily or weekday schedules',
+      'Sync between your devices, end-to-end encrypted, with QR pairing',
+      'Changes made offline upload by themselves once you are back online',
+      'Separate profiles, each with its own optional passcode',
+      'In-app updates: reload when a new version is ready',
+    ],
+  },
+];
+
+const compareVersions = (a: string, b: string): number => {
+  const left = a.split('.').map(Number);
+  const right = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(left.length, right.length); i++) {
+    const diff = (left[i] || 0) - (right[i] || 0);
+    if (diff !== 0) return diff;
+  }
+  return 0;
+};
+
+/**
+ * Notes for every release since the version this browser last ran, up to the
+ * running build. Empty on a first visit, when there is nothing to catch up on.
+ */
+export const getUnseenReleaseNotes = (): ReleaseNote[] => {
+  const lastSeen = localStorage.getItem(LAST_SEEN_VERSION_KEY);
+  if (!lastSeen) {
+    markReleaseNotesSeen();
+    return [];
+  }
+  return RELEASE_NOTES.filter(note =>
+    compareVersions(note.version, lastSeen) > 0 && compareVersions(note.version, APP_VERSION) <= 0
+  );
+};
+
+export const markReleaseNotesSeen = (): void => {
+  localStorage.setItem(LAST_SEEN_VERSION_KEY, APP_VERSION);
+};
@@ -0,0 +1,204 @@
+// src/lib/reminders.ts
+import { ReminderSchedule } from '@/types/settings';
+import { getActiveProfile, scopedStorageKey } from '@/lib/profiles';
+import { getRepositories } from '@/lib/storage';
+import { toDateKey } from '@/lib/mood-queries';
+import { isServiceWorkerSupported } from '@/lib/service-worker';
+
+// Shared with public/sw-reminders.js, which handles clicks on the notifications
+export const ENTRY_PAGE_PATH = '/goal-tracker/entry/';
+const REMINDER_TAG_PREFIX = 'herflow-reminder';
+const DELIVERED_STORAGE_KEY = 'herflow-reminders-delivered';
+
+// Triggered notifications are scheduled this far ahead and topped up on every open
+const SCHEDULE_AHEAD_DAYS = 7;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ReminderPermission = NotificationPermission | 'unsupported';
+
+/**
+ * A reminder due at one moment. `dateKey` is the day the entry page opens on.
+ */
+export interface ReminderOccurrence {
+  schedule: ReminderSchedule;
+  at: Date;
+  dateKey: string;
+}
+
+// Not in the TypeScript DOM types: notification actions and the Notification Triggers API
+interface ReminderNotificationOptions extends NotificationOptions {
+  actions?: { action: string; title: string }[];
+  showTrigger?: unknown;
+}
+
+interface TriggeredNotificationFilter extends GetNotificationOptions {
+  includeTriggered?: boolean;
+}
+
+type TimestampTriggerConstructor = new (timestamp: number) => unknown;
+
+const getTimestampTrigger = (): TimestampTriggerConstructor | undefined =>
+  typeof window === 'undefined'
+    ? undefined
+    : (window as unknown as { TimestampTrigger?: TimestampTriggerConstructor }).TimestampTrigger;
+
+export const createReminderSchedule = (): ReminderSchedule => ({
+  id: `r${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  time: '20:00',
+  days: 'daily',
+  onlyIfNoEntry: true,
+  enabled: true,
+});
+
+export const getReminderPermission = (): ReminderPermission =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.permission;
+
+export const requestReminderPermission = async (): Promise<ReminderPermission> =>
+  typeof Notification === 'undefined' ? 'unsupported' : Notification.requestPermission();
+
+/**
+ * Whether the browser can show reminders on time while the app is closed.
+ * Elsewhere they are shown when the app is open or next opened.
+ */
+export const supportsScheduledReminders = (): boolean =>
+  isServiceWorkerSupported() &&
+  typeof Notification !== 'undefined' &&
+  'showTrigger' in Notification.prototype &&
+  getTimestampTrigger() !== undefined;
+
+/**
+ * Deep link that opens the entry page on the given day
+ */
+export const getEntryLink = (dateKey: string): string => `${ENTRY_PAGE_PATH}?date=${dateKey}`;
+
+const appliesOn = (schedule: ReminderSchedule, date: Date): boolean =>
+  schedule.days === 'daily' || (date.getDay() !== 0 && date.getDay() !== 6);
+
+/**
+ * Every occurrence of the enabled schedules after `from` and up to `until`,
+ * earliest first
+ */
+export const getReminderOccurrences = (schedules: ReminderSchedule[], from: Date, until: Date): ReminderOccurrence[] => {
+  const occurrences: ReminderOccurrence[] = [];
+  const day = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+
+  while (day.getTime() <= until.getTime()) {
+    schedules.forEach(schedule => {
+      if (!schedule.enabled || !appliesOn(schedule, day)) return;
+      const [hours, minutes] = schedule.time.split(':').map(Number);
+      const at = new Date(day.getFullYear(), day.getMonth(), day.getDate(), hours, minutes);
+      if (at > from && at <= until) occurrences.push({ schedule, at, dateKey: toDateKey(at) });
+    });
+    day.setDate(day.getDate() + 1);
+  }
+
+  return occurrences.sort((a, b) => a.at.getTime() - b.at.getTime());
+};
+
+const getTagPrefix = (profileId: string): string => `${REMINDER_TAG_PREFIX}:${profileId}:`;
+
+const buildNotification = (profileId: string, occurrence: ReminderOccurrence): ReminderNotificationOptions => ({
+  body: 'How are you feeling today? Your check-in takes a minute.',
+  tag: `${getTagPrefix(profileId)}${occurrence.schedule.id}:${occurrence.dateKey}`,
+  icon: '/icons/icon-192x192.png',
+  badge: '/icons/icon-96x96.png',
+  data: { url: getEntryLink(occurrence.dateKey) },
+  actions: [{ action: 'log', title: 'Log check-in' }],
+});
+
+const REMINDER_TITLE = 'Time for your daily check-in';
+
+const loadDelivered = (profileId: string): Record<string, string> => {
+  const saved = localStorage.getItem(scopedStorageKey(DELIVERED_STORAGE_KEY, profileId));
+  return saved ? JSON.parse(saved) : {};
+};
+
+const saveDelivered = (profileId: string, delivered: Record<string, string>) => {
+  localStorage.setItem(scopedStorageKey(DELIVERED_STORAGE_KEY, profileId), JSON.stringify(delivered));
+};
+
+/**
+ * Replace this profile's pending triggered notifications with the next
+ * week's occurrences, leaving out days that already have their check-in
+ */
+const scheduleTriggeredReminders = async (
+  registration: ServiceWorkerRegistration,
+  profileId: string,
+  schedules: ReminderSchedule[],
+  hasEntry: (dateKey: string) => Promise<boolean>
+): Promise<void> => {
+  const TimestampTrigger = getTimestampTrigger() as TimestampTriggerConstructor;
+  const prefix = getTagPrefix(profileId);
+  const pending = await registration.getNotifications({ includeTriggered: true } as TriggeredNotificationFilter);
+  pending.filter(notification => notification.tag.indexOf(prefix) === 0).forEach(notification => notification.close());
+
+  const now = new Date();
+  for (const occurrence of getReminderOccurrences(schedules, now, new Date(now.getTime() + SCHEDULE_AHEAD_DAYS * DAY_MS))) {
+    if (occurrence.schedule.onlyIfNoEntry && (await hasEntry(occurrence.dateKey))) continue;
+    const options: ReminderNotificationOptions = {
+      ...buildNotification(profileId, occurrence),
+      showTrigger: new TimestampTrigger(occurrence.at.getTime()),
+    };
+    await registration.showNotification(REMINDER_TITLE, options);
+  }
+};
+
+/**
+ * Show today's reminders whose time has passed and that have not been shown
+ * yet. Used where notifications cannot be scheduled ahead of time.
+ */
+const showDueReminders = async (
+  registration: ServiceWorkerRegistration | undefined,
+  profileId: string,
+  schedules: ReminderSchedule[],
+  hasEntry: (dateKey: string) => Promise<boolean>
+): Promise<void> => {
+  const now = new Date();
+  const startOfDay = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const delivered = loadDelivered(profileId);
+
+  for (const occurrence of getReminderOccurrences(schedules, new Date(startOfDay.getTime() - 1), now)) {
+    if (delivered[occurrence.schedule.id] === occurrence.dateKey) continue;
+    if (occurrence.schedule.onlyIfNoEntry && (await hasEntry(occurrence.dateKey))) continue;
+
+    const options = buildNotification(profileId, occurrence);
+    if (registration) {
+      await registration.showNotification(REMINDER_TITLE, options);
+    } else {
+      const notification = new Notification(REMINDER_TITLE, options);
+      notification.onclick = () => {
+        window.focus();
+        window.location.href = getEntryLink(occurrence.dateKey);
+      };
+    }
+    delivered[occurrence.schedule.id] = occurrence.dateKey;
+  }
+
+  saveDelivered(profileId, delivered);
+};
+
+/**
+ * Bring the active profile's reminders up to date: schedule them ahead where
+ * Notification Triggers are available, otherwise show any that are due now.
+ * Resolves with the next time the app should check again while it stays
+ * open, or null when there is nothing to wait for.
+ */
+export const refreshReminders = async (): Promise<Date | null> => {
+  if (getReminderPermission() !== 'granted') return null;
+
+  const profileId = getActiveProfile().id;
+  const { settings, moods } = await getRepositories();
+  const { reminders } = await settings.get();
+  const hasEntry = async (dateKey: string) => (await moods.getByDate(dateKey)).length > 0;
+  const registration = isServiceWorkerSupported() ? await navigator.serviceWorker.getRegistration() : undefined;
+
+  if (registration && supportsScheduledReminders()) {
+    await scheduleTriggeredReminders(registration, profileId, reminders, hasEntry);
+    return null;
+  }
+
+  await showDueReminders(registration, profileId, reminders, hasEntry);
+  const now = new Date();
+  const [next] = getReminderOccurrences(reminders, now, new Date(now.getTime() + DAY_MS));
+  return next ? next.at : null;
+};
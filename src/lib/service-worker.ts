@@ -0,0 +1,129 @@
+// src/lib/service-worker.ts
+
+export const SERVICE_WORKER_URL = '/sw.js';
+
+// Shared with public/sw-update.js
+const SKIP_WAITING_MESSAGE = 'SKIP_WAITING';
+
+const UPDATE_CHECK_INTERVAL_MS = 60 * 60000;
+
+/**
+ * `available` once a new version is installed and waiting; `blocked` while a
+ * page holds unsaved input that a reload would throw away
+ */
+export interface UpdateStatus {
+  available: boolean;
+  blocked: boolean;
+}
+
+let waitingWorker: ServiceWorker | null = null;
+let activatedElsewhere = false;
+let reloadRequested = false;
+let reloadBlockers = 0;
+const updateListeners = new Set<(status: UpdateStatus) => void>();
+
+export const getUpdateStatus = (): UpdateStatus => ({
+  available: waitingWorker !== null || activatedElsewhere,
+  blocked: reloadBlockers > 0,
+});
+
+const notifyUpdate = () => {
+  const status = getUpdateStatus();
+  updateListeners.forEach(listener => listener(status));
+};
+
+export const subscribeToUpdateStatus = (listener: (status: UpdateStatus) => void): (() => void) => {
+  updateListeners.add(listener);
+  return () => {
+    updateListeners.delete(listener);
+  };
+};
+
+export const isServiceWorkerSupported = (): boolean =>
+  typeof navigator !== 'undefined' && 'serviceWorker' in navigator;
+
+const setWaitingWorker = (worker: ServiceWorker | null) => {
+  waitingWorker = worker;
+  notifyUpdate();
+};
+
+/**
+ * Track new versions of the worker. A worker installed while another one
+ * controls the page waits for applyUpdate; the very first install takes
+ * over straight away, so it never counts as an update.
+ */
+const watchForUpdates = (registration: ServiceWorkerRegistration) => {
+  if (registration.waiting && navigator.serviceWorker.controller) setWaitingWorker(registration.waiting);
+
+  registration.addEventListener('updatefound', () => {
+    const installing = registration.installing;
+    if (!installing) return;
+    installing.addEventListener('statechange', () => {
+      if (installing.state === 'installed' && navigator.serviceWorker.controller) setWaitingWorker(installing);
+    });
+  });
+
+  let hadController = navigator.serviceWorker.controller !== null;
+  navigator.serviceWorker.addEventListener('controllerchange', () => {
+    if (reloadRequested) {
+      window.location.reload();
+      return;
+    }
+    // Another tab accepted the update. This page still runs the old build,
+    // so offer the reload instead of forcing it.
+    if (hadController) {
+      activatedElsewhere = true;
+      setWaitingWorker(null);
+    }
+    hadController = true;
+  });
+
+  setInterval(() => {
+    registration.update().catch(err => console.error('Error checking for updates:', err));
+  }, UPDATE_CHECK_INTERVAL_MS);
+};
+
+/**
+ * Register the workbox service worker (precache, offline page, the sync
+ * outbox replay and reminder clicks) and watch for new versions. Skipped in
+ * development, where its precache list is stale.
+ */
+export const registerServiceWorker = async (): Promise<ServiceWorkerRegistration | null> => {
+  if (!isServiceWorkerSupported() || process.env.NODE_ENV !== 'production') return null;
+  const registration = await navigator.serviceWorker.register(SERVICE_WORKER_URL, { scope: '/' });
+  watchForUpdates(registration);
+  return registration;
+};
+
+/**
+ * Switch to the waiting version and reload once it has taken over. Returns
+ * false, doing nothing, while a page has asked to hold off reloads.
+ */
+export const applyUpdate = (): boolean => {
+  if (reloadBlockers > 0) return false;
+
+  if (activatedElsewhere || !waitingWorker) {
+    window.location.reload();
+    return true;
+  }
+  reloadRequested = true;
+  waitingWorker.postMessage({ type: SKIP_WAITING_MESSAGE });
+  return true;
+};
+
+/**
+ * Hold off update reloads, e.g. while a form has unsaved input. Call the
+ * returned function to release the hold.
+ */
+export const blockUpdateReload = (): (() => void) => {
+  reloadBlockers += 1;
+  notifyUpdate();
+
+  let released = false;
+  return () => {
+    if (released) return;
+    released = true;
+    reloadBlockers -= 1;
+    notifyUpdate();
+  };
+};
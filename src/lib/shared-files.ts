@@ -0,0 +1,62 @@
+// src/lib/shared-files.ts
+
+// Shared with public/sw-share-target.js, which stores what other apps share
+export const SHARE_TARGET_PATH = '/goal-tracker/share/';
+const SHARED_FILES_CACHE = 'herflow-shared-files';
+const SHARED_FILE_URL = '/goal-tracker/share/shared-file';
+
+export interface ReceivedFile {
+  name: string;
+  text: string;
+}
+
+// File Handling API, not yet in the TypeScript DOM types
+interface LaunchParams {
+  files: FileSystemFileHandle[];
+}
+
+interface LaunchQueue {
+  setConsumer(consumer: (params: LaunchParams) => void): void;
+}
+
+const isCacheAvailable = (): boolean => typeof caches !== 'undefined';
+
+/**
+ * The file last shared to the app through the Web Share Target, if any
+ */
+export const getSharedFile = async (): Promise<ReceivedFile | null> => {
+  if (!isCacheAvailable()) return null;
+  const cache = await caches.open(SHARED_FILES_CACHE);
+  const response = await cache.match(SHARED_FILE_URL);
+  if (!response) return null;
+  return {
+    name: decodeURIComponent(response.headers.get('X-File-Name') || 'shared file'),
+    text: await response.text(),
+  };
+};
+
+export const clearSharedFile = async (): Promise<void> => {
+  if (!isCacheAvailable()) return;
+  await (await caches.open(SHARED_FILES_CACHE)).delete(SHARED_FILE_URL);
+};
+
+/**
+ * Call `onFile` for a file opened with the installed app from the file
+ * manager (manifest `file_handlers`). Returns false where unsupported.
+ */
+export const consumeLaunchedFiles = (onFile: (file: ReceivedFile) => void): boolean => {
+  const launchQueue = (window as unknown as { launchQueue?: LaunchQueue }).launchQueue;
+  if (!launchQueue) return false;
+
+  launchQueue.setConsumer(async ({ files }) => {
+    const [handle] = files;
+    if (!handle) return;
+    try {
+      const file = await handle.getFile();
+      onFile({ name: file.name, text: await file.text() });
+    } catch (err) {
+      console.error('Error reading the opened file:', err);
+    }
+  });
+  return true;
+};
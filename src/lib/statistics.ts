@@ -0,0 +1,228 @@
+// src/lib/statistics.ts
+
+// Largest |r| passed to atanh, so a perfect correlation still gets a finite interval
+const MAX_ABS_CORRELATION = 0.999999;
+
+export const mean = (values: number[]): number =>
+  values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+/**
+ * Sample standard deviation (n − 1 denominator); 0 for fewer than two values
+ */
+export const standardDeviation = (values: number[]): number => {
+  if (values.length < 2) return 0;
+  const center = mean(values);
+  return Math.sqrt(values.reduce((sum, value) => sum + (value - center) * (value - center), 0) / (values.length - 1));
+};
+
+export const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = values.slice().sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+/**
+ * Median absolute deviation scaled to estimate a normal standard deviation,
+ * so a few extreme values barely move it
+ */
+export const robustStandardDeviation = (values: number[]): number => {
+  const center = median(values);
+  return 1.4826 * median(values.map(value => Math.abs(value - center)));
+};
+
+/**
+ * Standard normal CDF (Abramowitz–Stegun 7.1.26, absolute error below 1.5e-7)
+ */
+export const normalCdf = (z: number): number => {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+/**
+ * Upper-tail p-value of a chi-square statistic. Only even degrees of
+ * freedom are supported, where the tail has a closed form.
+ */
+export const chiSquarePValue = (x: number, df: number): number => {
+  const half = x / 2;
+  let term = 1;
+  let sum = 1;
+  for (let i = 1; i < df / 2; i++) {
+    term *= half / i;
+    sum += term;
+  }
+  return Math.min(1, Math.exp(-half) * sum);
+};
+
+/**
+ * Inverse of the standard normal CDF (Acklam's rational approximation,
+ * relative error below 1.2e-9)
+ */
+export const normalQuantile = (p: number): number => {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const pLow = 0.02425;
+
+  const tail = (q: number) =>
+    (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+    ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+
+  if (p < pLow) return tail(Math.sqrt(-2 * Math.log(p)));
+  if (p > 1 - pLow) return -tail(Math.sqrt(-2 * Math.log(1 - p)));
+
+  const q = p - 0.5;
+  const r = q * q;
+  return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * Benjamini–Hochberg adjusted p-values, returned in the order given. Controls
+ * the false discovery rate across a family of tests run together.
+ */
+export const benjaminiHochberg = (pValues: number[]): number[] => {
+  const m = pValues.length;
+  const ranked = pValues.map((p, index) => ({ p, index })).sort((x, y) => x.p - y.p);
+  const adjusted = new Array<number>(m);
+
+  let runningMin = 1;
+  for (let rank = m; rank >= 1; rank--) {
+    const { p, index } = ranked[rank - 1];
+    runningMin = Math.min(runningMin, (p * m) / rank);
+    adjusted[index] = runningMin;
+  }
+
+  return adjusted;
+};
+
+/**
+ * Two-sided confidence interval for a Pearson r from the Fisher z
+ * transform. `alpha` 0.05 gives the 95% interval; fewer than four pairs
+ * give the whole [-1, 1] range.
+ */
+export const fisherZInterval = (r: number, n: number, alpha: number): [number, number] => {
+  if (n <= 3) return [-1, 1];
+
+  const z = Math.atanh(Math.max(-MAX_ABS_CORRELATION, Math.min(MAX_ABS_CORRELATION, r)));
+  const margin = normalQuantile(1 - alpha / 2) / Math.sqrt(n - 3);
+  return [Math.tanh(z - margin), Math.tanh(z + margin)];
+};
+
+/**
+ * Inverse of a square matrix by Gauss–Jordan elimination with partial
+ * pivoting, or null when it is (numerically) singular
+ */
+export const invertMatrix = (matrix: number[][]): number[][] | null => {
+  const size = matrix.length;
+  const rows = matrix.map((row, i) => row.concat(row.map((_, j) => (i === j ? 1 : 0))));
+
+  for (let col = 0; col < size; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < size; row++) {
+      if (Math.abs(rows[row][col]) > Math.abs(rows[pivot][col])) pivot = row;
+    }
+    if (Math.abs(rows[pivot][col]) < 1e-10) return null;
+    [rows[col], rows[pivot]] = [rows[pivot], rows[col]];
+
+    const scale = rows[col][col];
+    rows[col] = rows[col].map(value => value / scale);
+    for (let row = 0; row < size; row++) {
+      if (row === col) continue;
+      const factor = rows[row][col];
+      if (factor !== 0) rows[row] = rows[row].map((value, j) => value - factor * rows[col][j]);
+    }
+  }
+
+  return rows.map(row => row.slice(size));
+};
+
+/**
+ * Least-squares fit of y on the columns of `predictors` (rows are
+ * observations, no intercept column), solving (XᵀX + λI)β = Xᵀy. A
+ * `ridgeLambda` of 0 is ordinary least squares. Null when XᵀX + λI is singular.
+ */
+export const fitLeastSquares = (
+  predictors: number[][],
+  y: number[],
+  ridgeLambda: number
+): { coefficients: number[]; residualSumOfSquares: number } | null => {
+  const width = predictors.length > 0 ? predictors[0].length : 0;
+  const gram = Array.from({ length: width }, (_, i) =>
+    Array.from({ length: width }, (_, j) =>
+      predictors.reduce((sum, row) => sum + row[i] * row[j], 0) + (i === j ? ridgeLambda : 0)
+    )
+  );
+  const inverse = invertMatrix(gram);
+  if (!inverse) return null;
+
+  const moments = Array.from({ length: width }, (_, i) => predictors.reduce((sum, row, k) => sum + row[i] * y[k], 0));
+  const coefficients = inverse.map(row => row.reduce((sum, value, j) => sum + value * moments[j], 0));
+  const residualSumOfSquares = predictors.reduce((sum, row, k) => {
+    const residual = y[k] - row.reduce((fit, value, j) => fit + value * coefficients[j], 0);
+    return sum + residual * residual;
+  }, 0);
+
+  return { coefficients, residualSumOfSquares };
+};
+
+/**
+ * Cohen's d of `a` against `b` with the pooled standard deviation; 0 when
+ * neither group varies
+ */
+export const cohensD = (a: number[], b: number[]): number => {
+  const pooledVariance = ((a.length - 1) * Math.pow(standardDeviation(a), 2) + (b.length - 1) * Math.pow(standardDeviation(b), 2)) /
+    (a.length + b.length - 2);
+  return pooledVariance > 0 ? (mean(a) - mean(b)) / Math.sqrt(pooledVariance) : 0;
+};
+
+/**
+ * Two-sided Mann–Whitney U test of `a` against `b`, by the normal
+ * approximation with tie and continuity corrections
+ */
+export const mannWhitneyU = (a: number[], b: number[]): { u: number; p: number } => {
+  const pooled = a.map(value => ({ value, inA: true }))
+    .concat(b.map(value => ({ value, inA: false })))
+    .sort((x, y) => x.value - y.value);
+  const n = pooled.length;
+
+  let rankSumA = 0;
+  let tieTerm = 0;
+  for (let start = 0; start < n;) {
+    let end = start;
+    while (end + 1 < n && pooled[end + 1].value === pooled[start].value) end++;
+    const averageRank = (start + end) / 2 + 1;
+    for (let i = start; i <= end; i++) {
+      if (pooled[i].inA) rankSumA += averageRank;
+    }
+    const ties = end - start + 1;
+    tieTerm += ties * ties * ties - ties;
+    start = end + 1;
+  }
+
+  const u = rankSumA - (a.length * (a.length + 1)) / 2;
+  const expected = (a.length * b.length) / 2;
+  const variance = ((a.length * b.length) / 12) * (n + 1 - tieTerm / (n * (n - 1)));
+  if (variance <= 0) return { u, p: 1 };
+
+  const z = Math.max(0, Math.abs(u - expected) - 0.5) / Math.sqrt(variance);
+  return { u, p: Math.min(1, 2 * (1 - normalCdf(z))) };
+};
+
+/**
+ * Deterministic uniform generator in (0, 1) (Park–Miller), so resampled
+ * intervals do not shift from one render to the next
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = Math.abs(Math.floor(seed)) % 2147483646 + 1;
+  return () => {
+    state = (state * 16807) % 2147483647;
+    return state / 2147483647;
+  };
+};
@@ -0,0 +1,39 @@
+// src/lib/storage/importer.ts
+import { loadMoodEntries } from '@/lib/mood-migration';
+import { getMeta, setMeta } from './indexeddb';
+import { readStoredGoalProgress, readStoredGoals } from './local-storage';
+import { Repositories } from './repository';
+
+const LEGACY_IMPORT_META_KEY = 'legacyLocalStorageImportedAt';
+
+export interface LegacyImportResult {
+  moodEntries: number;
+  goals: number;
+  progressRecords: number;
+}
+
+/**
+ * Copy everything the app previously kept in localStorage into IndexedDB.
+ * Runs once per database; the localStorage keys are left in place as a
+ * read-only safety net and are never written again by the IndexedDB engine.
+ */
+export const importLegacyLocalStorage = async (
+  db: IDBDatabase,
+  repositories: Repositories
+): Promise<LegacyImportResult | null> => {
+  const importedAt = await getMeta<string>(db, LEGACY_IMPORT_META_KEY);
+  if (importedAt) return null;
+
+  const moodEntries = loadMoodEntries();
+  const goals = readStoredGoals();
+  const progress = readStoredGoalProgress();
+  const progressRecords = Object.keys(progress).reduce((sum, goalId) => sum + progress[goalId].length, 0);
+
+  if (moodEntries.length > 0) await repositories.moods.replaceAll(moodEntries);
+  if (goals.length > 0) await repositories.goals.replaceAll(goals);
+  if (progressRecords > 0) await repositories.goals.replaceAllProgress(progress);
+
+  await setMeta(db, LEGACY_IMPORT_META_KEY, new Date().toISOString());
+
+  return { moodEntries: moodEntries.length, goals: goals.length, progressRecords };
+};
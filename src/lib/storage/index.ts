@@ -0,0 +1,410 @@
+// src/lib/storage/index.ts
+import { EncryptionConfig, LockState } from '@/types/encryption';
+import { SyncEndpoint } from '@/types/sync';
+import { MOOD_BACKUP_KEY, MOOD_QUARANTINE_KEY, MOOD_STORAGE_KEY } from '@/lib/mood-migration';
+import { DecryptionError } from '@/lib/crypto';
+import {
+  DEFAULT_PROFILE_ID,
+  getProfileRegistry,
+  ProfileError,
+  removeProfileFromRegistry,
+  scopedStorageKey,
+  setActiveProfileId
+} from '@/lib/profiles';
+import {
+  deleteDatabase,
+  getProfileDatabaseName,
+  IndexedDBGoalRepository,
+  IndexedDBKeyValueBackend,
+  IndexedDBMoodRepository,
+  IndexedDBOperationLogRepository,
+  IndexedDBSettingsRepository,
+  IndexedDBVaultBackend,
+  isIndexedDBAvailable,
+  openDatabase,
+  SYNC_META_PREFIX
+} from './indexeddb';
+import {
+  GOAL_PROGRESS_STORAGE_KEY,
+  GOALS_STORAGE_KEY,
+  LocalStorageGoalRepository,
+  LocalStorageKeyValueBackend,
+  LocalStorageMoodRepository,
+  LocalStorageOperationLogRepository,
+  LocalStorageSettingsRepository,
+  LocalStorageVaultBackend,
+  OPERATION_LOG_STORAGE_KEY,
+  removeScopedKeys,
+  SETTINGS_STORAGE_KEY,
+  SYNC_STORAGE_PREFIX
+} from './local-storage';
+import { SyncStateStore } from '@/lib/sync/state';
+import { createTrackedRepositories } from '@/lib/sync/tracking';
+import { clearProfileOutbox } from '@/lib/sync/outbox';
+import { importLegacyLocalStorage } from './importer';
+import { Repositories, VaultBackend } from './repository';
+import {
+  createVaultRepositories,
+  EMPTY_VAULT_DATA,
+  readAllData,
+  readVaultConfig,
+  Vault,
+  VAULT_CONFIG_KEY,
+  VAULT_STORES,
+  VAULT_SYNC_ENDPOINT_KEY,
+  writeAllData
+} from './vault';
+
+export type {
+  MoodRepository,
+  GoalRepository,
+  OperationLogRepository,
+  SettingsRepository,
+  Repositories,
+  StorageEngine
+} from './repository';
+
+export { readAllData } from './vault';
+
+/**
+ * Thrown by getRepositories while encryption is on and the vault is locked
+ */
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Storage is locked');
+    this.name = 'StorageLockedError';
+    Object.setPrototypeOf(this, StorageLockedError.prototype);
+  }
+}
+
+interface StorageBackend {
+  profileId: string;
+  plain: Repositories; // The engine's own stores; emptied while encryption is on
+  vault: VaultBackend;
+  sync: SyncStateStore;
+  close: () => void;
+}
+
+// Plain-text localStorage keys of one profile, scoped with scopedStorageKey
+const PROFILE_STORAGE_KEYS = [
+  MOOD_STORAGE_KEY,
+  MOOD_BACKUP_KEY,
+  MOOD_QUARANTINE_KEY,
+  GOALS_STORAGE_KEY,
+  GOAL_PROGRESS_STORAGE_KEY,
+  OPERATION_LOG_STORAGE_KEY,
+  SETTINGS_STORAGE_KEY,
+];
+
+let backendPromise: Promise<StorageBackend> | null = null;
+let repositoriesPromise: Promise<Repositories> | null = null;
+let unlockedVault: Vault | null = null;
+const lockListeners = new Set<(state: LockState) => void>();
+const profileListeners = new Set<(profileId: string) => void>();
+
+const createLocalStorageBackend = (profileId: string): StorageBackend => ({
+  profileId,
+  plain: {
+    engine: 'localstorage',
+    moods: new LocalStorageMoodRepository(profileId),
+    goals: new LocalStorageGoalRepository(profileId),
+    history: new LocalStorageOperationLogRepository(profileId),
+    settings: new LocalStorageSettingsRepository(profileId),
+  },
+  vault: new LocalStorageVaultBackend(profileId),
+  sync: new SyncStateStore(new LocalStorageKeyValueBackend(SYNC_STORAGE_PREFIX, profileId)),
+  close: () => undefined,
+});
+
+const createBackend = async (profileId: string): Promise<StorageBackend> => {
+  if (!isIndexedDBAvailable()) {
+    return createLocalStorageBackend(profileId);
+  }
+
+  try {
+    const db = await openDatabase(getProfileDatabaseName(profileId));
+    const repositories: Repositories = {
+      engine: 'indexeddb',
+      moods: new IndexedDBMoodRepository(db),
+      goals: new IndexedDBGoalRepository(db),
+      history: new IndexedDBOperationLogRepository(db),
+      settings: new IndexedDBSettingsRepository(db),
+    };
+
+    // Data written before profiles existed belongs to the default profile
+    if (profileId === DEFAULT_PROFILE_ID) {
+      await importLegacyLocalStorage(db, repositories);
+    }
+
+    return {
+      profileId,
+      plain: repositories,
+      vault: new IndexedDBVaultBackend(db),
+      sync: new SyncStateStore(new IndexedDBKeyValueBackend(db, SYNC_META_PREFIX)),
+      close: () => db.close(),
+    };
+  } catch (err) {
+    console.error('IndexedDB unavailable, falling back to localStorage:', err);
+    return createLocalStorageBackend(profileId);
+  }
+};
+
+/**
+ * Opens the active profile's database once per page load (running the
+ * one-time localStorage import). Another tab switching profiles changes
+ * what the next page load opens, not this one.
+ */
+const getBackend = (): Promise<StorageBackend> => {
+  if (!backendPromise) {
+    backendPromise = createBackend(getProfileRegistry().activeProfileId);
+  }
+  return backendPromise;
+};
+
+const createUntrackedRepositories = async (): Promise<Repositories> => {
+  const { plain, vault } = await getBackend();
+  if (!(await readVaultConfig(vault))) return plain;
+  if (!unlockedVault) throw new StorageLockedError();
+  return createVaultRepositories(unlockedVault, plain.engine);
+};
+
+const createRepositories = async (): Promise<Repositories> => {
+  const repositories = await createUntrackedRepositories();
+  const { sync } = await getBackend();
+  return (await sync.getConfig()) ? createTrackedRepositories(repositories, sync) : repositories;
+};
+
+/**
+ * Shared storage entry point. Falls back to localStorage when IndexedDB is
+ * unavailable; with encryption on, serves the unlocked vault instead; with
+ * sync on, records every mood and goal write for the next sync.
+ */
+export const getRepositories = (): Promise<Repositories> => {
+  if (!repositoriesPromise) {
+    const promise = createRepositories();
+    repositoriesPromise = promise;
+    // Let the next caller retry after a lock error
+    promise.catch(() => {
+      if (repositoriesPromise === promise) repositoriesPromise = null;
+    });
+  }
+  return repositoriesPromise;
+};
+
+/**
+ * Sync bookkeeping of the active profile; plain text, so readable while locked
+ */
+export const getSyncState = async (): Promise<SyncStateStore> => (await getBackend()).sync;
+
+/**
+ * The active profile's stores without change tracking, plus its sync
+ * bookkeeping, for the sync engine to apply remote changes with
+ */
+export const getSyncStorage = async (): Promise<{ repositories: Repositories; state: SyncStateStore }> => ({
+  repositories: await createUntrackedRepositories(),
+  state: await getSyncState(),
+});
+
+/**
+ * Where the active profile syncs and its record key. Sealed in the vault while
+ * encryption is on, so this throws StorageLockedError until it is unlocked.
+ */
+export const getSyncEndpoint = async (): Promise<SyncEndpoint | null> => {
+  const { vault, sync } = await getBackend();
+  if (!(await readVaultConfig(vault))) {
+    const legacy = await sync.takeLegacyEndpoint();
+    if (legacy) await sync.saveEndpoint(legacy);
+    return legacy || (await sync.getEndpoint()) || null;
+  }
+  if (!unlockedVault) throw new StorageLockedError();
+
+  const legacy = await sync.takeLegacyEndpoint();
+  if (legacy && !unlockedVault.syncEndpoint) await unlockedVault.setSyncEndpoint(legacy);
+  return unlockedVault.syncEndpoint;
+};
+
+/**
+ * Store or clear the active profile's sync endpoint, in the vault while encryption is on
+ */
+export const saveSyncEndpoint = async (endpoint: SyncEndpoint | null): Promise<void> => {
+  const { vault, sync } = await getBackend();
+  if (!(await readVaultConfig(vault))) {
+    await sync.saveEndpoint(endpoint);
+    return;
+  }
+  if (!unlockedVault) throw new StorageLockedError();
+  await unlockedVault.setSyncEndpoint(endpoint);
+};
+
+/**
+ * Rebuild the stores on the next getRepositories call, e.g. after sync was turned on or off
+ */
+export const refreshRepositories = (): void => {
+  repositoriesPromise = null;
+};
+
+const setLockState = (state: LockState) => {
+  repositoriesPromise = null;
+  lockListeners.forEach(listener => listener(state));
+};
+
+export const subscribeToLockState = (listener: (state: LockState) => void): (() => void) => {
+  lockListeners.add(listener);
+  return () => {
+    lockListeners.delete(listener);
+  };
+};
+
+export const getEncryptionConfig = async (): Promise<EncryptionConfig | undefined> =>
+  readVaultConfig((await getBackend()).vault);
+
+export const getLockState = async (): Promise<LockState> => {
+  if (!(await getEncryptionConfig())) return 'disabled';
+  return unlockedVault ? 'unlocked' : 'locked';
+};
+
+/**
+ * Decrypt the vault into memory. Throws DecryptionError for a wrong passphrase.
+ */
+export const unlockStorage = async (passphrase: string): Promise<void> => {
+  unlockedVault = await Vault.open((await getBackend()).vault, passphrase);
+  setLockState('unlocked');
+};
+
+/**
+ * Drop the key and every decrypted record from memory
+ */
+export const lockStorage = (): void => {
+  if (!unlockedVault) return;
+  unlockedVault = null;
+  setLockState('locked');
+};
+
+/**
+ * Move every store and the sync endpoint into the encrypted vault, then wipe
+ * the plain-text copies: every profile localStorage key, including the legacy
+ * safety-net keys and quarantined mood records that could not be migrated
+ */
+export const enableEncryption = async (passphrase: string, autoLockMinutes: number): Promise<void> => {
+  const { profileId, plain, vault, sync } = await getBackend();
+  if (await readVaultConfig(vault)) throw new Error('Encryption is already enabled');
+
+  const data = await readAllData(plain);
+  const syncEndpoint = await getSyncEndpoint();
+  unlockedVault = await Vault.create(vault, passphrase, data, autoLockMinutes, syncEndpoint);
+
+  await writeAllData(plain, EMPTY_VAULT_DATA);
+  await sync.saveEndpoint(null);
+  PROFILE_STORAGE_KEYS.forEach(key => localStorage.removeItem(scopedStorageKey(key, profileId)));
+
+  setLockState('unlocked');
+};
+
+const requireUnlockedVault = async (passphrase: string): Promise<Vault> => {
+  if (!unlockedVault) throw new StorageLockedError();
+  if (!(await unlockedVault.verify(passphrase))) throw new DecryptionError();
+  return unlockedVault;
+};
+
+/**
+ * Write the decrypted stores and sync endpoint back in plain text and delete the vault
+ */
+export const disableEncryption = async (passphrase: string): Promise<void> => {
+  const vault = await requireUnlockedVault(passphrase);
+  const { plain, sync } = await getBackend();
+
+  await writeAllData(plain, vault.data);
+  await sync.saveEndpoint(vault.syncEndpoint);
+  await vault.destroy();
+  unlockedVault = null;
+  setLockState('disabled');
+};
+
+/**
+ * Derive a new key (fresh salt) and re-encrypt every store with it
+ */
+export const changePassphrase = async (currentPassphrase: string, newPassphrase: string): Promise<void> => {
+  const vault = await requireUnlockedVault(currentPassphrase);
+  await vault.changePassphrase(newPassphrase);
+};
+
+// 0 while locked, disabled or set to never
+export const getAutoLockMinutes = (): number => (unlockedVault ? unlockedVault.autoLockMinutes : 0);
+
+export const setAutoLockMinutes = async (minutes: number): Promise<void> => {
+  if (!unlockedVault) throw new StorageLockedError();
+  await unlockedVault.setAutoLockMinutes(minutes);
+};
+
+/**
+ * The profile whose stores getRepositories currently serves
+ */
+export const getStorageProfileId = async (): Promise<string> => (await getBackend()).profileId;
+
+export const subscribeToProfileSwitch = (listener: (profileId: string) => void): (() => void) => {
+  profileListeners.add(listener);
+  return () => {
+    profileListeners.delete(listener);
+  };
+};
+
+/**
+ * Close the current profile's storage, dropping its key if it was unlocked,
+ * and open another. Listeners hear about the switch together with the new
+ * profile's lock state, so nothing renders against the wrong stores.
+ */
+export const switchProfile = async (profileId: string): Promise<void> => {
+  const previous = backendPromise;
+  setActiveProfileId(profileId);
+  backendPromise = null;
+  repositoriesPromise = null;
+  unlockedVault = null;
+  if (previous) {
+    previous.then(backend => backend.close()).catch(() => undefined);
+  }
+
+  const state = await getLockState();
+  profileListeners.forEach(listener => listener(profileId));
+  setLockState(state);
+};
+
+/**
+ * Run `action` against a profile's stores without switching to it.
+ * Throws StorageLockedError for another profile that is encrypted.
+ */
+export const withProfileRepositories = async <T>(
+  profileId: string,
+  action: (repositories: Repositories) => Promise<T>
+): Promise<T> => {
+  if ((await getBackend()).profileId === profileId) {
+    return action(await getRepositories());
+  }
+
+  const backend = await createBackend(profileId);
+  try {
+    if (await readVaultConfig(backend.vault)) throw new StorageLockedError();
+    return await action(backend.plain);
+  } finally {
+    backend.close();
+  }
+};
+
+/**
+ * Delete every store of a profile (database, localStorage keys, vault and offline queue),
+ * then remove it from the registry. The active profile cannot be deleted.
+ */
+export const deleteProfile = async (profileId: string): Promise<void> => {
+  if ((await getBackend()).profileId === profileId || getProfileRegistry().activeProfileId === profileId) {
+    throw new ProfileError('Switch to another profile before deleting this one');
+  }
+
+  if (isIndexedDBAvailable()) {
+    await deleteDatabase(getProfileDatabaseName(profileId));
+  }
+  PROFILE_STORAGE_KEYS.forEach(key => localStorage.removeItem(scopedStorageKey(key, profileId)));
+  await new LocalStorageVaultBackend(profileId).remove([VAULT_CONFIG_KEY, VAULT_SYNC_ENDPOINT_KEY, ...VAULT_STORES]);
+  removeScopedKeys(SYNC_STORAGE_PREFIX, profileId);
+  await clearProfileOutbox(profileId);
+
+  removeProfileFromRegistry(profileId);
+};
@@ -0,0 +1,361 @@
+// src/lib/storage/indexeddb.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { Operation, OperationTarget } from '@/types/history';
+import { AppSettings, DEFAULT_SETTINGS } from '@/types/settings';
+import { sortMoodEntries } from '@/lib/mood-migration';
+import { DEFAULT_PROFILE_ID } from '@/lib/profiles';
+import { sortOperations } from '@/lib/operation-log';
+import { GoalRepository, KeyValueBackend, MoodRepository, OperationLogRepository, SettingsRepository } from './repository';
+
+export const DB_NAME = 'herflowstate';
+export const DB_VERSION = 2;
+
+const SETTINGS_META_KEY = 'settings';
+const VAULT_META_PREFIX = 'vault:';
+export const SYNC_META_PREFIX = 'sync:';
+
+export const STORES = {
+  moodEntries: 'moodEntries',
+  goals: 'goals',
+  goalProgress: 'goalProgress',
+  meta: 'meta',
+  operations: 'operations',
+} as const;
+
+type StoreName = typeof STORES[keyof typeof STORES];
+
+/**
+ * Wrap a single IDBRequest in a promise
+ */
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Resolve once every request in a transaction has been committed
+ */
+export const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+export const isIndexedDBAvailable = (): boolean =>
+  typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+
+/**
+ * Open (and create or upgrade) the app database
+ */
+export const openDatabase = (name: string = DB_NAME): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+
+      if (!db.objectStoreNames.contains(STORES.moodEntries)) {
+        const moodStore = db.createObjectStore(STORES.moodEntries, { keyPath: 'id' });
+        moodStore.createIndex('date', 'date', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.goals)) {
+        db.createObjectStore(STORES.goals, { keyPath: 'id' });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.goalProgress)) {
+        const progressStore = db.createObjectStore(STORES.goalProgress, { autoIncrement: true });
+        progressStore.createIndex('goalId', 'goalId', { unique: false });
+      }
+
+      if (!db.objectStoreNames.contains(STORES.meta)) {
+        db.createObjectStore(STORES.meta);
+      }
+
+      // v2: operation log for undo/redo and revision history
+      if (!db.objectStoreNames.contains(STORES.operations)) {
+        const operationStore = db.createObjectStore(STORES.operations, { keyPath: 'id' });
+        operationStore.createIndex('recordId', 'recordId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database upgrade blocked by another open tab'));
+  });
+
+/**
+ * Each profile gets its own database; the default profile keeps the original one
+ */
+export const getProfileDatabaseName = (profileId: string): string =>
+  profileId === DEFAULT_PROFILE_ID ? DB_NAME : `${DB_NAME}-${profileId}`;
+
+/**
+ * Delete a whole database. Fails instead of waiting if another tab still has it open.
+ */
+export const deleteDatabase = (name: string): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(name);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error);
+    request.onblocked = () => reject(new Error('Database deletion blocked by another open tab'));
+  });
+
+/**
+ * Read a value from the key/value meta store
+ */
+export const getMeta = async <T>(db: IDBDatabase, key: string): Promise<T | undefined> => {
+  const tx = db.transaction(STORES.meta, 'readonly');
+  return requestToPromise<T | undefined>(tx.objectStore(STORES.meta).get(key));
+};
+
+export const setMeta = async (db: IDBDatabase, key: string, value: unknown): Promise<void> => {
+  const tx = db.transaction(STORES.meta, 'readwrite');
+  tx.objectStore(STORES.meta).put(value, key);
+  await transactionDone(tx);
+};
+
+const readAll = async <T>(db: IDBDatabase, store: StoreName): Promise<T[]> => {
+  const tx = db.transaction(store, 'readonly');
+  return requestToPromise<T[]>(tx.objectStore(store).getAll());
+};
+
+const writeAll = async <T>(db: IDBDatabase, store: StoreName, records: T[]): Promise<void> => {
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  objectStore.clear();
+  records.forEach(record => objectStore.put(record));
+  await transactionDone(tx);
+};
+
+/**
+ * Mood entries keyed by id, with a `date` index for per-day lookups
+ */
+export class IndexedDBMoodRepository implements MoodRepository {
+  constructor(private db: IDBDatabase) {}
+
+  async getAll(): Promise<MoodEntry[]> {
+    return sortMoodEntries(await readAll<MoodEntry>(this.db, STORES.moodEntries));
+  }
+
+  async get(id: string): Promise<MoodEntry | undefined> {
+    const tx = this.db.transaction(STORES.moodEntries, 'readonly');
+    return requestToPromise<MoodEntry | undefined>(tx.objectStore(STORES.moodEntries).get(id));
+  }
+
+  async getByDate(date: string): Promise<MoodEntry[]> {
+    const tx = this.db.transaction(STORES.moodEntries, 'readonly');
+    const index = tx.objectStore(STORES.moodEntries).index('date');
+    return sortMoodEntries(await requestToPromise<MoodEntry[]>(index.getAll(date)));
+  }
+
+  async getInRange(startDate: string, endDate: string): Promise<MoodEntry[]> {
+    if (startDate > endDate) return [];
+    const tx = this.db.transaction(STORES.moodEntries, 'readonly');
+    const index = tx.objectStore(STORES.moodEntries).index('date');
+    return sortMoodEntries(await requestToPromise<MoodEntry[]>(index.getAll(IDBKeyRange.bound(startDate, endDate))));
+  }
+
+  async put(entry: MoodEntry): Promise<void> {
+    const tx = this.db.transaction(STORES.moodEntries, 'readwrite');
+    tx.objectStore(STORES.moodEntries).put(entry);
+    await transactionDone(tx);
+  }
+
+  async putMany(entries: MoodEntry[]): Promise<void> {
+    const tx = this.db.transaction(STORES.moodEntries, 'readwrite');
+    const store = tx.objectStore(STORES.moodEntries);
+    entries.forEach(entry => store.put(entry));
+    await transactionDone(tx);
+  }
+
+  async delete(id: string): Promise<void> {
+    const tx = this.db.transaction(STORES.moodEntries, 'readwrite');
+    tx.objectStore(STORES.moodEntries).delete(id);
+    await transactionDone(tx);
+  }
+
+  async replaceAll(entries: MoodEntry[]): Promise<void> {
+    await writeAll(this.db, STORES.moodEntries, entries);
+  }
+}
+
+/**
+ * Goals keyed by id; progress records are auto-keyed with a `goalId` index.
+ * Dates survive structured cloning, so no revival is needed on read.
+ */
+export class IndexedDBGoalRepository implements GoalRepository {
+  constructor(private db: IDBDatabase) {}
+
+  async getAll(): Promise<Goal[]> {
+    return readAll<Goal>(this.db, STORES.goals);
+  }
+
+  async get(id: string): Promise<Goal | undefined> {
+    const tx = this.db.transaction(STORES.goals, 'readonly');
+    return requestToPromise<Goal | undefined>(tx.objectStore(STORES.goals).get(id));
+  }
+
+  async put(goal: Goal): Promise<void> {
+    const tx = this.db.transaction(STORES.goals, 'readwrite');
+    tx.objectStore(STORES.goals).put(goal);
+    await transactionDone(tx);
+  }
+
+  async delete(id: string): Promise<void> {
+    const tx = this.db.transaction([STORES.goals, STORES.goalProgress], 'readwrite');
+    tx.objectStore(STORES.goals).delete(id);
+
+    const progressStore = tx.objectStore(STORES.goalProgress);
+    const cursorRequest = progressStore.index('goalId').openKeyCursor(IDBKeyRange.only(id));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (cursor) {
+        progressStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    await transactionDone(tx);
+  }
+
+  async replaceAll(goals: Goal[]): Promise<void> {
+    await writeAll(this.db, STORES.goals, goals);
+  }
+
+  async getProgress(goalId: string): Promise<GoalProgress[]> {
+    const tx = this.db.transaction(STORES.goalProgress, 'readonly');
+    const index = tx.objectStore(STORES.goalProgress).index('goalId');
+    return requestToPromise<GoalProgress[]>(index.getAll(goalId));
+  }
+
+  async getAllProgress(): Promise<Record<string, GoalProgress[]>> {
+    const records = await readAll<GoalProgress>(this.db, STORES.goalProgress);
+    return records.reduce<Record<string, GoalProgress[]>>((grouped, progress) => {
+      grouped[progress.goalId] = [...(grouped[progress.goalId] || []), progress];
+      return grouped;
+    }, {});
+  }
+
+  async addProgress(progress: GoalProgress): Promise<void> {
+    const tx = this.db.transaction(STORES.goalProgress, 'readwrite');
+    tx.objectStore(STORES.goalProgress).add(progress);
+    await transactionDone(tx);
+  }
+
+  async removeProgress(progress: GoalProgress): Promise<void> {
+    const tx = this.db.transaction(STORES.goalProgress, 'readwrite');
+    const cursorRequest = tx.objectStore(STORES.goalProgress).index('goalId').openCursor(IDBKeyRange.only(progress.goalId));
+    cursorRequest.onsuccess = () => {
+      const cursor = cursorRequest.result;
+      if (!cursor) return;
+      if ((cursor.value as GoalProgress).date.getTime() === progress.date.getTime()) {
+        cursor.delete();
+      } else {
+        cursor.continue();
+      }
+    };
+    await transactionDone(tx);
+  }
+
+  async replaceAllProgress(progress: Record<string, GoalProgress[]>): Promise<void> {
+    const records = Object.keys(progress).reduce<GoalProgress[]>(
+      (all, goalId) => all.concat(progress[goalId]),
+      []
+    );
+    await writeAll(this.db, STORES.goalProgress, records);
+  }
+}
+
+/**
+ * Operation log keyed by operation id, with a `recordId` index for revision lookups.
+ * Ids are time-ordered, so key order is chronological.
+ */
+export class IndexedDBOperationLogRepository implements OperationLogRepository {
+  constructor(private db: IDBDatabase) {}
+
+  async append(operation: Operation): Promise<void> {
+    const tx = this.db.transaction(STORES.operations, 'readwrite');
+    tx.objectStore(STORES.operations).put(operation);
+    await transactionDone(tx);
+  }
+
+  async appendMany(operations: Operation[]): Promise<void> {
+    const tx = this.db.transaction(STORES.operations, 'readwrite');
+    const store = tx.objectStore(STORES.operations);
+    operations.forEach(operation => store.put(operation));
+    await transactionDone(tx);
+  }
+
+  async getAll(): Promise<Operation[]> {
+    return sortOperations(await readAll<Operation>(this.db, STORES.operations));
+  }
+
+  async getForRecord(target: OperationTarget, recordId: string): Promise<Operation[]> {
+    const tx = this.db.transaction(STORES.operations, 'readonly');
+    const index = tx.objectStore(STORES.operations).index('recordId');
+    const operations = await requestToPromise<Operation[]>(index.getAll(recordId));
+    return sortOperations(operations.filter(operation => operation.target === target));
+  }
+
+  async replaceAll(operations: Operation[]): Promise<void> {
+    await writeAll(this.db, STORES.operations, operations);
+  }
+
+  async clear(): Promise<void> {
+    await writeAll(this.db, STORES.operations, []);
+  }
+}
+
+/**
+ * Settings live as one document in the meta store
+ */
+export class IndexedDBSettingsRepository implements SettingsRepository {
+  constructor(private db: IDBDatabase) {}
+
+  async get(): Promise<AppSettings> {
+    const saved = await getMeta<Partial<AppSettings>>(this.db, SETTINGS_META_KEY);
+    return { ...DEFAULT_SETTINGS, ...saved };
+  }
+
+  async save(settings: AppSettings): Promise<void> {
+    await setMeta(this.db, SETTINGS_META_KEY, settings);
+  }
+}
+
+/**
+ * Prefixed keys in the meta store; a batch is written in one transaction
+ */
+export class IndexedDBKeyValueBackend implements KeyValueBackend {
+  constructor(private db: IDBDatabase, private prefix: string) {}
+
+  async read<T>(key: string): Promise<T | undefined> {
+    return getMeta<T>(this.db, this.prefix + key);
+  }
+
+  async writeMany(values: Record<string, unknown>): Promise<void> {
+    const tx = this.db.transaction(STORES.meta, 'readwrite');
+    const store = tx.objectStore(STORES.meta);
+    Object.keys(values).forEach(key => store.put(values[key], this.prefix + key));
+    await transactionDone(tx);
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    const tx = this.db.transaction(STORES.meta, 'readwrite');
+    const store = tx.objectStore(STORES.meta);
+    keys.forEach(key => store.delete(this.prefix + key));
+    await transactionDone(tx);
+  }
+}
+
+/**
+ * Vault blobs in the meta store; one transaction per batch means a passphrase
+ * change never leaves stores encrypted under different keys
+ */
+export class IndexedDBVaultBackend extends IndexedDBKeyValueBackend {
+  constructor(db: IDBDatabase) {
+    super(db, VAULT_META_PREFIX);
+  }
+}
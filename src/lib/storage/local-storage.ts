@@ -0,0 +1,296 @@
+// src/lib/storage/local-storage.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { Operation, OperationTarget } from '@/types/history';
+import { AppSettings, DEFAULT_SETTINGS } from '@/types/settings';
+import { DEFAULT_PROFILE_ID, getProfileRegistry, scopedStorageKey } from '@/lib/profiles';
+import { loadMoodEntries, saveMoodEntries, sortMoodEntries } from '@/lib/mood-migration';
+import { selectEntriesInRange } from '@/lib/mood-queries';
+import { sortOperations } from '@/lib/operation-log';
+import { GoalRepository, KeyValueBackend, MoodRepository, OperationLogRepository, SettingsRepository } from './repository';
+
+export const GOALS_STORAGE_KEY = 'herflow-goals';
+export const GOAL_PROGRESS_STORAGE_KEY = 'herflow-goal-progress';
+export const OPERATION_LOG_STORAGE_KEY = 'herflow-operation-log';
+export const SETTINGS_STORAGE_KEY = 'herflow-settings';
+export const VAULT_STORAGE_PREFIX = 'herflow-vault-';
+export const SYNC_STORAGE_PREFIX = 'herflow-sync-';
+
+// localStorage quota is small, so the fallback log keeps only the most recent operations
+const MAX_STORED_OPERATIONS = 500;
+
+/**
+ * Restore Date fields lost when a goal was serialised to JSON
+ */
+export const reviveGoal = (goal: any): Goal => ({
+  ...goal,
+  createdAt: new Date(goal.createdAt),
+  updatedAt: new Date(goal.updatedAt),
+  deadline: new Date(goal.deadline),
+  milestones: goal.milestones?.map((m: any) => ({
+    ...m,
+    targetDate: new Date(m.targetDate),
+    completedAt: m.completedAt ? new Date(m.completedAt) : undefined
+  })) || []
+});
+
+export const reviveGoalProgress = (progress: any): GoalProgress => ({
+  ...progress,
+  date: new Date(progress.date)
+});
+
+/**
+ * Read the goal keys of a profile; for the default profile these are the
+ * legacy keys written before the IndexedDB engine existed
+ */
+export const readStoredGoals = (profileId: string = DEFAULT_PROFILE_ID): Goal[] => {
+  const savedGoals = localStorage.getItem(scopedStorageKey(GOALS_STORAGE_KEY, profileId));
+  return savedGoals ? JSON.parse(savedGoals).map(reviveGoal) : [];
+};
+
+export const readStoredGoalProgress = (profileId: string = DEFAULT_PROFILE_ID): Record<string, GoalProgress[]> => {
+  const savedProgress = localStorage.getItem(scopedStorageKey(GOAL_PROGRESS_STORAGE_KEY, profileId));
+  if (!savedProgress) return {};
+
+  const parsedProgress = JSON.parse(savedProgress);
+  Object.keys(parsedProgress).forEach(goalId => {
+    parsedProgress[goalId] = parsedProgress[goalId].map(reviveGoalProgress);
+  });
+  return parsedProgress;
+};
+
+/**
+ * Fallback mood store for browsers without IndexedDB (e.g. some private modes).
+ * Every write rewrites the whole array, so it is only used when nothing better exists.
+ */
+export class LocalStorageMoodRepository implements MoodRepository {
+  constructor(private readonly profileId: string = DEFAULT_PROFILE_ID) {}
+
+  async getAll(): Promise<MoodEntry[]> {
+    return loadMoodEntries(this.profileId);
+  }
+
+  async get(id: string): Promise<MoodEntry | undefined> {
+    return loadMoodEntries(this.profileId).find(entry => entry.id === id);
+  }
+
+  async getByDate(date: string): Promise<MoodEntry[]> {
+    return loadMoodEntries(this.profileId).filter(entry => entry.date === date);
+  }
+
+  async getInRange(startDate: string, endDate: string): Promise<MoodEntry[]> {
+    return selectEntriesInRange(loadMoodEntries(this.profileId), startDate, endDate);
+  }
+
+  async put(entry: MoodEntry): Promise<void> {
+    await this.putMany([entry]);
+  }
+
+  async putMany(entries: MoodEntry[]): Promise<void> {
+    const ids = new Set(entries.map(entry => entry.id));
+    const kept = loadMoodEntries(this.profileId).filter(e => !ids.has(e.id));
+    saveMoodEntries([...kept, ...entries], this.profileId);
+  }
+
+  async delete(id: string): Promise<void> {
+    saveMoodEntries(loadMoodEntries(this.profileId).filter(entry => entry.id !== id), this.profileId);
+  }
+
+  async replaceAll(entries: MoodEntry[]): Promise<void> {
+    saveMoodEntries(sortMoodEntries(entries), this.profileId);
+  }
+}
+
+export class LocalStorageGoalRepository implements GoalRepository {
+  constructor(private readonly profileId: string = DEFAULT_PROFILE_ID) {}
+
+  private saveGoals(goals: Goal[]): void {
+    localStorage.setItem(scopedStorageKey(GOALS_STORAGE_KEY, this.profileId), JSON.stringify(goals));
+  }
+
+  private saveProgress(progress: Record<string, GoalProgress[]>): void {
+    localStorage.setItem(scopedStorageKey(GOAL_PROGRESS_STORAGE_KEY, this.profileId), JSON.stringify(progress));
+  }
+
+  async getAll(): Promise<Goal[]> {
+    return readStoredGoals(this.profileId);
+  }
+
+  async get(id: string): Promise<Goal | undefined> {
+    return readStoredGoals(this.profileId).find(goal => goal.id === id);
+  }
+
+  async put(goal: Goal): Promise<void> {
+    const goals = readStoredGoals(this.profileId);
+    const index = goals.findIndex(g => g.id === goal.id);
+    if (index >= 0) {
+      goals[index] = goal;
+    } else {
+      goals.push(goal);
+    }
+    this.saveGoals(goals);
+  }
+
+  async delete(id: string): Promise<void> {
+    this.saveGoals(readStoredGoals(this.profileId).filter(goal => goal.id !== id));
+
+    const progress = readStoredGoalProgress(this.profileId);
+    delete progress[id];
+    this.saveProgress(progress);
+  }
+
+  async replaceAll(goals: Goal[]): Promise<void> {
+    this.saveGoals(goals);
+  }
+
+  async getProgress(goalId: string): Promise<GoalProgress[]> {
+    return readStoredGoalProgress(this.profileId)[goalId] || [];
+  }
+
+  async getAllProgress(): Promise<Record<string, GoalProgress[]>> {
+    return readStoredGoalProgress(this.profileId);
+  }
+
+  async addProgress(progress: GoalProgress): Promise<void> {
+    const allProgress = readStoredGoalProgress(this.profileId);
+    allProgress[progress.goalId] = [...(allProgress[progress.goalId] || []), progress];
+    this.saveProgress(allProgress);
+  }
+
+  async removeProgress(progress: GoalProgress): Promise<void> {
+    const allProgress = readStoredGoalProgress(this.profileId);
+    const records = allProgress[progress.goalId] || [];
+    const index = records.findIndex(p => p.date.getTime() === progress.date.getTime());
+    if (index < 0) return;
+
+    allProgress[progress.goalId] = [...records.slice(0, index), ...records.slice(index + 1)];
+    this.saveProgress(allProgress);
+  }
+
+  async replaceAllProgress(progress: Record<string, GoalProgress[]>): Promise<void> {
+    this.saveProgress(progress);
+  }
+}
+
+/**
+ * Restore the goal Dates inside goal progress operations after a JSON round trip
+ */
+export const reviveOperation = (operation: any): Operation =>
+  operation.target === 'goalProgress'
+    ? {
+        ...operation,
+        before: reviveGoal(operation.before),
+        after: reviveGoal(operation.after),
+        progress: reviveGoalProgress(operation.progress)
+      }
+    : operation;
+
+export class LocalStorageOperationLogRepository implements OperationLogRepository {
+  private readonly key: string;
+
+  constructor(profileId: string = DEFAULT_PROFILE_ID) {
+    this.key = scopedStorageKey(OPERATION_LOG_STORAGE_KEY, profileId);
+  }
+
+  private read(): Operation[] {
+    const saved = localStorage.getItem(this.key);
+    return saved ? JSON.parse(saved).map(reviveOperation) : [];
+  }
+
+  async append(operation: Operation): Promise<void> {
+    await this.appendMany([operation]);
+  }
+
+  async appendMany(operations: Operation[]): Promise<void> {
+    const stored = [...this.read(), ...operations].slice(-MAX_STORED_OPERATIONS);
+    localStorage.setItem(this.key, JSON.stringify(stored));
+  }
+
+  async getAll(): Promise<Operation[]> {
+    return sortOperations(this.read());
+  }
+
+  async getForRecord(target: OperationTarget, recordId: string): Promise<Operation[]> {
+    return sortOperations(this.read().filter(op => op.target === target && op.recordId === recordId));
+  }
+
+  async replaceAll(operations: Operation[]): Promise<void> {
+    const recent = sortOperations(operations).slice(-MAX_STORED_OPERATIONS);
+    localStorage.setItem(this.key, JSON.stringify(recent));
+  }
+
+  async clear(): Promise<void> {
+    localStorage.removeItem(this.key);
+  }
+}
+
+export class LocalStorageSettingsRepository implements SettingsRepository {
+  private readonly key: string;
+
+  constructor(profileId: string = DEFAULT_PROFILE_ID) {
+    this.key = scopedStorageKey(SETTINGS_STORAGE_KEY, profileId);
+  }
+
+  async get(): Promise<AppSettings> {
+    const saved = localStorage.getItem(this.key);
+    return { ...DEFAULT_SETTINGS, ...(saved ? JSON.parse(saved) : {}) };
+  }
+
+  async save(settings: AppSettings): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(settings));
+  }
+}
+
+/**
+ * Prefixed keys, scoped to a profile. localStorage writes are synchronous, so
+ * a batch cannot be interrupted by another write part-way through.
+ */
+export class LocalStorageKeyValueBackend implements KeyValueBackend {
+  constructor(private readonly prefix: string, private readonly profileId: string = DEFAULT_PROFILE_ID) {}
+
+  private storageKey(key: string): string {
+    return scopedStorageKey(this.prefix + key, this.profileId);
+  }
+
+  async read<T>(key: string): Promise<T | undefined> {
+    const saved = localStorage.getItem(this.storageKey(key));
+    return saved ? JSON.parse(saved) : undefined;
+  }
+
+  async writeMany(values: Record<string, unknown>): Promise<void> {
+    Object.keys(values).forEach(key => {
+      localStorage.setItem(this.storageKey(key), JSON.stringify(values[key]));
+    });
+  }
+
+  async remove(keys: string[]): Promise<void> {
+    keys.forEach(key => localStorage.removeItem(this.storageKey(key)));
+  }
+}
+
+/**
+ * Remove every key under `prefix` that belongs to the profile, for stores
+ * whose key set is not known up front
+ */
+export const removeScopedKeys = (prefix: string, profileId: string): void => {
+  const otherSuffixes = getProfileRegistry().profiles
+    .filter(profile => profile.id !== profileId && profile.id !== DEFAULT_PROFILE_ID)
+    .map(profile => scopedStorageKey('', profile.id));
+  const belongsToProfile = (key: string) =>
+    profileId === DEFAULT_PROFILE_ID
+      ? !otherSuffixes.some(suffix => key.endsWith(suffix))
+      : key.endsWith(scopedStorageKey('', profileId));
+
+  const keys: string[] = [];
+  for (let i = 0; i < localStorage.length; i++) {
+    const key = localStorage.key(i);
+    if (key && key.startsWith(prefix) && belongsToProfile(key)) keys.push(key);
+  }
+  keys.forEach(key => localStorage.removeItem(key));
+};
+
+export class LocalStorageVaultBackend extends LocalStorageKeyValueBackend {
+  constructor(profileId: string = DEFAULT_PROFILE_ID) {
+    super(VAULT_STORAGE_PREFIX, profileId);
+  }
+}
@@ -0,0 +1,83 @@
+// src/lib/storage/repository.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { Operation, OperationTarget } from '@/types/history';
+import { AppSettings } from '@/types/settings';
+
+/**
+ * Persistence contract for mood entries. Implementations must return
+ * canonical (migrated) entries sorted by date, oldest first.
+ */
+export interface MoodRepository {
+  getAll(): Promise<MoodEntry[]>;
+  get(id: string): Promise<MoodEntry | undefined>;
+  getByDate(date: string): Promise<MoodEntry[]>;
+  getInRange(startDate: string, endDate: string): Promise<MoodEntry[]>; // Inclusive YYYY-MM-DD bounds
+  put(entry: MoodEntry): Promise<void>;
+  putMany(entries: MoodEntry[]): Promise<void>;
+  delete(id: string): Promise<void>;
+  replaceAll(entries: MoodEntry[]): Promise<void>;
+}
+
+/**
+ * Persistence contract for goals and their progress log
+ */
+export interface GoalRepository {
+  getAll(): Promise<Goal[]>;
+  get(id: string): Promise<Goal | undefined>;
+  put(goal: Goal): Promise<void>;
+  delete(id: string): Promise<void>;
+  replaceAll(goals: Goal[]): Promise<void>;
+
+  getProgress(goalId: string): Promise<GoalProgress[]>;
+  getAllProgress(): Promise<Record<string, GoalProgress[]>>;
+  addProgress(progress: GoalProgress): Promise<void>;
+  removeProgress(progress: GoalProgress): Promise<void>; // Matches on goalId + date
+  replaceAllProgress(progress: Record<string, GoalProgress[]>): Promise<void>;
+}
+
+/**
+ * Append-only log of every add, update and delete, oldest first
+ */
+export interface OperationLogRepository {
+  append(operation: Operation): Promise<void>;
+  appendMany(operations: Operation[]): Promise<void>;
+  getAll(): Promise<Operation[]>;
+  getForRecord(target: OperationTarget, recordId: string): Promise<Operation[]>;
+  replaceAll(operations: Operation[]): Promise<void>;
+  clear(): Promise<void>;
+}
+
+/**
+ * Single settings document; `get` fills in defaults for missing keys
+ */
+export interface SettingsRepository {
+  get(): Promise<AppSettings>;
+  save(settings: AppSettings): Promise<void>;
+}
+
+export type StorageEngine = 'indexeddb' | 'localstorage';
+
+export interface Repositories {
+  engine: StorageEngine;
+  moods: MoodRepository;
+  goals: GoalRepository;
+  history: OperationLogRepository;
+  settings: SettingsRepository;
+}
+
+/**
+ * Raw key/value storage next to the data stores, namespaced by a key prefix.
+ * `writeMany` is atomic where the engine allows it.
+ */
+export interface KeyValueBackend {
+  read<T>(key: string): Promise<T | undefined>;
+  writeMany(values: Record<string, unknown>): Promise<void>;
+  remove(keys: string[]): Promise<void>;
+}
+
+/**
+ * Key/value storage for the encrypted vault: its plain-text config and one
+ * ciphertext blob per store
+ */
+export type VaultBackend = KeyValueBackend;
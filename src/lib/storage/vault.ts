@@ -0,0 +1,412 @@
+// src/lib/storage/vault.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { Operation, OperationTarget } from '@/types/history';
+import { AppSettings, DEFAULT_SETTINGS } from '@/types/settings';
+import { BackupData } from '@/types/backup';
+import { EncryptedPayload, EncryptionConfig, VaultStoreName } from '@/types/encryption';
+import { SyncEndpoint } from '@/types/sync';
+import { createKeyDerivationParams, decryptJson, decryptText, deriveKey, DecryptionError, encryptJson, encryptText } from '@/lib/crypto';
+import { sortMoodEntries } from '@/lib/mood-migration';
+import { selectEntriesInRange } from '@/lib/mood-queries';
+import { sortOperations } from '@/lib/operation-log';
+import { reviveGoal, reviveGoalProgress, reviveOperation } from './local-storage';
+import {
+  GoalRepository,
+  MoodRepository,
+  OperationLogRepository,
+  Repositories,
+  SettingsRepository,
+  StorageEngine,
+  VaultBackend
+} from './repository';
+
+export const VAULT_FORMAT_VERSION = 1;
+
+export const VAULT_CONFIG_KEY = 'config';
+
+export const VAULT_STORES: VaultStoreName[] = ['moodEntries', 'goals', 'goalProgress', 'settings', 'operations'];
+
+// Sealed beside the stores but not one of them: it is device config, never backed up
+export const VAULT_SYNC_ENDPOINT_KEY = 'syncEndpoint';
+
+// Encrypted into the config; decrypting it proves the passphrase before any store is touched
+const KEY_CHECK_VALUE = 'herflowstate-vault';
+
+export const EMPTY_VAULT_DATA: BackupData = {
+  moodEntries: [],
+  goals: [],
+  goalProgress: [],
+  settings: DEFAULT_SETTINGS,
+  operations: [],
+};
+
+const groupProgress = (records: GoalProgress[]): Record<string, GoalProgress[]> =>
+  records.reduce<Record<string, GoalProgress[]>>((grouped, progress) => {
+    grouped[progress.goalId] = [...(grouped[progress.goalId] || []), progress];
+    return grouped;
+  }, {});
+
+/**
+ * Every store of a set of repositories, in backup layout
+ */
+export const readAllData = async (repositories: Repositories): Promise<BackupData> => {
+  const [moodEntries, goals, progress, settings, operations] = await Promise.all([
+    repositories.moods.getAll(),
+    repositories.goals.getAll(),
+    repositories.goals.getAllProgress(),
+    repositories.settings.get(),
+    repositories.history.getAll()
+  ]);
+
+  return {
+    moodEntries,
+    goals,
+    goalProgress: Object.keys(progress).reduce<GoalProgress[]>((all, goalId) => all.concat(progress[goalId]), []),
+    settings,
+    operations
+  };
+};
+
+/**
+ * Overwrite every store of a set of repositories
+ */
+export const writeAllData = async (repositories: Repositories, data: BackupData): Promise<void> => {
+  await repositories.moods.replaceAll(data.moodEntries);
+  await repositories.goals.replaceAll(data.goals);
+  await repositories.goals.replaceAllProgress(groupProgress(data.goalProgress));
+  await repositories.settings.save(data.settings);
+  await repositories.history.replaceAll(data.operations);
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Dates do not survive the JSON inside the ciphertext
+const reviveStore = (store: VaultStoreName, value: unknown): unknown => {
+  if (store === 'settings') return { ...DEFAULT_SETTINGS, ...(isRecord(value) ? value : {}) };
+
+  const records: unknown[] = Array.isArray(value) ? value : [];
+  switch (store) {
+    case 'moodEntries': return sortMoodEntries(records as MoodEntry[]);
+    case 'goals': return records.map(reviveGoal);
+    case 'goalProgress': return records.map(reviveGoalProgress);
+    case 'operations': return sortOperations(records.map(reviveOperation));
+  }
+};
+
+export const readVaultConfig = (backend: VaultBackend): Promise<EncryptionConfig | undefined> =>
+  backend.read<EncryptionConfig>(VAULT_CONFIG_KEY);
+
+const createConfig = async (
+  passphrase: string,
+  autoLockMinutes: number,
+  createdAt: string = new Date().toISOString()
+): Promise<{ config: EncryptionConfig; key: CryptoKey }> => {
+  const kdf = createKeyDerivationParams();
+  const key = await deriveKey(passphrase, kdf);
+  return {
+    key,
+    config: {
+      version: VAULT_FORMAT_VERSION,
+      kdf,
+      check: await encryptText(key, KEY_CHECK_VALUE),
+      autoLockMinutes,
+      createdAt,
+      updatedAt: new Date().toISOString(),
+    },
+  };
+};
+
+const unlockKey = async (config: EncryptionConfig, passphrase: string): Promise<CryptoKey> => {
+  const key = await deriveKey(passphrase, config.kdf);
+  if (await decryptText(key, config.check) !== KEY_CHECK_VALUE) throw new DecryptionError();
+  return key;
+};
+
+/**
+ * Decrypted copy of every store, held in memory while the app is unlocked.
+ * Each store is one AES-GCM blob with a fresh IV per write; only the config
+ * (salt, iteration count, key check) is stored in plain text.
+ */
+export class Vault {
+  private writes: Promise<void> = Promise.resolve();
+
+  private constructor(
+    private backend: VaultBackend,
+    private key: CryptoKey,
+    private config: EncryptionConfig,
+    public data: BackupData,
+    public syncEndpoint: SyncEndpoint | null = null
+  ) {}
+
+  /**
+   * Encrypt `data` under a new passphrase and write the config and every store in one batch
+   */
+  static async create(
+    backend: VaultBackend,
+    passphrase: string,
+    data: BackupData,
+    autoLockMinutes: number,
+    syncEndpoint: SyncEndpoint | null = null
+  ): Promise<Vault> {
+    const { config, key } = await createConfig(passphrase, autoLockMinutes);
+    const vault = new Vault(backend, key, config, data, syncEndpoint);
+    await vault.writeAll();
+    return vault;
+  }
+
+  /**
+   * Verify the passphrase and decrypt every store. Throws DecryptionError on a wrong passphrase.
+   */
+  static async open(backend: VaultBackend, passphrase: string): Promise<Vault> {
+    const config = await readVaultConfig(backend);
+    if (!config) throw new Error('Encryption is not enabled');
+
+    const key = await unlockKey(config, passphrase);
+    const data = { ...EMPTY_VAULT_DATA } as Record<VaultStoreName, unknown>;
+    for (const store of VAULT_STORES) {
+      const payload = await backend.read<EncryptedPayload>(store);
+      if (payload) data[store] = reviveStore(store, await decryptJson<unknown>(key, payload));
+    }
+
+    const endpointPayload = await backend.read<EncryptedPayload>(VAULT_SYNC_ENDPOINT_KEY);
+    const syncEndpoint = endpointPayload ? await decryptJson<SyncEndpoint>(key, endpointPayload) : null;
+
+    return new Vault(backend, key, config, data as unknown as BackupData, syncEndpoint);
+  }
+
+  get autoLockMinutes(): number {
+    return this.config.autoLockMinutes;
+  }
+
+  async verify(passphrase: string): Promise<boolean> {
+    try {
+      await unlockKey(this.config, passphrase);
+      return true;
+    } catch (err) {
+      if (err instanceof DecryptionError) return false;
+      throw err;
+    }
+  }
+
+  /**
+   * Re-encrypt one store from memory. Writes are queued so an older snapshot never lands last.
+   */
+  persist(store: VaultStoreName): Promise<void> {
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        await this.backend.writeMany({ [store]: await encryptJson(this.key, this.data[store]) });
+      });
+    return this.writes;
+  }
+
+  /**
+   * Seal the sync endpoint, or remove it when sync is turned off. Queued with the store writes.
+   */
+  setSyncEndpoint(endpoint: SyncEndpoint | null): Promise<void> {
+    this.syncEndpoint = endpoint;
+    this.writes = this.writes
+      .catch(() => undefined)
+      .then(async () => {
+        if (endpoint) {
+          await this.backend.writeMany({ [VAULT_SYNC_ENDPOINT_KEY]: await encryptJson(this.key, endpoint) });
+        } else {
+          await this.backend.remove([VAULT_SYNC_ENDPOINT_KEY]);
+        }
+      });
+    return this.writes;
+  }
+
+  /**
+   * New salt, new key, every store re-encrypted; the old ciphertext is replaced in the same batch
+   */
+  async changePassphrase(passphrase: string): Promise<void> {
+    await this.writes.catch(() => undefined);
+    const { config, key } = await createConfig(passphrase, this.config.autoLockMinutes, this.config.createdAt);
+    this.key = key;
+    this.config = config;
+    await this.writeAll();
+  }
+
+  async setAutoLockMinutes(minutes: number): Promise<void> {
+    this.config = { ...this.config, autoLockMinutes: minutes, updatedAt: new Date().toISOString() };
+    await this.backend.writeMany({ [VAULT_CONFIG_KEY]: this.config });
+  }
+
+  /**
+   * Delete the config, every encrypted store and the sealed sync endpoint
+   */
+  async destroy(): Promise<void> {
+    await this.writes.catch(() => undefined);
+    await this.backend.remove([VAULT_CONFIG_KEY, VAULT_SYNC_ENDPOINT_KEY, ...VAULT_STORES]);
+  }
+
+  private async writeAll(): Promise<void> {
+    const values: Record<string, unknown> = { [VAULT_CONFIG_KEY]: this.config };
+    for (const store of VAULT_STORES) {
+      values[store] = await encryptJson(this.key, this.data[store]);
+    }
+    if (this.syncEndpoint) {
+      values[VAULT_SYNC_ENDPOINT_KEY] = await encryptJson(this.key, this.syncEndpoint);
+    }
+    await this.backend.writeMany(values);
+  }
+}
+
+export class VaultMoodRepository implements MoodRepository {
+  constructor(private vault: Vault) {}
+
+  private save(entries: MoodEntry[]): Promise<void> {
+    this.vault.data.moodEntries = sortMoodEntries(entries);
+    return this.vault.persist('moodEntries');
+  }
+
+  async getAll(): Promise<MoodEntry[]> {
+    return [...this.vault.data.moodEntries];
+  }
+
+  async get(id: string): Promise<MoodEntry | undefined> {
+    return this.vault.data.moodEntries.find(entry => entry.id === id);
+  }
+
+  async getByDate(date: string): Promise<MoodEntry[]> {
+    return this.vault.data.moodEntries.filter(entry => entry.date === date);
+  }
+
+  async getInRange(startDate: string, endDate: string): Promise<MoodEntry[]> {
+    return selectEntriesInRange(this.vault.data.moodEntries, startDate, endDate);
+  }
+
+  async put(entry: MoodEntry): Promise<void> {
+    await this.putMany([entry]);
+  }
+
+  async putMany(entries: MoodEntry[]): Promise<void> {
+    const ids = new Set(entries.map(entry => entry.id));
+    await this.save([...this.vault.data.moodEntries.filter(entry => !ids.has(entry.id)), ...entries]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.save(this.vault.data.moodEntries.filter(entry => entry.id !== id));
+  }
+
+  async replaceAll(entries: MoodEntry[]): Promise<void> {
+    await this.save(entries);
+  }
+}
+
+export class VaultGoalRepository implements GoalRepository {
+  constructor(private vault: Vault) {}
+
+  private saveGoals(goals: Goal[]): Promise<void> {
+    this.vault.data.goals = goals;
+    return this.vault.persist('goals');
+  }
+
+  private saveProgress(progress: GoalProgress[]): Promise<void> {
+    this.vault.data.goalProgress = progress;
+    return this.vault.persist('goalProgress');
+  }
+
+  async getAll(): Promise<Goal[]> {
+    return [...this.vault.data.goals];
+  }
+
+  async get(id: string): Promise<Goal | undefined> {
+    return this.vault.data.goals.find(goal => goal.id === id);
+  }
+
+  async put(goal: Goal): Promise<void> {
+    const goals = this.vault.data.goals;
+    const index = goals.findIndex(g => g.id === goal.id);
+    await this.saveGoals(index >= 0 ? [...goals.slice(0, index), goal, ...goals.slice(index + 1)] : [...goals, goal]);
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.saveGoals(this.vault.data.goals.filter(goal => goal.id !== id));
+    await this.saveProgress(this.vault.data.goalProgress.filter(progress => progress.goalId !== id));
+  }
+
+  async replaceAll(goals: Goal[]): Promise<void> {
+    await this.saveGoals(goals);
+  }
+
+  async getProgress(goalId: string): Promise<GoalProgress[]> {
+    return this.vault.data.goalProgress.filter(progress => progress.goalId === goalId);
+  }
+
+  async getAllProgress(): Promise<Record<string, GoalProgress[]>> {
+    return groupProgress(this.vault.data.goalProgress);
+  }
+
+  async addProgress(progress: GoalProgress): Promise<void> {
+    await this.saveProgress([...this.vault.data.goalProgress, progress]);
+  }
+
+  async removeProgress(progress: GoalProgress): Promise<void> {
+    const records = this.vault.data.goalProgress;
+    const index = records.findIndex(p => p.goalId === progress.goalId && p.date.getTime() === progress.date.getTime());
+    if (index < 0) return;
+    await this.saveProgress([...records.slice(0, index), ...records.slice(index + 1)]);
+  }
+
+  async replaceAllProgress(progress: Record<string, GoalProgress[]>): Promise<void> {
+    await this.saveProgress(Object.keys(progress).reduce<GoalProgress[]>((all, goalId) => all.concat(progress[goalId]), []));
+  }
+}
+
+export class VaultOperationLogRepository implements OperationLogRepository {
+  constructor(private vault: Vault) {}
+
+  async append(operation: Operation): Promise<void> {
+    await this.appendMany([operation]);
+  }
+
+  async appendMany(operations: Operation[]): Promise<void> {
+    this.vault.data.operations = [...this.vault.data.operations, ...operations];
+    await this.vault.persist('operations');
+  }
+
+  async getAll(): Promise<Operation[]> {
+    return sortOperations(this.vault.data.operations);
+  }
+
+  async getForRecord(target: OperationTarget, recordId: string): Promise<Operation[]> {
+    return sortOperations(this.vault.data.operations.filter(op => op.target === target && op.recordId === recordId));
+  }
+
+  async replaceAll(operations: Operation[]): Promise<void> {
+    this.vault.data.operations = sortOperations(operations);
+    await this.vault.persist('operations');
+  }
+
+  async clear(): Promise<void> {
+    await this.replaceAll([]);
+  }
+}
+
+export class VaultSettingsRepository implements SettingsRepository {
+  constructor(private vault: Vault) {}
+
+  async get(): Promise<AppSettings> {
+    return { ...DEFAULT_SETTINGS, ...this.vault.data.settings };
+  }
+
+  async save(settings: AppSettings): Promise<void> {
+    this.vault.data.settings = settings;
+    await this.vault.persist('settings');
+  }
+}
+
+/**
+ * Repositories that read from the unlocked vault and write back encrypted
+ */
+export const createVaultRepositories = (vault: Vault, engine: StorageEngine): Repositories => ({
+  engine,
+  moods: new VaultMoodRepository(vault),
+  goals: new VaultGoalRepository(vault),
+  history: new VaultOperationLogRepository(vault),
+  settings: new VaultSettingsRepository(vault),
+});
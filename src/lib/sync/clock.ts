@@ -0,0 +1,58 @@
+// src/lib/sync/clock.ts
+
+const TIME_DIGITS = 15;
+const COUNTER_DIGITS = 5;
+
+/**
+ * Smallest clock; every real clock sorts after it
+ */
+export const ZERO_CLOCK = '';
+
+export const formatClock = (time: number, counter: number, deviceId: string): string =>
+  `${String(time).padStart(TIME_DIGITS, '0')}-${String(counter).padStart(COUNTER_DIGITS, '0')}-${deviceId}`;
+
+const parseClock = (clock: string): { time: number; counter: number } => {
+  const [time, counter] = clock.split('-');
+  return { time: Number(time) || 0, counter: Number(counter) || 0 };
+};
+
+/**
+ * Wall-clock milliseconds a clock was issued at
+ */
+export const getClockTime = (clock: string): number => parseClock(clock).time;
+
+/**
+ * Later of two clocks; clocks compare as plain strings
+ */
+export const maxClock = (a: string, b: string): string => (a >= b ? a : b);
+
+/**
+ * Hybrid logical clock: wall-clock milliseconds plus a counter, so clocks
+ * issued on this device always increase, and never fall behind a clock
+ * already seen from another device even when the two wall clocks disagree.
+ */
+export class HybridClock {
+  private time = 0;
+  private counter = 0;
+
+  constructor(private readonly deviceId: string) {}
+
+  now(): string {
+    const wall = Date.now();
+    if (wall > this.time) {
+      this.time = wall;
+      this.counter = 0;
+    } else {
+      this.counter += 1;
+    }
+    return formatClock(this.time, this.counter, this.deviceId);
+  }
+
+  observe(clock: string): void {
+    const { time, counter } = parseClock(clock);
+    if (time > this.time || (time === this.time && counter > this.counter)) {
+      this.time = time;
+      this.counter = counter;
+    }
+  }
+}
@@ -0,0 +1,85 @@
+// src/lib/sync/collections.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { SyncCollection } from '@/types/sync';
+import { Repositories } from '@/lib/storage/repository';
+import { migrateMoodEntry } from '@/lib/mood-migration';
+import { reviveGoal, reviveGoalProgress } from '@/lib/storage/local-storage';
+
+/**
+ * How the sync engine reads, writes and identifies the records of one store
+ */
+export interface SyncCollectionAdapter<T> {
+  name: SyncCollection;
+  getId(record: T): string;
+  fromData(data: Record<string, unknown>): T | null; // null when the data is unusable
+  read(repositories: Repositories, id: string): Promise<T | undefined>;
+  readAll(repositories: Repositories): Promise<T[]>;
+  write(repositories: Repositories, record: T, previous: T | undefined): Promise<void>;
+  remove(repositories: Repositories, record: T): Promise<void>;
+}
+
+/**
+ * JSON form of a record, so Dates compare and travel as ISO strings
+ */
+export const toSyncData = (record: unknown): Record<string, unknown> => JSON.parse(JSON.stringify(record));
+
+export const getRecordKey = (collection: SyncCollection, id: string): string => `${collection}/${id}`;
+
+export const parseRecordKey = (key: string): { collection: SyncCollection; id: string } => {
+  const separator = key.indexOf('/');
+  return { collection: key.slice(0, separator) as SyncCollection, id: key.slice(separator + 1) };
+};
+
+// Progress records have no id of their own; goalId + date is what removeProgress matches on
+export const getGoalProgressId = (progress: GoalProgress): string =>
+  `${progress.goalId}@${progress.date.toISOString()}`;
+
+export const flattenProgress = (progress: Record<string, GoalProgress[]>): GoalProgress[] =>
+  Object.keys(progress).reduce<GoalProgress[]>((all, goalId) => [...all, ...progress[goalId]], []);
+
+const parseGoalProgressId = (id: string): { goalId: string; date: number } => {
+  const separator = id.lastIndexOf('@');
+  return { goalId: id.slice(0, separator), date: Date.parse(id.slice(separator + 1)) };
+};
+
+const moodEntries: SyncCollectionAdapter<MoodEntry> = {
+  name: 'moodEntries',
+  getId: entry => entry.id,
+  fromData: data => migrateMoodEntry(data),
+  read: (repositories, id) => repositories.moods.get(id),
+  readAll: repositories => repositories.moods.getAll(),
+  write: (repositories, entry) => repositories.moods.put(entry),
+  remove: (repositories, entry) => repositories.moods.delete(entry.id),
+};
+
+const goals: SyncCollectionAdapter<Goal> = {
+  name: 'goals',
+  getId: goal => goal.id,
+  fromData: data => reviveGoal(data),
+  read: (repositories, id) => repositories.goals.get(id),
+  readAll: repositories => repositories.goals.getAll(),
+  write: (repositories, goal) => repositories.goals.put(goal),
+  remove: (repositories, goal) => repositories.goals.delete(goal.id),
+};
+
+const goalProgress: SyncCollectionAdapter<GoalProgress> = {
+  name: 'goalProgress',
+  getId: getGoalProgressId,
+  fromData: data => reviveGoalProgress(data),
+  read: async (repositories, id) => {
+    const { goalId, date } = parseGoalProgressId(id);
+    return (await repositories.goals.getProgress(goalId)).find(p => p.date.getTime() === date);
+  },
+  readAll: async repositories => flattenProgress(await repositories.goals.getAllProgress()),
+  write: async (repositories, progress, previous) => {
+    if (previous) await repositories.goals.removeProgress(previous);
+    await repositories.goals.addProgress(progress);
+  },
+  remove: (repositories, progress) => repositories.goals.removeProgress(progress),
+};
+
+export const SYNC_COLLECTIONS = { moodEntries, goals, goalProgress };
+
+export const getSyncCollection = (name: SyncCollection): SyncCollectionAdapter<unknown> =>
+  SYNC_COLLECTIONS[name] as SyncCollectionAdapter<unknown>;
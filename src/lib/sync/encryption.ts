@@ -0,0 +1,151 @@
+// src/lib/sync/encryption.ts
+import { EncryptedSyncPayload, PullResponse, PushChange, PushResponse, ServerChange, SyncRecordPayload } from '@/types/sync';
+import { fromBase64, fromBase64Url, randomBytes, toBase64, toBase64Url } from '@/lib/crypto';
+import { getClockTime, maxClock, ZERO_CLOCK } from './clock';
+import { getRecordKey } from './collections';
+import { SyncError, SyncTransport } from './transport';
+
+const SYNC_KEY_BYTES = 32;
+const IV_BYTES = 12;
+
+/**
+ * The two keys derived (HKDF) from a profile's sync key: one seals record
+ * payloads, the other turns record keys into opaque server-side ids
+ */
+export interface SyncKeySet {
+  records: CryptoKey;
+  recordIds: CryptoKey;
+}
+
+/**
+ * A fresh random sync key, shared with other devices only through pairing
+ */
+export const createSyncKey = (): string => toBase64Url(randomBytes(SYNC_KEY_BYTES));
+
+export const importSyncKey = async (encoded: string): Promise<SyncKeySet> => {
+  let raw: Uint8Array<ArrayBuffer>;
+  try {
+    raw = fromBase64Url(encoded);
+  } catch (err) {
+    throw new SyncError('The sync key is not valid');
+  }
+  if (raw.length !== SYNC_KEY_BYTES) throw new SyncError('The sync key is not valid');
+
+  const material = await crypto.subtle.importKey('raw', raw, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(0), info: new TextEncoder().encode(info) },
+      material,
+      algorithm,
+      false,
+      usages
+    );
+
+  return {
+    records: await derive('herflow-sync-records', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    recordIds: await derive('herflow-sync-record-ids', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+  };
+};
+
+/**
+ * Time of the latest field change, the only record detail the server sees
+ */
+const getUpdatedAt = (payload: SyncRecordPayload): string | null => {
+  const latest = Object.keys(payload.clocks).reduce((clock, field) => maxClock(clock, payload.clocks[field]), ZERO_CLOCK);
+  const time = getClockTime(latest);
+  return time > 0 ? new Date(time).toISOString() : null;
+};
+
+/**
+ * Wraps a server transport so records are encrypted before they leave the
+ * device. The server sees an HMAC of each record key instead of the key
+ * itself (ids can contain dates), the ciphertext and one timestamp. The opaque
+ * id is bound to the ciphertext as AES-GCM associated data, so the server
+ * cannot pass one record off as another.
+ */
+export class EncryptedSyncTransport implements SyncTransport {
+  private readonly opaqueIds = new Map<string, string>();
+
+  constructor(
+    private readonly inner: SyncTransport<EncryptedSyncPayload>,
+    private readonly keys: SyncKeySet
+  ) {}
+
+  async pull(cursor: number): Promise<PullResponse> {
+    const response = await this.inner.pull(cursor);
+    const changes: ServerChange[] = [];
+    for (const change of response.changes) {
+      const payload = await this.open(change.key, change.payload);
+      changes.push({ key: getRecordKey(payload.collection, payload.id), seq: change.seq, payload });
+    }
+    return { ...response, changes };
+  }
+
+  async push(changes: PushChange[]): Promise<PushResponse> {
+    const sealed = await this.sealChanges(changes);
+    const recordKeys = new Map(sealed.map((change, i) => [change.key, changes[i].key] as [string, string]));
+
+    const response = await this.inner.push(sealed);
+    return {
+      accepted: response.accepted
+        .filter(accepted => recordKeys.has(accepted.key))
+        .map(accepted => ({ key: recordKeys.get(accepted.key) as string, seq: accepted.seq })),
+      conflicts: response.conflicts.filter(key => recordKeys.has(key)).map(key => recordKeys.get(key) as string),
+    };
+  }
+
+  /**
+   * Changes as they go over the wire, in the same order
+   */
+  async sealChanges(changes: PushChange[]): Promise<PushChange<EncryptedSyncPayload>[]> {
+    const sealed: PushChange<EncryptedSyncPayload>[] = [];
+    for (const change of changes) {
+      const opaqueId = await this.getOpaqueId(change.key);
+      sealed.push({ key: opaqueId, baseSeq: change.baseSeq, payload: await this.seal(opaqueId, change.payload) });
+    }
+    return sealed;
+  }
+
+  private async getOpaqueId(recordKey: string): Promise<string> {
+    let opaqueId = this.opaqueIds.get(recordKey);
+    if (!opaqueId) {
+      const signature = await crypto.subtle.sign('HMAC', this.keys.recordIds, new TextEncoder().encode(recordKey));
+      opaqueId = toBase64Url(new Uint8Array(signature));
+      this.opaqueIds.set(recordKey, opaqueId);
+    }
+    return opaqueId;
+  }
+
+  private async seal(opaqueId: string, payload: SyncRecordPayload): Promise<EncryptedSyncPayload> {
+    const iv = randomBytes(IV_BYTES);
+    const data = await crypto.subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: new TextEncoder().encode(opaqueId) },
+      this.keys.records,
+      new TextEncoder().encode(JSON.stringify(payload))
+    );
+    return { v: 1, iv: toBase64(iv), data: toBase64(new Uint8Array(data)), updatedAt: getUpdatedAt(payload) };
+  }
+
+  private async open(opaqueId: string, sealed: EncryptedSyncPayload): Promise<SyncRecordPayload> {
+    if (!sealed || sealed.v !== 1) {
+      throw new SyncError('This sync space holds data from a newer version of the app. Update the app to keep syncing.');
+    }
+
+    let payload: SyncRecordPayload;
+    try {
+      const data = await crypto.subtle.decrypt(
+        { name: 'AES-GCM', iv: fromBase64(sealed.iv), additionalData: new TextEncoder().encode(opaqueId) },
+        this.keys.records,
+        fromBase64(sealed.data)
+      );
+      payload = JSON.parse(new TextDecoder().decode(data));
+    } catch (err) {
+      throw new SyncError('This sync space was encrypted with a different key. Pair this device again.');
+    }
+
+    if ((await this.getOpaqueId(getRecordKey(payload.collection, payload.id))) !== opaqueId) {
+      throw new SyncError('The sync server returned a record under the wrong id');
+    }
+    return payload;
+  }
+}
@@ -0,0 +1,237 @@
+// src/lib/sync/engine.ts
+import { PushChange, RecordSyncState, ServerChange, SyncConfig, SyncResult } from '@/types/sync';
+import { Repositories } from '@/lib/storage/repository';
+import { stableStringify } from '@/lib/backup/checksum';
+import { formatClock } from './clock';
+import { getRecordKey, getSyncCollection, parseRecordKey, SYNC_COLLECTIONS, toSyncData } from './collections';
+import { mergeRecords, VersionedRecord } from './merge';
+import { SyncStateStore } from './state';
+import { SyncTransport } from './transport';
+
+// A push can lose the race against another device; after this many pull/push rounds we wait for the next sync
+const MAX_PUSH_ROUNDS = 3;
+
+const PUSH_BATCH_SIZE = 200;
+
+type SyncCounts = Omit<SyncResult, 'finishedAt'>;
+
+/**
+ * One offline-first sync pass: pull and merge remote changes, then push local
+ * ones. Remote changes are written to the untracked stores, so applying them
+ * never marks records dirty again.
+ */
+export class SyncEngine {
+  constructor(
+    private repositories: Repositories,
+    private state: SyncStateStore,
+    private transport: SyncTransport
+  ) {}
+
+  async sync(): Promise<SyncResult> {
+    const counts: SyncCounts = { pulled: 0, pushed: 0, merged: 0 };
+
+    if (!(await this.requireConfig()).baselineDone) {
+      await this.queueExistingRecords();
+    }
+
+    await this.pull(counts);
+    for (let round = 0; round < MAX_PUSH_ROUNDS; round++) {
+      const conflicts = await this.push(counts);
+      if (conflicts === 0) break;
+      // Another device pushed first: merge its version, then push the result
+      await this.pull(counts);
+    }
+
+    const finishedAt = new Date().toISOString();
+    await this.state.saveConfig({ ...(await this.requireConfig()), lastSyncedAt: finishedAt, updatedAt: finishedAt });
+    return { ...counts, finishedAt };
+  }
+
+  private async requireConfig(): Promise<SyncConfig> {
+    const config = await this.state.getConfig();
+    if (!config) throw new Error('Sync is not configured');
+    return config;
+  }
+
+  /**
+   * First sync against a space: queue every local record for upload. Fields
+   * written before tracking began get a clock from the record's own timestamp.
+   */
+  private async queueExistingRecords(): Promise<void> {
+    const { deviceId } = await this.requireConfig();
+    const keys: string[] = [];
+    const data: Record<string, Record<string, unknown>> = {};
+
+    for (const adapter of [SYNC_COLLECTIONS.moodEntries, SYNC_COLLECTIONS.goals, SYNC_COLLECTIONS.goalProgress]) {
+      const records: unknown[] = await adapter.readAll(this.repositories);
+      records.forEach(record => {
+        const key = getRecordKey(adapter.name, (adapter.getId as (record: unknown) => string)(record));
+        keys.push(key);
+        data[key] = toSyncData(record);
+      });
+    }
+
+    await this.state.setDirtyKeys([]);
+    await this.state.update(keys, states => {
+      keys.forEach(key => {
+        const record = data[key];
+        const writtenAt = Date.parse(String(record.updatedAt || record.date)) || 0;
+        const state = states[key];
+        Object.keys(record).forEach(field => {
+          if (!state.clocks[field]) state.clocks[field] = formatClock(writtenAt, 0, deviceId);
+        });
+        state.deleted = false;
+        state.seq = 0;
+        state.dirty = true;
+      });
+    });
+
+    await this.state.saveConfig({ ...(await this.requireConfig()), cursor: 0, baselineDone: true });
+  }
+
+  private async pull(counts: SyncCounts): Promise<void> {
+    let hasMore = true;
+    while (hasMore) {
+      const { cursor } = await this.requireConfig();
+      const response = await this.transport.pull(cursor);
+      for (const change of response.changes) {
+        await this.applyRemoteChange(change, counts);
+      }
+
+      await this.state.saveConfig({ ...(await this.requireConfig()), cursor: response.cursor });
+      hasMore = response.hasMore && response.changes.length > 0;
+    }
+  }
+
+  private async applyRemoteChange(change: ServerChange, counts: SyncCounts): Promise<void> {
+    const { payload } = change;
+    const adapter = getSyncCollection(payload.collection);
+    if (!adapter || change.key !== getRecordKey(payload.collection, payload.id)) {
+      console.warn(`Skipping unknown sync record ${change.key}`);
+      return;
+    }
+
+    const state = (await this.state.getStates([change.key]))[change.key];
+    // Already merged, e.g. our own push coming back
+    if (change.seq <= state.seq) return;
+
+    const clocksBefore = stableStringify(state.clocks);
+    for (const clock of Object.keys(payload.clocks).map(field => payload.clocks[field])) {
+      await this.state.observe(clock);
+    }
+
+    const current = await adapter.read(this.repositories, payload.id);
+    const local: VersionedRecord = {
+      data: current ? toSyncData(current) : null,
+      clocks: state.clocks,
+      deleted: state.deleted,
+    };
+    const merged = mergeRecords(local, payload);
+
+    if (merged.localChanged) {
+      if (merged.deleted || !merged.data) {
+        if (current) await adapter.remove(this.repositories, current);
+      } else {
+        const record = adapter.fromData(merged.data);
+        if (!record) {
+          console.warn(`Skipping unreadable sync record ${change.key}`);
+          return;
+        }
+        await adapter.write(this.repositories, record, current);
+      }
+      counts.pulled += 1;
+    }
+    if (merged.localChanged && merged.remoteChanged) counts.merged += 1;
+
+    await this.state.update([change.key], states => {
+      const latest = states[change.key];
+      // A local write landed while merging; keep its clocks and let the next round merge again
+      if (stableStringify(latest.clocks) !== clocksBefore) {
+        latest.dirty = true;
+        return;
+      }
+      const next: RecordSyncState = {
+        clocks: merged.clocks,
+        deleted: merged.deleted,
+        seq: change.seq,
+        dirty: merged.remoteChanged,
+      };
+      states[change.key] = next;
+    });
+  }
+
+  /**
+   * The uploads for some dirty records, as the next push would send them.
+   * Also used to queue uploads for the service worker while offline.
+   */
+  async buildPushChanges(keys: string[]): Promise<PushChange[]> {
+    const states = await this.state.getStates(keys);
+    const changes: PushChange[] = [];
+    const vanished: string[] = [];
+
+    for (const key of keys) {
+      const { collection, id } = parseRecordKey(key);
+      const adapter = getSyncCollection(collection);
+      const state = states[key];
+      const record = adapter ? await adapter.read(this.repositories, id) : undefined;
+
+      if (!adapter || (!record && !state.deleted)) {
+        // Removed while sync was off, so no tombstone was recorded; nothing left to send
+        vanished.push(key);
+        continue;
+      }
+
+      changes.push({
+        key,
+        baseSeq: state.seq,
+        payload: {
+          collection,
+          id,
+          deleted: state.deleted,
+          data: state.deleted || !record ? null : toSyncData(record),
+          clocks: state.clocks,
+        },
+      });
+    }
+
+    if (vanished.length > 0) {
+      await this.state.update(vanished, latest => {
+        vanished.forEach(key => {
+          latest[key].dirty = false;
+        });
+      });
+    }
+    return changes;
+  }
+
+  /**
+   * Upload dirty records; returns how many the server rejected as conflicts
+   */
+  private async push(counts: SyncCounts): Promise<number> {
+    const dirtyKeys = await this.state.getDirtyKeys();
+    let conflicts = 0;
+
+    for (let start = 0; start < dirtyKeys.length; start += PUSH_BATCH_SIZE) {
+      const changes = await this.buildPushChanges(dirtyKeys.slice(start, start + PUSH_BATCH_SIZE));
+      if (changes.length === 0) continue;
+
+      const sentClocks = new Map(changes.map(change => [change.key, stableStringify(change.payload.clocks)] as [string, string]));
+      const response = await this.transport.push(changes);
+      const acceptedKeys = response.accepted.map(accepted => accepted.key).filter(key => sentClocks.has(key));
+
+      await this.state.update(acceptedKeys, latest => {
+        response.accepted.forEach(({ key, seq }) => {
+          if (!latest[key]) return;
+          latest[key].seq = seq;
+          // Still dirty if it changed again while the request was in flight
+          latest[key].dirty = stableStringify(latest[key].clocks) !== sentClocks.get(key);
+        });
+      });
+
+      counts.pushed += acceptedKeys.length;
+      conflicts += response.conflicts.length;
+    }
+
+    return conflicts;
+  }
+}
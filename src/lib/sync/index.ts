@@ -0,0 +1,288 @@
+// src/lib/sync/index.ts
+import { OutboxEntry, OutboxWriteKind, SyncCollection, SyncConfig, SyncEndpoint, SyncResult, SyncStatus } from '@/types/sync';
+import {
+  getStorageProfileId,
+  getSyncEndpoint,
+  getSyncState,
+  getSyncStorage,
+  refreshRepositories,
+  saveSyncEndpoint
+} from '@/lib/storage';
+import { parseRecordKey } from './collections';
+import { SyncEngine } from './engine';
+import { EncryptedSyncTransport, importSyncKey } from './encryption';
+import {
+  getOutboxEntries,
+  isOutboxAvailable,
+  putOutboxEntries,
+  removeOutboxEntries,
+  requestOutboxReplay
+} from './outbox';
+import { PairingInfo } from './pairing';
+import { HttpSyncTransport, SyncError } from './transport';
+
+export { SyncError } from './transport';
+export { subscribeToLocalChanges } from './tracking';
+export { createSyncKey } from './encryption';
+export { createPairingLink, parsePairingCode } from './pairing';
+export { getOutboxEntries, subscribeToOutbox } from './outbox';
+export type { PairingInfo } from './pairing';
+
+// Where `npm run sync-server` listens by default
+export const DEFAULT_SYNC_SERVER_URL = 'http://localhost:8787';
+
+const SPACE_ID_PATTERN = /^[A-Za-z0-9_-]{8,64}$/;
+
+const IDLE_STATUS: SyncStatus = {
+  phase: 'disabled',
+  pendingChanges: 0,
+  lastSyncedAt: null,
+  lastResult: null,
+  error: null,
+};
+
+let status: SyncStatus = IDLE_STATUS;
+let running: Promise<SyncResult> | null = null;
+const statusListeners = new Set<(status: SyncStatus) => void>();
+const remoteChangeListeners = new Set<() => void>();
+
+const randomId = (length: number): string => {
+  const alphabet = 'abcdefghijklmnopqrstuvwxyz0123456789';
+  return Array.from(crypto.getRandomValues(new Uint8Array(length)))
+    .map(byte => alphabet[byte % alphabet.length])
+    .join('');
+};
+
+/**
+ * A new server-side namespace; every device of a profile syncs into the same one
+ */
+export const createSpaceId = (): string => randomId(20);
+
+const setStatus = (next: Partial<SyncStatus>) => {
+  status = { ...status, ...next };
+  statusListeners.forEach(listener => listener(status));
+};
+
+export const getSyncStatus = (): SyncStatus => status;
+
+export const subscribeToSyncStatus = (listener: (status: SyncStatus) => void): (() => void) => {
+  statusListeners.add(listener);
+  return () => {
+    statusListeners.delete(listener);
+  };
+};
+
+/**
+ * Notified when a sync wrote remote changes into the local stores, so views can reload
+ */
+export const subscribeToRemoteChanges = (listener: () => void): (() => void) => {
+  remoteChangeListeners.add(listener);
+  return () => {
+    remoteChangeListeners.delete(listener);
+  };
+};
+
+export const getSyncConfig = async (): Promise<SyncConfig | undefined> => (await getSyncState()).getConfig();
+
+export { getSyncEndpoint } from '@/lib/storage';
+
+/**
+ * Re-read config and pending count for the active profile, e.g. after a profile switch
+ */
+export const refreshSyncStatus = async (): Promise<void> => {
+  const state = await getSyncState();
+  const config = await state.getConfig();
+  if (!config) {
+    setStatus(IDLE_STATUS);
+    return;
+  }
+
+  setStatus({
+    phase: status.phase === 'disabled' ? 'idle' : status.phase,
+    pendingChanges: (await state.getDirtyKeys()).length,
+    lastSyncedAt: config.lastSyncedAt,
+  });
+};
+
+/**
+ * Forget the previous profile's status and load the active one's
+ */
+export const resetSyncStatus = async (): Promise<void> => {
+  setStatus(IDLE_STATUS);
+  await refreshSyncStatus();
+};
+
+/**
+ * Start syncing the active profile with a space on a server, either a new
+ * one or one joined by pairing. Every existing record is encrypted and
+ * uploaded on the first sync and merged with what the space holds.
+ */
+export const enableSync = async ({ serverUrl, spaceId, encryptionKey }: PairingInfo): Promise<void> => {
+  let url: URL;
+  try {
+    url = new URL(serverUrl.trim());
+  } catch (err) {
+    throw new SyncError('Enter a valid server address, e.g. http://localhost:8787');
+  }
+  if (!SPACE_ID_PATTERN.test(spaceId.trim())) {
+    throw new SyncError('A sync space id is 8–64 letters, digits, dashes or underscores');
+  }
+  await importSyncKey(encryptionKey);
+
+  // The endpoint first: while locked this throws before any config is written
+  await saveSyncEndpoint({ serverUrl: url.toString().replace(/\/+$/, ''), spaceId: spaceId.trim(), encryptionKey });
+
+  const state = await getSyncState();
+  const existing = await state.getConfig();
+  const now = new Date().toISOString();
+  await state.saveConfig({
+    deviceId: existing?.deviceId || randomId(12),
+    cursor: 0,
+    baselineDone: false,
+    lastSyncedAt: null,
+    updatedAt: now,
+  });
+
+  refreshRepositories();
+  setStatus({ phase: 'idle', error: null, lastResult: null });
+  await refreshSyncStatus();
+};
+
+/**
+ * Stop syncing; local data stays as it is
+ */
+export const disableSync = async (): Promise<void> => {
+  const state = await getSyncState();
+  await state.removeConfig();
+  await saveSyncEndpoint(null);
+  refreshRepositories();
+  await refreshSyncStatus();
+};
+
+const createTransports = async (config: SyncConfig, endpoint: SyncEndpoint | null) => {
+  if (!endpoint) throw new SyncError('Sync needs to be set up again to turn on end-to-end encryption');
+  const http = new HttpSyncTransport(endpoint.serverUrl, endpoint.spaceId, config.deviceId);
+  return { http, encrypted: new EncryptedSyncTransport(http, await importSyncKey(endpoint.encryptionKey)) };
+};
+
+const isOfflineError = (err: unknown): boolean => err instanceof SyncError && err.status === 0;
+
+// Writes the service worker replays while offline; everything else waits for the next sync
+const OUTBOX_COLLECTIONS: Partial<Record<SyncCollection, OutboxWriteKind>> = {
+  moodEntries: 'moodEntry',
+  goalProgress: 'goalProgress',
+};
+
+/**
+ * Seal the pending mood entry and goal progress uploads into the outbox and
+ * ask the service worker to send them when the connection returns
+ */
+export const queueOfflineWrites = async (): Promise<void> => {
+  if (!isOutboxAvailable()) return;
+  const { repositories, state } = await getSyncStorage();
+  const config = await state.getConfig();
+  if (!config) return;
+
+  const keys = (await state.getDirtyKeys()).filter(key => OUTBOX_COLLECTIONS[parseRecordKey(key).collection]);
+  if (keys.length === 0) return;
+
+  const { http, encrypted } = await createTransports(config, await getSyncEndpoint());
+  const changes = await new SyncEngine(repositories, state, encrypted).buildPushChanges(keys);
+  const sealed = await encrypted.sealChanges(changes);
+  const profileId = await getStorageProfileId();
+  const queued = new Map((await getOutboxEntries(profileId)).map(entry => [entry.id, entry] as [string, OutboxEntry]));
+
+  await putOutboxEntries(changes.map((change, i) => {
+    const id = `${profileId}|${change.key}`;
+    const { url, body } = http.getPushRequest([sealed[i]]);
+    return {
+      id,
+      profileId,
+      kind: OUTBOX_COLLECTIONS[change.payload.collection] as OutboxWriteKind,
+      recordKey: change.key,
+      url,
+      body,
+      queuedAt: queued.get(id)?.queuedAt || new Date().toISOString(),
+      attempts: queued.get(id)?.attempts || 0,
+      state: 'pending',
+      lastError: null,
+    };
+  }));
+  await requestOutboxReplay();
+};
+
+/**
+ * Drop queued uploads the last sync delivered (or that the service worker
+ * already replayed and the sync merged back)
+ */
+const settleOutbox = async (dirtyKeys: string[]): Promise<void> => {
+  if (!isOutboxAvailable()) return;
+  const pending = new Set(dirtyKeys);
+  const entries = await getOutboxEntries(await getStorageProfileId());
+  await removeOutboxEntries(entries.filter(entry => !pending.has(entry.recordKey)).map(entry => entry.id));
+};
+
+const runSync = async (): Promise<SyncResult> => {
+  const { repositories, state } = await getSyncStorage();
+  const config = await state.getConfig();
+  if (!config) throw new SyncError('Sync is not set up');
+
+  setStatus({ phase: 'syncing', error: null });
+  try {
+    const { encrypted } = await createTransports(config, await getSyncEndpoint());
+    const result = await new SyncEngine(repositories, state, encrypted).sync();
+    setStatus({ phase: 'idle', lastResult: result });
+    if (result.pulled > 0) remoteChangeListeners.forEach(listener => listener());
+    await settleOutbox(await state.getDirtyKeys()).catch(err => console.error('Error clearing the offline queue:', err));
+    return result;
+  } catch (err) {
+    setStatus({ phase: 'error', error: err instanceof SyncError ? err.message : 'Sync failed' });
+    if (isOfflineError(err)) {
+      await queueOfflineWrites().catch(queueError => console.error('Error queueing offline writes:', queueError));
+    }
+    throw err;
+  } finally {
+    await refreshSyncStatus().catch(() => undefined);
+  }
+};
+
+/**
+ * Pull, merge and push now. Calls made while a sync is running share its result.
+ */
+export const syncNow = (): Promise<SyncResult> => {
+  if (!running) {
+    running = runSync().finally(() => {
+      running = null;
+    });
+  }
+  return running;
+};
+
+/**
+ * Try the queued uploads again: a full sync when online, which also merges
+ * any that conflicted with another device, otherwise another Background Sync
+ */
+export const retryPendingChanges = async (): Promise<void> => {
+  const profileId = await getStorageProfileId();
+  const entries = await getOutboxEntries(profileId);
+  await putOutboxEntries(entries.map(entry => ({ ...entry, state: 'pending' as const, lastError: null })));
+
+  if (navigator.onLine) {
+    await syncNow();
+  } else {
+    await requestOutboxReplay();
+  }
+};
+
+/**
+ * Stop trying to upload a queued change. The record stays on this device as
+ * it is and is uploaded again only if it is edited.
+ */
+export const discardPendingChange = async (entry: OutboxEntry): Promise<void> => {
+  const state = await getSyncState();
+  await state.update([entry.recordKey], states => {
+    states[entry.recordKey].dirty = false;
+  });
+  await removeOutboxEntries([entry.id]);
+  await refreshSyncStatus();
+};
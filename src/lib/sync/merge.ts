@@ -0,0 +1,71 @@
+// src/lib/sync/merge.ts
+import { FieldClocks } from '@/types/sync';
+import { stableStringify } from '@/lib/backup/checksum';
+import { maxClock, ZERO_CLOCK } from './clock';
+
+// Deletion is merged like any other field: the later of a delete and a restore (e.g. undo) wins
+export const DELETED_FIELD = '_deleted';
+
+/**
+ * One side of a merge: the record's JSON (null when this side never had or
+ * no longer keeps the values) and the clock of the last write to each field
+ */
+export interface VersionedRecord {
+  data: Record<string, unknown> | null;
+  clocks: FieldClocks;
+  deleted: boolean;
+}
+
+export interface MergeResult extends VersionedRecord {
+  localChanged: boolean; // Merged values differ from the local side
+  remoteChanged: boolean; // Merged values differ from the remote side, so it must be pushed
+}
+
+const sameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+/**
+ * Fields whose values differ between two JSON records (missing counts as a value)
+ */
+export const changedFields = (
+  before: Record<string, unknown> | null,
+  after: Record<string, unknown>
+): string[] => {
+  const fields = Object.keys({ ...before, ...after });
+  return before ? fields.filter(field => !sameValue(before[field], after[field])) : fields;
+};
+
+const differs = (a: VersionedRecord, b: VersionedRecord): boolean =>
+  a.deleted !== b.deleted || (!a.deleted && !sameValue(a.data, b.data));
+
+/**
+ * Last-writer-wins per field: every field takes the value from whichever side
+ * wrote it last, so edits to different fields on two devices both survive.
+ * Equal clocks mean the same write, and the local value is kept.
+ */
+export const mergeRecords = (local: VersionedRecord, remote: VersionedRecord): MergeResult => {
+  const fields = Object.keys({ ...local.clocks, ...remote.clocks });
+  const data: Record<string, unknown> = {};
+  const clocks: FieldClocks = {};
+
+  fields.forEach(field => {
+    const localClock = local.clocks[field] || ZERO_CLOCK;
+    const remoteClock = remote.clocks[field] || ZERO_CLOCK;
+    const useRemote = remoteClock > localClock && (field === DELETED_FIELD || remote.data !== null);
+    clocks[field] = maxClock(localClock, remoteClock);
+    if (field === DELETED_FIELD) return;
+
+    const source = useRemote ? remote.data : local.data || remote.data;
+    if (source && source[field] !== undefined) data[field] = source[field];
+  });
+
+  const localDeletedClock = local.clocks[DELETED_FIELD] || ZERO_CLOCK;
+  const remoteDeletedClock = remote.clocks[DELETED_FIELD] || ZERO_CLOCK;
+  const deleted = remoteDeletedClock > localDeletedClock ? remote.deleted : local.deleted;
+
+  const merged: VersionedRecord = { data: deleted ? null : data, clocks, deleted };
+  return {
+    ...merged,
+    localChanged: differs(merged, local),
+    remoteChanged: differs(merged, remote),
+  };
+};
@@ -0,0 +1,107 @@
+// src/lib/sync/outbox.ts
+import { OutboxEntry } from '@/types/sync';
+import { isIndexedDBAvailable, requestToPromise, transactionDone } from '@/lib/storage/indexeddb';
+
+// Shared with public/sw-outbox.js, which replays the queue; keep the two in step
+export const OUTBOX_DB_NAME = 'herflowstate-outbox';
+export const OUTBOX_SYNC_TAG = 'herflow-outbox';
+const OUTBOX_DB_VERSION = 1;
+const OUTBOX_STORE = 'requests';
+const OUTBOX_UPDATED_MESSAGE = 'outbox-updated';
+
+interface BackgroundSyncRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+}
+
+const listeners = new Set<() => void>();
+
+const notify = () => listeners.forEach(listener => listener());
+
+export const isOutboxAvailable = (): boolean => isIndexedDBAvailable();
+
+/**
+ * The queue lives in its own database, outside the per-profile ones, so the
+ * service worker can open it without knowing about profiles or their schemas
+ */
+const openOutbox = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    const request = indexedDB.open(OUTBOX_DB_NAME, OUTBOX_DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+      store.createIndex('profileId', 'profileId', { unique: false });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withOutbox = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => Promise<T> | T): Promise<T> => {
+  const db = await openOutbox();
+  try {
+    const tx = db.transaction(OUTBOX_STORE, mode);
+    const result = await action(tx.objectStore(OUTBOX_STORE));
+    await transactionDone(tx);
+    return result;
+  } finally {
+    db.close();
+  }
+};
+
+export const getOutboxEntries = async (profileId: string): Promise<OutboxEntry[]> => {
+  if (!isOutboxAvailable()) return [];
+  const entries = await withOutbox('readonly', store =>
+    requestToPromise<OutboxEntry[]>(store.index('profileId').getAll(profileId))
+  );
+  return entries.sort((a, b) => a.queuedAt.localeCompare(b.queuedAt));
+};
+
+export const putOutboxEntries = async (entries: OutboxEntry[]): Promise<void> => {
+  if (entries.length === 0) return;
+  await withOutbox('readwrite', store => {
+    entries.forEach(entry => store.put(entry));
+  });
+  notify();
+};
+
+export const removeOutboxEntries = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  await withOutbox('readwrite', store => {
+    ids.forEach(id => store.delete(id));
+  });
+  notify();
+};
+
+export const clearProfileOutbox = async (profileId: string): Promise<void> => {
+  if (!isOutboxAvailable()) return;
+  await removeOutboxEntries((await getOutboxEntries(profileId)).map(entry => entry.id));
+};
+
+/**
+ * Ask the service worker to replay the queue once the connection is back.
+ * Resolves false where Background Sync is unsupported; the app then uploads
+ * the same changes itself on its next sync.
+ */
+export const requestOutboxReplay = async (): Promise<boolean> => {
+  if (typeof navigator === 'undefined' || !('serviceWorker' in navigator)) return false;
+  const registration = (await navigator.serviceWorker.getRegistration()) as BackgroundSyncRegistration | undefined;
+  if (!registration?.sync) return false;
+  await registration.sync.register(OUTBOX_SYNC_TAG);
+  return true;
+};
+
+/**
+ * Notified when the queue changes, here or in the service worker
+ */
+export const subscribeToOutbox = (listener: () => void): (() => void) => {
+  listeners.add(listener);
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === OUTBOX_UPDATED_MESSAGE) listener();
+  };
+  const serviceWorker = typeof navigator !== 'undefined' && 'serviceWorker' in navigator ? navigator.serviceWorker : null;
+  serviceWorker?.addEventListener('message', handleMessage);
+
+  return () => {
+    listeners.delete(listener);
+    serviceWorker?.removeEventListener('message', handleMessage);
+  };
+};
@@ -0,0 +1,51 @@
+// src/lib/sync/pairing.ts
+import { SyncEndpoint } from '@/types/sync';
+import { fromBase64Url, toBase64Url } from '@/lib/crypto';
+import { SyncError } from './transport';
+
+export const SYNC_PAGE_PATH = '/goal-tracker/sync/';
+
+const PAIRING_PARAM = 'pair';
+const PAIRING_VERSION = 1;
+
+// Everything a second device needs to join a profile's sync space
+export type PairingInfo = SyncEndpoint;
+
+interface PairingCode {
+  v: number;
+  u: string;
+  s: string;
+  k: string;
+}
+
+/**
+ * A link to the sync page carrying the pairing info in its fragment, which
+ * browsers never send to a server. Scanning it as a QR code with the phone's
+ * camera opens the app ready to join.
+ */
+export const createPairingLink = (info: PairingInfo, origin: string): string => {
+  const code: PairingCode = { v: PAIRING_VERSION, u: info.serverUrl, s: info.spaceId, k: info.encryptionKey };
+  const encoded = toBase64Url(new TextEncoder().encode(JSON.stringify(code)));
+  return `${origin}${SYNC_PAGE_PATH}#${PAIRING_PARAM}=${encoded}`;
+};
+
+/**
+ * Accepts a full pairing link, just its fragment, or the bare code
+ */
+export const parsePairingCode = (text: string): PairingInfo => {
+  const trimmed = text.trim();
+  const match = new RegExp(`[#&?]${PAIRING_PARAM}=([A-Za-z0-9_-]+)`).exec(trimmed);
+  const encoded = match ? match[1] : trimmed;
+
+  let code: PairingCode;
+  try {
+    code = JSON.parse(new TextDecoder().decode(fromBase64Url(encoded)));
+  } catch (err) {
+    throw new SyncError('This pairing code is not valid');
+  }
+
+  if (code.v !== PAIRING_VERSION || !code.u || !code.s || !code.k) {
+    throw new SyncError('This pairing code is not valid');
+  }
+  return { serverUrl: code.u, spaceId: code.s, encryptionKey: code.k };
+};
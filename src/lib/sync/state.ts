@@ -0,0 +1,138 @@
+// src/lib/sync/state.ts
+import { RecordSyncState, SyncConfig, SyncEndpoint } from '@/types/sync';
+import { KeyValueBackend } from '@/lib/storage/repository';
+import { HybridClock } from './clock';
+
+const CONFIG_KEY = 'config';
+const ENDPOINT_KEY = 'endpoint';
+const DIRTY_INDEX_KEY = 'dirty';
+const RECORD_PREFIX = 'record:';
+
+export const createRecordSyncState = (): RecordSyncState => ({ clocks: {}, deleted: false, seq: 0, dirty: false });
+
+const ENDPOINT_FIELDS: (keyof SyncEndpoint)[] = ['serverUrl', 'spaceId', 'encryptionKey'];
+
+/**
+ * Sync bookkeeping for one profile, kept in plain text beside its stores:
+ * the config, a clock set per record and an index of records awaiting upload.
+ * The endpoint is only kept here while encryption is off; the vault holds it
+ * otherwise. Updates run one at a time, so concurrent writes never lose each
+ * other's clocks.
+ */
+export class SyncStateStore {
+  private queue: Promise<unknown> = Promise.resolve();
+  private clock: HybridClock | null = null;
+
+  constructor(private backend: KeyValueBackend) {}
+
+  getConfig(): Promise<SyncConfig | undefined> {
+    return this.backend.read<SyncConfig>(CONFIG_KEY);
+  }
+
+  async saveConfig(config: SyncConfig): Promise<void> {
+    await this.enqueue(() => this.backend.writeMany({ [CONFIG_KEY]: config }));
+  }
+
+  async removeConfig(): Promise<void> {
+    await this.enqueue(() => this.backend.remove([CONFIG_KEY, DIRTY_INDEX_KEY, ENDPOINT_KEY]));
+    this.clock = null;
+  }
+
+  getEndpoint(): Promise<SyncEndpoint | undefined> {
+    return this.backend.read<SyncEndpoint>(ENDPOINT_KEY);
+  }
+
+  async saveEndpoint(endpoint: SyncEndpoint | null): Promise<void> {
+    await this.enqueue(() =>
+      endpoint ? this.backend.writeMany({ [ENDPOINT_KEY]: endpoint }) : this.backend.remove([ENDPOINT_KEY])
+    );
+  }
+
+  /**
+   * Configs written before the endpoint moved out of them carried it in
+   * plain text. Hands it back once, stripping it from the stored config.
+   */
+  async takeLegacyEndpoint(): Promise<SyncEndpoint | null> {
+    return this.enqueue(async () => {
+      const stored = await this.backend.read<SyncConfig & Partial<SyncEndpoint>>(CONFIG_KEY);
+      if (!stored || !stored.encryptionKey || !stored.serverUrl || !stored.spaceId) return null;
+
+      const config = { ...stored };
+      ENDPOINT_FIELDS.forEach(field => delete config[field]);
+      await this.backend.writeMany({ [CONFIG_KEY]: config });
+      return { serverUrl: stored.serverUrl, spaceId: stored.spaceId, encryptionKey: stored.encryptionKey };
+    });
+  }
+
+  async getStates(keys: string[]): Promise<Record<string, RecordSyncState>> {
+    const states: Record<string, RecordSyncState> = {};
+    for (const key of keys) {
+      states[key] = (await this.backend.read<RecordSyncState>(RECORD_PREFIX + key)) || createRecordSyncState();
+    }
+    return states;
+  }
+
+  async getDirtyKeys(): Promise<string[]> {
+    return (await this.backend.read<string[]>(DIRTY_INDEX_KEY)) || [];
+  }
+
+  /**
+   * Read the states of `keys`, let `updater` change them in place, then write
+   * them back together with the dirty index
+   */
+  async update(keys: string[], updater: (states: Record<string, RecordSyncState>) => void): Promise<void> {
+    await this.enqueue(async () => {
+      const states = await this.getStates(keys);
+      updater(states);
+
+      const dirty = new Set(await this.getDirtyKeys());
+      const values: Record<string, unknown> = {};
+      keys.forEach(key => {
+        values[RECORD_PREFIX + key] = states[key];
+        if (states[key].dirty) {
+          dirty.add(key);
+        } else {
+          dirty.delete(key);
+        }
+      });
+      values[DIRTY_INDEX_KEY] = Array.from(dirty);
+      await this.backend.writeMany(values);
+    });
+  }
+
+  /**
+   * Replace the dirty index wholesale, e.g. when sync starts over against a new space
+   */
+  async setDirtyKeys(keys: string[]): Promise<void> {
+    await this.enqueue(() => this.backend.writeMany({ [DIRTY_INDEX_KEY]: keys }));
+  }
+
+  /**
+   * A clock for a local write; sync has to be configured
+   */
+  async tick(): Promise<string> {
+    return (await this.getClock()).now();
+  }
+
+  /**
+   * Keep local clocks ahead of every clock seen from other devices
+   */
+  async observe(clock: string): Promise<void> {
+    (await this.getClock()).observe(clock);
+  }
+
+  private async getClock(): Promise<HybridClock> {
+    if (!this.clock) {
+      const config = await this.getConfig();
+      if (!config) throw new Error('Sync is not configured');
+      this.clock = new HybridClock(config.deviceId);
+    }
+    return this.clock;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+}
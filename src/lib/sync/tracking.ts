@@ -0,0 +1,190 @@
+// src/lib/sync/tracking.ts
+import { MoodEntry } from '@/types/mood-tracker';
+import { Goal, GoalProgress } from '@/types/goals';
+import { GoalRepository, MoodRepository, Repositories } from '@/lib/storage/repository';
+import { changedFields, DELETED_FIELD } from './merge';
+import { flattenProgress, getRecordKey, SYNC_COLLECTIONS, SyncCollectionAdapter, toSyncData } from './collections';
+import { SyncStateStore } from './state';
+
+interface RecordChange<T> {
+  previous: T | undefined;
+  next: T | null; // null = deleted
+}
+
+const localChangeListeners = new Set<() => void>();
+
+/**
+ * Notified after every tracked write, e.g. to schedule the next sync
+ */
+export const subscribeToLocalChanges = (listener: () => void): (() => void) => {
+  localChangeListeners.add(listener);
+  return () => {
+    localChangeListeners.delete(listener);
+  };
+};
+
+/**
+ * Pair up two snapshots of a store by id: updates, additions and removals
+ */
+export const diffRecords = <T>(adapter: SyncCollectionAdapter<T>, before: T[], after: T[]): RecordChange<T>[] => {
+  const previousById = new Map(before.map(record => [adapter.getId(record), record] as [string, T]));
+  const nextIds = new Set(after.map(record => adapter.getId(record)));
+
+  return [
+    ...after.map(record => ({ previous: previousById.get(adapter.getId(record)), next: record })),
+    ...before.filter(record => !nextIds.has(adapter.getId(record))).map(record => ({ previous: record, next: null })),
+  ];
+};
+
+/**
+ * Stamps every field a write touched with a fresh clock and marks the record
+ * dirty, so the next sync uploads it and merges it field by field
+ */
+export class ChangeTracker {
+  constructor(private state: SyncStateStore) {}
+
+  async record<T>(adapter: SyncCollectionAdapter<T>, changes: RecordChange<T>[]): Promise<void> {
+    const touched = changes
+      .map(change => ({
+        ...change,
+        key: getRecordKey(adapter.name, adapter.getId((change.next || change.previous) as T)),
+        fields: change.next
+          ? changedFields(change.previous ? toSyncData(change.previous) : null, toSyncData(change.next))
+          : [],
+      }))
+      .filter(change => change.next === null ? change.previous !== undefined : change.fields.length > 0);
+    if (touched.length === 0) return;
+
+    const clock = await this.state.tick();
+    await this.state.update(touched.map(change => change.key), states => {
+      touched.forEach(({ key, next, fields }) => {
+        const state = states[key];
+        if (next === null || state.deleted) {
+          state.clocks[DELETED_FIELD] = clock;
+          state.deleted = next === null;
+        }
+        fields.forEach(field => {
+          state.clocks[field] = clock;
+        });
+        state.dirty = true;
+      });
+    });
+
+    localChangeListeners.forEach(listener => listener());
+  }
+}
+
+class TrackedMoodRepository implements MoodRepository {
+  constructor(private inner: MoodRepository, private tracker: ChangeTracker) {}
+
+  getAll(): Promise<MoodEntry[]> {
+    return this.inner.getAll();
+  }
+
+  get(id: string): Promise<MoodEntry | undefined> {
+    return this.inner.get(id);
+  }
+
+  getByDate(date: string): Promise<MoodEntry[]> {
+    return this.inner.getByDate(date);
+  }
+
+  getInRange(startDate: string, endDate: string): Promise<MoodEntry[]> {
+    return this.inner.getInRange(startDate, endDate);
+  }
+
+  async put(entry: MoodEntry): Promise<void> {
+    await this.putMany([entry]);
+  }
+
+  async putMany(entries: MoodEntry[]): Promise<void> {
+    const previous = await Promise.all(entries.map(entry => this.inner.get(entry.id)));
+    await this.inner.putMany(entries);
+    await this.tracker.record(SYNC_COLLECTIONS.moodEntries, entries.map((next, i) => ({ previous: previous[i], next })));
+  }
+
+  async delete(id: string): Promise<void> {
+    const previous = await this.inner.get(id);
+    await this.inner.delete(id);
+    await this.tracker.record(SYNC_COLLECTIONS.moodEntries, [{ previous, next: null }]);
+  }
+
+  async replaceAll(entries: MoodEntry[]): Promise<void> {
+    const before = await this.inner.getAll();
+    await this.inner.replaceAll(entries);
+    await this.tracker.record(SYNC_COLLECTIONS.moodEntries, diffRecords(SYNC_COLLECTIONS.moodEntries, before, entries));
+  }
+}
+
+class TrackedGoalRepository implements GoalRepository {
+  constructor(private inner: GoalRepository, private tracker: ChangeTracker) {}
+
+  getAll(): Promise<Goal[]> {
+    return this.inner.getAll();
+  }
+
+  get(id: string): Promise<Goal | undefined> {
+    return this.inner.get(id);
+  }
+
+  async put(goal: Goal): Promise<void> {
+    const previous = await this.inner.get(goal.id);
+    await this.inner.put(goal);
+    await this.tracker.record(SYNC_COLLECTIONS.goals, [{ previous, next: goal }]);
+  }
+
+  // Deleting a goal also deletes its progress, so those records get tombstones too
+  async delete(id: string): Promise<void> {
+    const previous = await this.inner.get(id);
+    const progress = await this.inner.getProgress(id);
+    await this.inner.delete(id);
+    await this.tracker.record(SYNC_COLLECTIONS.goals, [{ previous, next: null }]);
+    await this.tracker.record(SYNC_COLLECTIONS.goalProgress, progress.map(record => ({ previous: record, next: null })));
+  }
+
+  async replaceAll(goals: Goal[]): Promise<void> {
+    const before = await this.inner.getAll();
+    await this.inner.replaceAll(goals);
+    await this.tracker.record(SYNC_COLLECTIONS.goals, diffRecords(SYNC_COLLECTIONS.goals, before, goals));
+  }
+
+  getProgress(goalId: string): Promise<GoalProgress[]> {
+    return this.inner.getProgress(goalId);
+  }
+
+  getAllProgress(): Promise<Record<string, GoalProgress[]>> {
+    return this.inner.getAllProgress();
+  }
+
+  async addProgress(progress: GoalProgress): Promise<void> {
+    await this.inner.addProgress(progress);
+    await this.tracker.record(SYNC_COLLECTIONS.goalProgress, [{ previous: undefined, next: progress }]);
+  }
+
+  async removeProgress(progress: GoalProgress): Promise<void> {
+    await this.inner.removeProgress(progress);
+    await this.tracker.record(SYNC_COLLECTIONS.goalProgress, [{ previous: progress, next: null }]);
+  }
+
+  async replaceAllProgress(progress: Record<string, GoalProgress[]>): Promise<void> {
+    const before = flattenProgress(await this.inner.getAllProgress());
+    await this.inner.replaceAllProgress(progress);
+    await this.tracker.record(
+      SYNC_COLLECTIONS.goalProgress,
+      diffRecords(SYNC_COLLECTIONS.goalProgress, before, flattenProgress(progress))
+    );
+  }
+}
+
+/**
+ * Wrap the mood and goal stores so every write is recorded for sync.
+ * History and settings stay device-local.
+ */
+export const createTrackedRepositories = (repositories: Repositories, state: SyncStateStore): Repositories => {
+  const tracker = new ChangeTracker(state);
+  return {
+    ...repositories,
+    moods: new TrackedMoodRepository(repositories.moods, tracker),
+    goals: new TrackedGoalRepository(repositories.goals, tracker),
+  };
+};
@@ -0,0 +1,69 @@
+// src/lib/sync/transport.ts
+import { EncryptedSyncPayload, PullResponse, PushChange, PushResponse, SyncRecordPayload } from '@/types/sync';
+
+/**
+ * Thrown when the sync server cannot be reached or rejects a request
+ */
+export class SyncError extends Error {
+  constructor(message: string, public status?: number) { // status 0 = no response at all
+    super(message);
+    this.name = 'SyncError';
+    Object.setPrototypeOf(this, SyncError.prototype);
+  }
+}
+
+/**
+ * The two calls of the sync protocol. The server stores payloads as-is and
+ * never merges: a push is accepted per record only if `baseSeq` is still the
+ * latest sequence it holds for that record.
+ */
+export interface SyncTransport<P = SyncRecordPayload> {
+  pull(cursor: number): Promise<PullResponse<P>>;
+  push(changes: PushChange<P>[]): Promise<PushResponse>;
+}
+
+/**
+ * Talks to the sync server; only ever carries encrypted payloads
+ */
+export class HttpSyncTransport implements SyncTransport<EncryptedSyncPayload> {
+  private readonly endpoint: string;
+
+  constructor(serverUrl: string, spaceId: string, private readonly deviceId: string) {
+    this.endpoint = `${serverUrl.replace(/\/+$/, '')}/v1/spaces/${encodeURIComponent(spaceId)}/changes`;
+  }
+
+  pull(cursor: number): Promise<PullResponse<EncryptedSyncPayload>> {
+    return this.request<PullResponse<EncryptedSyncPayload>>(`${this.endpoint}?since=${cursor}`, { method: 'GET' });
+  }
+
+  push(changes: PushChange<EncryptedSyncPayload>[]): Promise<PushResponse> {
+    const { url, body } = this.getPushRequest(changes);
+    return this.request<PushResponse>(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body,
+    });
+  }
+
+  /**
+   * The POST a push sends, for replaying it later from the service worker
+   */
+  getPushRequest(changes: PushChange<EncryptedSyncPayload>[]): { url: string; body: string } {
+    return { url: this.endpoint, body: JSON.stringify({ deviceId: this.deviceId, changes }) };
+  }
+
+  private async request<T>(url: string, init: RequestInit): Promise<T> {
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (err) {
+      throw new SyncError('Sync server is unreachable', 0);
+    }
+
+    if (!response.ok) {
+      const body = await response.json().catch(() => null);
+      throw new SyncError(body?.error || `Sync server responded with ${response.status}`, response.status);
+    }
+    return response.json();
+  }
+}
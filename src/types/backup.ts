@@ -0,0 +1,57 @@
+// src/types/backup.ts
+import { MoodEntry } from './mood-tracker';
+import { Goal, GoalProgress } from './goals';
+import { Operation } from './history';
+import { AppSettings } from './settings';
+
+export type BackupStoreName = 'moodEntries' | 'goals' | 'goalProgress' | 'settings' | 'operations';
+
+export interface BackupStoreManifest {
+  count: number;
+  checksum: string; // SHA-256 hex of the store's canonical JSON
+}
+
+export interface BackupManifest {
+  format: string;
+  formatVersion: number;
+  createdAt: string; // ISO
+  moodEntrySchemaVersion: number;
+  stores: Record<BackupStoreName, BackupStoreManifest>;
+}
+
+export interface BackupData {
+  moodEntries: MoodEntry[];
+  goals: Goal[];
+  goalProgress: GoalProgress[]; // Flat list; grouped by goalId on restore
+  settings: AppSettings;
+  operations: Operation[];
+}
+
+export interface BackupBundle {
+  manifest: BackupManifest;
+  data: BackupData;
+}
+
+export interface BackupValidationIssue {
+  path: string; // e.g. "data.moodEntries[3].mood"
+  message: string;
+}
+
+export type RestoreStrategy = 'replace' | 'merge';
+export type RestoreMode = RestoreStrategy | 'dry-run';
+
+export interface StoreChangeSummary {
+  added: number;
+  updated: number;
+  unchanged: number;
+  removed: number;
+}
+
+export type RestoreChanges = Record<BackupStoreName, StoreChangeSummary>;
+
+export interface RestoreReport {
+  mode: RestoreMode;
+  applied: boolean;
+  // A dry run previews both strategies; an applied restore reports the one it ran
+  changes: Partial<Record<RestoreStrategy, RestoreChanges>>;
+}
@@ -0,0 +1,40 @@
+// src/types/encryption.ts
+import { BackupStoreName } from './backup';
+
+// Every store a backup covers is encrypted as its own blob
+export type VaultStoreName = BackupStoreName;
+
+export type LockState = 'disabled' | 'locked' | 'unlocked';
+
+export interface KeyDerivationParams {
+  algorithm: 'PBKDF2';
+  hash: 'SHA-256';
+  iterations: number;
+  salt: string; // base64
+}
+
+export interface EncryptedPayload {
+  iv: string; // base64, 12 bytes, fresh for every write
+  data: string; // base64 AES-GCM ciphertext with the auth tag appended
+}
+
+/**
+ * Stored in plain text next to the encrypted stores; holds nothing secret.
+ * `check` decrypts to a known value only under the right passphrase.
+ */
+export interface EncryptionConfig {
+  version: number;
+  kdf: KeyDerivationParams;
+  check: EncryptedPayload;
+  autoLockMinutes: number; // 0 = never
+  createdAt: string; // ISO
+  updatedAt: string; // ISO
+}
+
+export interface EncryptedBackupEnvelope {
+  format: string;
+  formatVersion: number;
+  createdAt: string; // ISO
+  kdf: KeyDerivationParams;
+  payload: EncryptedPayload; // The serialised backup bundle
+}
@@ -0,0 +1,45 @@
+// src/types/health-import.ts
+import { MoodEntry } from './mood-tracker';
+
+export type HealthSource = 'apple-health' | 'google-fit';
+
+export type HealthField = 'sleep' | 'exercise';
+
+// How an imported value combines with one already on the entry
+export type HealthConflictPolicy = 'keep' | 'overwrite' | 'average';
+
+/**
+ * Totals for one calendar day. Sleep counts toward the day you woke up;
+ * workouts toward the day they started.
+ */
+export interface DailyHealthTotals {
+  date: string; // YYYY-MM-DD
+  sleepHours?: number;
+  exerciseMinutes?: number;
+}
+
+export interface HealthParseResult {
+  source: HealthSource;
+  days: DailyHealthTotals[]; // Oldest first
+  sleepRecords: number;
+  workoutRecords: number;
+}
+
+export interface HealthFieldChange {
+  field: HealthField;
+  current: number;
+  imported: number;
+  next: number;
+}
+
+export interface HealthUpdateProposal {
+  before: MoodEntry;
+  after: MoodEntry;
+  changes: HealthFieldChange[];
+}
+
+export interface HealthUpdatePlan {
+  proposals: HealthUpdateProposal[];
+  unchanged: number; // Days with an entry where the policy kept every value
+  withoutEntry: string[]; // Days with health data but no mood entry
+}
@@ -0,0 +1,52 @@
+// src/types/history.ts
+import { MoodEntry } from './mood-tracker';
+import { Goal, GoalProgress } from './goals';
+
+export type OperationType = 'add' | 'update' | 'delete';
+
+// What triggered a logged change; undo/redo/restore entries are logged too so the trail stays complete
+export type OperationSource = 'user' | 'undo' | 'redo' | 'restore';
+
+interface BaseOperation {
+  id: string;
+  type: OperationType;
+  recordId: string;
+  timestamp: string; // ISO
+  source: OperationSource;
+}
+
+/**
+ * A single mood entry change. `before` is null for adds, `after` is null for deletes.
+ */
+export interface MoodEntryOperation extends BaseOperation {
+  target: 'moodEntry';
+  before: MoodEntry | null;
+  after: MoodEntry | null;
+}
+
+/**
+ * A progress update on a goal: the progress record plus the goal before and
+ * after its `currentValue`/metrics were recalculated. `recordId` is the goal id.
+ */
+export interface GoalProgressOperation extends BaseOperation {
+  target: 'goalProgress';
+  type: 'add' | 'delete';
+  before: Goal;
+  after: Goal;
+  progress: GoalProgress;
+}
+
+export type Operation = MoodEntryOperation | GoalProgressOperation;
+export type OperationTarget = Operation['target'];
+
+/**
+ * One stored version of a mood entry, newest first in revision lists
+ */
+export interface MoodEntryRevision {
+  operationId: string;
+  type: OperationType;
+  source: OperationSource;
+  timestamp: string;
+  snapshot: MoodEntry; // Entry as it was after this change (before it, for deletes)
+  deleted: boolean;
+}
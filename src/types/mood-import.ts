@@ -0,0 +1,93 @@
+// src/types/mood-import.ts
+import { MoodEntry } from './mood-tracker';
+
+export type MoodCsvField = keyof MoodEntry;
+
+export type CsvDateFormat = 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY';
+
+// Scores on a 1-5 scale are stretched onto the app's 1-10 scale
+export type RatingScale = 5 | 10;
+export type RatedField = 'mood' | 'energy' | 'stress' | 'nutrition';
+
+// What to do with factor names that don't match a MOOD_FACTORS id
+export type UnknownFactorPolicy = 'keep' | 'drop' | 'reject';
+
+export type CsvColumnMapping = Partial<Record<MoodCsvField, number>>; // Field -> column index
+
+export interface CsvImportOptions {
+  mapping: CsvColumnMapping;
+  dateFormat: CsvDateFormat;
+  scales: Record<RatedField, RatingScale>;
+  unknownFactors: UnknownFactorPolicy;
+}
+
+export interface ImportRowError {
+  row: number; // 1-based line in the file, header included
+  column?: string;
+  message: string;
+}
+
+export interface CsvImportResult {
+  entries: MoodEntry[];
+  errors: ImportRowError[];
+  totalRows: number;
+  unknownFactors: string[]; // Distinct unrecognised factor names seen
+}
+
+export interface MoodLabelMapping {
+  label: string; // As written by the source app
+  score: number; // MoodEntry.mood it became
+  count: number;
+}
+
+export interface ActivityMapping {
+  activity: string;
+  factorId: string | null; // null when it only fed `exercise` or matched nothing
+  countsAsExercise: boolean;
+  count: number;
+}
+
+/**
+ * What an importer did with the source file, shown before anything is saved
+ */
+export interface ImportMappingStats {
+  totalRows: number;
+  entries: number;
+  dateRange: { start: string; end: string } | null;
+  moodLabels: MoodLabelMapping[];
+  activities: ActivityMapping[]; // Most frequent first
+  notes: number; // Entries that carry a note
+}
+
+export interface ImporterResult {
+  entries: MoodEntry[];
+  errors: ImportRowError[];
+  stats: ImportMappingStats;
+}
+
+/**
+ * A third-party export format. `detect` sees the CSV header row (lowercased,
+ * trimmed) and the file name; `parse` gets the whole file.
+ */
+export interface MoodImporter {
+  id: string;
+  name: string;
+  description: string;
+  detect: (headers: string[], fileName: string) => boolean;
+  parse: (text: string) => ImporterResult;
+}
+
+/**
+ * A mood export, CSV or other app's export read the way its import would,
+ * and what merging it into the stored entries would change
+ */
+export interface MoodImportPreview {
+  fileName: string;
+  source: string; // e.g. "HerFlowState export", "CSV" or an importer's name
+  total: number; // Valid entries in the file
+  added: MoodEntry[]; // Entries merging would add
+  duplicates: number; // Already stored under the same id, left as they are
+  sameDay: number; // Added entries on a day that already has a check-in
+  skipped: number; // Rows or entries that failed validation
+  dateRange: { start: string; end: string } | null;
+}
@@ -1,9 +1,15 @@
 // src/types/mood-tracker.ts
 
+// Bump whenever the persisted MoodEntry shape changes and teach
+// src/lib/mood-migration.ts how to upgrade the previous version.
+export const MOOD_ENTRY_SCHEMA_VERSION = 2;
+
 export interface MoodEntry {
   id: string;
-  date: string;
-  timestamp: string;
+  schemaVersion: number;
+  date: string; // YYYY-MM-DD
+  timestamp: string; // ISO time the entry was first logged
+  updatedAt: string; // ISO time of the last edit
   mood: number; // 1-10 scale
   energy: number; // 1-10 scale
   stress: number; // 1-10 scale
@@ -15,17 +21,202 @@ export interface MoodEntry {
   factors: string[]; // Contributing factors
   weather?: string;
   location?: string;
+  unrecordedMetrics?: MoodEntryNumericKeys[]; // Not in the imported source; their values are placeholders the analytics skip
 }
 
-export interface CorrelationData {
-  factor: string;
+// Numeric fields of MoodEntry that the analytics treat as daily series
+export type MoodEntryNumericKeys = 'mood' | 'energy' | 'stress' | 'sleep' | 'hydration' | 'exercise' | 'nutrition';
+
+export const MOOD_ENTRY_NUMERIC_KEYS: MoodEntryNumericKeys[] = ['mood', 'energy', 'stress', 'sleep', 'hydration', 'exercise', 'nutrition'];
+
+// Part of the day a check-in was logged in, from its local timestamp
+export type TimeOfDay = 'morning' | 'afternoon' | 'evening' | 'night';
+
+/**
+ * A day's check-ins collapsed into one entry (see src/lib/check-ins.ts)
+ */
+export interface DailyMoodRollup extends MoodEntry {
+  checkIns: number; // Check-ins logged that day
+  moodRange: [number, number]; // Lowest and highest mood that day
+}
+
+/**
+ * A Pearson r with its test. `significance` is the raw p-value;
+ * `adjustedSignificance` is the Benjamini–Hochberg p across the tests run
+ * alongside it, and `isSignificant` compares that to the confidence threshold.
+ */
+export interface CorrelationEstimate {
   correlation: number;
   significance: number;
+  adjustedSignificance: number;
+  confidenceInterval: [number, number]; // Fisher z interval for r
+  isSignificant: boolean;
   sampleSize: number;
+}
+
+export interface CorrelationData extends CorrelationEstimate {
+  factor: string;
   interpretation: 'strong_positive' | 'moderate_positive' | 'weak_positive' | 
                   'weak_negative' | 'moderate_negative' | 'strong_negative' | 'negligible';
 }
 
+export interface LagCorrelation extends CorrelationEstimate {
+  lag: number; // Days between the source value and the target value; sampleSize counts day pairs
+}
+
+/**
+ * Cross-correlation of two daily series: `source` on one day against
+ * `target` `lag` days later, for every lag from 0 up to `maxLagDays`
+ */
+export interface CrossCorrelationData {
+  source: MoodEntryNumericKeys;
+  target: MoodEntryNumericKeys;
+  lags: LagCorrelation[]; // Lags with enough day pairs, shortest first
+  strongestLag: LagCorrelation | null; // Largest |r| among the lags significant after adjustment
+}
+
+/**
+ * One predictor of the mood regression: a daily metric (stress inverted, as
+ * in the correlations) or a one-hot MOOD_FACTORS id. `significance` is the
+ * partial F test of dropping it; `sampleSize` is the days the model was fit on.
+ */
+export interface RegressionCoefficient extends Pick<CorrelationEstimate, 'significance' | 'adjustedSignificance' | 'isSignificant' | 'sampleSize'> {
+  predictor: string; // Metric key or factor id
+  kind: 'metric' | 'factor';
+  label: string;
+  coefficient: number; // Mood points per unit (hour, glass, minute, scale point, or factor present)
+  standardizedCoefficient: number; // Mood SDs per predictor SD, holding the others fixed
+  partialRSquared: number; // Share of the remaining mood variance it explains over the other predictors
+  varianceInflationFactor: number; // How much collinearity with the others inflates its variance
+}
+
+/**
+ * Multiple linear regression of daily mood on the other metrics and the
+ * logged factors, fit on standardized values
+ */
+export interface MoodRegressionModel {
+  coefficients: RegressionCoefficient[]; // Largest |standardized coefficient| first
+  intercept: number;
+  rSquared: number;
+  adjustedRSquared: number;
+  ridgeLambda: number; // 0 for ordinary least squares
+  sampleSize: number;
+}
+
+/**
+ * A stretch of days whose values share one mean, between change points
+ */
+export interface MetricSegment {
+  startDate: string;
+  endDate: string;
+  mean: number;
+  days: number; // Logged days in the segment
+}
+
+export interface NearbyFactor {
+  factor: string; // MOOD_FACTORS id
+  label: string;
+  days: number; // Days it was logged on around the change
+}
+
+export interface ChangePoint {
+  metric: MoodEntryNumericKeys;
+  date: string; // First day of the new segment
+  beforeMean: number;
+  afterMean: number;
+  nearbyFactors: NearbyFactor[]; // Most often logged first
+}
+
+export interface ChangePointAnalysis {
+  metric: MoodEntryNumericKeys;
+  segments: MetricSegment[]; // Oldest first
+  changePoints: ChangePoint[];
+}
+
+/**
+ * How far one metric on one day sits from its rolling baseline, as a robust
+ * z-score: (value − median) / (1.4826 × MAD) over the baseline window
+ */
+export interface MetricDeviation {
+  metric: MoodEntryNumericKeys;
+  value: number;
+  baseline: number; // Median over the baseline window
+  zScore: number;
+}
+
+export interface AnomalousDay {
+  date: string;
+  deviations: MetricDeviation[]; // Every checked metric, largest |z| first
+  mahalanobisDistance: number | null; // Joint distance from the baseline; null when it cannot be computed
+  flaggedBy: ('robust_z' | 'mahalanobis')[];
+  explanations: string[]; // e.g. "stress 3.1σ above your 30-day baseline"
+  confidence: number; // 0-100
+}
+
+/**
+ * One metric on days a factor was logged against days it was not.
+ * `significance` comes from Welch's t-test or, for small groups, the
+ * Mann–Whitney U test; the adjustment covers every factor and metric tested.
+ */
+export interface FactorMetricImpact extends Pick<CorrelationEstimate, 'significance' | 'adjustedSignificance' | 'isSignificant' | 'sampleSize'> {
+  metric: 'mood' | 'energy' | 'stress';
+  withMean: number;
+  withoutMean: number;
+  test: 'welch_t' | 'mann_whitney_u';
+  cohensD: number; // (with − without) / pooled SD
+  cohensDInterval: [number, number]; // Bootstrap percentile interval
+}
+
+export interface FactorImpact {
+  factor: string; // MOOD_FACTORS id
+  label: string;
+  category: MoodFactorOption['category'];
+  daysWith: number;
+  daysWithout: number;
+  metrics: FactorMetricImpact[];
+  effect: 'helps' | 'hurts' | 'mixed' | 'unclear'; // From the significant metrics, lower stress counting as helping
+  score: number; // Mean Cohen's d across the metrics with stress inverted; ranks factors
+}
+
+export interface ForecastPoint {
+  date: string; // YYYY-MM-DD
+  value: number;
+  lower: number; // Prediction interval bounds
+  upper: number;
+}
+
+/**
+ * Rolling-origin cross-validation: the model is refit on everything before
+ * each fold and scored on the logged days of the `horizon` days after it
+ */
+export interface ForecastBacktest {
+  horizon: number;
+  folds: number;
+  meanAbsoluteError: number;
+  rootMeanSquaredError: number;
+  intervalCoverage: number; // Share of held-out days inside the prediction interval (0-1)
+}
+
+export interface ForecastModelResult {
+  model: 'holt_winters' | 'autoregressive';
+  description: string; // e.g. "AR(2)", with the fitted parameters
+  points: ForecastPoint[]; // Each day after the last logged one, up to 30
+  backtest: ForecastBacktest | null;
+}
+
+/**
+ * Forecast of one daily series from every model that could be fit, with the
+ * best backtested one picked out for the 7- and 30-day views
+ */
+export interface MoodForecast {
+  lastDate: string; // Last logged day; forecasts start the day after
+  intervalLevel: number; // e.g. 0.95
+  models: ForecastModelResult[];
+  preferred: ForecastModelResult; // Lowest backtest error
+  nextWeek: ForecastPoint[];
+  nextMonth: ForecastPoint[];
+}
+
 export interface StatisticalInsight {
   type: 'trend' | 'correlation' | 'anomaly' | 'pattern';
   title: string;
@@ -55,11 +246,12 @@ export interface OptimizationSuggestion {
   expectedImpact: number; // Predicted mood improvement (0-10)
   timeframe: string; // e.g., "1-2 weeks"
   difficulty: 'easy' | 'moderate' | 'challenging';
-  basedOnCorrelation: number; // The correlation coefficient this is based on
+  basedOnEffect: number; // Standardized regression coefficient, or Pearson r when there are too few days for the model
+  effectSource: 'regression' | 'correlation';
 }
 
 export interface MoodPattern {
-  patternType: 'weekly' | 'monthly' | 'seasonal' | 'cyclical';
+  patternType: 'weekly' | 'monthly' | 'seasonal' | 'cyclical' | 'time_of_day';
   description: string;
   strength: number; // How pronounced the pattern is (0-1)
   peakDays: string[]; // Days/times when mood is typically highest
@@ -84,20 +276,46 @@ export interface TrendAnalysis {
   timeframe: number; // Days of data used for analysis
 }
 
+export interface TimeOfDayPattern {
+  timeOfDay: TimeOfDay;
+  averageMood: number;
+  averageEnergy: number;
+  averageStress: number;
+  checkIns: number;
+}
+
+export interface IntradayVariability {
+  daysWithMultipleCheckIns: number;
+  averageCheckInsPerDay: number;
+  averageMoodRange: number; // Mean of each day's highest minus lowest mood
+  averageMoodStdDev: number; // Mean of each day's mood standard deviation
+  mostVariableDays: { date: string; moodRange: number }[];
+}
+
 export interface AdvancedInsights {
   correlations: CorrelationData[];
+  laggedCorrelations: CrossCorrelationData[]; // Each factor leading mood
+  crossCorrelations: CrossCorrelationData[]; // Every ordered pair of metrics
+  regression: MoodRegressionModel | null; // Null until there are enough days to fit it
+  changePoints: ChangePointAnalysis[]; // One per metric
+  anomalies: AnomalousDay[]; // Most recent first
+  factorImpacts: FactorImpact[]; // Largest |score| first
+  insights: StatisticalInsight[];
   trends: TrendAnalysis[];
   patterns: MoodPattern[];
+  timeOfDay: TimeOfDayPattern[];
+  intradayVariability: IntradayVariability;
   optimizations: OptimizationSuggestion[];
   predictions: {
-    nextWeekMood: number;
+    nextWeekMood: number; // Average of the 7-day forecast
     confidence: number;
     basedOn: string[];
+    forecast: MoodForecast | null; // Null until there are enough days to forecast
   };
 }
 
 // Utility types for form handling
-export type MoodEntryFormData = Omit<MoodEntry, 'id' | 'date' | 'timestamp'>;
+export type MoodEntryFormData = Omit<MoodEntry, 'id' | 'schemaVersion' | 'date' | 'timestamp' | 'updatedAt'>;
 
 export interface MoodFactorOption {
   id: string;
@@ -170,6 +388,14 @@ export interface AnalyticsConfig {
   minEntriesForCorrelation: number;
   minEntriesForTrends: number;
   confidenceThreshold: number;
+  maxLagDays: number;
+  ridgeLambda: number; // Ridge penalty for the mood regression; 0 fits ordinary least squares
+  minFactorDays: number; // Days a factor must be logged, and not logged, to enter the regression
+  minSegmentDays: number; // Shortest run of logged days change-point detection reports as a segment
+  changePointFactorWindowDays: number; // Days either side of a change searched for logged factors
+  anomalyBaselineDays: number; // Calendar days before a day that form its baseline
+  anomalyZThreshold: number; // Robust |z| that flags a single metric
+  anomalySignificance: number; // Mahalanobis p-value below which a day is flagged
   correlationThresholds: {
     strong: number;
     moderate: number;
@@ -181,6 +407,14 @@ export const DEFAULT_ANALYTICS_CONFIG: AnalyticsConfig = {
   minEntriesForCorrelation: 7,
   minEntriesForTrends: 14,
   confidenceThreshold: 0.05,
+  maxLagDays: 7,
+  ridgeLambda: 0,
+  minFactorDays: 3,
+  minSegmentDays: 7,
+  changePointFactorWindowDays: 3,
+  anomalyBaselineDays: 30,
+  anomalyZThreshold: 3,
+  anomalySignificance: 0.001,
   correlationThresholds: {
     strong: 0.5,
     moderate: 0.3,
@@ -0,0 +1,23 @@
+// src/types/profile.ts
+
+export type ProfileColor = 'indigo' | 'rose' | 'emerald' | 'amber' | 'sky' | 'violet';
+
+/**
+ * A person sharing the device. Each profile has its own mood, goal, settings
+ * and history stores, and its own optional passcode.
+ */
+export interface Profile {
+  id: string; // [a-z0-9-], used in database names and storage keys
+  name: string;
+  color: ProfileColor;
+  createdAt: string; // ISO
+}
+
+/**
+ * Kept in plain text so the switcher works while profiles are locked;
+ * holds names only, never data.
+ */
+export interface ProfileRegistry {
+  profiles: Profile[];
+  activeProfileId: string; // Profile the next page load opens
+}
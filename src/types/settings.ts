@@ -0,0 +1,29 @@
+// src/types/settings.ts
+
+export type ReminderDays = 'daily' | 'weekdays';
+
+/**
+ * One check-in reminder. Times are local wall-clock time on this device.
+ */
+export interface ReminderSchedule {
+  id: string;
+  time: string; // HH:MM
+  days: ReminderDays;
+  onlyIfNoEntry: boolean; // skip the reminder once the day has a check-in
+  enabled: boolean;
+}
+
+/**
+ * User preferences persisted alongside the data stores and included in backups
+ */
+export interface AppSettings {
+  weekStartsOn: 0 | 1; // 0 = Sunday, 1 = Monday
+  reminders: ReminderSchedule[];
+  updatedAt: string | null; // ISO, null until the user changes anything
+}
+
+export const DEFAULT_SETTINGS: AppSettings = {
+  weekStartsOn: 1,
+  reminders: [],
+  updatedAt: null,
+};
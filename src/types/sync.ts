@@ -0,0 +1,125 @@
+// src/types/sync.ts
+
+export type SyncCollection = 'moodEntries' | 'goals' | 'goalProgress';
+
+/**
+ * Hybrid logical clock per field, as a string that sorts in time order:
+ * zero-padded milliseconds, a counter, then the device id as a tie-breaker
+ */
+export type FieldClocks = Record<string, string>;
+
+/**
+ * Plain-text sync bookkeeping for one local record. Holds ids and clocks only,
+ * never field values.
+ */
+export interface RecordSyncState {
+  clocks: FieldClocks; // Includes DELETED_FIELD once the record was ever deleted
+  deleted: boolean;
+  seq: number; // Server sequence of the version this record was last merged with; 0 = never synced
+  dirty: boolean; // Has changes the server has not accepted yet
+}
+
+/**
+ * One record version as the sync engine sees it. Never leaves the device in
+ * this form: EncryptedSyncTransport seals it into an EncryptedSyncPayload.
+ */
+export interface SyncRecordPayload {
+  collection: SyncCollection;
+  id: string;
+  deleted: boolean;
+  data: Record<string, unknown> | null; // JSON form of the record; null for tombstones
+  clocks: FieldClocks;
+}
+
+/**
+ * What the server stores for a record: AES-GCM ciphertext of its
+ * SyncRecordPayload plus the time of its latest field change
+ */
+export interface EncryptedSyncPayload {
+  v: 1;
+  iv: string; // base64
+  data: string; // base64
+  updatedAt: string | null; // ISO
+}
+
+/**
+ * Where a profile syncs and the key its records are sealed with. Kept apart
+ * from SyncConfig: while encryption is on it lives in the vault and can only
+ * be read once unlocked.
+ */
+export interface SyncEndpoint {
+  serverUrl: string;
+  spaceId: string; // Server-side namespace shared by every device of one profile
+  encryptionKey: string; // base64url; shared between paired devices, never sent to the server
+}
+
+/**
+ * Plain-text sync bookkeeping for a profile: ids, cursors and times only
+ */
+export interface SyncConfig {
+  deviceId: string;
+  cursor: number; // Highest server sequence pulled so far
+  baselineDone: boolean; // Records written before sync was enabled have been queued for upload
+  lastSyncedAt: string | null; // ISO
+  updatedAt: string; // ISO
+}
+
+// The engine works with record keys and plain payloads; on the wire, keys are opaque and payloads encrypted
+export interface ServerChange<P = SyncRecordPayload> {
+  key: string; // `${collection}/${id}`
+  seq: number;
+  payload: P;
+}
+
+export interface PullResponse<P = SyncRecordPayload> {
+  changes: ServerChange<P>[];
+  cursor: number;
+  hasMore: boolean;
+}
+
+export interface PushChange<P = SyncRecordPayload> {
+  key: string;
+  baseSeq: number; // Rejected as a conflict unless this is still the server's latest seq for the key
+  payload: P;
+}
+
+export interface PushResponse {
+  accepted: { key: string; seq: number }[];
+  conflicts: string[];
+}
+
+export interface SyncResult {
+  pulled: number; // Remote changes that altered local data
+  pushed: number;
+  merged: number; // Records where both sides had changed fields
+  finishedAt: string; // ISO
+}
+
+export type SyncPhase = 'disabled' | 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  pendingChanges: number;
+  lastSyncedAt: string | null;
+  lastResult: SyncResult | null;
+  error: string | null;
+}
+
+export type OutboxWriteKind = 'moodEntry' | 'goalProgress';
+
+/**
+ * A sealed upload of one record, queued while offline so the service worker
+ * can replay it through Background Sync even after the app is closed
+ */
+export interface OutboxEntry {
+  id: string; // `${profileId}|${recordKey}`: a newer edit replaces the queued upload
+  profileId: string;
+  kind: OutboxWriteKind;
+  recordKey: string;
+  url: string;
+  body: string; // JSON push request with the encrypted payload, replayed as-is
+  queuedAt: string; // ISO
+  attempts: number;
+  state: 'pending' | 'failed';
+  lastError: string | null;
+}
@@ -1,6 +1,6 @@
 // src/utils/goalOptimization.ts
 
-import { Goal, GoalProgress, GoalMetrics, OptimizationAnalysis, OptimizationRecommendation } from '@/types/goals';
+import { Goal, GoalProgress, GoalMetrics, GoalStatus, OptimizationAnalysis, OptimizationRecommendation } from '@/types/goals';
 
 export class GoalOptimizer {
   /**
@@ -40,6 +40,21 @@ export class GoalOptimizer {
     };
   }
   
+  /**
+   * The goal after logging `progress` (already part of progressData): its new
+   * current value and metrics, marked completed once the target is reached
+   */
+  static applyProgress(goal: Goal, progressData: GoalProgress[], progress: GoalProgress): Goal {
+    const metrics = this.calculateGoalMetrics(goal, progressData);
+    return {
+      ...goal,
+      currentValue: progress.value,
+      updatedAt: new Date(),
+      metrics,
+      status: metrics.completionRate >= 100 ? GoalStatus.COMPLETED : goal.status
+    };
+  }
+
   /**
    * Calculate average daily progress using numerical differentiation
    */